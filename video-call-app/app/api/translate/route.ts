@@ -0,0 +1,43 @@
+// Translation proxy: runs the provider chain on the server so API keys stay
+// off the client and third-party rate limits apply to one address
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseTranslationProviders, readTranslationProvidersEnv } from '@/lib/translation/providers';
+import { TranslationCache } from '@/lib/translation/TranslationCache';
+import { TranslationProxy } from '@/lib/translation/TranslationProxy';
+import { TranslationService } from '@/lib/translation/TranslationService';
+
+// TRANSLATION_PROVIDERS is never sent to the browser, so it can hold credentials
+const proxy = new TranslationProxy({
+  service: new TranslationService({
+    providers: parseTranslationProviders(process.env.TRANSLATION_PROVIDERS ?? readTranslationProvidersEnv()),
+    cache: new TranslationCache(),
+  }),
+});
+
+/**
+ * Get the client address appended by the nearest proxy
+ */
+function getClientAddress(request: NextRequest): string | null {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    const addresses = forwarded.split(',');
+    return addresses[addresses.length - 1].trim();
+  }
+  return request.headers.get('x-real-ip');
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Expected a JSON object' }, { status: 400 });
+  }
+
+  const response = await proxy.handle(body, getClientAddress(request));
+  return NextResponse.json(response.body, {
+    status: response.status,
+    headers: 'retryAfter' in response && response.retryAfter ? { 'Retry-After': String(response.retryAfter) } : undefined,
+  });
+}
@@ -1,32 +1,87 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { useVideoCall } from '@/hooks/useVideoCall';
 import VideoDisplay from '@/components/VideoDisplay';
 import CaptionDisplay from '@/components/CaptionDisplay';
 import LanguageSelector from '@/components/LanguageSelector';
+import TranscriptExport from '@/components/TranscriptExport';
+import ChatPanel from '@/components/ChatPanel';
+import FileTransferPanel from '@/components/FileTransferPanel';
 import MediaControls from '@/components/MediaControls';
 import ConnectionStatus from '@/components/ConnectionStatus';
+import RecordingIndicator from '@/components/RecordingIndicator';
+import DeviceSettings from '@/components/DeviceSettings';
+import Lobby from '@/components/Lobby';
+import AdmissionPrompt from '@/components/AdmissionPrompt';
+import { JoinSettings } from '@/types';
 
 export default function CallPage() {
   const params = useParams();
   const router = useRouter();
   const sessionId = params.id as string;
   const [error, setError] = useState<string | null>(null);
+  const [showDeviceSettings, setShowDeviceSettings] = useState(false);
+  // Devices are checked in the lobby before the call starts
+  const [joined, setJoined] = useState(false);
 
   const {
     connectionState,
+    role,
+    admissionRequests,
+    admitParticipant,
+    denyParticipant,
+    waitingForAdmission,
+    callStats,
+    callQuality,
+    encryption,
     localStream,
-    remoteStream,
+    remoteParticipants,
     audioEnabled,
     videoEnabled,
     toggleAudio,
     toggleVideo,
+    screenStream,
+    isScreenSharing,
+    screenShareSupported,
+    toggleScreenShare,
+    isRecording,
+    recordingSupported,
+    toggleRecording,
+    remoteRecorders,
+    devices,
+    selectedDevices,
+    selectDevice,
     captions,
+    callStartedAt,
     selectedLanguage,
     setSelectedLanguage,
     supportedLanguages,
+    spokenLanguage,
+    setSpokenLanguage,
+    spokenLanguages,
+    autoDetectLanguage,
+    setAutoDetectLanguage,
+    translateOwnCaptions,
+    setTranslateOwnCaptions,
+    chatMessages,
+    sendChatMessage,
+    chatOpen,
+    setChatOpen,
+    chatUnreadCount,
+    autoTranslateChat,
+    setAutoTranslateChat,
+    fileTransfers,
+    sendFile,
+    acceptFileTransfer,
+    declineFileTransfer,
+    pauseFileTransfer,
+    resumeFileTransfer,
+    cancelFileTransfer,
+    speechEngines,
+    speechEngine,
+    selectSpeechEngine,
     startCall,
     endCall,
   } = useVideoCall({
@@ -34,10 +89,10 @@ export default function CallPage() {
     onError: setError,
   });
 
-  // Start call on mount
-  useEffect(() => {
-    startCall();
-  }, [startCall]);
+  const handleJoin = (settings: JoinSettings) => {
+    setJoined(true);
+    startCall(settings);
+  };
 
   const handleEndCall = () => {
     endCall();
@@ -62,6 +117,40 @@ export default function CallPage() {
     );
   }
 
+  if (waitingForAdmission) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
+        <div className="bg-gray-800 rounded-lg p-8 max-w-md w-full text-center">
+          <div className="text-6xl mb-4">🚪</div>
+          <h2 className="text-2xl font-bold text-white mb-2">Waiting to be let in</h2>
+          <p className="text-gray-400 mb-6">The host has been asked to admit you. This page updates as soon as they do.</p>
+          <button
+            onClick={handleEndCall}
+            className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+          >
+            Leave
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!joined) {
+    return (
+      <Lobby
+        sessionId={sessionId}
+        spokenLanguage={spokenLanguage}
+        onSpokenLanguageChange={setSpokenLanguage}
+        spokenLanguages={spokenLanguages}
+        selectedLanguage={selectedLanguage}
+        onSelectedLanguageChange={setSelectedLanguage}
+        supportedLanguages={supportedLanguages}
+        onJoin={handleJoin}
+        onLeave={() => router.push('/')}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gray-900 flex flex-col">
       {/* Header */}
@@ -69,10 +158,39 @@ export default function CallPage() {
         <div className="flex items-center justify-between flex-wrap gap-4">
           <div>
             <h1 className="text-xl font-semibold text-white">Video Call with Live Captions</h1>
-            <p className="text-sm text-gray-400">Session: {sessionId.slice(0, 8)}...</p>
+            <p className="text-sm text-gray-400">
+              Session: {sessionId.slice(0, 8)}...
+              {role && <span className="ml-2">· {role === 'host' ? 'Host' : 'Guest'}</span>}
+            </p>
           </div>
-          <div className="flex items-center gap-4">
-            <ConnectionStatus status={connectionState} />
+          <div className="flex items-center gap-4 flex-wrap">
+            <RecordingIndicator
+              recording={isRecording}
+              remoteRecorders={remoteRecorders}
+              remoteParticipants={remoteParticipants}
+            />
+            <ConnectionStatus
+              status={connectionState}
+              quality={callQuality}
+              stats={callStats}
+              encryption={encryption ?? undefined}
+            />
+            <LanguageSelector
+              id="spoken-language-select"
+              label="I speak:"
+              selectedLanguage={spokenLanguage}
+              onChange={setSpokenLanguage}
+              supportedLanguages={spokenLanguages}
+            />
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              <input
+                type="checkbox"
+                checked={autoDetectLanguage}
+                onChange={(event) => setAutoDetectLanguage(event.target.checked)}
+                className="accent-blue-500"
+              />
+              Auto-detect
+            </label>
             <LanguageSelector
               selectedLanguage={selectedLanguage}
               onChange={setSelectedLanguage}
@@ -86,6 +204,8 @@ export default function CallPage() {
       <div className="flex-1 p-4 grid grid-cols-1 lg:grid-cols-3 gap-4">
         {/* Video Section */}
         <div className="lg:col-span-2 space-y-4">
+          <AdmissionPrompt requests={admissionRequests} onAdmit={admitParticipant} onDeny={denyParticipant} />
+
           {/* Connection Instructions */}
           {connectionState === 'connecting' && (
             <div className="bg-yellow-900 bg-opacity-30 border border-yellow-500 rounded-lg p-4 text-yellow-200">
@@ -94,14 +214,26 @@ export default function CallPage() {
             </div>
           )}
           
-          {connectionState === 'connected' && !remoteStream && (
+          {connectionState === 'reconnecting' && (
+            <div className="bg-orange-900 bg-opacity-30 border border-orange-500 rounded-lg p-4 text-orange-200">
+              <p className="font-semibold">🔄 Connection lost, reconnecting...</p>
+              <p className="text-sm mt-1">Hang tight. The call will resume automatically once the network recovers.</p>
+            </div>
+          )}
+
+          {connectionState === 'connected' && remoteParticipants.some((participant) => !participant.stream) && (
             <div className="bg-blue-900 bg-opacity-30 border border-blue-500 rounded-lg p-4 text-blue-200">
               <p className="font-semibold">👤 Waiting for remote video...</p>
-              <p className="text-sm mt-1">The other participant is connected. Their video should appear shortly.</p>
+              <p className="text-sm mt-1">Participants are connected. Their video should appear shortly.</p>
             </div>
           )}
           
-          <VideoDisplay localStream={localStream} remoteStream={remoteStream} />
+          <VideoDisplay
+            localStream={localStream}
+            remoteParticipants={remoteParticipants}
+            screenStream={screenStream}
+            audioOutputId={selectedDevices.audiooutput}
+          />
           
           {/* Media Controls */}
           <div className="flex justify-center">
@@ -110,16 +242,76 @@ export default function CallPage() {
               videoEnabled={videoEnabled}
               onToggleAudio={toggleAudio}
               onToggleVideo={toggleVideo}
+              screenSharing={isScreenSharing}
+              onToggleScreenShare={screenShareSupported ? toggleScreenShare : undefined}
+              recording={isRecording}
+              onToggleRecording={recordingSupported ? toggleRecording : undefined}
+              onOpenSettings={() => setShowDeviceSettings((open) => !open)}
             />
           </div>
+
+          {/* Device Settings */}
+          {showDeviceSettings && (
+            <div className="flex justify-center">
+              <DeviceSettings
+                devices={devices}
+                selectedDevices={selectedDevices}
+                onSelectDevice={selectDevice}
+                speechEngines={speechEngines}
+                selectedSpeechEngine={speechEngine}
+                onSelectSpeechEngine={selectSpeechEngine}
+                onClose={() => setShowDeviceSettings(false)}
+              />
+            </div>
+          )}
         </div>
 
-        {/* Captions Section */}
-        <div className="lg:col-span-1">
+        {/* Captions, Chat and Files Section */}
+        <div className="lg:col-span-1 space-y-4">
           <div className="bg-gray-800 rounded-lg p-4">
-            <h2 className="text-lg font-semibold text-white mb-3">Live Captions</h2>
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold text-white">Live Captions</h2>
+              <label className="flex items-center gap-2 text-xs text-gray-400">
+                <input
+                  type="checkbox"
+                  checked={translateOwnCaptions}
+                  onChange={(event) => setTranslateOwnCaptions(event.target.checked)}
+                  className="accent-blue-500"
+                />
+                Translate my captions
+              </label>
+            </div>
             <CaptionDisplay captions={captions} maxCaptions={10} />
+            <div className="flex justify-end mt-3">
+              <TranscriptExport
+                captions={captions}
+                callStartedAt={callStartedAt}
+                fileName={`transcript-${sessionId.slice(0, 8)}`}
+              />
+            </div>
           </div>
+
+          <ChatPanel
+            messages={chatMessages}
+            onSend={sendChatMessage}
+            remoteParticipants={remoteParticipants}
+            open={chatOpen}
+            onToggleOpen={() => setChatOpen(!chatOpen)}
+            unreadCount={chatUnreadCount}
+            autoTranslate={autoTranslateChat}
+            onAutoTranslateChange={setAutoTranslateChat}
+          />
+
+          <FileTransferPanel
+            transfers={fileTransfers}
+            remoteParticipants={remoteParticipants}
+            onSendFile={sendFile}
+            onAccept={acceptFileTransfer}
+            onDecline={declineFileTransfer}
+            onPause={pauseFileTransfer}
+            onResume={resumeFileTransfer}
+            onCancel={cancelFileTransfer}
+          />
         </div>
       </div>
 
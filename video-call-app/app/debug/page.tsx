@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { getSharedTranslationCache, TranslationCacheStats } from '@/lib/translation/TranslationCache';
 
 export default function DebugPage() {
   const [checks, setChecks] = useState({
@@ -106,6 +107,8 @@ export default function DebugPage() {
           </div>
         </div>
 
+        <TranslationCachePanel />
+
         <div className="mt-6 text-center">
           <a href="/" className="text-blue-400 hover:text-blue-300">
             ← Back to Home
@@ -129,3 +132,85 @@ function CheckItem({ label, status, description }: { label: string; status: bool
     </div>
   );
 }
+
+function TranslationCachePanel() {
+  const [stats, setStats] = useState<TranslationCacheStats | null>(null);
+  // null when translations aren't persisted
+  const [persisted, setPersisted] = useState<number | null>(null);
+
+  const loadStats = useCallback(() => {
+    const cache = getSharedTranslationCache();
+    return cache.getPersistedCount().then((persistedCount) => ({
+      stats: cache.getStats(),
+      persisted: cache.isPersistent() ? persistedCount : null,
+    }));
+  }, []);
+
+  const refresh = useCallback(async () => {
+    const loaded = await loadStats();
+    setStats(loaded.stats);
+    setPersisted(loaded.persisted);
+  }, [loadStats]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadStats().then((loaded) => {
+      if (cancelled) return;
+      setStats(loaded.stats);
+      setPersisted(loaded.persisted);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadStats]);
+
+  const clearCache = async () => {
+    await getSharedTranslationCache().invalidate();
+    getSharedTranslationCache().resetStats();
+    await refresh();
+  };
+
+  const lookups = stats ? stats.hits + stats.misses : 0;
+  const hitRate = stats && lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mt-6">
+      <h2 className="text-xl font-semibold text-white mb-4">Translation Cache</h2>
+
+      <dl className="grid grid-cols-2 gap-3 text-sm">
+        <CacheStat label="Hits" value={stats ? `${stats.hits} (${stats.memoryHits} memory, ${stats.persistentHits} stored)` : '—'} />
+        <CacheStat label="Misses" value={stats ? String(stats.misses) : '—'} />
+        <CacheStat label="Hit rate" value={lookups > 0 ? `${hitRate}%` : '—'} />
+        <CacheStat label="Entries in memory" value={stats ? String(stats.size) : '—'} />
+        <CacheStat
+          label="Stored entries"
+          value={stats ? (persisted === null ? 'Persistence off' : String(persisted)) : '—'}
+        />
+      </dl>
+
+      <div className="mt-4 flex gap-3">
+        <button
+          onClick={refresh}
+          className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-2 px-4 rounded-lg transition-colors"
+        >
+          Refresh
+        </button>
+        <button
+          onClick={clearCache}
+          className="bg-red-600 hover:bg-red-700 text-white text-sm py-2 px-4 rounded-lg transition-colors"
+        >
+          Clear cache
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function CacheStat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 bg-gray-700 rounded-lg">
+      <dt className="text-gray-400">{label}</dt>
+      <dd className="text-white font-medium">{value}</dd>
+    </div>
+  );
+}
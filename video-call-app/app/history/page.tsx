@@ -0,0 +1,226 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import CaptionDisplay from '@/components/CaptionDisplay';
+import TranscriptExport from '@/components/TranscriptExport';
+import { getCallHistoryStore, searchCallHistory } from '@/lib/history/CallHistory';
+import { CallHistoryEntry } from '@/types';
+
+type LoadState = 'loading' | 'ready' | 'unavailable';
+
+/**
+ * Format a call's length as e.g. "1h 05m" or "3m 20s"
+ */
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+  }
+  return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+}
+
+export default function HistoryPage() {
+  const [entries, setEntries] = useState<CallHistoryEntry[]>([]);
+  const [loadState, setLoadState] = useState<LoadState>('loading');
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const loadEntries = useCallback(() => {
+    const store = getCallHistoryStore();
+    return store ? store.list() : Promise.resolve(null);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    const loaded = await loadEntries();
+    setEntries(loaded ?? []);
+    setSelected((prev) => new Set([...prev].filter((id) => loaded?.some((entry) => entry.id === id))));
+  }, [loadEntries]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadEntries()
+      .then((loaded) => {
+        if (cancelled) return;
+        setEntries(loaded ?? []);
+        setLoadState(loaded ? 'ready' : 'unavailable');
+      })
+      .catch((error) => {
+        console.error('❌ Failed to load call history:', error);
+        if (!cancelled) setLoadState('unavailable');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadEntries]);
+
+  const visibleEntries = useMemo(() => searchCallHistory(entries, query), [entries, query]);
+  const allVisibleSelected = visibleEntries.length > 0 && visibleEntries.every((entry) => selected.has(entry.id));
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelected(allVisibleSelected ? new Set() : new Set(visibleEntries.map((entry) => entry.id)));
+  };
+
+  const deleteCalls = async (ids: string[]) => {
+    const store = getCallHistoryStore();
+    if (!store || ids.length === 0) return;
+    if (!window.confirm(`Delete ${ids.length === 1 ? 'this call' : `${ids.length} calls`} and ${ids.length === 1 ? 'its transcript' : 'their transcripts'}?`)) return;
+
+    await store.delete(ids);
+    await refresh();
+  };
+
+  const deleteAll = async () => {
+    const store = getCallHistoryStore();
+    if (!store || !window.confirm('Delete your entire call history?')) return;
+
+    await store.clear();
+    await refresh();
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold">Call History</h1>
+          <Link href="/" className="text-blue-400 hover:text-blue-300">
+            ← Back to Home
+          </Link>
+        </div>
+
+        {loadState === 'unavailable' ? (
+          <div className="bg-gray-800 rounded-lg p-6 text-gray-400">
+            Call history is turned off or not available in this browser.
+          </div>
+        ) : (
+          <>
+            <div className="bg-gray-800 rounded-lg p-4 mb-6 flex flex-wrap items-center gap-3">
+              <input
+                type="search"
+                value={query}
+                onChange={(event) => setQuery(event.target.value)}
+                placeholder="Search sessions, participants, languages or transcripts"
+                aria-label="Search call history"
+                className="flex-1 min-w-64 bg-gray-700 border border-gray-600 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input type="checkbox" checked={allVisibleSelected} onChange={toggleAllVisible} className="accent-blue-500" />
+                Select all
+              </label>
+              <button
+                onClick={() => deleteCalls([...selected])}
+                disabled={selected.size === 0}
+                className="bg-red-600 hover:bg-red-700 text-white text-sm py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Delete selected ({selected.size})
+              </button>
+              <button
+                onClick={deleteAll}
+                disabled={entries.length === 0}
+                className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Delete all
+              </button>
+            </div>
+
+            {loadState === 'loading' ? (
+              <p className="text-gray-400 text-center py-8">Loading…</p>
+            ) : visibleEntries.length === 0 ? (
+              <p className="text-gray-400 text-center py-8">
+                {entries.length === 0 ? 'No calls yet. Calls you join are recorded here.' : 'No calls match your search.'}
+              </p>
+            ) : (
+              <ul className="space-y-3">
+                {visibleEntries.map((entry) => (
+                  <li key={entry.id} className="bg-gray-800 rounded-lg p-4">
+                    <div className="flex items-start gap-3">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(entry.id)}
+                        onChange={() => toggleSelected(entry.id)}
+                        aria-label={`Select call ${entry.sessionId.slice(0, 8)}`}
+                        className="mt-1 accent-blue-500"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <div className="font-semibold">
+                            {new Date(entry.startedAt).toLocaleString()}
+                            <span className="ml-2 text-sm font-normal text-gray-400">
+                              {formatDuration(entry.endedAt - entry.startedAt)}
+                              {entry.status === 'active' && ' · interrupted'}
+                            </span>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => setOpenId(openId === entry.id ? null : entry.id)}
+                              className="bg-gray-700 hover:bg-gray-600 text-white text-xs py-1 px-3 rounded-lg transition-colors"
+                            >
+                              {openId === entry.id ? 'Hide transcript' : 'View transcript'}
+                            </button>
+                            <button
+                              onClick={() => deleteCalls([entry.id])}
+                              className="text-red-400 hover:text-red-300 text-xs py-1 px-2"
+                            >
+                              Delete
+                            </button>
+                          </div>
+                        </div>
+                        <p className="text-sm text-gray-400 mt-1 truncate">
+                          Session {entry.sessionId.slice(0, 8)}
+                          {entry.role && ` · ${entry.role === 'host' ? 'Host' : 'Guest'}`}
+                          {' · '}
+                          {entry.participants.length === 0
+                            ? 'nobody joined'
+                            : `${entry.participants.length} other participant${entry.participants.length === 1 ? '' : 's'}`}
+                          {' · '}
+                          {entry.captions.length} caption{entry.captions.length === 1 ? '' : 's'}
+                        </p>
+                        {entry.languages.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {entry.languages.map((language) => (
+                              <span key={language} className="text-xs bg-gray-700 px-2 py-0.5 rounded">
+                                {language}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        {openId === entry.id && (
+                          <div className="mt-4 space-y-3">
+                            <CaptionDisplay captions={entry.captions} maxCaptions={entry.captions.length} />
+                            <div className="flex justify-end">
+                              <TranscriptExport
+                                captions={entry.captions}
+                                callStartedAt={entry.startedAt}
+                                fileName={`transcript-${entry.sessionId.slice(0, 8)}-${new Date(entry.startedAt).toISOString().slice(0, 10)}`}
+                              />
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -142,6 +142,11 @@ export default function Home() {
 
         {/* Tech Stack Info */}
         <div className="mt-8 text-center text-sm text-gray-600">
+          <p className="mb-2">
+            <Link href="/history" className="text-blue-600 hover:text-blue-700 font-medium">
+              📜 Past calls and transcripts
+            </Link>
+          </p>
           <p className="mb-2">Built with Next.js, WebRTC, Web Speech API & LibreTranslate</p>
           <p className="text-xs text-gray-500">
             Works best in Chrome, Edge, or Safari • Requires camera & microphone permissions
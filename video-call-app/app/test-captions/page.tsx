@@ -3,7 +3,9 @@
 import { useEffect, useState } from 'react';
 import { SpeechRecognitionService } from '@/lib/speech/SpeechRecognitionService';
 import { TranslationService } from '@/lib/translation/TranslationService';
-import { CaptionManager } from '@/lib/captions/CaptionManager';
+import { getSharedTranslationCache } from '@/lib/translation/TranslationCache';
+import { CaptionManager, upsertCaption } from '@/lib/captions/CaptionManager';
+import TranscriptExport from '@/components/TranscriptExport';
 import { Caption } from '@/types';
 
 export default function TestCaptionsPage() {
@@ -24,7 +26,7 @@ export default function TestCaptionsPage() {
 
     // Initialize services
     const speechService = new SpeechRecognitionService('en-US');
-    const translationService = new TranslationService();
+    const translationService = new TranslationService({ cache: getSharedTranslationCache() });
     const manager = new CaptionManager(speechService, translationService, {
       targetLanguage: 'en'
     });
@@ -32,7 +34,7 @@ export default function TestCaptionsPage() {
     // Listen for captions
     manager.on('caption', (data) => {
       const caption = data as Caption;
-      setCaptions(prev => [...prev, caption]);
+      setCaptions(prev => upsertCaption(prev, caption));
     });
 
     manager.on('error', (data) => {
@@ -158,9 +160,12 @@ export default function TestCaptionsPage() {
 
         {/* Captions Display */}
         <div className="bg-gray-800 rounded-lg p-6">
-          <h2 className="text-xl font-semibold mb-4">
-            Captions ({captions.length})
-          </h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold">
+              Captions ({captions.length})
+            </h2>
+            <TranscriptExport captions={captions} fileName="test-captions" />
+          </div>
           
           {captions.length === 0 ? (
             <p className="text-gray-400 text-center py-8">
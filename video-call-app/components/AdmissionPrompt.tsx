@@ -0,0 +1,42 @@
+'use client';
+
+import { AdmissionRequest } from '@/types';
+
+interface AdmissionPromptProps {
+  // Newcomers waiting for the host to let them in
+  requests: AdmissionRequest[];
+  onAdmit: (peerId: string) => void;
+  onDeny: (peerId: string) => void;
+}
+
+export default function AdmissionPrompt({ requests, onAdmit, onDeny }: AdmissionPromptProps) {
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <div role="alert" className="bg-blue-900 bg-opacity-30 border border-blue-500 rounded-lg p-4 text-blue-100 space-y-2">
+      {requests.map((request) => (
+        <div key={request.peerId} className="flex items-center justify-between gap-4">
+          <p>
+            🚪 <span className="font-semibold">{request.displayName}</span> wants to join the call
+          </p>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={() => onAdmit(request.peerId)}
+              className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold py-1 px-3 rounded-lg transition-colors"
+            >
+              Admit
+            </button>
+            <button
+              onClick={() => onDeny(request.peerId)}
+              className="bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-1 px-3 rounded-lg transition-colors"
+            >
+              Deny
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -45,11 +45,12 @@ export default function CaptionDisplay({ captions, maxCaptions = 10 }: CaptionDi
           visibleCaptions.map((caption) => (
             <div
               key={caption.id}
+              data-interim={caption.isFinal === false || undefined}
               className={`flex flex-col gap-1 p-3 rounded-lg ${
                 caption.speaker === 'local'
                   ? 'bg-blue-900 bg-opacity-30 border-l-4 border-blue-500'
                   : 'bg-green-900 bg-opacity-30 border-l-4 border-green-500'
-              }`}
+              } ${caption.isFinal === false ? 'border-dashed opacity-70' : ''}`}
             >
               <div className="flex items-center justify-between text-xs">
                 <span
@@ -61,10 +62,17 @@ export default function CaptionDisplay({ captions, maxCaptions = 10 }: CaptionDi
                 </span>
                 <span className="text-gray-400">{formatTimestamp(caption.timestamp)}</span>
               </div>
-              <p className="text-white text-sm leading-relaxed">{caption.text}</p>
+              {caption.isFinal === false ? (
+                <p className="text-gray-300 text-sm leading-relaxed italic">{caption.text}…</p>
+              ) : (
+                <p className="text-white text-sm leading-relaxed">{caption.text}</p>
+              )}
               {caption.isTranslated && (
                 <p className="text-gray-400 text-xs italic">
                   Original: {caption.originalText}
+                  {caption.translationProvider && caption.translationProvider !== 'fallback' && (
+                    <span className="not-italic text-gray-500"> · via {caption.translationProvider}</span>
+                  )}
                 </p>
               )}
             </div>
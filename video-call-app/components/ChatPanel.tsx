@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useRef, useState, FormEvent } from 'react';
+import { ChatMessage, ChatMessageStatus, RemoteParticipant } from '@/types';
+import { MAX_CHAT_MESSAGE_LENGTH } from '@/lib/chat/ChatManager';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  onSend: (text: string) => void;
+  // Used to name senders the same way the video tiles do
+  remoteParticipants: RemoteParticipant[];
+  open: boolean;
+  onToggleOpen: () => void;
+  unreadCount: number;
+  // Translate incoming messages into the caption language
+  autoTranslate: boolean;
+  onAutoTranslateChange: (enabled: boolean) => void;
+}
+
+const STATUS_LABELS: Record<ChatMessageStatus, { icon: string; label: string }> = {
+  sent: { icon: '✓', label: 'Sent' },
+  delivered: { icon: '✓✓', label: 'Delivered' },
+  failed: { icon: '!', label: 'Not delivered, nobody was connected' },
+};
+
+export default function ChatPanel({
+  messages,
+  onSend,
+  remoteParticipants,
+  open,
+  onToggleOpen,
+  unreadCount,
+  autoTranslate,
+  onAutoTranslateChange,
+}: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Auto-scroll to newest messages
+  useEffect(() => {
+    if (open && containerRef.current) {
+      containerRef.current.scrollTop = containerRef.current.scrollHeight;
+    }
+  }, [messages, open]);
+
+  const senderName = (message: ChatMessage): string => {
+    if (message.sender === 'local') return 'You';
+    const index = remoteParticipants.findIndex((participant) => participant.peerId === message.peerId);
+    return index === -1 ? 'Participant' : `Participant ${index + 1}`;
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!draft.trim()) return;
+    onSend(draft);
+    setDraft('');
+  };
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onToggleOpen}
+          className="flex items-center gap-2 text-lg font-semibold text-white"
+          aria-expanded={open}
+        >
+          Chat
+          {!open && unreadCount > 0 && (
+            <span
+              className="min-w-5 h-5 px-1.5 rounded-full bg-red-600 text-xs font-bold leading-5 text-center"
+              aria-label={`${unreadCount} unread`}
+            >
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+          <span className="text-sm text-gray-400">{open ? '▾' : '▸'}</span>
+        </button>
+        {open && (
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            <input
+              type="checkbox"
+              checked={autoTranslate}
+              onChange={(event) => onAutoTranslateChange(event.target.checked)}
+              className="accent-blue-500"
+            />
+            Translate messages
+          </label>
+        )}
+      </div>
+
+      {open && (
+        <>
+          <div className="mt-3 bg-gray-900 rounded-lg p-4 h-64 overflow-y-auto" ref={containerRef}>
+            <div className="space-y-3">
+              {messages.length === 0 ? (
+                <p className="text-gray-500 text-center">No messages yet</p>
+              ) : (
+                messages.map((message) => (
+                  <div
+                    key={message.id}
+                    className={`flex flex-col gap-1 p-3 rounded-lg ${
+                      message.sender === 'local'
+                        ? 'bg-blue-900 bg-opacity-30 border-l-4 border-blue-500'
+                        : 'bg-green-900 bg-opacity-30 border-l-4 border-green-500'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between text-xs">
+                      <span className={`font-semibold ${message.sender === 'local' ? 'text-blue-400' : 'text-green-400'}`}>
+                        {senderName(message)}
+                      </span>
+                      <span className="flex items-center gap-2 text-gray-400">
+                        {new Date(message.timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                        {message.status && (
+                          <span
+                            className={message.status === 'failed' ? 'text-red-400 font-bold' : message.status === 'delivered' ? 'text-blue-400' : ''}
+                            title={STATUS_LABELS[message.status].label}
+                            aria-label={STATUS_LABELS[message.status].label}
+                          >
+                            {STATUS_LABELS[message.status].icon}
+                          </span>
+                        )}
+                      </span>
+                    </div>
+                    <p className="text-white text-sm leading-relaxed whitespace-pre-wrap break-words">{message.text}</p>
+                    {message.isTranslated && (
+                      <p className="text-gray-400 text-xs italic">Original: {message.originalText}</p>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          <form onSubmit={handleSubmit} className="mt-3 flex gap-2">
+            <input
+              type="text"
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              maxLength={MAX_CHAT_MESSAGE_LENGTH}
+              placeholder="Type a message"
+              aria-label="Chat message"
+              className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!draft.trim()}
+              className="bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Send
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,161 @@
 'use client';
 
-import { ConnectionState } from '@/types';
+import { useState } from 'react';
+import { CallQuality, CallStats, ConnectionState, EncryptionState, EncryptionStatus } from '@/types';
 
 interface ConnectionStatusProps {
   status: ConnectionState;
+  // Connection quality metrics; signal bars are shown when provided
+  quality?: CallQuality;
+  stats?: CallStats[];
+  // End-to-end encryption with each participant; the badge is shown when provided
+  encryption?: EncryptionState[];
 }
 
-export default function ConnectionStatus({ status }: ConnectionStatusProps) {
+const QUALITY_BARS: Record<CallQuality, number> = {
+  excellent: 4,
+  good: 3,
+  fair: 2,
+  poor: 1,
+  unknown: 0,
+};
+
+const QUALITY_COLORS: Record<CallQuality, string> = {
+  excellent: 'bg-green-400',
+  good: 'bg-green-400',
+  fair: 'bg-yellow-400',
+  poor: 'bg-red-400',
+  unknown: 'bg-gray-500',
+};
+
+const ENCRYPTION_LABELS: Record<EncryptionStatus, string> = {
+  pending: 'Exchanging keys',
+  encrypted: 'Encrypted',
+  unencrypted: 'Not encrypted, turned off on their side',
+  error: "Can't decrypt, check the passphrase",
+};
+
+const formatNumber = (value: number | null, digits = 0) => (value === null ? '—' : value.toFixed(digits));
+
+const formatMetric = (value: number | null, unit: string, digits = 0) =>
+  value === null ? '—' : `${formatNumber(value, digits)} ${unit}`;
+
+function SignalBars({ quality }: { quality: CallQuality }) {
+  const activeBars = QUALITY_BARS[quality];
+
+  return (
+    <div className="flex items-end gap-0.5 h-4" aria-hidden="true">
+      {[1, 2, 3, 4].map((bar) => (
+        <div
+          key={bar}
+          className={`w-1 rounded-sm ${bar <= activeBars ? QUALITY_COLORS[quality] : 'bg-gray-600'}`}
+          style={{ height: `${bar * 25}%` }}
+        />
+      ))}
+    </div>
+  );
+}
+
+function StatsOverlay({ stats }: { stats: CallStats[] }) {
+  return (
+    <div className="absolute right-0 top-full mt-2 z-10 w-72 bg-gray-800 border border-gray-700 rounded-lg p-3 shadow-lg text-xs text-gray-300 space-y-3">
+      {stats.length === 0 ? (
+        <p>Collecting statistics...</p>
+      ) : (
+        stats.map((entry, index) => (
+          <div key={entry.peerId}>
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-semibold text-white">Participant {index + 1}</span>
+              <span className="capitalize">{entry.quality}</span>
+            </div>
+            <dl className="grid grid-cols-2 gap-x-2 gap-y-0.5">
+              <dt>Round trip</dt>
+              <dd>{formatMetric(entry.roundTripTime, 'ms')}</dd>
+              <dt>Jitter</dt>
+              <dd>{formatMetric(entry.jitter, 'ms')}</dd>
+              <dt>Packet loss</dt>
+              <dd>{formatMetric(entry.packetLoss, '%', 1)}</dd>
+              <dt>Bitrate in / out</dt>
+              <dd>
+                {formatNumber(entry.inboundBitrate)} / {formatNumber(entry.outboundBitrate)} kbps
+              </dd>
+              <dt>Video</dt>
+              <dd>
+                {entry.resolution ? `${entry.resolution.width}×${entry.resolution.height}` : '—'}
+                {entry.frameRate !== null && ` @ ${entry.frameRate.toFixed(0)} fps`}
+              </dd>
+              <dt>Route</dt>
+              <dd>{entry.candidateType === 'relay' ? 'TURN relay' : entry.candidateType ?? '—'}</dd>
+            </dl>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+/**
+ * Encrypted only once every participant is; anyone who isn't can hear us in the clear
+ */
+function getEncryptionBadge(encryption: EncryptionState[]) {
+  if (encryption.some((state) => state.status === 'error')) {
+    return { icon: '⚠️', text: "Can't decrypt", className: 'text-red-300 border-red-500' };
+  }
+  if (encryption.length > 0 && encryption.every((state) => state.status === 'encrypted')) {
+    return { icon: '🔒', text: 'Encrypted', className: 'text-green-300 border-green-500' };
+  }
+  return { icon: '🔓', text: 'Not encrypted', className: 'text-yellow-300 border-yellow-500' };
+}
+
+function EncryptionBadge({
+  encryption,
+  expanded,
+  onToggle,
+}: {
+  encryption: EncryptionState[];
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  const badge = getEncryptionBadge(encryption);
+
+  return (
+    <button
+      onClick={onToggle}
+      className={`ml-1 px-2 py-0.5 rounded-full border text-xs font-medium hover:bg-gray-700 ${badge.className}`}
+      aria-label={`${badge.text}. Show encryption codes`}
+      aria-expanded={expanded}
+      title="End-to-end encryption"
+    >
+      {badge.icon} {badge.text}
+    </button>
+  );
+}
+
+function FingerprintOverlay({ encryption }: { encryption: EncryptionState[] }) {
+  return (
+    <div className="absolute right-0 top-full mt-2 z-10 w-72 bg-gray-800 border border-gray-700 rounded-lg p-3 shadow-lg text-xs text-gray-300 space-y-3">
+      <p>Compare these codes with each participant, e.g. by reading them out. If they match, nobody else can see or hear the call.</p>
+      {encryption.length === 0 ? (
+        <p>Waiting for participants who turned on encryption...</p>
+      ) : (
+        encryption.map((state, index) => (
+          <div key={state.peerId}>
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-semibold text-white">Participant {index + 1}</span>
+              <span>{ENCRYPTION_LABELS[state.status]}</span>
+            </div>
+            <p className="font-mono text-sm text-white tracking-wide">{state.fingerprint ?? '—'}</p>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+export default function ConnectionStatus({ status, quality, stats = [], encryption }: ConnectionStatusProps) {
+  const [showStats, setShowStats] = useState(false);
+  const [showFingerprints, setShowFingerprints] = useState(false);
+
   const getStatusConfig = () => {
     switch (status) {
       case 'connecting':
@@ -59,6 +208,29 @@ export default function ConnectionStatus({ status }: ConnectionStatusProps) {
             </svg>
           ),
         };
+      case 'reconnecting':
+        return {
+          text: 'Reconnecting...',
+          color: 'text-orange-400',
+          bgColor: 'bg-orange-900 bg-opacity-30',
+          borderColor: 'border-orange-500',
+          icon: (
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="animate-spin h-5 w-5"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+              />
+            </svg>
+          ),
+        };
       case 'disconnected':
         return {
           text: 'Disconnected',
@@ -86,11 +258,39 @@ export default function ConnectionStatus({ status }: ConnectionStatusProps) {
   const config = getStatusConfig();
 
   return (
-    <div
-      className={`flex items-center gap-2 px-4 py-2 rounded-lg border-l-4 ${config.bgColor} ${config.borderColor}`}
-    >
-      <div className={config.color}>{config.icon}</div>
-      <span className={`text-sm font-medium ${config.color}`}>{config.text}</span>
+    <div className="relative">
+      <div
+        className={`flex items-center gap-2 px-4 py-2 rounded-lg border-l-4 ${config.bgColor} ${config.borderColor}`}
+      >
+        <div className={config.color}>{config.icon}</div>
+        <span className={`text-sm font-medium ${config.color}`}>{config.text}</span>
+        {quality && status === 'connected' && (
+          <button
+            onClick={() => {
+              setShowStats((open) => !open);
+              setShowFingerprints(false);
+            }}
+            className="ml-1 p-1 rounded hover:bg-gray-700"
+            aria-label={`Connection quality: ${quality}. Show call statistics`}
+            aria-expanded={showStats}
+            title="Call statistics"
+          >
+            <SignalBars quality={quality} />
+          </button>
+        )}
+        {encryption && status === 'connected' && (
+          <EncryptionBadge
+            encryption={encryption}
+            expanded={showFingerprints}
+            onToggle={() => {
+              setShowFingerprints((open) => !open);
+              setShowStats(false);
+            }}
+          />
+        )}
+      </div>
+      {showStats && status === 'connected' && <StatsOverlay stats={stats} />}
+      {showFingerprints && encryption && status === 'connected' && <FingerprintOverlay encryption={encryption} />}
     </div>
   );
 }
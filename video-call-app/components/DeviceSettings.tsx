@@ -0,0 +1,121 @@
+'use client';
+
+import { MediaDeviceLists, SelectedDevices, SpeechEngineOption } from '@/types';
+
+interface DeviceSettingsProps {
+  devices: MediaDeviceLists;
+  selectedDevices: SelectedDevices;
+  onSelectDevice: (kind: MediaDeviceKind, deviceId: string) => void;
+  speechEngines?: SpeechEngineOption[];
+  selectedSpeechEngine?: string | null;
+  onSelectSpeechEngine?: (engineId: string) => void;
+  onClose: () => void;
+}
+
+interface DeviceSelectProps {
+  id: string;
+  label: string;
+  kind: MediaDeviceKind;
+  options: MediaDeviceInfo[];
+  selectedDeviceId?: string;
+  onSelectDevice: (kind: MediaDeviceKind, deviceId: string) => void;
+}
+
+export function DeviceSelect({ id, label, kind, options, selectedDeviceId, onSelectDevice }: DeviceSelectProps) {
+  return (
+    <div className="flex flex-col gap-1">
+      <label htmlFor={id} className="text-sm font-medium text-gray-300">
+        {label}
+      </label>
+      <select
+        id={id}
+        value={selectedDeviceId ?? ''}
+        onChange={(event) => onSelectDevice(kind, event.target.value)}
+        disabled={options.length === 0}
+        className="bg-gray-800 text-white border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+      >
+        {options.length === 0 && <option value="">No devices found</option>}
+        {!selectedDeviceId && options.length > 0 && <option value="">System default</option>}
+        {options.map((device, index) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {/* Labels stay empty until media permissions are granted */}
+            {device.label || `${label} ${index + 1}`}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+export default function DeviceSettings({
+  devices,
+  selectedDevices,
+  onSelectDevice,
+  speechEngines = [],
+  selectedSpeechEngine,
+  onSelectSpeechEngine,
+  onClose,
+}: DeviceSettingsProps) {
+  return (
+    <div className="bg-gray-800 border border-gray-700 rounded-lg p-4 space-y-4 w-full max-w-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="text-white font-semibold">Device Settings</h3>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-white text-sm"
+          aria-label="Close device settings"
+        >
+          ✕
+        </button>
+      </div>
+
+      <DeviceSelect
+        id="camera-select"
+        label="Camera"
+        kind="videoinput"
+        options={devices.videoInputs}
+        selectedDeviceId={selectedDevices.videoinput}
+        onSelectDevice={onSelectDevice}
+      />
+      <DeviceSelect
+        id="microphone-select"
+        label="Microphone"
+        kind="audioinput"
+        options={devices.audioInputs}
+        selectedDeviceId={selectedDevices.audioinput}
+        onSelectDevice={onSelectDevice}
+      />
+      {/* Browsers without setSinkId (Safari, older Firefox) list no outputs */}
+      {devices.audioOutputs.length > 0 && (
+        <DeviceSelect
+          id="speaker-select"
+          label="Speaker"
+          kind="audiooutput"
+          options={devices.audioOutputs}
+          selectedDeviceId={selectedDevices.audiooutput}
+          onSelectDevice={onSelectDevice}
+        />
+      )}
+      {onSelectSpeechEngine && speechEngines.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <label htmlFor="speech-engine-select" className="text-sm font-medium text-gray-300">
+            Caption recognition
+          </label>
+          <select
+            id="speech-engine-select"
+            value={selectedSpeechEngine ?? ''}
+            onChange={(event) => onSelectSpeechEngine(event.target.value)}
+            disabled={speechEngines.length === 1}
+            className="bg-gray-800 text-white border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+          >
+            {speechEngines.map((engine) => (
+              <option key={engine.id} value={engine.id}>
+                {engine.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
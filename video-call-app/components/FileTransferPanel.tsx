@@ -0,0 +1,192 @@
+'use client';
+
+import { useRef, useState, DragEvent } from 'react';
+import { FileTransfer, FileTransferStatus, RemoteParticipant } from '@/types';
+import { downloadFile } from '@/lib/download';
+
+interface FileTransferPanelProps {
+  transfers: FileTransfer[];
+  // Used to name participants the same way the video tiles do
+  remoteParticipants: RemoteParticipant[];
+  onSendFile: (file: File) => Promise<void>;
+  onAccept: (transferId: string) => void;
+  onDecline: (transferId: string) => void;
+  onPause: (transferId: string) => void;
+  onResume: (transferId: string) => void;
+  onCancel: (transferId: string) => void;
+}
+
+const STATUS_LABELS: Record<FileTransferStatus, string> = {
+  hashing: 'Preparing…',
+  waiting: 'Waiting for answer',
+  transferring: 'Transferring',
+  paused: 'Paused',
+  verifying: 'Verifying…',
+  completed: 'Done',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+  failed: 'Failed',
+};
+
+/**
+ * Format a byte count as e.g. "1.4 MB"
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const buttonClass = 'text-xs py-1 px-2 rounded-lg transition-colors';
+
+export default function FileTransferPanel({
+  transfers,
+  remoteParticipants,
+  onSendFile,
+  onAccept,
+  onDecline,
+  onPause,
+  onResume,
+  onCancel,
+}: FileTransferPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const canSend = remoteParticipants.length > 0;
+
+  const participantName = (peerId: string): string => {
+    const index = remoteParticipants.findIndex((participant) => participant.peerId === peerId);
+    return index === -1 ? 'a participant' : `Participant ${index + 1}`;
+  };
+
+  const sendFiles = (files: FileList | null) => {
+    if (!files) return;
+    setError(null);
+    Array.from(files).forEach((file) => {
+      onSendFile(file).catch((sendError: Error) => setError(`${file.name}: ${sendError.message}`));
+    });
+  };
+
+  const handleDrop = (event: DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    if (canSend) {
+      sendFiles(event.dataTransfer.files);
+    }
+  };
+
+  return (
+    <div
+      className={`bg-gray-800 rounded-lg p-4 ${dragging ? 'ring-2 ring-blue-500' : ''}`}
+      onDragOver={(event) => {
+        event.preventDefault();
+        setDragging(canSend);
+      }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+    >
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">Files</h2>
+        <button
+          onClick={() => inputRef.current?.click()}
+          disabled={!canSend}
+          className="bg-gray-700 hover:bg-gray-600 text-white text-xs font-semibold py-1 px-3 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          📎 Send file
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(event) => {
+            sendFiles(event.target.files);
+            event.target.value = '';
+          }}
+        />
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+
+      {transfers.length === 0 ? (
+        <p className="mt-3 text-sm text-gray-500">
+          {canSend ? 'Drop a file here to send it to everyone in the call.' : 'Files can be sent once someone joins.'}
+        </p>
+      ) : (
+        <ul className="mt-3 space-y-2">
+          {transfers.map((transfer) => {
+            const progress = transfer.size === 0 ? 100 : Math.round((transfer.bytesTransferred / transfer.size) * 100);
+            const incoming = transfer.direction === 'incoming';
+            const active = transfer.status === 'transferring' || transfer.status === 'waiting' || transfer.status === 'paused' || transfer.status === 'hashing';
+
+            return (
+              <li key={transfer.id} className="bg-gray-900 rounded-lg p-3">
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-white truncate" title={transfer.name}>
+                    {incoming ? '⬇️' : '⬆️'} {transfer.name}
+                  </span>
+                  <span className="text-xs text-gray-400 shrink-0">{formatBytes(transfer.size)}</span>
+                </div>
+                <p className="text-xs text-gray-400 mt-1">
+                  {incoming ? 'From' : 'To'} {participantName(transfer.peerId)} · {STATUS_LABELS[transfer.status]}
+                  {transfer.error && ` · ${transfer.error}`}
+                </p>
+
+                {(transfer.status === 'transferring' || transfer.status === 'paused') && (
+                  <div
+                    className="mt-2 h-1.5 bg-gray-700 rounded-full overflow-hidden"
+                    role="progressbar"
+                    aria-valuenow={progress}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                  >
+                    <div
+                      className={`h-full ${transfer.status === 'paused' ? 'bg-yellow-500' : 'bg-blue-500'}`}
+                      style={{ width: `${progress}%` }}
+                    />
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-2 mt-2">
+                  {incoming && transfer.status === 'waiting' && (
+                    <>
+                      <button onClick={() => onAccept(transfer.id)} className={`${buttonClass} bg-blue-600 hover:bg-blue-700 text-white`}>
+                        Accept
+                      </button>
+                      <button onClick={() => onDecline(transfer.id)} className={`${buttonClass} bg-gray-700 hover:bg-gray-600 text-white`}>
+                        Decline
+                      </button>
+                    </>
+                  )}
+                  {transfer.status === 'transferring' && (
+                    <button onClick={() => onPause(transfer.id)} className={`${buttonClass} bg-gray-700 hover:bg-gray-600 text-white`}>
+                      Pause
+                    </button>
+                  )}
+                  {transfer.status === 'paused' && (
+                    <button onClick={() => onResume(transfer.id)} className={`${buttonClass} bg-gray-700 hover:bg-gray-600 text-white`}>
+                      Resume
+                    </button>
+                  )}
+                  {active && !(incoming && transfer.status === 'waiting') && (
+                    <button onClick={() => onCancel(transfer.id)} className={`${buttonClass} text-red-400 hover:text-red-300`}>
+                      Cancel
+                    </button>
+                  )}
+                  {transfer.file && (
+                    <button
+                      onClick={() => downloadFile(transfer.file!, transfer.name)}
+                      className={`${buttonClass} bg-green-600 hover:bg-green-700 text-white`}
+                    >
+                      Save
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
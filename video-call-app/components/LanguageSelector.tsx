@@ -6,12 +6,16 @@ interface LanguageSelectorProps {
   selectedLanguage: string;
   onChange: (languageCode: string) => void;
   supportedLanguages: Language[];
+  id?: string;
+  label?: string;
 }
 
 export default function LanguageSelector({
   selectedLanguage,
   onChange,
   supportedLanguages,
+  id = 'language-select',
+  label = 'Caption Language:',
 }: LanguageSelectorProps) {
   const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
     onChange(event.target.value);
@@ -19,11 +23,11 @@ export default function LanguageSelector({
 
   return (
     <div className="flex items-center gap-2">
-      <label htmlFor="language-select" className="text-sm font-medium text-gray-300">
-        Caption Language:
+      <label htmlFor={id} className="text-sm font-medium text-gray-300">
+        {label}
       </label>
       <select
-        id="language-select"
+        id={id}
         value={selectedLanguage}
         onChange={handleChange}
         className="bg-gray-800 text-white border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
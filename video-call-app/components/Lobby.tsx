@@ -0,0 +1,325 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { JoinSettings, Language, MediaDeviceLists, SelectedDevices } from '@/types';
+import { MediaPreview, playTestTone } from '@/lib/media/MediaPreview';
+import { MediaEncryption } from '@/lib/e2ee/MediaEncryption';
+import { DeviceSelect } from '@/components/DeviceSettings';
+import LanguageSelector from '@/components/LanguageSelector';
+
+interface LobbyProps {
+  sessionId: string;
+  spokenLanguage: string;
+  onSpokenLanguageChange: (locale: string) => void;
+  spokenLanguages: Language[];
+  selectedLanguage: string;
+  onSelectedLanguageChange: (language: string) => void;
+  supportedLanguages: Language[];
+  onJoin: (settings: JoinSettings) => void;
+  onLeave: () => void;
+}
+
+/**
+ * Explain why the camera or microphone could not be opened
+ */
+function describeMediaError(error: unknown): string {
+  if (!(error instanceof Error)) {
+    return 'Failed to access camera/microphone.';
+  }
+  if (error.name === 'NotAllowedError' || error.name === 'PermissionDeniedError') {
+    return 'Camera/microphone access denied. Please allow permissions and try again.';
+  }
+  if (error.name === 'NotFoundError') {
+    return 'No camera or microphone found. Please connect a device.';
+  }
+  return error.message || 'Failed to access camera/microphone.';
+}
+
+export default function Lobby({
+  sessionId,
+  spokenLanguage,
+  onSpokenLanguageChange,
+  spokenLanguages,
+  selectedLanguage,
+  onSelectedLanguageChange,
+  supportedLanguages,
+  onJoin,
+  onLeave,
+}: LobbyProps) {
+  const previewRef = useRef<MediaPreview | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [level, setLevel] = useState(0);
+  const [devices, setDevices] = useState<MediaDeviceLists>({ audioInputs: [], videoInputs: [], audioOutputs: [] });
+  const [selectedDevices, setSelectedDevices] = useState<SelectedDevices>({});
+  const [joinMuted, setJoinMuted] = useState(false);
+  const [joinWithCameraOff, setJoinWithCameraOff] = useState(false);
+  const [displayName, setDisplayName] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [requireApproval, setRequireApproval] = useState(true);
+  const [encryptionSupported] = useState(() => MediaEncryption.isSupported());
+  const [encryptMedia, setEncryptMedia] = useState(false);
+  const [playingTone, setPlayingTone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to ask for permissions again after a failure
+  const [attempt, setAttempt] = useState(0);
+
+  // Open the camera and microphone for the preview; leaving the lobby without joining closes them
+  useEffect(() => {
+    const preview = new MediaPreview();
+    previewRef.current = preview;
+    preview.on('stream', setStream);
+    preview.on('level', setLevel);
+    preview.on('devices-changed', setDevices);
+
+    preview
+      .start()
+      .then(async () => {
+        setError(null);
+        // Device labels are only available now that permissions are granted
+        setDevices(await preview.getDevices());
+        setSelectedDevices((prev) => ({ ...prev, ...preview.getSelectedDevices() }));
+      })
+      .catch((startError) => {
+        console.error('❌ Failed to open preview:', startError);
+        setError(describeMediaError(startError));
+      });
+
+    return () => {
+      preview.stop();
+      previewRef.current = null;
+    };
+  }, [attempt]);
+
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [stream, joinWithCameraOff]);
+
+  const selectDevice = async (kind: MediaDeviceKind, deviceId: string) => {
+    // Speakers only matter for the test tone and, later, the call
+    if (kind === 'audiooutput') {
+      setSelectedDevices((prev) => ({ ...prev, audiooutput: deviceId }));
+      return;
+    }
+
+    const preview = previewRef.current;
+    if (!preview) return;
+    try {
+      await preview.selectDevice(kind, deviceId);
+      setSelectedDevices((prev) => ({ ...prev, ...preview.getSelectedDevices() }));
+      setError(null);
+    } catch (selectError) {
+      setError(describeMediaError(selectError));
+    }
+  };
+
+  const handleTestSpeaker = async () => {
+    setPlayingTone(true);
+    try {
+      await playTestTone({ sinkId: selectedDevices.audiooutput });
+    } catch (toneError) {
+      console.warn('⚠️ Could not play test tone:', toneError);
+    } finally {
+      setPlayingTone(false);
+    }
+  };
+
+  const handleJoin = () => {
+    const preview = previewRef.current;
+    if (!preview) return;
+    onJoin({
+      stream: preview.release(),
+      audioEnabled: !joinMuted,
+      videoEnabled: !joinWithCameraOff,
+      audioOutputId: selectedDevices.audiooutput,
+      displayName: displayName.trim(),
+      passphrase,
+      requireApproval,
+      encryptMedia: encryptionSupported && encryptMedia,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 flex items-center justify-center p-4">
+      <div className="bg-gray-800 rounded-lg p-6 w-full max-w-3xl grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <div className="relative bg-gray-900 rounded-lg overflow-hidden aspect-video">
+            {stream && !joinWithCameraOff ? (
+              <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover -scale-x-100" />
+            ) : (
+              <div className="flex items-center justify-center h-full text-gray-400 text-sm">
+                <p>{stream ? 'Camera off' : 'Starting camera...'}</p>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-300 mb-1">Microphone level</p>
+            <div
+              className="h-2 bg-gray-700 rounded-full overflow-hidden"
+              role="meter"
+              aria-label="Microphone level"
+              aria-valuenow={Math.round(level * 100)}
+              aria-valuemin={0}
+              aria-valuemax={100}
+            >
+              <div className="h-full bg-green-500 transition-[width] duration-100" style={{ width: `${level * 100}%` }} />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={joinMuted}
+              onChange={(event) => setJoinMuted(event.target.checked)}
+              className="accent-blue-500"
+            />
+            Join muted
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={joinWithCameraOff}
+              onChange={(event) => setJoinWithCameraOff(event.target.checked)}
+              className="accent-blue-500"
+            />
+            Join with camera off
+          </label>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <h1 className="text-xl font-semibold text-white">Ready to join?</h1>
+            <p className="text-sm text-gray-400">Session: {sessionId.slice(0, 8)}...</p>
+          </div>
+
+          <DeviceSelect
+            id="lobby-camera-select"
+            label="Camera"
+            kind="videoinput"
+            options={devices.videoInputs}
+            selectedDeviceId={selectedDevices.videoinput}
+            onSelectDevice={selectDevice}
+          />
+          <DeviceSelect
+            id="lobby-microphone-select"
+            label="Microphone"
+            kind="audioinput"
+            options={devices.audioInputs}
+            selectedDeviceId={selectedDevices.audioinput}
+            onSelectDevice={selectDevice}
+          />
+          {/* Browsers without setSinkId (Safari, older Firefox) list no outputs */}
+          {devices.audioOutputs.length > 0 && (
+            <DeviceSelect
+              id="lobby-speaker-select"
+              label="Speaker"
+              kind="audiooutput"
+              options={devices.audioOutputs}
+              selectedDeviceId={selectedDevices.audiooutput}
+              onSelectDevice={selectDevice}
+            />
+          )}
+          <button
+            onClick={handleTestSpeaker}
+            disabled={playingTone}
+            className="bg-gray-700 hover:bg-gray-600 text-white text-sm py-2 px-3 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {playingTone ? '🔊 Playing...' : '🔊 Test speaker'}
+          </button>
+
+          <div className="flex flex-col gap-1">
+            <label htmlFor="lobby-display-name" className="text-sm font-medium text-gray-300">
+              Your name
+            </label>
+            <input
+              id="lobby-display-name"
+              type="text"
+              value={displayName}
+              onChange={(event) => setDisplayName(event.target.value)}
+              maxLength={40}
+              placeholder="Shown to the host when you ask to join"
+              className="bg-gray-800 text-white border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="lobby-passphrase" className="text-sm font-medium text-gray-300">
+              Passphrase (optional)
+            </label>
+            <input
+              id="lobby-passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.target.value)}
+              autoComplete="off"
+              placeholder="Everyone in the call must enter the same one"
+              className="bg-gray-800 text-white border border-gray-700 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={requireApproval}
+              onChange={(event) => setRequireApproval(event.target.checked)}
+              className="accent-blue-500"
+            />
+            If I host, ask me before letting people in
+          </label>
+          <label className={`flex items-center gap-2 text-sm ${encryptionSupported ? 'text-gray-300' : 'text-gray-500'}`}>
+            <input
+              type="checkbox"
+              checked={encryptionSupported && encryptMedia}
+              onChange={(event) => setEncryptMedia(event.target.checked)}
+              disabled={!encryptionSupported}
+              className="accent-blue-500"
+            />
+            {encryptionSupported
+              ? 'Encrypt audio and video end to end'
+              : 'End-to-end encryption is not supported in this browser'}
+          </label>
+
+          <LanguageSelector
+            id="lobby-spoken-language-select"
+            label="I speak:"
+            selectedLanguage={spokenLanguage}
+            onChange={onSpokenLanguageChange}
+            supportedLanguages={spokenLanguages}
+          />
+          <LanguageSelector
+            id="lobby-language-select"
+            selectedLanguage={selectedLanguage}
+            onChange={onSelectedLanguageChange}
+            supportedLanguages={supportedLanguages}
+          />
+
+          {error && (
+            <div className="text-sm text-red-400">
+              <p>{error}</p>
+              <button onClick={() => setAttempt((count) => count + 1)} className="mt-1 underline hover:text-red-300">
+                Try again
+              </button>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={handleJoin}
+              disabled={!stream}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-6 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Join call
+            </button>
+            <button
+              onClick={onLeave}
+              className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-3 px-6 rounded-lg transition-colors"
+            >
+              Back
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,14 @@ interface MediaControlsProps {
   videoEnabled: boolean;
   onToggleAudio: () => void;
   onToggleVideo: () => void;
+  // Screen sharing button is only shown when a handler is given
+  screenSharing?: boolean;
+  onToggleScreenShare?: () => void;
+  // Record button is only shown when a handler is given
+  recording?: boolean;
+  onToggleRecording?: () => void;
+  // Opens the device settings panel
+  onOpenSettings?: () => void;
 }
 
 export default function MediaControls({
@@ -12,6 +20,11 @@ export default function MediaControls({
   videoEnabled,
   onToggleAudio,
   onToggleVideo,
+  screenSharing = false,
+  onToggleScreenShare,
+  recording = false,
+  onToggleRecording,
+  onOpenSettings,
 }: MediaControlsProps) {
   return (
     <div className="flex items-center gap-3">
@@ -113,6 +126,96 @@ export default function MediaControls({
         )}
       </button>
 
+      {/* Screen Share Button */}
+      {onToggleScreenShare && (
+        <button
+          onClick={onToggleScreenShare}
+          className={`flex items-center justify-center w-12 h-12 rounded-full transition-colors ${
+            screenSharing
+              ? 'bg-indigo-600 hover:bg-indigo-700 text-white'
+              : 'bg-gray-700 hover:bg-gray-600 text-white'
+          }`}
+          aria-label={screenSharing ? 'Stop sharing screen' : 'Share screen'}
+          aria-pressed={screenSharing}
+          title={screenSharing ? 'Stop sharing screen' : 'Share screen'}
+        >
+          {/* Monitor icon */}
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-6 w-6"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"
+            />
+          </svg>
+        </button>
+      )}
+
+      {/* Record Button */}
+      {onToggleRecording && (
+        <button
+          onClick={onToggleRecording}
+          className={`flex items-center justify-center w-12 h-12 rounded-full transition-colors ${
+            recording
+              ? 'bg-red-600 hover:bg-red-700 text-white'
+              : 'bg-gray-700 hover:bg-gray-600 text-white'
+          }`}
+          aria-label={recording ? 'Stop recording' : 'Record call'}
+          aria-pressed={recording}
+          title={recording ? 'Stop recording' : 'Record call'}
+        >
+          {recording ? (
+            // Stop icon
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="currentColor" viewBox="0 0 24 24">
+              <rect x="6" y="6" width="12" height="12" rx="1" />
+            </svg>
+          ) : (
+            // Record icon
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-red-500" fill="currentColor" viewBox="0 0 24 24">
+              <circle cx="12" cy="12" r="7" />
+            </svg>
+          )}
+        </button>
+      )}
+
+      {/* Device Settings Button */}
+      {onOpenSettings && (
+        <button
+          onClick={onOpenSettings}
+          className="flex items-center justify-center w-12 h-12 rounded-full transition-colors bg-gray-700 hover:bg-gray-600 text-white"
+          aria-label="Device settings"
+          title="Device settings"
+        >
+          {/* Gear icon */}
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-6 w-6"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+            />
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+            />
+          </svg>
+        </button>
+      )}
+
       {/* Status Text */}
       <div className="text-sm text-gray-400">
         <span className={audioEnabled ? 'text-green-400' : 'text-red-400'}>
@@ -122,6 +225,18 @@ export default function MediaControls({
         <span className={videoEnabled ? 'text-green-400' : 'text-red-400'}>
           {videoEnabled ? 'Camera On' : 'Camera Off'}
         </span>
+        {screenSharing && (
+          <>
+            {' • '}
+            <span className="text-indigo-400">Sharing Screen</span>
+          </>
+        )}
+        {recording && (
+          <>
+            {' • '}
+            <span className="text-red-400">Recording</span>
+          </>
+        )}
       </div>
     </div>
   );
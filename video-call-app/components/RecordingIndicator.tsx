@@ -0,0 +1,37 @@
+'use client';
+
+import { RemoteParticipant } from '@/types';
+
+interface RecordingIndicatorProps {
+  // We are recording the call
+  recording: boolean;
+  // Peer IDs of participants recording the call
+  remoteRecorders: string[];
+  // Used to name recorders the same way the video tiles do
+  remoteParticipants: RemoteParticipant[];
+}
+
+export default function RecordingIndicator({ recording, remoteRecorders, remoteParticipants }: RecordingIndicatorProps) {
+  if (!recording && remoteRecorders.length === 0) {
+    return null;
+  }
+
+  const names = remoteRecorders.map((peerId) => {
+    const index = remoteParticipants.findIndex((participant) => participant.peerId === peerId);
+    return index === -1 ? 'A participant' : `Participant ${index + 1}`;
+  });
+  const recorders = recording ? ['You', ...names] : names;
+  const message = `${recorders.join(' and ')} ${recorders.length === 1 && !recording ? 'is' : 'are'} recording this call`;
+
+  return (
+    <div
+      role="status"
+      className="flex items-center gap-2 px-3 py-1 rounded-full bg-red-900 bg-opacity-50 border border-red-500 text-red-200 text-sm"
+      title={message}
+    >
+      <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" aria-hidden="true" />
+      <span className="font-semibold">REC</span>
+      <span className="sr-only sm:not-sr-only">{message}</span>
+    </div>
+  );
+}
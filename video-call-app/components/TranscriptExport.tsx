@@ -0,0 +1,48 @@
+'use client';
+
+import { useState } from 'react';
+import { Caption } from '@/types';
+import { exportTranscript, TRANSCRIPT_FORMATS, TranscriptFormat } from '@/lib/captions/transcriptExport';
+import { downloadFile } from '@/lib/download';
+
+interface TranscriptExportProps {
+  captions: Caption[];
+  callStartedAt?: number | null;
+  // File name without extension
+  fileName?: string;
+}
+
+export default function TranscriptExport({ captions, callStartedAt, fileName = 'transcript' }: TranscriptExportProps) {
+  const [format, setFormat] = useState<TranscriptFormat>('vtt');
+  const hasCaptions = captions.some((caption) => caption.isFinal !== false);
+
+  const handleDownload = () => {
+    const info = TRANSCRIPT_FORMATS.find((entry) => entry.id === format)!;
+    const content = exportTranscript(captions, format, { callStartedAt: callStartedAt ?? undefined });
+    downloadFile(content, `${fileName}.${info.extension}`, info.mimeType);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        aria-label="Transcript format"
+        value={format}
+        onChange={(event) => setFormat(event.target.value as TranscriptFormat)}
+        className="bg-gray-700 text-white border border-gray-600 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        {TRANSCRIPT_FORMATS.map((entry) => (
+          <option key={entry.id} value={entry.id}>
+            {entry.label}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={handleDownload}
+        disabled={!hasCaptions}
+        className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-white text-xs font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        ⬇️ Download
+      </button>
+    </div>
+  );
+}
@@ -1,57 +1,149 @@
 'use client';
 
 import { useEffect, useRef } from 'react';
+import { RemoteParticipant } from '@/types';
 
 interface VideoDisplayProps {
   localStream: MediaStream | null;
-  remoteStream: MediaStream | null;
+  remoteParticipants: RemoteParticipant[];
+  // Our own screen capture while sharing, previewed in place of the camera
+  screenStream?: MediaStream | null;
+  // Speaker to play remote audio on; the browser default when unset
+  audioOutputId?: string;
 }
 
-export default function VideoDisplay({ localStream, remoteStream }: VideoDisplayProps) {
-  const localVideoRef = useRef<HTMLVideoElement>(null);
-  const remoteVideoRef = useRef<HTMLVideoElement>(null);
+interface RemoteVideoProps {
+  participant: RemoteParticipant;
+  label: string;
+  audioOutputId?: string;
+}
 
-  // Attach local stream to video element
+function RemoteVideo({ participant, label, audioOutputId }: RemoteVideoProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // Attach remote stream to video element
   useEffect(() => {
-    if (localVideoRef.current && localStream) {
-      localVideoRef.current.srcObject = localStream;
+    if (videoRef.current && participant.stream) {
+      videoRef.current.srcObject = participant.stream;
     }
-  }, [localStream]);
+  }, [participant.stream]);
 
-  // Attach remote stream to video element
+  // Route remote audio to the chosen speaker where the browser supports it
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !audioOutputId || !('setSinkId' in video)) return;
+
+    video.setSinkId(audioOutputId).catch((error) => {
+      console.warn('⚠️ Could not switch audio output:', error);
+    });
+  }, [audioOutputId, participant.stream]);
+
+  return (
+    <div className="relative bg-gray-900 rounded-lg overflow-hidden aspect-video">
+      {participant.stream ? (
+        <video
+          ref={videoRef}
+          autoPlay
+          playsInline
+          // Screens are letterboxed so nothing on them is cropped
+          className={`w-full h-full ${participant.screenSharing ? 'object-contain' : 'object-cover'}`}
+        />
+      ) : (
+        <div className="flex items-center justify-center h-full text-gray-400 text-sm">
+          <p>Connecting video...</p>
+        </div>
+      )}
+      <div className="absolute bottom-2 left-2 bg-black bg-opacity-50 px-2 py-1 rounded text-xs text-white">
+        {participant.screenSharing ? `${label} (screen)` : label}
+      </div>
+    </div>
+  );
+}
+
+export default function VideoDisplay({
+  localStream,
+  remoteParticipants,
+  screenStream = null,
+  audioOutputId,
+}: VideoDisplayProps) {
+  const localVideoRef = useRef<HTMLVideoElement>(null);
+  const localPreview = screenStream ?? localStream;
+
+  // Attach local stream (or our screen while sharing) to video element
   useEffect(() => {
-    if (remoteVideoRef.current && remoteStream) {
-      remoteVideoRef.current.srcObject = remoteStream;
+    if (localVideoRef.current && localPreview) {
+      localVideoRef.current.srcObject = localPreview;
     }
-  }, [remoteStream]);
+  }, [localPreview]);
+
+  const labels = new Map(remoteParticipants.map((participant, index) => [participant.peerId, `Participant ${index + 1}`]));
+
+  // A shared screen takes the main stage, everyone else moves to a strip below it
+  const presenter = remoteParticipants.find((participant) => participant.screenSharing && participant.stream);
+  const audience = presenter
+    ? remoteParticipants.filter((participant) => participant.peerId !== presenter.peerId)
+    : remoteParticipants;
+
+  // One column for a single remote participant, a grid for larger calls
+  const gridColumns = remoteParticipants.length <= 1
+    ? 'grid-cols-1'
+    : remoteParticipants.length <= 4
+      ? 'grid-cols-1 sm:grid-cols-2'
+      : 'grid-cols-2 lg:grid-cols-3';
 
   return (
     <div className="flex flex-col md:flex-row gap-4 w-full">
-      {/* Remote video (larger, primary view) */}
-      <div className="flex-1 relative bg-gray-900 rounded-lg overflow-hidden aspect-video">
-        {remoteStream ? (
-          <video
-            ref={remoteVideoRef}
-            autoPlay
-            playsInline
-            className="w-full h-full object-cover"
-          />
+      {/* Remote videos (larger, primary view) */}
+      <div className="flex-1">
+        {presenter ? (
+          <div className="space-y-2">
+            <RemoteVideo
+              participant={presenter}
+              label={labels.get(presenter.peerId)!}
+              audioOutputId={audioOutputId}
+            />
+            {audience.length > 0 && (
+              <div className="grid gap-2 grid-cols-3 sm:grid-cols-4">
+                {audience.map((participant) => (
+                  <RemoteVideo
+                    key={participant.peerId}
+                    participant={participant}
+                    label={labels.get(participant.peerId)!}
+                    audioOutputId={audioOutputId}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        ) : remoteParticipants.length > 0 ? (
+          <div className={`grid gap-2 ${gridColumns}`}>
+            {remoteParticipants.map((participant) => (
+              <RemoteVideo
+                key={participant.peerId}
+                participant={participant}
+                label={labels.get(participant.peerId)!}
+                audioOutputId={audioOutputId}
+              />
+            ))}
+          </div>
         ) : (
-          <div className="flex items-center justify-center h-full text-gray-400">
-            <p>Waiting for remote participant...</p>
+          <div className="relative bg-gray-900 rounded-lg overflow-hidden aspect-video">
+            <div className="flex items-center justify-center h-full text-gray-400">
+              <p>Waiting for remote participants...</p>
+            </div>
           </div>
         )}
       </div>
 
       {/* Local video (smaller, picture-in-picture style) */}
       <div className="w-full md:w-64 relative bg-gray-800 rounded-lg overflow-hidden aspect-video">
-        {localStream ? (
+        {localPreview ? (
           <video
             ref={localVideoRef}
             autoPlay
             playsInline
             muted
-            className="w-full h-full object-cover"
+            className={`w-full h-full ${screenStream ? 'object-contain' : 'object-cover'}`}
           />
         ) : (
           <div className="flex items-center justify-center h-full text-gray-400 text-sm">
@@ -59,7 +151,7 @@ export default function VideoDisplay({ localStream, remoteStream }: VideoDisplay
           </div>
         )}
         <div className="absolute bottom-2 left-2 bg-black bg-opacity-50 px-2 py-1 rounded text-xs text-white">
-          You
+          {screenStream ? 'You (sharing screen)' : 'You'}
         </div>
       </div>
     </div>
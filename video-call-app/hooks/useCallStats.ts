@@ -0,0 +1,33 @@
+import { useEffect, useState } from 'react';
+import { WebRTCManager } from '@/lib/webrtc/WebRTCManager';
+import { getOverallQuality } from '@/lib/webrtc/callStats';
+import { CallQuality, CallStats } from '@/types';
+
+interface UseCallStatsReturn {
+  stats: CallStats[];
+  // Worst quality across all participants
+  quality: CallQuality;
+}
+
+/**
+ * Poll connection quality metrics while a call is active
+ */
+export function useCallStats(webrtcManager: WebRTCManager | null, interval?: number): UseCallStatsReturn {
+  const [stats, setStats] = useState<CallStats[]>([]);
+
+  useEffect(() => {
+    if (!webrtcManager) return;
+
+    const handleStats = (nextStats: CallStats[]) => setStats(nextStats);
+    webrtcManager.on('stats', handleStats);
+    webrtcManager.startStatsPolling(interval);
+
+    return () => {
+      webrtcManager.off('stats', handleStats);
+      webrtcManager.stopStatsPolling();
+      setStats([]);
+    };
+  }, [webrtcManager, interval]);
+
+  return { stats, quality: getOverallQuality(stats) };
+}
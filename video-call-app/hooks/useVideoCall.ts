@@ -1,9 +1,42 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import type { DataConnection } from 'peerjs';
 import { WebRTCManager } from '@/lib/webrtc/WebRTCManager';
-import { SpeechRecognitionService } from '@/lib/speech/SpeechRecognitionService';
-import { TranslationService } from '@/lib/translation/TranslationService';
-import { CaptionManager } from '@/lib/captions/CaptionManager';
-import { Caption, ConnectionState, Language } from '@/types';
+import { loadRTCConfig } from '@/lib/webrtc/rtcConfig';
+import { getSignalingConfig } from '@/lib/webrtc/signalingConfig';
+import { SpeechEngine } from '@/lib/speech/SpeechEngine';
+import { createSpeechEngine, getAvailableSpeechEngines, getDefaultSpeechEngineId } from '@/lib/speech/speechEngines';
+import { DEFAULT_SPOKEN_LANGUAGE, SPOKEN_LANGUAGES, getBaseLanguage } from '@/lib/speech/spokenLanguages';
+import { LanguageDetector } from '@/lib/speech/LanguageDetector';
+import { SUPPORTED_LANGUAGES, TranslationService } from '@/lib/translation/TranslationService';
+import { getSharedTranslationCache } from '@/lib/translation/TranslationCache';
+import { CaptionManager, toOutgoingCaption, upsertCaption } from '@/lib/captions/CaptionManager';
+import { toWebVTT } from '@/lib/captions/transcriptExport';
+import { ChatManager } from '@/lib/chat/ChatManager';
+import { FileTransferManager } from '@/lib/transfer/FileTransferManager';
+import { MediaEncryption } from '@/lib/e2ee/MediaEncryption';
+import { restrictVideoToVp8 } from '@/lib/e2ee/videoCodec';
+import { CallHistoryRecorder, getCallHistoryStore } from '@/lib/history/CallHistory';
+import { CallRecorder, RecordingSource } from '@/lib/recording/CallRecorder';
+import { downloadFile } from '@/lib/download';
+import { useCallStats } from '@/hooks/useCallStats';
+import {
+  AdmissionRequest,
+  Caption,
+  CallQuality,
+  ChatMessage,
+  FileTransfer,
+  CallStats,
+  ConnectionState,
+  EncryptionState,
+  InputDeviceKind,
+  JoinSettings,
+  Language,
+  MediaDeviceLists,
+  RemoteParticipant,
+  RoomRole,
+  SelectedDevices,
+  SpeechEngineOption,
+} from '@/types';
 
 interface UseVideoCallOptions {
   sessionId: string;
@@ -14,71 +47,226 @@ interface UseVideoCallReturn {
   // Connection state
   connectionState: ConnectionState;
   isConnected: boolean;
+  role: RoomRole | null;
+
+  // Waiting room: newcomers the host must admit, and whether we are waiting to be let in
+  admissionRequests: AdmissionRequest[];
+  admitParticipant: (peerId: string) => void;
+  denyParticipant: (peerId: string) => void;
+  waitingForAdmission: boolean;
+
+  // Connection quality
+  callStats: CallStats[];
+  callQuality: CallQuality;
+
+  // End-to-end media encryption with each participant; null when turned off for this call
+  encryption: EncryptionState[] | null;
   
   // Media streams
   localStream: MediaStream | null;
-  remoteStream: MediaStream | null;
+  remoteParticipants: RemoteParticipant[];
   
   // Media controls
   audioEnabled: boolean;
   videoEnabled: boolean;
   toggleAudio: () => void;
   toggleVideo: () => void;
+
+  // Screen sharing
+  screenStream: MediaStream | null;
+  isScreenSharing: boolean;
+  screenShareSupported: boolean;
+  toggleScreenShare: () => Promise<void>;
+
+  // Recording
+  isRecording: boolean;
+  recordingSupported: boolean;
+  toggleRecording: () => Promise<void>;
+  // Peers who told us they are recording the call
+  remoteRecorders: string[];
+
+  // Device selection
+  devices: MediaDeviceLists;
+  selectedDevices: SelectedDevices;
+  selectDevice: (kind: MediaDeviceKind, deviceId: string) => Promise<void>;
   
   // Captions
   captions: Caption[];
+  // When this call connected, for transcript timing
+  callStartedAt: number | null;
   selectedLanguage: string;
   setSelectedLanguage: (language: string) => void;
   supportedLanguages: Language[];
+  // Locale the local user speaks, used for recognition and as the translation source
+  spokenLanguage: string;
+  setSpokenLanguage: (locale: string) => void;
+  spokenLanguages: Language[];
+  // Detect the language of each utterance instead of trusting spokenLanguage
+  autoDetectLanguage: boolean;
+  setAutoDetectLanguage: (enabled: boolean) => void;
+  // Show your own captions translated into selectedLanguage, or as spoken
+  translateOwnCaptions: boolean;
+  setTranslateOwnCaptions: (enabled: boolean) => void;
+
+  // In-call chat
+  chatMessages: ChatMessage[];
+  sendChatMessage: (text: string) => void;
+  chatOpen: boolean;
+  setChatOpen: (open: boolean) => void;
+  chatUnreadCount: number;
+  // Translate incoming chat messages into selectedLanguage
+  autoTranslateChat: boolean;
+  setAutoTranslateChat: (enabled: boolean) => void;
+
+  // File transfers with participants
+  fileTransfers: FileTransfer[];
+  // Offer a file to everyone in the call; rejects if the file cannot be sent
+  sendFile: (file: File) => Promise<void>;
+  acceptFileTransfer: (transferId: string) => void;
+  declineFileTransfer: (transferId: string) => void;
+  pauseFileTransfer: (transferId: string) => void;
+  resumeFileTransfer: (transferId: string) => void;
+  cancelFileTransfer: (transferId: string) => void;
+
+  // Speech recognition engine used for local captions
+  speechEngines: SpeechEngineOption[];
+  speechEngine: string | null;
+  selectSpeechEngine: (engineId: string) => void;
   
   // Call controls
-  startCall: () => Promise<void>;
+  // Join with the stream and settings from the lobby, or open the devices afresh
+  startCall: (settings?: JoinSettings) => Promise<void>;
   endCall: () => void;
 }
 
+/**
+ * Everyone in the call, in the same order and with the same names as on screen
+ */
+function getRecordingSources(webrtcManager: WebRTCManager): RecordingSource[] {
+  const sources: RecordingSource[] = [
+    { id: 'local', label: 'You', stream: webrtcManager.getMediaState().stream },
+  ];
+  const screenStream = webrtcManager.getScreenStream();
+  if (screenStream) {
+    sources.push({ id: 'local-screen', label: 'Your screen', stream: screenStream });
+  }
+  webrtcManager.getParticipants().forEach((participant, index) => {
+    sources.push({
+      id: participant.peerId,
+      label: participant.screenSharing ? `Participant ${index + 1} (screen)` : `Participant ${index + 1}`,
+      stream: participant.stream,
+    });
+  });
+  return sources;
+}
+
 export function useVideoCall({ sessionId, onError }: UseVideoCallOptions): UseVideoCallReturn {
   // Connection state
   const [connectionState, setConnectionState] = useState<ConnectionState>('connecting');
+  const [role, setRole] = useState<RoomRole | null>(null);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
-  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [remoteParticipants, setRemoteParticipants] = useState<RemoteParticipant[]>([]);
+  const [admissionRequests, setAdmissionRequests] = useState<AdmissionRequest[]>([]);
+  const [waitingForAdmission, setWaitingForAdmission] = useState(false);
+  const [encryption, setEncryption] = useState<EncryptionState[] | null>(null);
   
   // Media state
   const [audioEnabled, setAudioEnabled] = useState(true);
   const [videoEnabled, setVideoEnabled] = useState(true);
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const [screenShareSupported, setScreenShareSupported] = useState(false);
+
+  // Recording state
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingSupported, setRecordingSupported] = useState(false);
+  const [remoteRecorders, setRemoteRecorders] = useState<string[]>([]);
+
+  // Device state
+  const [devices, setDevices] = useState<MediaDeviceLists>({ audioInputs: [], videoInputs: [], audioOutputs: [] });
+  const [selectedDevices, setSelectedDevices] = useState<SelectedDevices>({});
   
   // Caption state
   const [captions, setCaptions] = useState<Caption[]>([]);
+  const [callStartedAt, setCallStartedAt] = useState<number | null>(null);
   const [selectedLanguage, setSelectedLanguage] = useState('en');
+  const [translateOwnCaptions, setTranslateOwnCaptions] = useState(true);
+  const [spokenLanguage, setSpokenLanguage] = useState(DEFAULT_SPOKEN_LANGUAGE);
+  const [autoDetectLanguage, setAutoDetectLanguage] = useState(false);
+  // Chat state
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [chatOpen, setChatOpenState] = useState(true);
+  const [chatUnreadCount, setChatUnreadCount] = useState(0);
+  const [autoTranslateChat, setAutoTranslateChat] = useState(true);
+
+  // File transfer state
+  const [fileTransfers, setFileTransfers] = useState<FileTransfer[]>([]);
+
+  const [speechEngines] = useState<SpeechEngineOption[]>(() => getAvailableSpeechEngines());
+  const [speechEngine, setSpeechEngine] = useState<string | null>(() => getDefaultSpeechEngineId());
   
   // Service instances
   const webrtcManagerRef = useRef<WebRTCManager | null>(null);
-  const speechServiceRef = useRef<SpeechRecognitionService | null>(null);
+  // Current manager as state, so stats polling follows it across calls
+  const [activeManager, setActiveManager] = useState<WebRTCManager | null>(null);
+  const { stats: callStats, quality: callQuality } = useCallStats(activeManager);
+  const speechEngineRef = useRef<SpeechEngine | null>(null);
   const translationServiceRef = useRef<TranslationService | null>(null);
   const captionManagerRef = useRef<CaptionManager | null>(null);
-  const supportedLanguagesRef = useRef<Language[]>([]);
+  const chatManagerRef = useRef<ChatManager | null>(null);
+  const fileTransferManagerRef = useRef<FileTransferManager | null>(null);
+  const mediaEncryptionRef = useRef<MediaEncryption | null>(null);
+  const historyRecorderRef = useRef<CallHistoryRecorder | null>(null);
+  const callRecorderRef = useRef<CallRecorder | null>(null);
 
   // Initialize services
   useEffect(() => {
+
     // Initialize translation service
-    const translationService = new TranslationService();
+    // Shared across calls in this tab, and persisted when IndexedDB is available
+    const translationService = new TranslationService({ cache: getSharedTranslationCache() });
     translationServiceRef.current = translationService;
-    supportedLanguagesRef.current = translationService.getSupportedLanguages();
 
-    // Initialize speech recognition service
-    if (SpeechRecognitionService.isSupported()) {
-      const speechService = new SpeechRecognitionService();
-      speechServiceRef.current = speechService;
+    // Initialize chat, which works whether or not speech recognition does
+    const chatManager = new ChatManager(translationService);
+    chatManagerRef.current = chatManager;
+    // The chat panel starts open
+    chatManager.setVisible(true);
+
+    // Initialize file transfers
+    const fileTransferManager = new FileTransferManager();
+    fileTransferManagerRef.current = fileTransferManager;
+    fileTransferManager.on('transfer', (data: FileTransfer | Error) => {
+      if (!(data instanceof Error)) {
+        setFileTransfers(fileTransferManager.getTransfers());
+      }
+    });
+    chatManager.on('message', (data: ChatMessage | Error) => {
+      if (!(data instanceof Error)) {
+        setChatMessages(chatManager.getMessages());
+        setChatUnreadCount(chatManager.getUnreadCount());
+      }
+    });
+
+    // Initialize the preferred speech engine for this browser
+    const engineId = getDefaultSpeechEngineId();
+    if (engineId) {
+      const speechEngine = createSpeechEngine(engineId);
+      speechEngineRef.current = speechEngine;
 
       // Initialize caption manager
-      const captionManager = new CaptionManager(speechService, translationService);
+      const captionManager = new CaptionManager(speechEngine, translationService);
       captionManagerRef.current = captionManager;
 
-      // Listen for new captions
+      // Listen for new captions and updates to in-progress ones
       captionManager.on('caption', (data: Caption | Error) => {
         if (data instanceof Error) {
           console.error('Caption error:', data);
         } else {
-          setCaptions((prev) => [...prev, data]);
+          setCaptions((prev) => upsertCaption(prev, data));
+          // Send local captions to the current call as spoken, interim updates included
+          if (data.speaker === 'local') {
+            webrtcManagerRef.current?.sendMessage('caption', { caption: toOutgoingCaption(data) });
+          }
         }
       });
     } else {
@@ -87,14 +275,50 @@ export function useVideoCall({ sessionId, onError }: UseVideoCallOptions): UseVi
 
     return () => {
       // Cleanup on unmount
-      if (speechServiceRef.current) {
-        speechServiceRef.current.stop();
+      if (speechEngineRef.current) {
+        speechEngineRef.current.stop();
       }
+      chatManager.destroy();
+      fileTransferManager.destroy();
+      mediaEncryptionRef.current?.destroy();
     };
   }, []);
 
+  // End call
+  const endCall = useCallback(() => {
+    // Leaving without stopping discards the recording
+    if (callRecorderRef.current) {
+      callRecorderRef.current.destroy();
+      callRecorderRef.current = null;
+    }
+    if (webrtcManagerRef.current) {
+      webrtcManagerRef.current.disconnect();
+    }
+    captionManagerRef.current?.stopLocalCaptions();
+    if (speechEngineRef.current) {
+      speechEngineRef.current.stop();
+    }
+    setConnectionState('disconnected');
+    setRole(null);
+    setAdmissionRequests([]);
+    setWaitingForAdmission(false);
+    setScreenStream(null);
+    setActiveManager(null);
+    setCallStartedAt(null);
+    setIsRecording(false);
+    setRemoteRecorders([]);
+    chatManagerRef.current?.setTransport(null);
+    // Received files stay available to save after the call
+    fileTransferManagerRef.current?.setChannelProvider(null);
+    mediaEncryptionRef.current?.destroy();
+    mediaEncryptionRef.current = null;
+    setEncryption(null);
+  }, []);
+
   // Start call
-  const startCall = useCallback(async () => {
+  const startCall = useCallback(async (settings?: JoinSettings) => {
+    // Set if the host turns us away; joining then fails with the host's reason, already reported
+    let turnedAway = false;
     try {
       setConnectionState('connecting');
 
@@ -104,97 +328,237 @@ export function useVideoCall({ sessionId, onError }: UseVideoCallOptions): UseVi
         webrtcManagerRef.current.disconnect();
       }
 
-      // Initialize WebRTC manager
-      const webrtcManager = new WebRTCManager();
+      // Initialize WebRTC manager with the signaling server and ICE/TURN settings
+      const rtcSettings = await loadRTCConfig();
+      const encryptMedia = !!settings?.encryptMedia && MediaEncryption.isSupported();
+      const webrtcManager = new WebRTCManager({
+        ...getSignalingConfig(),
+        ...rtcSettings,
+        displayName: settings?.displayName,
+        passphrase: settings?.passphrase || undefined,
+        requireApproval: settings?.requireApproval,
+        // Frame encryption is laid out for VP8
+        sdpTransform: encryptMedia ? restrictVideoToVp8 : undefined,
+      });
       webrtcManagerRef.current = webrtcManager;
+      setActiveManager(webrtcManager);
+      // Screen capture is unavailable on most mobile browsers
+      setScreenShareSupported(WebRTCManager.isScreenShareSupported());
+      setRecordingSupported(CallRecorder.isSupported());
+
+      // Chat history lasts for one call
+      chatManagerRef.current?.reset();
+      chatManagerRef.current?.setTransport(webrtcManager);
+      setChatMessages([]);
+      setChatUnreadCount(0);
+
+      // Files go over their own connection so they never hold up captions
+      fileTransferManagerRef.current?.reset();
+      fileTransferManagerRef.current?.setChannelProvider(webrtcManager);
+      setFileTransfers([]);
+
+      // Media is encrypted per participant, with keys agreed over the data connection
+      mediaEncryptionRef.current?.destroy();
+      mediaEncryptionRef.current = null;
+      setEncryption(null);
+      if (encryptMedia) {
+        const mediaEncryption = new MediaEncryption({ passphrase: settings?.passphrase });
+        mediaEncryption.setTransport(webrtcManager);
+        mediaEncryption.on('state-changed', setEncryption);
+        mediaEncryptionRef.current = mediaEncryption;
+        setEncryption([]);
+      }
 
       // Set up WebRTC event listeners
       webrtcManager.on('local-stream', (stream: MediaStream) => {
         console.log('✅ Local stream received');
         setLocalStream(stream);
+        // Offline recognizers caption the same microphone the call sends
+        speechEngineRef.current?.setAudioSource?.(stream);
       });
 
-      webrtcManager.on('remote-stream', (stream: MediaStream) => {
-        console.log('✅ Remote stream received', stream);
+      webrtcManager.on('remote-stream', (stream: MediaStream, peerId: string) => {
+        console.log('✅ Remote stream received from', peerId, stream);
         console.log('Stream tracks:', stream.getTracks());
-        setRemoteStream(stream);
+        setRemoteParticipants(webrtcManager.getParticipants());
         setConnectionState('connected');
       });
 
-      webrtcManager.on('connected', () => {
-        console.log('✅ Connected to peer');
+      webrtcManager.on('connected', (peerId: string) => {
+        console.log('✅ Connected to peer', peerId);
+        setRemoteParticipants(webrtcManager.getParticipants());
         setConnectionState('connected');
-        
-        // Check if remote stream is available after a short delay
-        setTimeout(() => {
-          const remote = webrtcManager.getRemoteStream();
-          if (remote && !remoteStream) {
-            console.log('📡 Setting remote stream from manager');
-            setRemoteStream(remote);
-          }
-        }, 1000);
+        mediaEncryptionRef.current?.announceKey(peerId);
+        // Late joiners must know the call is being recorded
+        if (callRecorderRef.current?.isRecording()) {
+          webrtcManager.sendMessage('recording', { active: true });
+        }
+      });
+
+      webrtcManager.on('media-connection', (peerConnection: RTCPeerConnection, peerId: string) => {
+        mediaEncryptionRef.current?.attachPeerConnection(peerId, peerConnection);
+      });
+
+      webrtcManager.on('media-connection-closed', () => {
+        setRemoteParticipants(webrtcManager.getParticipants());
+      });
+
+      webrtcManager.on('peer-left', (peerId: string) => {
+        console.log('👋 Participant left', peerId);
+        setRemoteParticipants(webrtcManager.getParticipants());
+        setRemoteRecorders((prev) => prev.filter((recorder) => recorder !== peerId));
+        chatManagerRef.current?.handlePeerLeft(peerId);
+        fileTransferManagerRef.current?.handlePeerLeft(peerId);
+        mediaEncryptionRef.current?.handlePeerLeft(peerId);
+      });
+
+      webrtcManager.on('reconnecting', (peerId?: string) => {
+        console.log('🔄 Reconnecting', peerId ?? 'to signaling server');
+        setConnectionState('reconnecting');
+      });
+
+      webrtcManager.on('reconnected', (peerId?: string) => {
+        console.log('✅ Reconnected', peerId ?? 'to signaling server');
+        setRemoteParticipants(webrtcManager.getParticipants());
+        setConnectionState(webrtcManager.isReconnecting() ? 'reconnecting' : 'connected');
+      });
+
+      webrtcManager.on('reconnect-failed', (peerId?: string) => {
+        setRemoteParticipants(webrtcManager.getParticipants());
+        if (!peerId) {
+          // Signaling could not be restored, nobody new can reach us
+          console.error('❌ Could not reconnect to signaling server');
+          setConnectionState('disconnected');
+        } else {
+          console.warn('⚠️ Could not reconnect to participant', peerId);
+          setConnectionState(webrtcManager.isReconnecting() ? 'reconnecting' : 'connected');
+        }
+      });
+
+      webrtcManager.on('screen-share-started', (stream: MediaStream) => {
+        setScreenStream(stream);
+      });
+
+      webrtcManager.on('screen-share-stopped', () => {
+        setScreenStream(null);
+      });
+
+      webrtcManager.on('screen-share-changed', () => {
+        setRemoteParticipants(webrtcManager.getParticipants());
+      });
+
+      webrtcManager.on('file-channel', (conn: DataConnection) => {
+        fileTransferManagerRef.current?.addChannel(conn);
+      });
+
+      webrtcManager.on('devices-changed', (deviceLists: MediaDeviceLists) => {
+        setDevices(deviceLists);
+      });
+
+      webrtcManager.on('device-switched', (kind: InputDeviceKind) => {
+        setSelectedDevices((prev) => ({ ...prev, ...webrtcManager.getSelectedDevices() }));
+        if (kind === 'audioinput') {
+          speechEngineRef.current?.setAudioSource?.(webrtcManager.getMediaState().stream);
+        }
+      });
+
+      webrtcManager.on('admissions-changed', (requests: AdmissionRequest[]) => {
+        setAdmissionRequests(requests);
+      });
+
+      webrtcManager.on('admission-pending', () => {
+        setWaitingForAdmission(true);
+      });
+
+      webrtcManager.on('admitted', () => {
+        setWaitingForAdmission(false);
+      });
+
+      // Turned away by the host: leave as if we hung up, but keep the attempt out of history
+      webrtcManager.on('join-denied', (reason: string) => {
+        turnedAway = true;
+        historyRecorderRef.current?.discard();
+        endCall();
+        onError?.(reason);
+      });
+
+      webrtcManager.on('role-changed', (newRole: RoomRole) => {
+        console.log(`👑 Role is now ${newRole.toUpperCase()}`);
+        setRole(newRole);
       });
 
       webrtcManager.on('disconnected', () => {
-        console.log('❌ Disconnected from peer');
+        console.log('❌ Disconnected from call');
+        setRemoteParticipants([]);
+        setRemoteRecorders([]);
+        setAdmissionRequests([]);
         setConnectionState('disconnected');
       });
 
-      // Handle incoming caption data from peer
-      webrtcManager.on('data', (data: any) => {
-        if (data.type === 'caption' && captionManagerRef.current) {
-          captionManagerRef.current.processRemoteCaption(data.caption);
+      // Handle incoming captions from peers
+      webrtcManager.onMessage('caption', (message, peerId) => {
+        if (captionManagerRef.current) {
+          captionManagerRef.current.processRemoteCaption(message.payload.caption, peerId);
         }
       });
 
-      // Try to create session (become host)
-      try {
-        console.log('👑 Attempting to create session as HOST...');
-        await webrtcManager.createSession(sessionId);
-        console.log('✅ SUCCESS! I am the HOST');
-        console.log('📢 Waiting for guest to join...');
-      } catch (error: any) {
-        // Check if error is because ID is taken (someone else is host)
-        if (error.message === 'SESSION_ID_TAKEN') {
-          // If creation fails, join instead (become guest)
-          console.log('👤 Host already exists, joining as GUEST...');
-          console.log('⏳ Waiting for host to be ready...');
-          
-          // Wait longer for host to fully initialize
-          await new Promise(resolve => setTimeout(resolve, 2000));
-          
-          try {
-            await webrtcManager.joinSession(sessionId);
-            console.log('✅ SUCCESS! Joined as GUEST');
-            console.log('🔄 Establishing media connection...');
-          } catch (joinError: any) {
-            console.error('❌ Failed to join session:', joinError);
-            throw new Error('Could not join the call. The host may have disconnected. Please try creating a new call.');
-          }
-        } else {
-          // Some other error occurred
-          console.error('❌ Unexpected error:', error);
-          throw error;
+      // Handle chat messages and their delivery acknowledgements
+      webrtcManager.onMessage('chat', (message, peerId) => {
+        chatManagerRef.current?.receiveMessage(message.payload, peerId);
+      });
+
+      webrtcManager.onMessage('chat-ack', (message, peerId) => {
+        chatManagerRef.current?.receiveAck(message.payload, peerId);
+      });
+
+      webrtcManager.onMessage('e2ee-key', (message, peerId) => {
+        mediaEncryptionRef.current?.handleRemoteKey(message.payload, peerId);
+      });
+
+      // Show when a participant records the call
+      webrtcManager.onMessage('recording', (message, peerId) => {
+        console.log(message.payload.active ? '🔴 Participant started recording' : '⏹️ Participant stopped recording', peerId);
+        setRemoteRecorders((prev) => {
+          const others = prev.filter((recorder) => recorder !== peerId);
+          return message.payload.active ? [...others, peerId] : others;
+        });
+      });
+
+      // Call with the lobby's stream, joining muted or with the camera off if asked to
+      if (settings?.stream) {
+        settings.stream.getAudioTracks().forEach((track) => {
+          track.enabled = settings.audioEnabled;
+        });
+        settings.stream.getVideoTracks().forEach((track) => {
+          track.enabled = settings.videoEnabled;
+        });
+        webrtcManager.setLocalStream(settings.stream);
+      }
+      if (settings) {
+        setAudioEnabled(settings.audioEnabled);
+        setVideoEnabled(settings.videoEnabled);
+        captionManagerRef.current?.setMuted(!settings.audioEnabled);
+        if (settings.audioOutputId) {
+          setSelectedDevices((prev) => ({ ...prev, audiooutput: settings.audioOutputId }));
         }
       }
 
+      // Claim the host role or join the existing host, retrying until one succeeds
+      console.log('🚪 Starting session...');
+      const negotiatedRole = await webrtcManager.startSession(sessionId);
+      console.log(`✅ Joined as ${negotiatedRole.toUpperCase()}`);
+
+      // Device labels are only available now that permissions are granted
+      setDevices(await webrtcManager.getDevices());
+      setSelectedDevices((prev) => ({ ...prev, ...webrtcManager.getSelectedDevices() }));
+
       // Start caption generation
-      if (captionManagerRef.current) {
-        captionManagerRef.current.startLocalCaptions(selectedLanguage);
-        
-        // Send local captions to remote peer
-        captionManagerRef.current.on('caption', (data: Caption | Error) => {
-          if (!(data instanceof Error) && data.speaker === 'local' && webrtcManager) {
-            webrtcManager.sendData({
-              type: 'caption',
-              caption: data,
-            });
-          }
-        });
-      }
+      captionManagerRef.current?.startLocalCaptions(selectedLanguage);
 
+      setCallStartedAt(Date.now());
       setConnectionState('connected');
     } catch (error: any) {
+      if (turnedAway) return;
       console.error('❌ Call initialization error:', error);
       setConnectionState('disconnected');
       
@@ -213,7 +577,16 @@ export function useVideoCall({ sessionId, onError }: UseVideoCallOptions): UseVi
         onError(errorMessage);
       }
     }
-  }, [sessionId, selectedLanguage, onError]);
+  }, [sessionId, selectedLanguage, onError, endCall]);
+
+  // Let a newcomer in, or turn them away
+  const admitParticipant = useCallback((peerId: string) => {
+    webrtcManagerRef.current?.admitPeer(peerId);
+  }, []);
+
+  const denyParticipant = useCallback((peerId: string) => {
+    webrtcManagerRef.current?.denyPeer(peerId);
+  }, []);
 
   // Toggle audio
   const toggleAudio = useCallback(() => {
@@ -238,17 +611,200 @@ export function useVideoCall({ sessionId, onError }: UseVideoCallOptions): UseVi
     }
   }, [videoEnabled]);
 
-  // End call
-  const endCall = useCallback(() => {
-    if (webrtcManagerRef.current) {
-      webrtcManagerRef.current.disconnect();
+  // Start or stop sharing the screen
+  const toggleScreenShare = useCallback(async () => {
+    const webrtcManager = webrtcManagerRef.current;
+    if (!webrtcManager) return;
+
+    if (webrtcManager.getScreenStream()) {
+      await webrtcManager.stopScreenShare();
+      return;
     }
-    if (speechServiceRef.current) {
-      speechServiceRef.current.stop();
+
+    try {
+      await webrtcManager.startScreenShare();
+    } catch (error) {
+      // Closing the browser's picker rejects with NotAllowedError; nothing to report
+      if (error instanceof Error && error.name === 'NotAllowedError') return;
+      console.error('❌ Failed to start screen sharing:', error);
     }
-    setConnectionState('disconnected');
   }, []);
 
+  // Start recording, or stop and download the recording with its captions
+  const toggleRecording = useCallback(async () => {
+    const webrtcManager = webrtcManagerRef.current;
+    if (!webrtcManager) return;
+
+    const recorder = callRecorderRef.current;
+    if (recorder) {
+      callRecorderRef.current = null;
+      setIsRecording(false);
+      webrtcManager.sendMessage('recording', { active: false });
+
+      const startedAt = recorder.getStartedAt() ?? Date.now();
+      try {
+        const video = await recorder.stop();
+        const fileName = `recording-${sessionId.slice(0, 8)}-${new Date(startedAt).toISOString().replace(/[:.]/g, '-')}`;
+        downloadFile(video, `${fileName}.webm`);
+
+        // Sidecar captions, timed from the start of the recording
+        const captions = (captionManagerRef.current?.getCaptions() ?? []).filter((caption) => caption.timestamp >= startedAt);
+        downloadFile(toWebVTT(captions, { callStartedAt: startedAt }), `${fileName}.vtt`, 'text/vtt');
+      } catch (error) {
+        console.error('❌ Failed to save recording:', error);
+      }
+      return;
+    }
+
+    try {
+      const newRecorder = new CallRecorder();
+      newRecorder.on('error', () => {
+        if (callRecorderRef.current === newRecorder) {
+          callRecorderRef.current = null;
+          newRecorder.destroy();
+          setIsRecording(false);
+          webrtcManager.sendMessage('recording', { active: false });
+        }
+      });
+      newRecorder.start(getRecordingSources(webrtcManager));
+      callRecorderRef.current = newRecorder;
+      setIsRecording(true);
+      // Let everyone in the call know they are being recorded
+      webrtcManager.sendMessage('recording', { active: true });
+    } catch (error) {
+      console.error('❌ Failed to start recording:', error);
+    }
+  }, [sessionId]);
+
+  // Send a chat message to everyone in the call
+  const sendChatMessage = useCallback((text: string) => {
+    try {
+      chatManagerRef.current?.send(text);
+    } catch (error) {
+      console.error('❌ Failed to send chat message:', error);
+    }
+  }, []);
+
+  // Offer a file to everyone in the call
+  const sendFile = useCallback(async (file: File) => {
+    const webrtcManager = webrtcManagerRef.current;
+    const fileTransferManager = fileTransferManagerRef.current;
+    if (!webrtcManager || !fileTransferManager) return;
+
+    const peerIds = webrtcManager.getParticipants().map((participant) => participant.peerId);
+    if (peerIds.length === 0) {
+      throw new Error('Nobody is in the call to send it to');
+    }
+    await fileTransferManager.sendFile(file, peerIds);
+  }, []);
+
+  const acceptFileTransfer = useCallback((transferId: string) => {
+    fileTransferManagerRef.current?.accept(transferId);
+  }, []);
+
+  const declineFileTransfer = useCallback((transferId: string) => {
+    fileTransferManagerRef.current?.decline(transferId);
+  }, []);
+
+  const pauseFileTransfer = useCallback((transferId: string) => {
+    fileTransferManagerRef.current?.pause(transferId);
+  }, []);
+
+  const resumeFileTransfer = useCallback((transferId: string) => {
+    fileTransferManagerRef.current?.resume(transferId);
+  }, []);
+
+  const cancelFileTransfer = useCallback((transferId: string) => {
+    fileTransferManagerRef.current?.cancel(transferId);
+  }, []);
+
+  // Show or hide the chat; messages arriving while it is open are read straight away
+  const setChatOpen = useCallback((open: boolean) => {
+    setChatOpenState(open);
+    const chatManager = chatManagerRef.current;
+    if (chatManager) {
+      chatManager.setVisible(open);
+      setChatUnreadCount(chatManager.getUnreadCount());
+    }
+  }, []);
+
+  // Choose a camera, microphone or speaker
+  const selectDevice = useCallback(async (kind: MediaDeviceKind, deviceId: string) => {
+    // Speakers are applied by the video elements, not the media connection
+    if (kind === 'audiooutput') {
+      setSelectedDevices((prev) => ({ ...prev, audiooutput: deviceId }));
+      return;
+    }
+
+    if (!webrtcManagerRef.current) return;
+    try {
+      await webrtcManagerRef.current.switchDevice(kind, deviceId);
+    } catch (error) {
+      console.error('❌ Failed to switch device:', error);
+    }
+  }, []);
+
+  // Switch the engine that recognizes the local user's speech
+  const selectSpeechEngine = useCallback((engineId: string) => {
+    const captionManager = captionManagerRef.current;
+    if (!captionManager) return;
+
+    try {
+      const engine = createSpeechEngine(engineId, speechEngineRef.current?.getLanguage());
+      engine.setAudioSource?.(webrtcManagerRef.current?.getMediaState().stream ?? null);
+      captionManager.setSpeechEngine(engine);
+      speechEngineRef.current = engine;
+      setSpeechEngine(engineId);
+      console.log(`🎙️ Captions now use ${engineId}`);
+    } catch (error) {
+      console.error('❌ Failed to switch speech engine:', error);
+    }
+  }, []);
+
+  // Keep the recording in step with who is in the call and what they show
+  useEffect(() => {
+    const webrtcManager = webrtcManagerRef.current;
+    if (isRecording && webrtcManager) {
+      callRecorderRef.current?.setSources(getRecordingSources(webrtcManager));
+    }
+  }, [isRecording, localStream, screenStream, remoteParticipants]);
+
+  // Burn the latest caption into the recording
+  useEffect(() => {
+    if (isRecording) {
+      const latest = captions[captions.length - 1];
+      callRecorderRef.current?.setCaption(latest ? latest.text : null);
+    }
+  }, [isRecording, captions]);
+
+  // Record each call in local history until it ends
+  useEffect(() => {
+    const store = getCallHistoryStore();
+    if (callStartedAt === null || !store) return;
+
+    const recorder = new CallHistoryRecorder(store, { sessionId, startedAt: callStartedAt });
+    historyRecorderRef.current = recorder;
+
+    // Closing the tab skips effect cleanup; write what we have
+    const handlePageHide = () => recorder.flush();
+    window.addEventListener('pagehide', handlePageHide);
+
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      recorder.end();
+      historyRecorderRef.current = null;
+    };
+  }, [callStartedAt, sessionId]);
+
+  useEffect(() => {
+    historyRecorderRef.current?.update({
+      role,
+      captions,
+      participants: remoteParticipants.map((participant) => participant.peerId),
+      languages: [spokenLanguage, selectedLanguage],
+    });
+  }, [callStartedAt, role, captions, remoteParticipants, spokenLanguage, selectedLanguage]);
+
   // Update caption language when changed
   useEffect(() => {
     if (captionManagerRef.current) {
@@ -256,19 +812,97 @@ export function useVideoCall({ sessionId, onError }: UseVideoCallOptions): UseVi
     }
   }, [selectedLanguage]);
 
+  // Recognize and translate from the language the user speaks
+  useEffect(() => {
+    if (captionManagerRef.current) {
+      captionManagerRef.current.setSourceLanguage(spokenLanguage);
+    }
+  }, [spokenLanguage]);
+
+  // Turn spoken language detection on or off
+  useEffect(() => {
+    if (captionManagerRef.current) {
+      captionManagerRef.current.setLanguageDetector(autoDetectLanguage ? new LanguageDetector() : null);
+    }
+  }, [autoDetectLanguage]);
+
+  // Keep chat translation in step with the caption languages
+  useEffect(() => {
+    chatManagerRef.current?.setTargetLanguage(selectedLanguage);
+  }, [selectedLanguage]);
+
+  useEffect(() => {
+    chatManagerRef.current?.setSourceLanguage(getBaseLanguage(spokenLanguage));
+  }, [spokenLanguage]);
+
+  useEffect(() => {
+    chatManagerRef.current?.setAutoTranslate(autoTranslateChat);
+  }, [autoTranslateChat]);
+
+  // Update whether own captions are translated when changed
+  useEffect(() => {
+    if (captionManagerRef.current) {
+      captionManagerRef.current.setTranslateOwnCaptions(translateOwnCaptions);
+    }
+  }, [translateOwnCaptions]);
+
   return {
     connectionState,
     isConnected: connectionState === 'connected',
+    role,
+    admissionRequests,
+    admitParticipant,
+    denyParticipant,
+    waitingForAdmission,
+    callStats,
+    callQuality,
+    encryption,
     localStream,
-    remoteStream,
+    remoteParticipants,
     audioEnabled,
     videoEnabled,
     toggleAudio,
     toggleVideo,
+    screenStream,
+    isScreenSharing: screenStream !== null,
+    screenShareSupported,
+    toggleScreenShare,
+    isRecording,
+    recordingSupported,
+    toggleRecording,
+    remoteRecorders,
+    devices,
+    selectedDevices,
+    selectDevice,
     captions,
+    callStartedAt,
     selectedLanguage,
     setSelectedLanguage,
-    supportedLanguages: supportedLanguagesRef.current,
+    supportedLanguages: SUPPORTED_LANGUAGES,
+    spokenLanguage,
+    setSpokenLanguage,
+    spokenLanguages: SPOKEN_LANGUAGES,
+    autoDetectLanguage,
+    setAutoDetectLanguage,
+    translateOwnCaptions,
+    setTranslateOwnCaptions,
+    chatMessages,
+    sendChatMessage,
+    chatOpen,
+    setChatOpen,
+    chatUnreadCount,
+    autoTranslateChat,
+    setAutoTranslateChat,
+    fileTransfers,
+    sendFile,
+    acceptFileTransfer,
+    declineFileTransfer,
+    pauseFileTransfer,
+    resumeFileTransfer,
+    cancelFileTransfer,
+    speechEngines,
+    speechEngine,
+    selectSpeechEngine,
     startCall,
     endCall,
   };
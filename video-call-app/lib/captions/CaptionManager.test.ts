@@ -1,12 +1,45 @@
 // Tests for CaptionManager
 
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, MockInstance } from 'vitest';
 import * as fc from 'fast-check';
-import { CaptionManager } from './CaptionManager';
+import { CaptionManager, toOutgoingCaption } from './CaptionManager';
 import { SpeechRecognitionService, RecognitionResult } from '../speech/SpeechRecognitionService';
 import { TranslationService } from '../translation/TranslationService';
+import { RecognitionCallback, RecognitionEventType, SpeechEngine } from '../speech/SpeechEngine';
+import { LanguageDetector } from '../speech/LanguageDetector';
 import { Caption } from '@/types';
 
+// Scripted engine that emits whatever the test tells it to
+class FakeSpeechEngine implements SpeechEngine {
+  active = false;
+  destroyed = false;
+  private language = 'en-US';
+  private handlers = new Map<RecognitionEventType, RecognitionCallback[]>();
+
+  start(): void { this.active = true; }
+  stop(): void { this.active = false; }
+  setLanguage(language: string): void { this.language = language; }
+  getLanguage(): string { return this.language; }
+  isActive(): boolean { return this.active; }
+  destroy(): void { this.destroyed = true; this.handlers.clear(); }
+
+  on(event: RecognitionEventType, callback: RecognitionCallback): void {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), callback]);
+  }
+
+  off(event: RecognitionEventType, callback: RecognitionCallback): void {
+    this.handlers.set(event, (this.handlers.get(event) ?? []).filter((handler) => handler !== callback));
+  }
+
+  say(text: string, isFinal = true): void {
+    (this.handlers.get('result') ?? []).forEach((handler) => handler({ text, isFinal, confidence: 1 }));
+  }
+
+  listenerCount(): number {
+    return [...this.handlers.values()].reduce((count, handlers) => count + handlers.length, 0);
+  }
+}
+
 describe('CaptionManager', () => {
   let speechService: SpeechRecognitionService;
   let translationService: TranslationService;
@@ -571,4 +604,268 @@ describe('CaptionManager', () => {
       );
     });
   });
+
+  describe('Interim captions', () => {
+    let service: SpeechRecognitionService;
+    let manager: CaptionManager;
+    let emitted: Caption[];
+
+    // emit is private; drive the service the way its engine would
+    const emit = (event: RecognitionEventType, data?: RecognitionResult) =>
+      (service as unknown as { emit(event: RecognitionEventType, data?: RecognitionResult): void }).emit(event, data);
+
+    const recognize = async (text: string, isFinal: boolean) => {
+      emit('result', { text, isFinal, confidence: 0.9 });
+      await new Promise(resolve => setTimeout(resolve, 0));
+    };
+
+    beforeEach(() => {
+      service = new SpeechRecognitionService('en-US');
+      manager = new CaptionManager(service, translationService);
+      emitted = [];
+      manager.on('caption', (data) => {
+        emitted.push(data as Caption);
+      });
+    });
+
+    it('should update one in-progress caption until the utterance is final', async () => {
+      await recognize('hello', false);
+      await recognize('hello wor', false);
+      await recognize('hello world', true);
+
+      expect(emitted.map((caption) => caption.isFinal)).toEqual([false, false, true]);
+      expect(new Set(emitted.map((caption) => caption.id)).size).toBe(1);
+      expect(manager.getCaptions()).toHaveLength(1);
+      expect(manager.getCaptions()[0]).toMatchObject({ text: 'hello world', isFinal: true });
+    });
+
+    it('should start a new caption for the next utterance', async () => {
+      await recognize('first', true);
+      await recognize('second', false);
+
+      expect(manager.getCaptions()).toHaveLength(2);
+      expect(emitted[1].id).not.toBe(emitted[0].id);
+    });
+
+    it('should only translate final results', async () => {
+      const translate = vi.spyOn(translationService, 'translate').mockResolvedValue({
+        translatedText: 'hola mundo',
+        sourceLanguage: 'en',
+        targetLanguage: 'es',
+        service: 'fallback',
+      });
+      manager.setTargetLanguage('es');
+
+      await recognize('hello', false);
+      await recognize('hello world', true);
+
+      expect(translate).toHaveBeenCalledTimes(1);
+      expect(emitted[0]).toMatchObject({ text: 'hello', isTranslated: false });
+      expect(emitted[1]).toMatchObject({ text: 'hola mundo', isTranslated: true });
+    });
+
+    it('should finalize the last hypothesis when recognition ends', async () => {
+      await recognize('unfinished thought', false);
+
+      emit('end');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(manager.getCaptions()).toEqual([
+        expect.objectContaining({ text: 'unfinished thought', isFinal: true }),
+      ]);
+    });
+
+    it('should update remote captions in place per sender', async () => {
+      const remote = {
+        id: 'caption-1',
+        originalText: 'hi',
+        speaker: 'local' as const,
+        language: 'en',
+        isTranslated: false,
+      };
+
+      await manager.processRemoteCaption({ ...remote, text: 'hi', isFinal: false }, 'peer-a');
+      await manager.processRemoteCaption({ ...remote, text: 'hi', isFinal: false }, 'peer-b');
+      await manager.processRemoteCaption({ ...remote, text: 'hi there', originalText: 'hi there', isFinal: true }, 'peer-a');
+
+      const captions = manager.getCaptions();
+      expect(captions).toHaveLength(2);
+      expect(captions.find((caption) => caption.id === 'peer-a-caption-1')).toMatchObject({
+        text: 'hi there',
+        speaker: 'remote',
+        isFinal: true,
+      });
+    });
+
+    it('should ignore interim updates that arrive after the final caption', async () => {
+      const remote = {
+        id: 'caption-1',
+        text: 'done',
+        originalText: 'done',
+        speaker: 'local' as const,
+        language: 'en',
+        isTranslated: false,
+      };
+
+      await manager.processRemoteCaption({ ...remote, isFinal: true }, 'peer-a');
+      await manager.processRemoteCaption({ ...remote, text: 'do', isFinal: false }, 'peer-a');
+
+      expect(emitted).toHaveLength(1);
+      expect(manager.getCaptions()[0]).toMatchObject({ text: 'done', isFinal: true });
+    });
+  });
+
+  describe('Speech engines', () => {
+    it('should caption any engine implementing SpeechEngine', async () => {
+      const engine = new FakeSpeechEngine();
+      const manager = new CaptionManager(engine, translationService);
+
+      manager.startLocalCaptions();
+      engine.say('hello from a fake engine');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(engine.isActive()).toBe(true);
+      expect(manager.getCaptions()).toEqual([
+        expect.objectContaining({ text: 'hello from a fake engine', speaker: 'local' }),
+      ]);
+    });
+
+    it('should hand a running session over to a new engine', async () => {
+      const first = new FakeSpeechEngine();
+      const second = new FakeSpeechEngine();
+      const manager = new CaptionManager(first, translationService);
+      manager.startLocalCaptions();
+
+      first.say('half a sent', false);
+      manager.setSpeechEngine(second);
+      first.say('ignored');
+      second.say('next sentence');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(first.destroyed).toBe(true);
+      expect(first.listenerCount()).toBe(0);
+      expect(second.isActive()).toBe(true);
+      expect(manager.getCaptions().map((caption) => [caption.text, caption.isFinal])).toEqual([
+        ['half a sent', true],
+        ['next sentence', true],
+      ]);
+    });
+
+    it('should not start a new engine while captions are stopped or muted', () => {
+      const manager = new CaptionManager(new FakeSpeechEngine(), translationService);
+      const idle = new FakeSpeechEngine();
+      manager.setSpeechEngine(idle);
+      expect(idle.isActive()).toBe(false);
+
+      manager.startLocalCaptions();
+      manager.setMuted(true);
+      const muted = new FakeSpeechEngine();
+      manager.setSpeechEngine(muted);
+      expect(muted.isActive()).toBe(false);
+    });
+  });
+
+  describe('Per-viewer translation', () => {
+    let translate: MockInstance<TranslationService['translate']>;
+
+    beforeEach(() => {
+      translate = vi.spyOn(translationService, 'translate').mockImplementation(async (text, sourceLang, targetLang) => ({
+        translatedText: `${text} (${sourceLang}→${targetLang})`,
+        sourceLanguage: sourceLang,
+        targetLanguage: targetLang,
+        service: 'p',
+      }));
+    });
+
+    it('should send peers the text as spoken in the speaker\'s language', async () => {
+      const engine = new FakeSpeechEngine();
+      const manager = new CaptionManager(engine, translationService, { sourceLanguage: 'fr', targetLanguage: 'en' });
+
+      engine.say('bonjour');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      const [local] = manager.getCaptions();
+      expect(local).toMatchObject({ text: 'bonjour (fr→en)', language: 'en', sourceLanguage: 'fr', isTranslated: true });
+      const outgoing = toOutgoingCaption(local);
+      expect(outgoing).toMatchObject({ text: 'bonjour', originalText: 'bonjour', language: 'fr', isTranslated: false });
+      expect(outgoing).not.toHaveProperty('translationProvider');
+    });
+
+    it('should translate remote captions from the speaker\'s language into our own', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.constantFrom('en', 'es', 'fr', 'de'),
+          fc.constantFrom('en', 'es', 'fr', 'de'),
+          fc.constantFrom('en', 'es', 'fr', 'de'),
+          async (speakerLanguage, ourSourceLanguage, ourTargetLanguage) => {
+            translate.mockClear();
+            const manager = new CaptionManager(new FakeSpeechEngine(), translationService, {
+              sourceLanguage: ourSourceLanguage,
+              targetLanguage: ourTargetLanguage,
+            });
+
+            await manager.processRemoteCaption({
+              text: 'hallo',
+              originalText: 'hallo',
+              speaker: 'local',
+              language: speakerLanguage,
+              sourceLanguage: speakerLanguage,
+              isTranslated: false,
+            });
+
+            const [caption] = manager.getCaptions();
+            if (speakerLanguage === ourTargetLanguage) {
+              expect(translate).not.toHaveBeenCalled();
+              expect(caption).toMatchObject({ text: 'hallo', language: speakerLanguage, isTranslated: false });
+            } else {
+              expect(translate).toHaveBeenCalledWith('hallo', speakerLanguage, ourTargetLanguage);
+              expect(caption).toMatchObject({ language: ourTargetLanguage, sourceLanguage: speakerLanguage, isTranslated: true });
+            }
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should recognize in the declared spoken locale', () => {
+      const engine = new FakeSpeechEngine();
+      const manager = new CaptionManager(engine, translationService);
+
+      manager.setSourceLanguage('pt-BR');
+
+      expect(engine.getLanguage()).toBe('pt-BR');
+      expect(manager.getSourceLanguage()).toBe('pt-BR');
+    });
+
+    it('should translate from a detected language that differs from the declared one', async () => {
+      const engine = new FakeSpeechEngine();
+      const manager = new CaptionManager(engine, translationService, { sourceLanguage: 'en-US', targetLanguage: 'en' });
+      const detector = new LanguageDetector();
+      const detect = vi.spyOn(detector, 'detect');
+      manager.setLanguageDetector(detector);
+
+      engine.say('bonjour tout le monde, comment ça va', false);
+      engine.say('bonjour tout le monde, comment ça va');
+      engine.say('we are all here now and ready to start');
+      await vi.waitFor(() => expect(manager.getCaptions().filter((caption) => caption.isFinal !== false)).toHaveLength(2));
+
+      const [french, english] = manager.getCaptions();
+      expect(detect).toHaveBeenCalledTimes(2);
+      expect(french).toMatchObject({ sourceLanguage: 'fr', isTranslated: true });
+      expect(translate).toHaveBeenCalledWith('bonjour tout le monde, comment ça va', 'fr', 'en');
+      expect(english).toMatchObject({ sourceLanguage: 'en-US', isTranslated: false });
+    });
+
+    it('should show own captions as spoken when translation of them is off', async () => {
+      const engine = new FakeSpeechEngine();
+      const manager = new CaptionManager(engine, translationService, { sourceLanguage: 'es', targetLanguage: 'en' });
+      manager.setTranslateOwnCaptions(false);
+
+      engine.say('hola');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(translate).not.toHaveBeenCalled();
+      expect(manager.getCaptions()[0]).toMatchObject({ text: 'hola', language: 'es', isTranslated: false });
+    });
+  });
 });
@@ -1,6 +1,8 @@
 // Caption Manager to coordinate speech recognition and translation
 
-import { SpeechRecognitionService, RecognitionResult } from '../speech/SpeechRecognitionService';
+import { RecognitionResult, SpeechEngine } from '../speech/SpeechEngine';
+import { LanguageDetector } from '../speech/LanguageDetector';
+import { getBaseLanguage } from '../speech/spokenLanguages';
 import { TranslationService } from '../translation/TranslationService';
 import { Caption } from '@/types';
 
@@ -10,26 +12,81 @@ type CaptionCallback = (data: Caption | Error) => void;
 export interface CaptionManagerOptions {
   targetLanguage?: string;
   sourceLanguage?: string;
+  // Show your own speech translated into the target language (default) or as spoken
+  translateOwnCaptions?: boolean;
+}
+
+// A caption as sent by a peer; older peers omit the id and finalization flag
+export type RemoteCaption = Omit<Caption, 'id' | 'timestamp' | 'isFinal'> &
+  Partial<Pick<Caption, 'id' | 'timestamp' | 'isFinal'>>;
+
+// The local utterance currently being recognized
+interface Utterance {
+  id: string;
+  timestamp: number;
+  text: string;
+}
+
+/**
+ * Insert a caption or replace the entry with the same id
+ * A finalized caption is never replaced by a late interim update.
+ */
+export function upsertCaption(captions: Caption[], caption: Caption): Caption[] {
+  const index = captions.findIndex((existing) => existing.id === caption.id);
+  if (index === -1) {
+    return [...captions, caption];
+  }
+  if (captions[index].isFinal !== false && caption.isFinal === false) {
+    return captions;
+  }
+
+  const next = [...captions];
+  next[index] = caption;
+  return next;
+}
+
+/**
+ * Turn a local caption into what peers receive: the text as spoken, in the speaker's language
+ * Each receiver translates it into its own target language.
+ */
+export function toOutgoingCaption(caption: Caption): Caption {
+  const outgoing: Caption = {
+    ...caption,
+    text: caption.originalText,
+    language: caption.sourceLanguage ?? caption.language,
+    isTranslated: false,
+  };
+  delete outgoing.translationProvider;
+  return outgoing;
 }
 
 export class CaptionManager {
-  private speechService: SpeechRecognitionService;
+  private speechEngine: SpeechEngine;
   private translationService: TranslationService;
   private targetLanguage: string;
   private sourceLanguage: string;
+  private translateOwnCaptions: boolean;
+  private languageDetector: LanguageDetector | null = null;
   private eventHandlers: Map<CaptionEventType, CaptionCallback[]> = new Map();
   private captionQueue: Caption[] = [];
   private isMuted: boolean = false;
+  private isCapturing: boolean = false;
+  private utterance: Utterance | null = null;
 
   constructor(
-    speechService: SpeechRecognitionService,
+    speechEngine: SpeechEngine,
     translationService: TranslationService,
     options: CaptionManagerOptions = {}
   ) {
-    this.speechService = speechService;
+    this.speechEngine = speechEngine;
     this.translationService = translationService;
     this.targetLanguage = options.targetLanguage || 'en';
     this.sourceLanguage = options.sourceLanguage || 'en';
+    this.translateOwnCaptions = options.translateOwnCaptions ?? true;
+
+    this.handleEngineResult = this.handleEngineResult.bind(this);
+    this.handleEngineEnd = this.handleEngineEnd.bind(this);
+    this.handleEngineError = this.handleEngineError.bind(this);
 
     // Set up speech recognition event handlers
     this.setupSpeechRecognitionHandlers();
@@ -39,58 +96,135 @@ export class CaptionManager {
    * Set up event handlers for speech recognition
    */
   private setupSpeechRecognitionHandlers(): void {
-    this.speechService.on('result', (data) => {
-      if (this.isMuted) {
-        return; // Don't process captions when muted
-      }
+    this.speechEngine.on('result', this.handleEngineResult);
+    this.speechEngine.on('end', this.handleEngineEnd);
+    this.speechEngine.on('error', this.handleEngineError);
+  }
+
+  /**
+   * Detach from the current speech engine
+   */
+  private removeSpeechRecognitionHandlers(): void {
+    this.speechEngine.off('result', this.handleEngineResult);
+    this.speechEngine.off('end', this.handleEngineEnd);
+    this.speechEngine.off('error', this.handleEngineError);
+  }
+
+  /**
+   * Handle a result from the speech engine
+   */
+  private handleEngineResult(data: RecognitionResult | Error | void): void {
+    if (this.isMuted) {
+      return; // Don't process captions when muted
+    }
+
+    const result = data as RecognitionResult;
+    this.handleSpeechResult(result);
+  }
+
+  /**
+   * Recognition ended mid-utterance: keep the last hypothesis as the final caption
+   */
+  private handleEngineEnd(): void {
+    this.finalizeUtterance();
+  }
+
+  /**
+   * Forward speech engine errors
+   */
+  private handleEngineError(data: RecognitionResult | Error | void): void {
+    const error = data as Error;
+    this.emit('error', error);
+  }
+
+  /**
+   * Replace the speech engine, carrying over whether captions are running
+   */
+  setSpeechEngine(speechEngine: SpeechEngine): void {
+    if (speechEngine === this.speechEngine) {
+      return;
+    }
 
-      const result = data as RecognitionResult;
-      this.handleSpeechResult(result);
-    });
+    this.finalizeUtterance();
+    this.removeSpeechRecognitionHandlers();
+    this.speechEngine.destroy();
+
+    this.speechEngine = speechEngine;
+    this.setupSpeechRecognitionHandlers();
+
+    if (this.isCapturing && !this.isMuted) {
+      this.speechEngine.start();
+    }
+  }
 
-    this.speechService.on('error', (data) => {
-      const error = data as Error;
-      this.emit('error', error);
-    });
+  /**
+   * Get the current speech engine
+   */
+  getSpeechEngine(): SpeechEngine {
+    return this.speechEngine;
   }
 
   /**
    * Handle speech recognition results
+   * Interim hypotheses update the in-progress utterance; a final result closes it.
    */
   private async handleSpeechResult(result: RecognitionResult): Promise<void> {
+    if (!this.utterance) {
+      this.utterance = { id: this.generateCaptionId(), timestamp: Date.now(), text: result.text };
+    }
+    const utterance = this.utterance;
+    utterance.text = result.text;
+
+    if (result.isFinal) {
+      this.utterance = null;
+    }
+
     try {
       // Create caption from speech result
-      const caption = await this.createCaptionFromSpeech(result);
-      
-      // Add to queue
-      this.captionQueue.push(caption);
-      
-      // Emit caption event
-      this.emit('caption', caption);
+      const caption = await this.createCaptionFromSpeech(result, utterance);
+      this.addCaption(caption);
     } catch (error) {
       console.error('Error handling speech result:', error);
       this.emit('error', error as Error);
     }
   }
 
+  /**
+   * Close the in-progress utterance with its latest hypothesis
+   */
+  private finalizeUtterance(): void {
+    if (this.utterance) {
+      this.handleSpeechResult({ text: this.utterance.text, isFinal: true, confidence: 0 });
+    }
+  }
+
   /**
    * Create a caption from speech recognition result
+   * Interim results are shown untranslated; only the final text is translated,
+   * and only when own captions are shown translated.
    */
-  private async createCaptionFromSpeech(result: RecognitionResult): Promise<Caption> {
+  private async createCaptionFromSpeech(result: RecognitionResult, utterance: Utterance): Promise<Caption> {
     const originalText = result.text;
+    const sourceLanguage = result.isFinal ? await this.detectSourceLanguage(originalText) : this.sourceLanguage;
     let translatedText = originalText;
     let isTranslated = false;
+    let translationProvider: string | undefined;
 
     // Translate if target language is different from source
-    if (this.translationService.needsTranslation(this.sourceLanguage, this.targetLanguage)) {
+    if (
+      result.isFinal &&
+      this.translateOwnCaptions &&
+      this.translationService.needsTranslation(sourceLanguage, this.targetLanguage)
+    ) {
       try {
         const translationResult = await this.translationService.translate(
           originalText,
-          this.sourceLanguage,
+          sourceLanguage,
           this.targetLanguage
         );
         translatedText = translationResult.translatedText;
         isTranslated = true;
+        translationProvider = translationResult.service;
       } catch (error) {
         console.error('Translation failed, using original text:', error);
         // Keep original text as fallback
@@ -98,18 +232,54 @@ export class CaptionManager {
     }
 
     const caption: Caption = {
-      id: this.generateCaptionId(),
+      id: utterance.id,
       text: translatedText,
       originalText: originalText,
       speaker: 'local',
-      timestamp: Date.now(),
-      language: this.targetLanguage,
+      timestamp: utterance.timestamp,
+      language: isTranslated ? this.targetLanguage : sourceLanguage,
       isTranslated: isTranslated,
+      sourceLanguage,
+      isFinal: result.isFinal,
+      translationProvider,
     };
 
     return caption;
   }
 
+  /**
+   * Language a finished utterance was spoken in
+   * With detection on, a confidently detected language overrides the declared one.
+   */
+  private async detectSourceLanguage(text: string): Promise<string> {
+    if (!this.languageDetector) {
+      return this.sourceLanguage;
+    }
+
+    try {
+      const detected = await this.languageDetector.detect(text, this.sourceLanguage);
+      if (detected && detected !== getBaseLanguage(this.sourceLanguage)) {
+        return detected;
+      }
+    } catch (error) {
+      console.warn('Language detection failed, using the declared language:', error);
+    }
+    return this.sourceLanguage;
+  }
+
+  /**
+   * Store a new caption or an update to an existing one, then announce it
+   */
+  private addCaption(caption: Caption): void {
+    const captions = upsertCaption(this.captionQueue, caption);
+    if (captions === this.captionQueue) {
+      return;
+    }
+
+    this.captionQueue = captions;
+    this.emit('caption', caption);
+  }
+
   /**
    * Start captioning for local user
    */
@@ -118,8 +288,9 @@ export class CaptionManager {
       this.targetLanguage = targetLanguage;
     }
 
+    this.isCapturing = true;
     if (!this.isMuted) {
-      this.speechService.start();
+      this.speechEngine.start();
     }
   }
 
@@ -127,30 +298,42 @@ export class CaptionManager {
    * Stop local captions
    */
   stopLocalCaptions(): void {
-    this.speechService.stop();
+    this.isCapturing = false;
+    this.speechEngine.stop();
   }
 
   /**
    * Process remote caption from peer
+   * The original text is translated from the speaker's declared language into our target.
+   * Updates to the same utterance keep one id per sender so they replace each other.
    */
-  async processRemoteCaption(remoteCaption: Omit<Caption, 'id' | 'timestamp'>): Promise<void> {
+  async processRemoteCaption(remoteCaption: RemoteCaption, senderId: string = 'remote'): Promise<void> {
     try {
-      let translatedText = remoteCaption.text;
-      let isTranslated = remoteCaption.isTranslated;
+      const isFinal = remoteCaption.isFinal ?? true;
+      const id = remoteCaption.id ? `${senderId}-${remoteCaption.id}` : this.generateCaptionId();
+      const existing = this.captionQueue.find((caption) => caption.id === id);
+      // Older peers don't declare their spoken language and send their own translation
+      const sourceLanguage = remoteCaption.sourceLanguage ?? this.sourceLanguage;
+      let translatedText = remoteCaption.sourceLanguage ? remoteCaption.originalText : remoteCaption.text;
+      let language = remoteCaption.sourceLanguage ?? this.targetLanguage;
+      let isTranslated = remoteCaption.sourceLanguage ? false : remoteCaption.isTranslated;
+      let translationProvider = remoteCaption.sourceLanguage ? undefined : remoteCaption.translationProvider;
 
-      // If remote caption is in English and we need a different language, translate it
       if (
+        isFinal &&
         remoteCaption.originalText &&
-        this.translationService.needsTranslation(this.sourceLanguage, this.targetLanguage)
+        this.translationService.needsTranslation(sourceLanguage, this.targetLanguage)
       ) {
         try {
           const translationResult = await this.translationService.translate(
             remoteCaption.originalText,
-            this.sourceLanguage,
+            sourceLanguage,
             this.targetLanguage
           );
           translatedText = translationResult.translatedText;
+          language = this.targetLanguage;
           isTranslated = true;
+          translationProvider = translationResult.service;
         } catch (error) {
           console.error('Translation failed for remote caption:', error);
           // Keep original text as fallback
@@ -158,17 +341,19 @@ export class CaptionManager {
       }
 
       const caption: Caption = {
-        id: this.generateCaptionId(),
+        id,
         text: translatedText,
         originalText: remoteCaption.originalText,
         speaker: 'remote',
-        timestamp: Date.now(),
-        language: this.targetLanguage,
+        timestamp: existing?.timestamp ?? Date.now(),
+        language,
         isTranslated: isTranslated,
+        sourceLanguage,
+        isFinal,
+        translationProvider,
       };
 
-      this.captionQueue.push(caption);
-      this.emit('caption', caption);
+      this.addCaption(caption);
     } catch (error) {
       console.error('Error processing remote caption:', error);
       this.emit('error', error as Error);
@@ -189,12 +374,27 @@ export class CaptionManager {
     return this.targetLanguage;
   }
 
+  /**
+   * Choose whether your own captions are shown translated or as spoken
+   * Peers always receive the text as spoken.
+   */
+  setTranslateOwnCaptions(enabled: boolean): void {
+    this.translateOwnCaptions = enabled;
+  }
+
+  /**
+   * Check whether your own captions are shown translated
+   */
+  getTranslateOwnCaptions(): boolean {
+    return this.translateOwnCaptions;
+  }
+
   /**
    * Set source language
    */
   setSourceLanguage(language: string): void {
     this.sourceLanguage = language;
-    this.speechService.setLanguage(language);
+    this.speechEngine.setLanguage(language);
   }
 
   /**
@@ -204,6 +404,13 @@ export class CaptionManager {
     return this.sourceLanguage;
   }
 
+  /**
+   * Detect the language of each finished utterance, or pass null to trust the declared one
+   */
+  setLanguageDetector(detector: LanguageDetector | null): void {
+    this.languageDetector = detector;
+  }
+
   /**
    * Set mute state - pauses caption generation when muted
    */
@@ -213,10 +420,10 @@ export class CaptionManager {
 
     if (muted && !wasMuted) {
       // Just muted - stop speech recognition
-      this.speechService.stop();
+      this.speechEngine.stop();
     } else if (!muted && wasMuted) {
       // Just unmuted - restart speech recognition
-      this.speechService.start();
+      this.speechEngine.start();
     }
   }
 
@@ -239,6 +446,7 @@ export class CaptionManager {
    */
   clearCaptions(): void {
     this.captionQueue = [];
+    this.utterance = null;
   }
 
   /**
@@ -291,8 +499,9 @@ export class CaptionManager {
    * Clean up resources
    */
   destroy(): void {
-    this.speechService.stop();
+    this.speechEngine.stop();
     this.eventHandlers.clear();
     this.captionQueue = [];
+    this.utterance = null;
   }
 }
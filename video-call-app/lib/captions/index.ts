@@ -1,3 +1,3 @@
 // Export Caption Manager
-export { CaptionManager } from './CaptionManager';
-export type { CaptionEventType, CaptionManagerOptions } from './CaptionManager';
+export { CaptionManager, upsertCaption } from './CaptionManager';
+export type { CaptionEventType, CaptionManagerOptions, RemoteCaption } from './CaptionManager';
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { exportTranscript, formatCueTime, toPlainText, toSRT, toTranscriptJSON, toWebVTT } from './transcriptExport';
+import { Caption } from '@/types';
+
+const caption = (overrides: Partial<Caption>): Caption => ({
+  id: 'caption-1',
+  text: 'hello',
+  originalText: 'hello',
+  speaker: 'local',
+  timestamp: 0,
+  language: 'en',
+  isTranslated: false,
+  ...overrides,
+});
+
+const CALL_START = 1_700_000_000_000;
+
+const captions: Caption[] = [
+  caption({ id: 'b', speaker: 'remote', timestamp: CALL_START + 65_000, text: 'Hola, ¿qué tal?', originalText: 'Hola, ¿qué tal?', language: 'es', sourceLanguage: 'es' }),
+  caption({ id: 'a', timestamp: CALL_START + 63_500, text: 'Hi <there> & welcome', originalText: 'Hi <there> & welcome' }),
+  caption({ id: 'c', timestamp: CALL_START + 70_000, text: 'still talk', isFinal: false }),
+  caption({
+    id: 'd',
+    speaker: 'remote',
+    timestamp: CALL_START + 3_723_004,
+    text: 'Good night',
+    originalText: 'Buenas noches',
+    language: 'en',
+    sourceLanguage: 'es',
+    isTranslated: true,
+  }),
+];
+
+describe('transcriptExport', () => {
+  it('should format cue times for each subtitle format', () => {
+    expect(formatCueTime(3_723_004, '.')).toBe('01:02:03.004');
+    expect(formatCueTime(3_723_004, ',')).toBe('01:02:03,004');
+    expect(formatCueTime(-5, '.')).toBe('00:00:00.000');
+  });
+
+  it('should write WebVTT cues relative to the call start', () => {
+    expect(toWebVTT(captions, { callStartedAt: CALL_START })).toBe([
+      'WEBVTT',
+      '',
+      '1',
+      '00:01:03.500 --> 00:01:05.000',
+      '<v You>Hi &lt;there&gt; &amp; welcome',
+      '',
+      '2',
+      '00:01:05.000 --> 00:01:06.500',
+      '<v Remote>Hola, ¿qué tal?',
+      '',
+      '3',
+      '01:02:03.004 --> 01:02:04.504',
+      '<v Remote>Good night',
+      '',
+    ].join('\n'));
+  });
+
+  it('should write numbered SRT cues with comma millisecond separators', () => {
+    const srt = toSRT(captions, { callStartedAt: CALL_START });
+
+    expect(srt.split('\n\n')[0]).toBe('1\n00:01:03,500 --> 00:01:05,000\nYou: Hi <there> & welcome');
+    expect(srt).not.toContain('still talk');
+  });
+
+  it('should start timing at the first caption without a call start', () => {
+    expect(toSRT(captions).split('\n')[1]).toBe('00:00:00,000 --> 00:00:01,500');
+  });
+
+  it('should keep full caption objects in JSON', () => {
+    const transcript = JSON.parse(toTranscriptJSON(captions, { callStartedAt: CALL_START }));
+
+    expect(transcript.callStartedAt).toBe(CALL_START);
+    expect(transcript.captions.map((entry: Caption) => entry.id)).toEqual(['a', 'b', 'd']);
+    expect(transcript.captions[2]).toMatchObject({ originalText: 'Buenas noches', sourceLanguage: 'es', language: 'en' });
+  });
+
+  it('should show the original under translated lines in plain text', () => {
+    expect(toPlainText(captions, { callStartedAt: CALL_START })).toBe([
+      '[00:01:03] You: Hi <there> & welcome',
+      '[00:01:05] Remote: Hola, ¿qué tal?',
+      '[01:02:03] Remote: Good night',
+      '    (es: Buenas noches)',
+      '',
+    ].join('\n'));
+  });
+
+  it('should produce ordered, non-overlapping cues with one per final caption', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            timestamp: fc.integer({ min: 0, max: 10_000_000 }),
+            text: fc.string({ minLength: 1 }).filter((text) => !text.includes('\n')),
+          }),
+          { maxLength: 30 }
+        ),
+        (entries) => {
+          const srt = exportTranscript(entries.map((entry, index) => caption({ ...entry, id: `${index}` })), 'srt');
+          const times = [...srt.matchAll(/^(\S+) --> (\S+)$/gm)].map(([, start, end]) => [start, end]);
+
+          expect(times).toHaveLength(entries.length);
+          times.forEach(([start, end], index) => {
+            expect(start <= end).toBe(true);
+            if (index > 0) {
+              expect(times[index - 1][1] <= start).toBe(true);
+            }
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,163 @@
+// Transcript export: converts captions into subtitle files (WebVTT, SRT),
+// JSON and a readable plain text transcript
+
+import { Caption } from '@/types';
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'json' | 'txt';
+
+export interface TranscriptFormatInfo {
+  id: TranscriptFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export interface TranscriptOptions {
+  // Cue times are relative to this; defaults to the first caption
+  callStartedAt?: number;
+}
+
+export const TRANSCRIPT_FORMATS: TranscriptFormatInfo[] = [
+  { id: 'vtt', label: 'WebVTT (.vtt)', extension: 'vtt', mimeType: 'text/vtt' },
+  { id: 'srt', label: 'SubRip (.srt)', extension: 'srt', mimeType: 'application/x-subrip' },
+  { id: 'json', label: 'JSON (.json)', extension: 'json', mimeType: 'application/json' },
+  { id: 'txt', label: 'Plain text (.txt)', extension: 'txt', mimeType: 'text/plain' },
+];
+
+// How long a cue stays up when nothing follows it: a reading speed per word, within bounds
+const MS_PER_WORD = 400;
+const MIN_CUE_DURATION = 1500;
+const MAX_CUE_DURATION = 7000;
+
+interface Cue {
+  start: number;
+  end: number;
+  caption: Caption;
+}
+
+/**
+ * Final captions in chronological order; in-progress ones are not part of the transcript
+ */
+function getFinalCaptions(captions: Caption[]): Caption[] {
+  return captions
+    .filter((caption) => caption.isFinal !== false)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Time cues relative to the start of the call
+ * A cue ends when the next one starts, or after its estimated reading time.
+ */
+function buildCues(captions: Caption[], options: TranscriptOptions): Cue[] {
+  const finals = getFinalCaptions(captions);
+  const callStartedAt = options.callStartedAt ?? finals[0]?.timestamp ?? 0;
+
+  return finals.map((caption, index) => {
+    const start = Math.max(0, caption.timestamp - callStartedAt);
+    const words = caption.text.trim().split(/\s+/).length;
+    const readingTime = Math.min(MAX_CUE_DURATION, Math.max(MIN_CUE_DURATION, words * MS_PER_WORD));
+    const next = finals[index + 1];
+    const nextStart = next ? Math.max(start, next.timestamp - callStartedAt) : Infinity;
+    return { start, end: Math.min(start + readingTime, nextStart), caption };
+  });
+}
+
+/**
+ * Format milliseconds as HH:MM:SS plus milliseconds after the given separator
+ */
+export function formatCueTime(ms: number, separator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(ms));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const millis = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+/**
+ * Name shown for a speaker in exported transcripts
+ */
+function speakerName(caption: Caption): string {
+  return caption.speaker === 'local' ? 'You' : 'Remote';
+}
+
+/**
+ * Collapse blank lines, which would end a subtitle cue early
+ */
+function cueText(text: string): string {
+  return text.trim().replace(/\n\s*\n/g, '\n');
+}
+
+/**
+ * Escape text for a WebVTT cue payload
+ */
+function escapeVTT(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * WebVTT with a voice span per speaker
+ */
+export function toWebVTT(captions: Caption[], options: TranscriptOptions = {}): string {
+  const cues = buildCues(captions, options).map(({ start, end, caption }, index) => [
+    `${index + 1}`,
+    `${formatCueTime(start, '.')} --> ${formatCueTime(end, '.')}`,
+    `<v ${speakerName(caption)}>${escapeVTT(cueText(caption.text))}`,
+  ].join('\n'));
+
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+/**
+ * SubRip subtitles, speaker name prefixed to each cue
+ */
+export function toSRT(captions: Caption[], options: TranscriptOptions = {}): string {
+  return buildCues(captions, options).map(({ start, end, caption }, index) => [
+    `${index + 1}`,
+    `${formatCueTime(start, ',')} --> ${formatCueTime(end, ',')}`,
+    `${speakerName(caption)}: ${cueText(caption.text)}`,
+  ].join('\n')).join('\n\n') + '\n';
+}
+
+/**
+ * Full caption objects, including original text and languages
+ */
+export function toTranscriptJSON(captions: Caption[], options: TranscriptOptions = {}): string {
+  const finals = getFinalCaptions(captions);
+  return JSON.stringify({
+    callStartedAt: options.callStartedAt ?? finals[0]?.timestamp ?? null,
+    exportedAt: Date.now(),
+    captions: finals,
+  }, null, 2);
+}
+
+/**
+ * Readable transcript: one line per caption, with the original under translated ones
+ */
+export function toPlainText(captions: Caption[], options: TranscriptOptions = {}): string {
+  return buildCues(captions, options).map(({ start, caption }) => {
+    const line = `[${formatCueTime(start, '.').slice(0, 8)}] ${speakerName(caption)}: ${caption.text.trim()}`;
+    return caption.isTranslated && caption.originalText !== caption.text
+      ? `${line}\n    (${caption.sourceLanguage ?? 'original'}: ${caption.originalText.trim()})`
+      : line;
+  }).join('\n') + '\n';
+}
+
+/**
+ * Convert captions into the given format
+ */
+export function exportTranscript(captions: Caption[], format: TranscriptFormat, options: TranscriptOptions = {}): string {
+  switch (format) {
+    case 'vtt':
+      return toWebVTT(captions, options);
+    case 'srt':
+      return toSRT(captions, options);
+    case 'json':
+      return toTranscriptJSON(captions, options);
+    case 'txt':
+      return toPlainText(captions, options);
+    default:
+      throw new Error(`Unknown transcript format: ${format as string}`);
+  }
+}
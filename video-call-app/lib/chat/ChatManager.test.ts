@@ -0,0 +1,142 @@
+// Tests for ChatManager
+
+import { describe, it, expect, vi, beforeEach, Mock, MockInstance } from 'vitest';
+import * as fc from 'fast-check';
+import { ChatManager, ChatTransport } from './ChatManager';
+import { TranslationService } from '../translation/TranslationService';
+import { ChatMessage } from '@/types';
+
+describe('ChatManager', () => {
+  let translationService: TranslationService;
+  let translate: MockInstance<TranslationService['translate']>;
+  let sendMessage: Mock<(...args: unknown[]) => string[]>;
+  let sendMessageToPeer: Mock<(...args: unknown[]) => boolean>;
+  let chatManager: ChatManager;
+
+  beforeEach(() => {
+    translationService = new TranslationService({ providers: [] });
+    translate = vi.spyOn(translationService, 'translate').mockImplementation(async (text, sourceLanguage, targetLanguage) => ({
+      translatedText: `[${targetLanguage}] ${text}`,
+      sourceLanguage,
+      targetLanguage,
+      service: 'mock',
+    }));
+    sendMessage = vi.fn(() => ['peer-a', 'peer-b']);
+    sendMessageToPeer = vi.fn(() => true);
+
+    chatManager = new ChatManager(translationService, { sourceLanguage: 'en', targetLanguage: 'en' });
+    chatManager.setTransport({ sendMessage, sendMessageToPeer } as unknown as ChatTransport);
+  });
+
+  it('should send trimmed messages with their language and track recipients', () => {
+    const message = chatManager.send('  hello there  ')!;
+
+    expect(sendMessage).toHaveBeenCalledWith('chat', {
+      id: message.id,
+      text: 'hello there',
+      language: 'en',
+      timestamp: message.timestamp,
+    });
+    expect(message).toMatchObject({ sender: 'local', status: 'sent', recipients: ['peer-a', 'peer-b'] });
+    expect(chatManager.send('   ')).toBeNull();
+    expect(() => chatManager.send('x'.repeat(2001))).toThrow('longer than 2000');
+  });
+
+  it('should mark a message failed when nobody is connected', () => {
+    sendMessage.mockReturnValue([]);
+    expect(chatManager.send('anyone?')!.status).toBe('failed');
+
+    chatManager.setTransport(null);
+    expect(chatManager.send('hello?')!.status).toBe('failed');
+  });
+
+  it('should mark a message delivered once every recipient acknowledged it', () => {
+    const message = chatManager.send('hello')!;
+
+    chatManager.receiveAck({ id: message.id }, 'peer-a');
+    chatManager.receiveAck({ id: message.id }, 'peer-a');
+    expect(chatManager.getMessages()[0]).toMatchObject({ status: 'sent', deliveredTo: ['peer-a'] });
+
+    chatManager.receiveAck({ id: message.id }, 'peer-b');
+    expect(chatManager.getMessages()[0].status).toBe('delivered');
+  });
+
+  it('should stop waiting for participants who left', () => {
+    const first = chatManager.send('first')!;
+    chatManager.receiveAck({ id: first.id }, 'peer-a');
+    sendMessage.mockReturnValue(['peer-b']);
+    chatManager.send('second');
+
+    chatManager.handlePeerLeft('peer-b');
+
+    expect(chatManager.getMessages().map((message) => message.status)).toEqual(['delivered', 'failed']);
+  });
+
+  it('should acknowledge incoming messages once each, even when repeated', async () => {
+    const payload = { id: 'm1', text: 'hi', language: 'en', timestamp: 1 };
+
+    await chatManager.receiveMessage(payload, 'peer-a');
+    await chatManager.receiveMessage(payload, 'peer-a');
+
+    expect(sendMessageToPeer).toHaveBeenCalledTimes(2);
+    expect(sendMessageToPeer).toHaveBeenCalledWith('peer-a', 'chat-ack', { id: 'm1' });
+    expect(chatManager.getMessages()).toHaveLength(1);
+    expect(chatManager.getMessages()[0]).toMatchObject({ id: 'peer-a-m1', sender: 'remote', peerId: 'peer-a', text: 'hi' });
+  });
+
+  it('should translate incoming messages into the target language when enabled', async () => {
+    chatManager.setTargetLanguage('de');
+    const updates: ChatMessage[] = [];
+    chatManager.on('message', (data) => updates.push(data as ChatMessage));
+
+    await chatManager.receiveMessage({ id: 'm1', text: 'hola', language: 'es', timestamp: 1 }, 'peer-a');
+
+    expect(translate).toHaveBeenCalledWith('hola', 'es', 'de');
+    // Shown untranslated first, then replaced by the translation
+    expect(updates.map((message) => message.text)).toEqual(['hola', '[de] hola']);
+    expect(chatManager.getMessages()[0]).toMatchObject({ text: '[de] hola', originalText: 'hola', isTranslated: true });
+
+    chatManager.setAutoTranslate(false);
+    await chatManager.receiveMessage({ id: 'm2', text: 'adiós', language: 'es', timestamp: 2 }, 'peer-a');
+    await chatManager.receiveMessage({ id: 'm3', text: 'no language', timestamp: 3 }, 'peer-a');
+    expect(translate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the original when translation falls back', async () => {
+    chatManager.setTargetLanguage('de');
+    translate.mockResolvedValueOnce({ translatedText: 'hola', sourceLanguage: 'es', targetLanguage: 'de', service: 'fallback' });
+
+    await chatManager.receiveMessage({ id: 'm1', text: 'hola', language: 'es', timestamp: 1 }, 'peer-a');
+
+    expect(chatManager.getMessages()[0]).toMatchObject({ text: 'hola', isTranslated: false });
+  });
+
+  it('should count unread messages only while the chat is hidden', () => {
+    fc.assert(
+      fc.property(fc.array(fc.boolean(), { maxLength: 20 }), (visibility) => {
+        const manager = new ChatManager(translationService, { autoTranslate: false });
+        let expected = 0;
+
+        visibility.forEach((visible, index) => {
+          manager.setVisible(visible);
+          if (visible) expected = 0;
+          manager.receiveMessage({ id: `m${index}`, text: 'hi', timestamp: index }, 'peer-a');
+          if (!visible) expected++;
+        });
+
+        expect(manager.getUnreadCount()).toBe(expected);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should forget messages when reset for a new call', async () => {
+    chatManager.send('hello');
+    await chatManager.receiveMessage({ id: 'm1', text: 'hi', timestamp: 1 }, 'peer-a');
+
+    chatManager.reset();
+
+    expect(chatManager.getMessages()).toEqual([]);
+    expect(chatManager.getUnreadCount()).toBe(0);
+  });
+});
@@ -0,0 +1,315 @@
+// Chat Manager: in-call text chat over the data connection, with delivery
+// acknowledgements and optional translation of incoming messages
+
+import { TranslationService } from '../translation/TranslationService';
+import type { WebRTCManager } from '../webrtc/WebRTCManager';
+import { ChatMessage, DataMessagePayloads } from '@/types';
+
+export type ChatEventType = 'message' | 'error';
+type ChatCallback = (data: ChatMessage | Error) => void;
+
+// The part of WebRTCManager chat needs to reach participants
+export type ChatTransport = Pick<WebRTCManager, 'sendMessage' | 'sendMessageToPeer'>;
+
+export interface ChatManagerOptions {
+  targetLanguage?: string;
+  // Language our own messages are written in
+  sourceLanguage?: string;
+  // Translate incoming messages into the target language
+  autoTranslate?: boolean;
+  maxLength?: number;
+}
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+export class ChatManager {
+  private translationService: TranslationService;
+  private transport: ChatTransport | null = null;
+  private targetLanguage: string;
+  private sourceLanguage: string;
+  private autoTranslate: boolean;
+  private maxLength: number;
+  private messages: ChatMessage[] = [];
+  private unreadCount: number = 0;
+  private isVisible: boolean = false;
+  private eventHandlers: Map<ChatEventType, ChatCallback[]> = new Map();
+
+  constructor(translationService: TranslationService, options: ChatManagerOptions = {}) {
+    this.translationService = translationService;
+    this.targetLanguage = options.targetLanguage || 'en';
+    this.sourceLanguage = options.sourceLanguage || 'en';
+    this.autoTranslate = options.autoTranslate ?? true;
+    this.maxLength = options.maxLength ?? MAX_CHAT_MESSAGE_LENGTH;
+  }
+
+  /**
+   * Use a call's connections, or null between calls
+   */
+  setTransport(transport: ChatTransport | null): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Send a message to everyone in the call
+   * Returns the message, or null when there is nothing to send.
+   */
+  send(text: string): ChatMessage | null {
+    const trimmed = text.trim();
+    if (!trimmed) {
+      return null;
+    }
+    if (trimmed.length > this.maxLength) {
+      throw new Error(`Message is longer than ${this.maxLength} characters`);
+    }
+
+    const message: ChatMessage = {
+      id: this.generateMessageId(),
+      sender: 'local',
+      text: trimmed,
+      originalText: trimmed,
+      language: this.sourceLanguage,
+      isTranslated: false,
+      timestamp: Date.now(),
+      recipients: [],
+      deliveredTo: [],
+    };
+
+    const recipients = this.transport
+      ? this.transport.sendMessage('chat', {
+          id: message.id,
+          text: message.text,
+          language: message.language,
+          timestamp: message.timestamp,
+        })
+      : [];
+    message.recipients = recipients;
+    message.status = recipients.length > 0 ? 'sent' : 'failed';
+
+    this.upsertMessage(message);
+    return message;
+  }
+
+  /**
+   * Handle a message from a peer: acknowledge it, show it, then translate it if enabled
+   */
+  async receiveMessage(payload: DataMessagePayloads['chat'], peerId: string): Promise<void> {
+    // Always acknowledge, so a sender whose first ack was lost still hears back
+    this.transport?.sendMessageToPeer(peerId, 'chat-ack', { id: payload.id });
+
+    const id = `${peerId}-${payload.id}`;
+    if (this.messages.some((message) => message.id === id)) {
+      return;
+    }
+
+    const message: ChatMessage = {
+      id,
+      sender: 'remote',
+      peerId,
+      text: payload.text,
+      originalText: payload.text,
+      language: payload.language,
+      isTranslated: false,
+      timestamp: Date.now(),
+    };
+    if (!this.isVisible) {
+      this.unreadCount++;
+    }
+    this.upsertMessage(message);
+
+    const targetLanguage = this.targetLanguage;
+    if (
+      !this.autoTranslate ||
+      !payload.language ||
+      !this.translationService.needsTranslation(payload.language, targetLanguage)
+    ) {
+      return;
+    }
+
+    try {
+      const result = await this.translationService.translate(payload.text, payload.language, targetLanguage);
+      const current = this.findMessage(id);
+      // Nothing to show if every provider failed or the call's chat was cleared meanwhile
+      if (result.service === 'fallback' || !current) {
+        return;
+      }
+      this.upsertMessage({ ...current, text: result.translatedText, isTranslated: true });
+    } catch (error) {
+      console.error('Translation failed for chat message:', error);
+      this.emit('error', error as Error);
+    }
+  }
+
+  /**
+   * Record that a peer received one of our messages
+   */
+  receiveAck(payload: DataMessagePayloads['chat-ack'], peerId: string): void {
+    const message = this.findMessage(payload.id);
+    if (!message || message.sender !== 'local' || message.deliveredTo?.includes(peerId)) {
+      return;
+    }
+
+    this.upsertMessage(this.withDeliveryStatus({ ...message, deliveredTo: [...(message.deliveredTo ?? []), peerId] }));
+  }
+
+  /**
+   * Stop waiting for acknowledgements from a participant who left
+   */
+  handlePeerLeft(peerId: string): void {
+    this.messages
+      .filter((message) => message.status === 'sent' && message.recipients?.includes(peerId))
+      .forEach((message) => {
+        const recipients = message.recipients!.filter((recipient) => recipient !== peerId);
+        // Nobody left who could receive it
+        if (recipients.length === 0 && (message.deliveredTo ?? []).length === 0) {
+          this.upsertMessage({ ...message, recipients, status: 'failed' });
+        } else {
+          this.upsertMessage(this.withDeliveryStatus({ ...message, recipients }));
+        }
+      });
+  }
+
+  /**
+   * Tell the manager whether the chat is on screen; showing it marks everything read
+   */
+  setVisible(visible: boolean): void {
+    this.isVisible = visible;
+    if (visible) {
+      this.markRead();
+    }
+  }
+
+  /**
+   * Mark all messages as read
+   */
+  markRead(): void {
+    this.unreadCount = 0;
+  }
+
+  /**
+   * Number of incoming messages received while the chat was hidden
+   */
+  getUnreadCount(): number {
+    return this.unreadCount;
+  }
+
+  /**
+   * Get all messages of this call, oldest first
+   */
+  getMessages(): ChatMessage[] {
+    return [...this.messages];
+  }
+
+  /**
+   * Set the language incoming messages are translated into
+   */
+  setTargetLanguage(language: string): void {
+    this.targetLanguage = language;
+  }
+
+  /**
+   * Set the language our own messages are written in
+   */
+  setSourceLanguage(language: string): void {
+    this.sourceLanguage = language;
+  }
+
+  /**
+   * Turn translation of incoming messages on or off
+   */
+  setAutoTranslate(enabled: boolean): void {
+    this.autoTranslate = enabled;
+  }
+
+  /**
+   * Forget the previous call's messages
+   */
+  reset(): void {
+    this.messages = [];
+    this.unreadCount = 0;
+  }
+
+  /**
+   * Register event handler
+   */
+  on(event: ChatEventType, callback: ChatCallback): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)!.push(callback);
+  }
+
+  /**
+   * Remove event handler
+   */
+  off(event: ChatEventType, callback: ChatCallback): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      const index = handlers.indexOf(callback);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Emit event to all registered handlers
+   */
+  private emit(event: ChatEventType, data: ChatMessage | Error): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      handlers.forEach(handler => {
+        try {
+          handler(data);
+        } catch (error) {
+          console.error(`Error in ${event} handler:`, error);
+        }
+      });
+    }
+  }
+
+  /**
+   * Mark a message delivered once every recipient has acknowledged it
+   */
+  private withDeliveryStatus(message: ChatMessage): ChatMessage {
+    const deliveredTo = message.deliveredTo ?? [];
+    const delivered = (message.recipients ?? []).every((recipient) => deliveredTo.includes(recipient));
+    return { ...message, status: delivered ? 'delivered' : 'sent' };
+  }
+
+  /**
+   * Find a message by id
+   */
+  private findMessage(id: string): ChatMessage | undefined {
+    return this.messages.find((message) => message.id === id);
+  }
+
+  /**
+   * Add a message or replace the one with the same id, and announce it
+   */
+  private upsertMessage(message: ChatMessage): void {
+    const index = this.messages.findIndex((existing) => existing.id === message.id);
+    if (index === -1) {
+      this.messages.push(message);
+    } else {
+      this.messages[index] = message;
+    }
+    this.emit('message', message);
+  }
+
+  /**
+   * Generate unique message ID
+   */
+  private generateMessageId(): string {
+    return `chat-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this.transport = null;
+    this.eventHandlers.clear();
+    this.messages = [];
+    this.unreadCount = 0;
+  }
+}
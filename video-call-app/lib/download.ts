@@ -0,0 +1,13 @@
+/**
+ * Save a blob or text to the user's downloads
+ */
+export function downloadFile(content: Blob | string, fileName: string, mimeType: string = 'text/plain'): void {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
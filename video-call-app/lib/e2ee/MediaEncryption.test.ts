@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { KeyTransport, MediaEncryption } from './MediaEncryption';
+import { createKeyPair, exportPublicKey } from './keyExchange';
+
+class MockWorker {
+  static instances: MockWorker[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  postMessage = vi.fn();
+  terminate = vi.fn();
+  constructor() {
+    MockWorker.instances.push(this);
+  }
+}
+
+class MockScriptTransform {
+  constructor(public worker: MockWorker, public options: unknown) {}
+}
+
+// Stands in for an RTCRtpSender or RTCRtpReceiver
+interface FakeEndpoint {
+  transform: MockScriptTransform | null;
+}
+
+function createPeerConnection() {
+  const listeners: Record<string, (event: RTCTrackEvent) => void> = {};
+  const senders: FakeEndpoint[] = [{ transform: null }, { transform: null }];
+  const receivers: FakeEndpoint[] = [{ transform: null }];
+  const peerConnection: Partial<RTCPeerConnection> = {
+    getSenders: () => senders as unknown as RTCRtpSender[],
+    getReceivers: () => receivers as unknown as RTCRtpReceiver[],
+    addEventListener: vi.fn((event: string, listener: (event: RTCTrackEvent) => void) => {
+      listeners[event] = listener;
+    }) as unknown as RTCPeerConnection['addEventListener'],
+  };
+  return { peerConnection: peerConnection as RTCPeerConnection, senders, receivers, listeners };
+}
+
+describe('MediaEncryption', () => {
+  let encryption: MediaEncryption;
+  let transport: { sendMessageToPeer: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    MockWorker.instances = [];
+    vi.stubGlobal('Worker', MockWorker);
+    vi.stubGlobal('RTCRtpScriptTransform', MockScriptTransform);
+    transport = { sendMessageToPeer: vi.fn().mockReturnValue(true) };
+    encryption = new MediaEncryption();
+    encryption.setTransport(transport as unknown as KeyTransport);
+  });
+
+  afterEach(() => {
+    encryption.destroy();
+    vi.unstubAllGlobals();
+  });
+
+  const remoteKey = async () => exportPublicKey(await createKeyPair());
+  const worker = () => MockWorker.instances[0];
+
+  it('should be supported only with encoded transforms', () => {
+    expect(MediaEncryption.isSupported()).toBe(true);
+
+    Reflect.deleteProperty(window, 'RTCRtpScriptTransform');
+    expect(MediaEncryption.isSupported()).toBe(false);
+  });
+
+  it('should route every sender and receiver through the worker once', () => {
+    const { peerConnection, senders, receivers, listeners } = createPeerConnection();
+
+    encryption.attachPeerConnection('peer-1', peerConnection);
+    encryption.attachPeerConnection('peer-1', peerConnection);
+
+    expect(senders.map((sender) => sender.transform?.options)).toEqual([
+      { operation: 'encrypt', peerId: 'peer-1' },
+      { operation: 'encrypt', peerId: 'peer-1' },
+    ]);
+    expect(receivers[0].transform?.options).toEqual({ operation: 'decrypt', peerId: 'peer-1' });
+    expect(receivers[0].transform?.worker).toBe(worker());
+
+    // Tracks negotiated later get a transform too
+    const lateReceiver: FakeEndpoint = { transform: null };
+    listeners['track']({ receiver: lateReceiver } as unknown as RTCTrackEvent);
+    expect(lateReceiver.transform?.options).toEqual({ operation: 'decrypt', peerId: 'peer-1' });
+  });
+
+  it('should announce its public key and wait for the participant', async () => {
+    const states = vi.fn();
+    encryption.on('state-changed', states);
+
+    await encryption.announceKey('peer-1');
+
+    expect(transport.sendMessageToPeer).toHaveBeenCalledWith('peer-1', 'e2ee-key', { publicKey: expect.any(String) });
+    expect(states).toHaveBeenLastCalledWith([{ peerId: 'peer-1', status: 'pending', fingerprint: null }]);
+  });
+
+  it('should show a participant who never answers with a key as not encrypted', async () => {
+    vi.useFakeTimers();
+    await encryption.announceKey('peer-1');
+
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(encryption.getStates()).toEqual([{ peerId: 'peer-1', status: 'unencrypted', fingerprint: null }]);
+    vi.useRealTimers();
+  });
+
+  it('should stay pending while a participant that answered sets up encryption', async () => {
+    vi.useFakeTimers();
+    await encryption.announceKey('peer-1');
+    await encryption.handleRemoteKey({ publicKey: await remoteKey() }, 'peer-1');
+
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(encryption.getStates()[0].status).toBe('pending');
+    vi.useRealTimers();
+  });
+
+  it('should hand the derived key to the worker and answer with its own', async () => {
+    await encryption.handleRemoteKey({ publicKey: await remoteKey() }, 'peer-1');
+
+    expect(worker().postMessage).toHaveBeenCalledWith({ type: 'set-key', peerId: 'peer-1', key: expect.any(CryptoKey) });
+    expect(transport.sendMessageToPeer).toHaveBeenCalledTimes(1);
+    const [state] = encryption.getStates();
+    // Their media may still arrive unencrypted until our key reaches them
+    expect(state.status).toBe('pending');
+    expect(state.fingerprint).toMatch(/^([0-9A-F]{4} ){7}[0-9A-F]{4}$/);
+  });
+
+  it('should count as encrypted only while frames from the participant decrypt', async () => {
+    await encryption.handleRemoteKey({ publicKey: await remoteKey() }, 'peer-1');
+
+    worker().onmessage!({ data: { type: 'decrypted', peerId: 'peer-1' } } as MessageEvent);
+    expect(encryption.getStates()[0].status).toBe('encrypted');
+
+    worker().onmessage!({ data: { type: 'plaintext', peerId: 'peer-1' } } as MessageEvent);
+    expect(encryption.getStates()[0].status).toBe('pending');
+  });
+
+  it('should not derive the same key twice', async () => {
+    const publicKey = await remoteKey();
+    await encryption.handleRemoteKey({ publicKey }, 'peer-1');
+    await encryption.handleRemoteKey({ publicKey }, 'peer-1');
+
+    expect(worker().postMessage).toHaveBeenCalledTimes(1);
+    expect(transport.sendMessageToPeer).toHaveBeenCalledTimes(1);
+  });
+
+  it('should flag a participant whose key is unusable', async () => {
+    await encryption.handleRemoteKey({ publicKey: btoa('not a key') }, 'peer-1');
+
+    expect(encryption.getStates()).toEqual([{ peerId: 'peer-1', status: 'error', fingerprint: null }]);
+    expect(worker().postMessage).not.toHaveBeenCalled();
+  });
+
+  it('should flag a participant whose frames fail to decrypt', async () => {
+    await encryption.handleRemoteKey({ publicKey: await remoteKey() }, 'peer-1');
+
+    worker().onmessage!({ data: { type: 'decrypt-error', peerId: 'peer-1' } } as MessageEvent);
+
+    expect(encryption.getStates()[0].status).toBe('error');
+    expect(encryption.getStates()[0].fingerprint).not.toBeNull();
+  });
+
+  it('should forget a participant who left', async () => {
+    await encryption.handleRemoteKey({ publicKey: await remoteKey() }, 'peer-1');
+
+    encryption.handlePeerLeft('peer-1');
+
+    expect(worker().postMessage).toHaveBeenLastCalledWith({ type: 'remove-key', peerId: 'peer-1' });
+    expect(encryption.getStates()).toEqual([]);
+  });
+
+  it('should stop the worker when destroyed', () => {
+    encryption.destroy();
+
+    expect(worker().terminate).toHaveBeenCalled();
+  });
+});
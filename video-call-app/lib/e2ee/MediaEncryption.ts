@@ -0,0 +1,258 @@
+// End-to-end media encryption: frames are encrypted in a worker through
+// RTCRtpScriptTransform, with a key agreed separately with each participant,
+// so nothing relaying the media (a TURN server, a future SFU) can see it.
+
+import type { WebRTCManager } from '../webrtc/WebRTCManager';
+import { DataMessagePayloads, EncryptionState } from '@/types';
+import { FrameCryptoEvent, FrameCryptoRequest, FrameTransformOptions } from './frameCrypto';
+import { computeKeyFingerprint, createKeyPair, deriveMediaKey, exportPublicKey } from './keyExchange';
+
+export type MediaEncryptionEventType = 'state-changed';
+type MediaEncryptionCallback = (states: EncryptionState[]) => void;
+
+// The part of WebRTCManager the key exchange needs
+export type KeyTransport = Pick<WebRTCManager, 'sendMessageToPeer'>;
+
+export interface MediaEncryptionOptions {
+  // Mixed into every key; everyone in the call must use the same one
+  passphrase?: string;
+}
+
+// How long a participant has to answer our key before we take it they don't encrypt
+const KEY_EXCHANGE_TIMEOUT = 10000;
+
+interface LocalKeys {
+  keyPair: CryptoKeyPair;
+  publicKey: string;
+}
+
+export class MediaEncryption {
+  private passphrase: string;
+  private worker: Worker;
+  private transport: KeyTransport | null = null;
+  private localKeys: Promise<LocalKeys>;
+  private states: Map<string, EncryptionState> = new Map();
+  // Public key each participant sent, so a repeated key is not derived again
+  private remoteKeys: Map<string, string> = new Map();
+  private announcedTo: Set<string> = new Set();
+  private keyTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  // Senders and receivers that already have a transform
+  private transformed: WeakSet<RTCRtpSender | RTCRtpReceiver> = new WeakSet();
+  private eventHandlers: Map<MediaEncryptionEventType, MediaEncryptionCallback[]> = new Map();
+
+  /**
+   * Check whether this browser supports Encoded Transforms in a worker
+   */
+  static isSupported(): boolean {
+    return (
+      typeof window !== 'undefined' &&
+      'RTCRtpScriptTransform' in window &&
+      typeof Worker !== 'undefined' &&
+      !!globalThis.crypto?.subtle
+    );
+  }
+
+  constructor(options: MediaEncryptionOptions = {}) {
+    this.passphrase = options.passphrase ?? '';
+    this.localKeys = createKeyPair().then(async (keyPair) => ({ keyPair, publicKey: await exportPublicKey(keyPair) }));
+    this.worker = new Worker(new URL('./frameCrypto.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = this.handleWorkerMessage.bind(this);
+  }
+
+  /**
+   * Use a call's connections to exchange keys, or null between calls
+   */
+  setTransport(transport: KeyTransport | null): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Route a participant's media connection through the worker
+   * Frames pass through unchanged until keys have been exchanged with them.
+   */
+  attachPeerConnection(peerId: string, peerConnection: RTCPeerConnection): void {
+    peerConnection.getSenders().forEach((sender) => this.transform(sender, { operation: 'encrypt', peerId }));
+    peerConnection.getReceivers().forEach((receiver) => this.transform(receiver, { operation: 'decrypt', peerId }));
+    peerConnection.addEventListener('track', (event) =>
+      this.transform(event.receiver, { operation: 'decrypt', peerId })
+    );
+  }
+
+  /**
+   * Send our public key to a participant
+   */
+  async announceKey(peerId: string): Promise<void> {
+    const { publicKey } = await this.localKeys;
+    if (!this.transport?.sendMessageToPeer(peerId, 'e2ee-key', { publicKey })) {
+      return;
+    }
+
+    this.announcedTo.add(peerId);
+    if (!this.states.has(peerId)) {
+      this.setState({ peerId, status: 'pending', fingerprint: null });
+    }
+    if (!this.remoteKeys.has(peerId) && !this.keyTimers.has(peerId)) {
+      this.keyTimers.set(peerId, setTimeout(() => this.handleKeyTimeout(peerId), KEY_EXCHANGE_TIMEOUT));
+    }
+  }
+
+  /**
+   * Derive the key shared with a participant from their public key
+   */
+  async handleRemoteKey(payload: DataMessagePayloads['e2ee-key'], peerId: string): Promise<void> {
+    const { keyPair, publicKey } = await this.localKeys;
+
+    if (this.remoteKeys.get(peerId) !== payload.publicKey) {
+      try {
+        const key = await deriveMediaKey(keyPair.privateKey, payload.publicKey, this.passphrase);
+        const fingerprint = await computeKeyFingerprint(publicKey, payload.publicKey);
+        this.remoteKeys.set(peerId, payload.publicKey);
+        this.clearKeyTimer(peerId);
+        this.postToWorker({ type: 'set-key', peerId, key });
+        console.log('🔑 Agreed a media key with', peerId);
+        // Still pending: they may be sending in the clear until our key reaches them
+        this.setState({ peerId, status: 'pending', fingerprint });
+      } catch (error) {
+        console.error('❌ Could not use encryption key from', peerId, error);
+        this.setState({ peerId, status: 'error', fingerprint: null });
+        return;
+      }
+    }
+
+    // Answer a participant who sent their key before we sent ours
+    if (!this.announcedTo.has(peerId)) {
+      await this.announceKey(peerId);
+    }
+  }
+
+  /**
+   * Forget the key of a participant who left
+   */
+  handlePeerLeft(peerId: string): void {
+    this.postToWorker({ type: 'remove-key', peerId });
+    this.remoteKeys.delete(peerId);
+    this.announcedTo.delete(peerId);
+    this.clearKeyTimer(peerId);
+    if (this.states.delete(peerId)) {
+      this.emit('state-changed', this.getStates());
+    }
+  }
+
+  /**
+   * Encryption status with every participant we sent our key to
+   */
+  getStates(): EncryptionState[] {
+    return Array.from(this.states.values());
+  }
+
+  /**
+   * Stop the worker; the call's media can no longer be encrypted or decrypted
+   */
+  destroy(): void {
+    this.worker.terminate();
+    this.keyTimers.forEach((timer) => clearTimeout(timer));
+    this.keyTimers.clear();
+    this.transport = null;
+    this.states.clear();
+    this.remoteKeys.clear();
+    this.announcedTo.clear();
+    this.eventHandlers.clear();
+  }
+
+  /**
+   * Register event handler
+   */
+  on(event: MediaEncryptionEventType, callback: MediaEncryptionCallback): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)!.push(callback);
+  }
+
+  /**
+   * Remove event handler
+   */
+  off(event: MediaEncryptionEventType, callback: MediaEncryptionCallback): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      const index = handlers.indexOf(callback);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Emit event to all registered handlers
+   */
+  private emit(event: MediaEncryptionEventType, states: EncryptionState[]): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      handlers.forEach((handler) => {
+        try {
+          handler(states);
+        } catch (error) {
+          console.error(`Error in ${event} handler:`, error);
+        }
+      });
+    }
+  }
+
+  private setState(state: EncryptionState): void {
+    this.states.set(state.peerId, state);
+    this.emit('state-changed', this.getStates());
+  }
+
+  /**
+   * A participant who never answered our key has E2EE turned off, so say so
+   * rather than leaving them pending; their key can still turn up later.
+   */
+  private handleKeyTimeout(peerId: string): void {
+    this.keyTimers.delete(peerId);
+    const state = this.states.get(peerId);
+    if (!state || state.status !== 'pending' || this.remoteKeys.has(peerId)) return;
+
+    console.warn('⚠️ No encryption key from', peerId, '- media with them is not encrypted');
+    this.setState({ ...state, status: 'unencrypted' });
+  }
+
+  private clearKeyTimer(peerId: string): void {
+    const timer = this.keyTimers.get(peerId);
+    if (timer) {
+      clearTimeout(timer);
+      this.keyTimers.delete(peerId);
+    }
+  }
+
+  private transform(endpoint: RTCRtpSender | RTCRtpReceiver, options: FrameTransformOptions): void {
+    if (this.transformed.has(endpoint)) return;
+    this.transformed.add(endpoint);
+    endpoint.transform = new RTCRtpScriptTransform(this.worker, options);
+  }
+
+  private postToWorker(request: FrameCryptoRequest): void {
+    this.worker.postMessage(request);
+  }
+
+  /**
+   * Follow what the worker sees of a participant's frames
+   * Their frames decrypting shows both sides encrypt; frames failing to decrypt
+   * usually means a different passphrase.
+   */
+  private handleWorkerMessage(event: MessageEvent<FrameCryptoEvent>): void {
+    const { type, peerId } = event.data;
+    const state = this.states.get(peerId);
+    if (!state || state.status === 'error') return;
+
+    if (type === 'decrypted') {
+      console.log('🔐 Media is end-to-end encrypted with', peerId);
+      this.setState({ ...state, status: 'encrypted' });
+    } else if (type === 'plaintext') {
+      console.warn('⚠️ Dropping unencrypted media from', peerId);
+      this.setState({ ...state, status: 'pending' });
+    } else {
+      console.warn('⚠️ Could not decrypt media from', peerId);
+      this.setState({ ...state, status: 'error' });
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import * as fc from 'fast-check';
+import { CLEAR_BYTES, decryptFrame, encryptFrame, getClearByteCount, isEncryptedFrame } from './frameCrypto';
+
+const createKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+const toBuffer = (bytes: number[]) => new Uint8Array(bytes).buffer;
+
+describe('frameCrypto', () => {
+  let key: CryptoKey;
+
+  beforeAll(async () => {
+    key = await createKey();
+  });
+
+  it('should leave the codec header of each frame kind readable', () => {
+    expect(getClearByteCount({ type: 'key' } as RTCEncodedVideoFrame)).toBe(CLEAR_BYTES.key);
+    expect(getClearByteCount({ type: 'delta' } as RTCEncodedVideoFrame)).toBe(CLEAR_BYTES.delta);
+    expect(getClearByteCount({} as RTCEncodedAudioFrame)).toBe(CLEAR_BYTES.audio);
+  });
+
+  it('should round-trip any frame', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.uint8Array({ maxLength: 200 }), fc.integer({ min: 0, max: 12 }), async (bytes, clearBytes) => {
+        const encrypted = await encryptFrame(key, bytes.slice().buffer, clearBytes);
+
+        expect(isEncryptedFrame(encrypted)).toBe(true);
+        expect(new Uint8Array(await decryptFrame(key, encrypted, clearBytes))).toEqual(bytes);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should keep the header in the clear and hide the rest', async () => {
+    const frame = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16];
+    const encrypted = new Uint8Array(await encryptFrame(key, toBuffer(frame), CLEAR_BYTES.delta));
+
+    expect(Array.from(encrypted.subarray(0, CLEAR_BYTES.delta))).toEqual([1, 2, 3]);
+    expect(Array.from(encrypted.subarray(CLEAR_BYTES.delta, frame.length))).not.toEqual(frame.slice(CLEAR_BYTES.delta));
+  });
+
+  it('should not mistake a plain frame for an encrypted one', () => {
+    expect(isEncryptedFrame(toBuffer([0xe2, 0xee]))).toBe(false);
+    expect(isEncryptedFrame(new ArrayBuffer(100))).toBe(false);
+  });
+
+  it('should reject frames encrypted with another key', async () => {
+    const encrypted = await encryptFrame(key, toBuffer([1, 2, 3, 4, 5]), CLEAR_BYTES.audio);
+
+    await expect(decryptFrame(await createKey(), encrypted, CLEAR_BYTES.audio)).rejects.toThrow();
+  });
+
+  it('should reject frames whose readable header was altered', async () => {
+    const encrypted = new Uint8Array(await encryptFrame(key, toBuffer([1, 2, 3, 4, 5]), CLEAR_BYTES.delta));
+    encrypted[0] ^= 0xff;
+
+    await expect(decryptFrame(key, encrypted.buffer, CLEAR_BYTES.delta)).rejects.toThrow();
+  });
+
+  it('should refuse to decrypt a plain frame', async () => {
+    await expect(decryptFrame(key, toBuffer([1, 2, 3]), CLEAR_BYTES.audio)).rejects.toThrow('Frame is not encrypted');
+  });
+});
@@ -0,0 +1,106 @@
+// Encryption of encoded audio and video frames with AES-GCM.
+// An encrypted frame is laid out as:
+//   [clear header][ciphertext + tag][IV][marker]
+// The first few bytes stay readable so the browser can still packetize the
+// frame; they are authenticated along with the rest.
+
+// Unencrypted bytes per frame kind, as in the WebRTC end-to-end encryption samples:
+// the VP8 payload header of key and delta frames, and the Opus TOC byte
+export const CLEAR_BYTES = {
+  key: 10,
+  delta: 3,
+  audio: 1,
+} as const;
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+// Appended to every encrypted frame so a receiver can tell it from a plain one
+const FRAME_MARKER = new Uint8Array([0xe2, 0xee]);
+const FRAME_OVERHEAD = TAG_LENGTH + IV_LENGTH + FRAME_MARKER.length;
+
+// Messages between MediaEncryption and the frame worker
+export type FrameCryptoRequest =
+  | { type: 'set-key'; peerId: string; key: CryptoKey }
+  | { type: 'remove-key'; peerId: string };
+
+// What the worker last saw of a participant's frames: decrypted with their key,
+// unencrypted although we share a key, or failing to decrypt
+export type FrameCryptoEvent = { type: 'decrypted' | 'plaintext' | 'decrypt-error'; peerId: string };
+
+// Options given to each RTCRtpScriptTransform
+export interface FrameTransformOptions {
+  operation: 'encrypt' | 'decrypt';
+  peerId: string;
+}
+
+/**
+ * Number of leading bytes left unencrypted; audio frames have no type
+ */
+export function getClearByteCount(frame: RTCEncodedAudioFrame | RTCEncodedVideoFrame): number {
+  if (!('type' in frame)) {
+    return CLEAR_BYTES.audio;
+  }
+  return frame.type === 'key' ? CLEAR_BYTES.key : CLEAR_BYTES.delta;
+}
+
+/**
+ * Whether a frame ends with the encrypted frame marker
+ */
+export function isEncryptedFrame(data: ArrayBuffer): boolean {
+  const bytes = new Uint8Array(data);
+  if (bytes.length < FRAME_OVERHEAD) {
+    return false;
+  }
+  const marker = bytes.subarray(bytes.length - FRAME_MARKER.length);
+  return marker.every((byte, index) => byte === FRAME_MARKER[index]);
+}
+
+/**
+ * Encrypt a frame, leaving its first clearBytes readable
+ */
+export async function encryptFrame(key: CryptoKey, data: ArrayBuffer, clearBytes: number): Promise<ArrayBuffer> {
+  const bytes = new Uint8Array(data);
+  const headerLength = Math.min(clearBytes, bytes.length);
+  const header = bytes.subarray(0, headerLength);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: header }, key, bytes.subarray(headerLength))
+  );
+
+  const frame = new Uint8Array(headerLength + ciphertext.length + IV_LENGTH + FRAME_MARKER.length);
+  frame.set(header);
+  frame.set(ciphertext, headerLength);
+  frame.set(iv, headerLength + ciphertext.length);
+  frame.set(FRAME_MARKER, frame.length - FRAME_MARKER.length);
+  return frame.buffer;
+}
+
+/**
+ * Decrypt a frame produced by encryptFrame
+ * Throws when the frame was not encrypted with this key or was altered.
+ */
+export async function decryptFrame(key: CryptoKey, data: ArrayBuffer, clearBytes: number): Promise<ArrayBuffer> {
+  if (!isEncryptedFrame(data)) {
+    throw new Error('Frame is not encrypted');
+  }
+
+  const bytes = new Uint8Array(data);
+  const headerLength = Math.min(clearBytes, bytes.length - FRAME_OVERHEAD);
+  const ivStart = bytes.length - FRAME_MARKER.length - IV_LENGTH;
+  const header = bytes.subarray(0, headerLength);
+  const iv = bytes.subarray(ivStart, ivStart + IV_LENGTH);
+
+  const plaintext = new Uint8Array(
+    await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: header },
+      key,
+      bytes.subarray(headerLength, ivStart)
+    )
+  );
+
+  const frame = new Uint8Array(headerLength + plaintext.length);
+  frame.set(header);
+  frame.set(plaintext, headerLength);
+  return frame.buffer;
+}
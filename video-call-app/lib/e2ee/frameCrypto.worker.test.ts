@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { CLEAR_BYTES, encryptFrame, FrameCryptoRequest, FrameTransformOptions } from './frameCrypto';
+
+type Frame = { type: 'delta'; data: ArrayBuffer };
+
+// The worker installs its handlers on the global scope
+interface WorkerScope {
+  onmessage(event: { data: FrameCryptoRequest }): void;
+  onrtctransform(event: {
+    transformer: { readable: ReadableStream<Frame>; writable: WritableStream<Frame>; options: FrameTransformOptions };
+  }): void;
+}
+const scope = self as unknown as WorkerScope;
+const postMessage = vi.fn();
+
+const createKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+const plainFrame = (): Frame => ({ type: 'delta', data: new Uint8Array([1, 2, 3, 4, 5]).buffer });
+
+const encryptedFrame = async (key: CryptoKey): Promise<Frame> => ({
+  type: 'delta',
+  data: await encryptFrame(key, plainFrame().data, CLEAR_BYTES.delta),
+});
+
+// Push frames through one transform and collect what comes out
+async function transform(options: FrameTransformOptions, frames: Frame[]): Promise<Frame[]> {
+  const output: Frame[] = [];
+  let done!: () => void;
+  const closed = new Promise<void>((resolve) => (done = resolve));
+
+  scope.onrtctransform({
+    transformer: {
+      readable: new ReadableStream({
+        start(controller) {
+          frames.forEach((frame) => controller.enqueue(frame));
+          controller.close();
+        },
+      }),
+      writable: new WritableStream({
+        write: (frame) => {
+          output.push(frame);
+        },
+        close: done,
+      }),
+      options,
+    },
+  });
+  await closed;
+  return output;
+}
+
+describe('frameCrypto worker', () => {
+  let key: CryptoKey;
+
+  beforeAll(async () => {
+    vi.spyOn(self, 'postMessage').mockImplementation(postMessage);
+    await import('./frameCrypto.worker');
+    key = await createKey();
+  });
+
+  beforeEach(() => {
+    postMessage.mockClear();
+  });
+
+  it('should play unencrypted frames until a key is set', async () => {
+    const output = await transform({ operation: 'decrypt', peerId: 'peer-1' }, [plainFrame()]);
+
+    expect(output).toHaveLength(1);
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  it('should send frames as is until a key is set, then encrypt them', async () => {
+    const options: FrameTransformOptions = { operation: 'encrypt', peerId: 'peer-2' };
+    const [before] = await transform(options, [plainFrame()]);
+
+    scope.onmessage({ data: { type: 'set-key', peerId: 'peer-2', key } });
+    const [after] = await transform(options, [plainFrame()]);
+
+    expect(new Uint8Array(before.data)).toEqual(new Uint8Array(plainFrame().data));
+    expect(after.data.byteLength).toBeGreaterThan(plainFrame().data.byteLength);
+  });
+
+  it('should drop unencrypted frames once a key is set and report them', async () => {
+    scope.onmessage({ data: { type: 'set-key', peerId: 'peer-3', key } });
+
+    const output = await transform({ operation: 'decrypt', peerId: 'peer-3' }, [
+      plainFrame(),
+      plainFrame(),
+      await encryptedFrame(key),
+    ]);
+
+    expect(output.map((frame) => Array.from(new Uint8Array(frame.data)))).toEqual([[1, 2, 3, 4, 5]]);
+    expect(postMessage.mock.calls.map(([event]) => event)).toEqual([
+      { type: 'plaintext', peerId: 'peer-3' },
+      { type: 'decrypted', peerId: 'peer-3' },
+    ]);
+  });
+
+  it('should report frames encrypted with another key once', async () => {
+    scope.onmessage({ data: { type: 'set-key', peerId: 'peer-4', key } });
+    const otherKey = await createKey();
+
+    const output = await transform({ operation: 'decrypt', peerId: 'peer-4' }, [
+      await encryptedFrame(otherKey),
+      await encryptedFrame(otherKey),
+    ]);
+
+    expect(output).toEqual([]);
+    expect(postMessage.mock.calls.map(([event]) => event)).toEqual([{ type: 'decrypt-error', peerId: 'peer-4' }]);
+  });
+});
@@ -0,0 +1,94 @@
+// Dedicated worker behind every RTCRtpScriptTransform of a call: encrypts the
+// frames we send and decrypts the frames we receive, one key per participant.
+
+import {
+  decryptFrame,
+  encryptFrame,
+  FrameCryptoEvent,
+  FrameCryptoRequest,
+  FrameTransformOptions,
+  getClearByteCount,
+  isEncryptedFrame,
+} from './frameCrypto';
+
+type EncodedFrame = RTCEncodedAudioFrame | RTCEncodedVideoFrame;
+
+// The parts of the worker scope we use; the app compiles against the DOM library only
+interface FrameCryptoScope {
+  onmessage: ((event: MessageEvent<FrameCryptoRequest>) => void) | null;
+  onrtctransform:
+    | ((event: {
+        transformer: { readable: ReadableStream<EncodedFrame>; writable: WritableStream<EncodedFrame>; options: FrameTransformOptions };
+      }) => void)
+    | null;
+  postMessage(message: FrameCryptoEvent): void;
+}
+
+const scope = self as unknown as FrameCryptoScope;
+const keys = new Map<string, CryptoKey>();
+// Last outcome reported for each participant's frames, so only changes are posted
+const reported = new Map<string, FrameCryptoEvent['type']>();
+
+function report(type: FrameCryptoEvent['type'], peerId: string): void {
+  if (reported.get(peerId) === type) return;
+  reported.set(peerId, type);
+  scope.postMessage({ type, peerId });
+}
+
+async function transformFrame(
+  frame: EncodedFrame,
+  controller: TransformStreamDefaultController<EncodedFrame>,
+  { operation, peerId }: FrameTransformOptions
+): Promise<void> {
+  const key = keys.get(peerId);
+
+  if (operation === 'encrypt') {
+    // Until the participant has sent their key they can't decrypt, so send as is
+    if (key && frame.data.byteLength > 0) {
+      frame.data = await encryptFrame(key, frame.data, getClearByteCount(frame));
+    }
+    controller.enqueue(frame);
+    return;
+  }
+
+  // Frames sent before the participant had our key arrive unencrypted; once we
+  // share a key, unencrypted media is refused rather than played
+  if (!isEncryptedFrame(frame.data)) {
+    if (key) {
+      report('plaintext', peerId);
+    } else {
+      controller.enqueue(frame);
+    }
+    return;
+  }
+  // Without a key the frame would only garble the decoder
+  if (!key) return;
+
+  try {
+    frame.data = await decryptFrame(key, frame.data, getClearByteCount(frame));
+    controller.enqueue(frame);
+    report('decrypted', peerId);
+  } catch {
+    report('decrypt-error', peerId);
+  }
+}
+
+scope.onrtctransform = ({ transformer }) => {
+  transformer.readable
+    .pipeThrough(
+      new TransformStream<EncodedFrame, EncodedFrame>({
+        transform: (frame, controller) => transformFrame(frame, controller, transformer.options),
+      })
+    )
+    .pipeTo(transformer.writable)
+    .catch((error) => console.error('❌ Frame transform stopped:', error));
+};
+
+scope.onmessage = ({ data }) => {
+  if (data.type === 'set-key') {
+    keys.set(data.peerId, data.key);
+  } else {
+    keys.delete(data.peerId);
+  }
+  reported.delete(data.peerId);
+};
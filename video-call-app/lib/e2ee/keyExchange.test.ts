@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { decryptFrame, encryptFrame } from './frameCrypto';
+import { computeKeyFingerprint, createKeyPair, deriveMediaKey, exportPublicKey } from './keyExchange';
+
+async function createParty() {
+  const keyPair = await createKeyPair();
+  return { keyPair, publicKey: await exportPublicKey(keyPair) };
+}
+
+const frame = new Uint8Array([9, 8, 7, 6, 5, 4, 3, 2, 1]);
+
+describe('keyExchange', () => {
+  it('should give both participants the same media key', async () => {
+    const alice = await createParty();
+    const bob = await createParty();
+
+    const aliceKey = await deriveMediaKey(alice.keyPair.privateKey, bob.publicKey);
+    const bobKey = await deriveMediaKey(bob.keyPair.privateKey, alice.publicKey);
+    const encrypted = await encryptFrame(aliceKey, frame.slice().buffer, 1);
+
+    expect(new Uint8Array(await decryptFrame(bobKey, encrypted, 1))).toEqual(frame);
+  });
+
+  it('should derive different keys for different passphrases', async () => {
+    const alice = await createParty();
+    const bob = await createParty();
+
+    const aliceKey = await deriveMediaKey(alice.keyPair.privateKey, bob.publicKey, 'open sesame');
+    const bobKey = await deriveMediaKey(bob.keyPair.privateKey, alice.publicKey, 'open sesame!');
+    const encrypted = await encryptFrame(aliceKey, frame.slice().buffer, 1);
+
+    await expect(decryptFrame(bobKey, encrypted, 1)).rejects.toThrow();
+  });
+
+  it('should show both participants the same fingerprint', async () => {
+    const alice = await createParty();
+    const bob = await createParty();
+    const mallory = await createParty();
+
+    const fingerprint = await computeKeyFingerprint(alice.publicKey, bob.publicKey);
+
+    expect(fingerprint).toMatch(/^([0-9A-F]{4} ){7}[0-9A-F]{4}$/);
+    expect(await computeKeyFingerprint(bob.publicKey, alice.publicKey)).toBe(fingerprint);
+    expect(await computeKeyFingerprint(alice.publicKey, mallory.publicKey)).not.toBe(fingerprint);
+  });
+
+  it('should reject a malformed public key', async () => {
+    const alice = await createParty();
+
+    await expect(deriveMediaKey(alice.keyPair.privateKey, btoa('not a key'))).rejects.toThrow();
+  });
+});
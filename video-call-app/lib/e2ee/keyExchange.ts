@@ -0,0 +1,68 @@
+// ECDH key agreement for end-to-end media encryption. Each pair of participants
+// swaps P-256 public keys over the data connection and derives their own AES key.
+
+const CURVE: EcKeyImportParams = { name: 'ECDH', namedCurve: 'P-256' };
+// HKDF context, so the shared secret is never used for anything else
+const MEDIA_KEY_INFO = 'video-call-app e2ee media key';
+const FINGERPRINT_BYTES = 16;
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value), (character) => character.charCodeAt(0));
+
+/**
+ * Generate this call's key pair; the private key never leaves WebCrypto
+ */
+export async function createKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(CURVE, false, ['deriveBits']);
+}
+
+/**
+ * Public key in the form sent to other participants
+ */
+export async function exportPublicKey(keyPair: CryptoKeyPair): Promise<string> {
+  const raw = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+  return toBase64(new Uint8Array(raw));
+}
+
+/**
+ * Derive the AES-GCM key shared with one participant
+ * A passphrase is mixed in when set, so someone who relays the exchange
+ * without knowing it cannot derive the key.
+ */
+export async function deriveMediaKey(
+  privateKey: CryptoKey,
+  remotePublicKey: string,
+  passphrase: string = ''
+): Promise<CryptoKey> {
+  const encoder = new TextEncoder();
+  const publicKey = await crypto.subtle.importKey('raw', fromBase64(remotePublicKey), CURVE, false, []);
+  const secret = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const material = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(passphrase), info: encoder.encode(MEDIA_KEY_INFO) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Safety code for a pair of public keys, the same on both sides
+ * e.g. "3F2A 9C01 ..." in groups of four hex digits
+ */
+export async function computeKeyFingerprint(localPublicKey: string, remotePublicKey: string): Promise<string> {
+  const [first, second] = [localPublicKey, remotePublicKey].sort().map(fromBase64);
+  const combined = new Uint8Array(first.length + second.length);
+  combined.set(first);
+  combined.set(second, first.length);
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', combined));
+  const hex = Array.from(digest.subarray(0, FINGERPRINT_BYTES), (byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+  return hex.match(/.{4}/g)!.join(' ');
+}
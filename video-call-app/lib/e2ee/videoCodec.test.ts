@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { restrictVideoToVp8 } from './videoCodec';
+
+const sdp = [
+  'v=0',
+  'o=- 1 2 IN IP4 127.0.0.1',
+  'm=audio 9 UDP/TLS/RTP/SAVPF 111',
+  'a=rtpmap:111 opus/48000/2',
+  'a=fmtp:111 minptime=10;useinbandfec=1',
+  'm=video 9 UDP/TLS/RTP/SAVPF 96 97 98 99 45',
+  'a=mid:1',
+  'a=rtpmap:96 VP8/90000',
+  'a=rtcp-fb:96 nack',
+  'a=rtpmap:97 rtx/90000',
+  'a=fmtp:97 apt=96',
+  'a=rtpmap:98 H264/90000',
+  'a=rtcp-fb:98 nack',
+  'a=fmtp:98 level-asymmetry-allowed=1;packetization-mode=1',
+  'a=rtpmap:99 rtx/90000',
+  'a=fmtp:99 apt=98',
+  'a=rtpmap:45 AV1/90000',
+  '',
+].join('\r\n');
+
+describe('restrictVideoToVp8', () => {
+  it('should keep only VP8 and its retransmission format in video sections', () => {
+    const lines = restrictVideoToVp8(sdp).split('\r\n');
+
+    expect(lines).toContain('m=video 9 UDP/TLS/RTP/SAVPF 96 97');
+    expect(lines).toContain('a=mid:1');
+    expect(lines).toContain('a=rtcp-fb:96 nack');
+    expect(lines).toContain('a=fmtp:97 apt=96');
+    expect(lines.filter((line) => /^a=(rtpmap|rtcp-fb|fmtp):(98|99|45) /.test(line))).toEqual([]);
+  });
+
+  it('should leave the session and audio sections alone', () => {
+    const restricted = restrictVideoToVp8(sdp);
+
+    expect(restricted.split('\r\n').slice(0, 5)).toEqual(sdp.split('\r\n').slice(0, 5));
+    expect(restricted.endsWith('a=fmtp:97 apt=96\r\n')).toBe(true);
+  });
+
+  it('should not touch a video section without VP8', () => {
+    const withoutVp8 = 'm=video 9 UDP/TLS/RTP/SAVPF 98\r\na=rtpmap:98 H264/90000\r\n';
+
+    expect(restrictVideoToVp8(withoutVp8)).toBe(withoutVp8);
+  });
+});
@@ -0,0 +1,49 @@
+// Frame encryption leaves a codec-specific header in the clear (see CLEAR_BYTES),
+// sized for VP8. Calls with encryption on are pinned to VP8 by rewriting the SDP
+// PeerJS negotiates with, since its offer is created before we see the connection.
+
+const RTPMAP_PATTERN = /^a=rtpmap:(\d+) ([^/]+)\//;
+const RTX_PATTERN = /^a=fmtp:(\d+) apt=(\d+)$/;
+const PAYLOAD_ATTRIBUTE_PATTERN = /^a=(?:rtpmap|rtcp-fb|fmtp):(\d+) /;
+
+/**
+ * Keep only VP8, and its retransmission format, in the video sections of an SDP
+ * Sections without VP8 are left as they are.
+ */
+export function restrictVideoToVp8(sdp: string): string {
+  const lines = sdp.split('\r\n');
+  const sections: string[][] = [[]];
+  lines.forEach((line) => {
+    if (line.startsWith('m=')) sections.push([]);
+    sections[sections.length - 1].push(line);
+  });
+
+  return sections
+    .map((section) => (section[0]?.startsWith('m=video') ? restrictSection(section) : section))
+    .flat()
+    .join('\r\n');
+}
+
+function restrictSection([mediaLine, ...attributes]: string[]): string[] {
+  const vp8 = new Set<string>();
+  attributes.forEach((line) => {
+    const match = line.match(RTPMAP_PATTERN);
+    if (match && match[2].toUpperCase() === 'VP8') vp8.add(match[1]);
+  });
+  if (vp8.size === 0) return [mediaLine, ...attributes];
+
+  const kept = new Set(vp8);
+  attributes.forEach((line) => {
+    const match = line.match(RTX_PATTERN);
+    if (match && vp8.has(match[2])) kept.add(match[1]);
+  });
+
+  // m=video <port> <proto> <payload types...>
+  const fields = mediaLine.split(' ');
+  const restrictedMediaLine = [...fields.slice(0, 3), ...fields.slice(3).filter((type) => kept.has(type))].join(' ');
+  const restrictedAttributes = attributes.filter((line) => {
+    const payloadType = line.match(PAYLOAD_ATTRIBUTE_PATTERN)?.[1];
+    return !payloadType || kept.has(payloadType);
+  });
+  return [restrictedMediaLine, ...restrictedAttributes];
+}
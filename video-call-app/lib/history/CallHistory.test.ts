@@ -0,0 +1,137 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { CallHistoryRecorder, IndexedDBCallHistoryStore, searchCallHistory } from './CallHistory';
+import { Caption, CallHistoryEntry } from '@/types';
+
+let dbCount = 0;
+const freshStore = () => new IndexedDBCallHistoryStore(`history-test-${dbCount++}`);
+
+const caption = (overrides: Partial<Caption>): Caption => ({
+  id: 'caption-1',
+  text: 'hello',
+  originalText: 'hello',
+  speaker: 'local',
+  timestamp: 0,
+  language: 'en',
+  isTranslated: false,
+  ...overrides,
+});
+
+const entry = (overrides: Partial<CallHistoryEntry>): CallHistoryEntry => ({
+  id: 'call-1',
+  sessionId: 'session-1',
+  role: 'host',
+  startedAt: 0,
+  endedAt: 0,
+  participants: [],
+  languages: [],
+  status: 'ended',
+  captions: [],
+  ...overrides,
+});
+
+describe('CallHistory', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should list calls most recent first and delete them individually or in bulk', async () => {
+    const store = freshStore();
+    await store.save(entry({ id: 'a', startedAt: 100 }));
+    await store.save(entry({ id: 'c', startedAt: 300 }));
+    await store.save(entry({ id: 'b', startedAt: 200 }));
+
+    expect((await store.list()).map((call) => call.id)).toEqual(['c', 'b', 'a']);
+
+    await store.delete(['b']);
+    expect((await store.list()).map((call) => call.id)).toEqual(['c', 'a']);
+
+    await store.delete(['a', 'c']);
+    await store.save(entry({ id: 'd' }));
+    await store.clear();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should record a call, its finished captions and everyone who joined', async () => {
+    vi.useFakeTimers({ now: 1_000 });
+    const store = freshStore();
+    const recorder = new CallHistoryRecorder(store, { sessionId: 'session-1', startedAt: 1_000 });
+
+    recorder.update({ role: 'guest', participants: ['peer-a'], languages: ['fr-FR', 'en'] });
+    recorder.update({
+      participants: ['peer-b'],
+      captions: [
+        caption({ id: 'one', text: 'Good morning', originalText: 'Bonjour', sourceLanguage: 'fr-FR', isTranslated: true }),
+        caption({ id: 'two', text: 'still spea', isFinal: false }),
+      ],
+    });
+    await vi.advanceTimersByTimeAsync(5_000);
+    vi.useRealTimers();
+    await recorder.end(9_000);
+
+    const saved = await store.get('session-1-1000');
+    expect(saved).toMatchObject({
+      sessionId: 'session-1',
+      role: 'guest',
+      startedAt: 1_000,
+      endedAt: 9_000,
+      status: 'ended',
+      participants: ['peer-a', 'peer-b'],
+      languages: ['fr-FR', 'en'],
+    });
+    expect(saved?.captions.map((entry) => entry.id)).toEqual(['one']);
+  });
+
+  it('should batch updates into one write per save delay', async () => {
+    vi.useFakeTimers();
+    const store = { save: vi.fn(async () => {}), get: vi.fn(), list: vi.fn(), delete: vi.fn(), clear: vi.fn() };
+    const recorder = new CallHistoryRecorder(store, { sessionId: 's', saveDelay: 1_000 });
+
+    recorder.update({ participants: ['a'] });
+    recorder.update({ participants: ['b'] });
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(store.save).toHaveBeenCalledTimes(1);
+    expect(store.save).toHaveBeenCalledWith(expect.objectContaining({ participants: ['a', 'b'], status: 'active' }));
+
+    await recorder.end();
+    recorder.update({ participants: ['late'] });
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(store.save).toHaveBeenCalledTimes(2);
+  });
+
+  it('should leave no trace of a discarded call', async () => {
+    const store = freshStore();
+    const recorder = new CallHistoryRecorder(store, { sessionId: 'session-1', startedAt: 1_000 });
+    await recorder.flush();
+
+    await recorder.discard();
+    recorder.update({ participants: ['peer-a'] });
+    await recorder.end();
+
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should find calls by transcript, participant, language or session', () => {
+    const calls = [
+      entry({ id: 'a', sessionId: 'standup', participants: ['peer-x'], languages: ['en'], captions: [caption({ text: 'Ship it on Friday' })] }),
+      entry({ id: 'b', sessionId: 'retro', languages: ['es', 'en'], captions: [caption({ text: 'Good idea', originalText: 'Buena idea' })] }),
+    ];
+
+    expect(searchCallHistory(calls, 'friday').map((call) => call.id)).toEqual(['a']);
+    expect(searchCallHistory(calls, 'PEER-X').map((call) => call.id)).toEqual(['a']);
+    expect(searchCallHistory(calls, 'buena es').map((call) => call.id)).toEqual(['b']);
+    expect(searchCallHistory(calls, 'retro friday')).toEqual([]);
+  });
+
+  it('should return every call for a blank query', () => {
+    fc.assert(
+      fc.property(fc.array(fc.string(), { maxLength: 5 }), fc.stringMatching(/^\s*$/), (sessionIds, query) => {
+        const calls = sessionIds.map((sessionId, index) => entry({ id: `${index}`, sessionId }));
+        expect(searchCallHistory(calls, query)).toEqual(calls);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,289 @@
+// Call history: records each call and its finished captions in IndexedDB
+// so transcripts outlive the page
+
+import { Caption, CallHistoryEntry, RoomRole } from '@/types';
+
+// Persistent store of recorded calls
+export interface CallHistoryStore {
+  save(entry: CallHistoryEntry): Promise<void>;
+  get(id: string): Promise<CallHistoryEntry | undefined>;
+  // Most recent call first
+  list(): Promise<CallHistoryEntry[]>;
+  delete(ids: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CallHistoryRecorderOptions {
+  sessionId: string;
+  startedAt?: number;
+  // Updates within this many milliseconds are written together
+  saveDelay?: number;
+}
+
+export interface CallSnapshot {
+  role?: RoomRole | null;
+  captions?: Caption[];
+  participants?: string[];
+  languages?: string[];
+}
+
+const DB_NAME = 'video-call-history';
+const STORE_NAME = 'calls';
+const DEFAULT_SAVE_DELAY = 1000;
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Call history backed by IndexedDB
+ */
+export class IndexedDBCallHistoryStore implements CallHistoryStore {
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = DB_NAME) {
+    this.dbName = dbName;
+  }
+
+  /**
+   * Check if IndexedDB is available
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Open the database once
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      };
+      this.dbPromise = requestToPromise(request);
+    }
+    return this.dbPromise;
+  }
+
+  async save(entry: CallHistoryEntry): Promise<void> {
+    const db = await this.open();
+    await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+  }
+
+  async get(id: string): Promise<CallHistoryEntry | undefined> {
+    const db = await this.open();
+    return requestToPromise(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(id));
+  }
+
+  async list(): Promise<CallHistoryEntry[]> {
+    const db = await this.open();
+    const index = db.transaction(STORE_NAME).objectStore(STORE_NAME).index('startedAt');
+    const entries: CallHistoryEntry[] = await requestToPromise(index.getAll());
+    return entries.reverse();
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    const db = await this.open();
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await Promise.all(ids.map((id) => requestToPromise(store.delete(id))));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+  }
+}
+
+/**
+ * Add values to a list, keeping it free of duplicates and blanks
+ */
+function mergeUnique(list: string[], values: string[]): string[] {
+  const merged = [...list];
+  values.forEach((value) => {
+    if (value && !merged.includes(value)) {
+      merged.push(value);
+    }
+  });
+  return merged;
+}
+
+/**
+ * Keeps the history entry of the call in progress up to date
+ */
+export class CallHistoryRecorder {
+  private store: CallHistoryStore;
+  private entry: CallHistoryEntry;
+  private saveDelay: number;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingSave: Promise<void> = Promise.resolve();
+  // Set for a call we never got into, which is kept out of history
+  private discarded: boolean = false;
+
+  constructor(store: CallHistoryStore, options: CallHistoryRecorderOptions) {
+    const startedAt = options.startedAt ?? Date.now();
+    this.store = store;
+    this.saveDelay = options.saveDelay ?? DEFAULT_SAVE_DELAY;
+    this.entry = {
+      id: `${options.sessionId}-${startedAt}`,
+      sessionId: options.sessionId,
+      role: null,
+      startedAt,
+      endedAt: startedAt,
+      participants: [],
+      languages: [],
+      status: 'active',
+      captions: [],
+    };
+    this.scheduleSave();
+  }
+
+  /**
+   * Record the current state of the call
+   * Participants and languages accumulate; captions are replaced by the finished ones given.
+   */
+  update(snapshot: CallSnapshot): void {
+    if (this.entry.status === 'ended' || this.discarded) {
+      return;
+    }
+
+    if (snapshot.role) {
+      this.entry.role = snapshot.role;
+    }
+    if (snapshot.participants) {
+      this.entry.participants = mergeUnique(this.entry.participants, snapshot.participants);
+    }
+    if (snapshot.languages) {
+      this.entry.languages = mergeUnique(this.entry.languages, snapshot.languages);
+    }
+    if (snapshot.captions) {
+      this.entry.captions = snapshot.captions.filter((caption) => caption.isFinal !== false);
+      this.entry.languages = mergeUnique(
+        this.entry.languages,
+        this.entry.captions.flatMap((caption) => [caption.sourceLanguage ?? '', caption.language])
+      );
+    }
+    this.scheduleSave();
+  }
+
+  /**
+   * Mark the call ended and write it out
+   */
+  end(endedAt: number = Date.now()): Promise<void> {
+    if (this.entry.status !== 'ended') {
+      this.entry.status = 'ended';
+      this.entry.endedAt = endedAt;
+    }
+    return this.flush();
+  }
+
+  /**
+   * Write any pending update now
+   */
+  flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    return this.save();
+  }
+
+  /**
+   * Remove the entry from history and stop writing it
+   */
+  discard(): Promise<void> {
+    this.discarded = true;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    this.pendingSave = this.pendingSave
+      .then(() => this.store.delete([this.entry.id]))
+      .catch((error) => {
+        console.warn('Call history delete failed:', error);
+      });
+    return this.pendingSave;
+  }
+
+  /**
+   * Get a copy of the entry being recorded
+   */
+  getEntry(): CallHistoryEntry {
+    return { ...this.entry, captions: [...this.entry.captions] };
+  }
+
+  /**
+   * Write after saveDelay, batching updates in between
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, this.saveDelay);
+  }
+
+  /**
+   * Write the entry, one write at a time so an older snapshot never lands last
+   */
+  private save(): Promise<void> {
+    if (this.discarded) {
+      return this.pendingSave;
+    }
+    if (this.entry.status === 'active') {
+      this.entry.endedAt = Math.max(this.entry.endedAt, Date.now());
+    }
+    const entry = this.getEntry();
+    this.pendingSave = this.pendingSave
+      .then(() => this.store.save(entry))
+      .catch((error) => {
+        console.warn('Call history write failed:', error);
+      });
+    return this.pendingSave;
+  }
+}
+
+/**
+ * Filter calls by a search query
+ * Every word must appear in the session id, a participant, a language or the transcript.
+ */
+export function searchCallHistory(entries: CallHistoryEntry[], query: string): CallHistoryEntry[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return entries;
+  }
+
+  return entries.filter((entry) => {
+    const haystack = [
+      entry.sessionId,
+      ...entry.participants,
+      ...entry.languages,
+      ...entry.captions.flatMap((caption) => [caption.text, caption.originalText]),
+    ].join('\n').toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
+
+let sharedStore: CallHistoryStore | null | undefined;
+
+/**
+ * Get the tab-wide call history store, or null when history is off or unavailable
+ * NEXT_PUBLIC_CALL_HISTORY=off stops calls from being recorded.
+ */
+export function getCallHistoryStore(): CallHistoryStore | null {
+  if (sharedStore === undefined) {
+    const enabled = process.env.NEXT_PUBLIC_CALL_HISTORY !== 'off' && IndexedDBCallHistoryStore.isSupported();
+    sharedStore = enabled ? new IndexedDBCallHistoryStore() : null;
+  }
+  return sharedStore;
+}
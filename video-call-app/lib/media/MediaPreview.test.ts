@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { MediaPreview, computeLevel, playTestTone } from './MediaPreview';
+
+function createMockTrack(kind: string, deviceId: string) {
+  return { kind, enabled: true, stop: vi.fn(), getSettings: () => ({ deviceId }) };
+}
+
+function createMockStream(tracks: ReturnType<typeof createMockTrack>[]) {
+  return {
+    getTracks: () => tracks,
+    getVideoTracks: () => tracks.filter((track) => track.kind === 'video'),
+    getAudioTracks: () => tracks.filter((track) => track.kind === 'audio'),
+  };
+}
+
+class MockAudioContext {
+  static instances: MockAudioContext[] = [];
+  // Samples the analyser reports
+  static samples = new Float32Array(1024);
+  currentTime = 0;
+  close = vi.fn(async () => {});
+  oscillator = {
+    frequency: { value: 0 },
+    connect: vi.fn(),
+    onended: null as (() => void) | null,
+    start: vi.fn(),
+    stop: vi.fn(() => setTimeout(() => this.oscillator.onended?.(), 0)),
+  };
+  constructor() {
+    MockAudioContext.instances.push(this);
+  }
+  createAnalyser() {
+    return {
+      fftSize: 0,
+      getFloatTimeDomainData: (target: Float32Array) => target.set(MockAudioContext.samples.subarray(0, target.length)),
+    };
+  }
+  createMediaStreamSource() {
+    return { connect: vi.fn(), disconnect: vi.fn() };
+  }
+  createOscillator() {
+    return this.oscillator;
+  }
+  createGain() {
+    return { gain: { value: 0 }, connect: vi.fn() };
+  }
+  createMediaStreamDestination() {
+    return { stream: createMockStream([]) };
+  }
+}
+
+class MockAudio {
+  static instances: MockAudio[] = [];
+  srcObject: unknown = null;
+  setSinkId = vi.fn(async () => {});
+  play = vi.fn(async () => {});
+  pause = vi.fn();
+  constructor() {
+    MockAudio.instances.push(this);
+  }
+}
+
+// Opens the device asked for with { deviceId: { exact } }, or the default one
+const deviceIdFor = (constraint: boolean | MediaTrackConstraints | undefined, fallback: string) => {
+  const deviceId = typeof constraint === 'object' ? constraint.deviceId : undefined;
+  return typeof deviceId === 'object' && !Array.isArray(deviceId) ? String(deviceId.exact) : fallback;
+};
+
+const getUserMedia = vi.fn(async (constraints: MediaStreamConstraints) => {
+  const tracks: ReturnType<typeof createMockTrack>[] = [];
+  if (constraints.video) tracks.push(createMockTrack('video', deviceIdFor(constraints.video, 'default-camera')));
+  if (constraints.audio) tracks.push(createMockTrack('audio', deviceIdFor(constraints.audio, 'default-mic')));
+  return createMockStream(tracks);
+});
+
+describe('MediaPreview', () => {
+  let preview: MediaPreview;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    getUserMedia.mockClear();
+    MockAudioContext.instances = [];
+    MockAudioContext.samples = new Float32Array(1024);
+    vi.stubGlobal('AudioContext', MockAudioContext);
+    vi.stubGlobal('MediaStream', class {
+      constructor(tracks: ReturnType<typeof createMockTrack>[]) {
+        return createMockStream(tracks);
+      }
+    });
+    vi.stubGlobal('navigator', {
+      mediaDevices: {
+        getUserMedia,
+        enumerateDevices: vi.fn(async () => []),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+      },
+    });
+    preview = new MediaPreview({ levelInterval: 50 });
+  });
+
+  afterEach(() => {
+    preview.stop();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should report the microphone level while previewing', async () => {
+    const levels: number[] = [];
+    preview.on('level', (level: number) => levels.push(level));
+    await preview.start();
+
+    vi.advanceTimersByTime(50);
+    MockAudioContext.samples.fill(0.15);
+    vi.advanceTimersByTime(50);
+
+    expect(levels).toHaveLength(2);
+    expect(levels[0]).toBe(0);
+    expect(levels[1]).toBeCloseTo(0.5);
+  });
+
+  it('should switch one device and keep the other open', async () => {
+    const streams: MediaStream[] = [];
+    preview.on('stream', (stream: MediaStream) => streams.push(stream));
+    const first = await preview.start();
+    const [camera, microphone] = first.getTracks();
+
+    await preview.selectDevice('audioinput', 'headset-mic');
+
+    expect(getUserMedia).toHaveBeenLastCalledWith({ audio: { deviceId: { exact: 'headset-mic' } } });
+    expect(microphone.stop).toHaveBeenCalled();
+    expect(camera.stop).not.toHaveBeenCalled();
+    expect(streams).toHaveLength(2);
+    expect(preview.getStream()!.getVideoTracks()).toEqual([camera]);
+    expect(preview.getSelectedDevices()).toEqual({ audioinput: 'headset-mic', videoinput: 'default-camera' });
+  });
+
+  it('should keep the previous device when the new one cannot be opened', async () => {
+    await preview.start();
+    getUserMedia.mockRejectedValueOnce(new Error('NotReadableError'));
+
+    await expect(preview.selectDevice('videoinput', 'usb-camera')).rejects.toThrow('Failed to access the selected camera.');
+    expect(preview.getSelectedDevices().videoinput).toBe('default-camera');
+  });
+
+  it('should hand the stream over without stopping it', async () => {
+    const stream = await preview.start();
+
+    expect(preview.release()).toBe(stream);
+    stream.getTracks().forEach((track) => expect(track.stop).not.toHaveBeenCalled());
+    expect(preview.getStream()).toBeNull();
+    expect(MockAudioContext.instances[0].close).toHaveBeenCalled();
+  });
+
+  it('should stop the tracks when leaving without joining', async () => {
+    const stream = await preview.start();
+
+    preview.stop();
+
+    stream.getTracks().forEach((track) => expect(track.stop).toHaveBeenCalled());
+  });
+
+  it('should play the test tone through the chosen speaker', async () => {
+    MockAudio.instances = [];
+    vi.stubGlobal('Audio', MockAudio);
+    vi.useRealTimers();
+
+    await playTestTone({ sinkId: 'headphones', frequency: 880, duration: 500 });
+
+    const context = MockAudioContext.instances[0];
+    expect(MockAudio.instances[0].setSinkId).toHaveBeenCalledWith('headphones');
+    expect(context.oscillator.frequency.value).toBe(880);
+    expect(context.oscillator.stop).toHaveBeenCalledWith(0.5);
+    expect(MockAudio.instances[0].pause).toHaveBeenCalled();
+    expect(context.close).toHaveBeenCalled();
+  });
+});
+
+describe('computeLevel', () => {
+  it('should stay between 0 and 1', () => {
+    fc.assert(
+      fc.property(fc.array(fc.float({ min: -1, max: 1, noNaN: true }), { maxLength: 256 }), (samples) => {
+        const level = computeLevel(new Float32Array(samples));
+        expect(level).toBeGreaterThanOrEqual(0);
+        expect(level).toBeLessThanOrEqual(1);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should read silence as zero', () => {
+    expect(computeLevel(new Float32Array(128))).toBe(0);
+    expect(computeLevel(new Float32Array(0))).toBe(0);
+  });
+});
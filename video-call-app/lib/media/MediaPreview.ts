@@ -0,0 +1,296 @@
+// Media preview for the pre-call lobby: opens the camera and microphone,
+// meters the microphone level, and plays a test tone through the speakers
+
+import { InputDeviceKind, MediaDeviceLists } from '@/types';
+
+// What each preview event reports; the level is between 0 and 1
+export interface PreviewEvents {
+  stream: MediaStream;
+  level: number;
+  'devices-changed': MediaDeviceLists;
+}
+
+export type PreviewEventType = keyof PreviewEvents;
+type PreviewCallback<E extends PreviewEventType> = (data: PreviewEvents[E]) => void;
+
+export interface MediaPreviewOptions {
+  // How often the microphone level is reported, in milliseconds
+  levelInterval?: number;
+}
+
+export interface TestToneOptions {
+  // Speaker to play through; the default output when omitted
+  sinkId?: string;
+  frequency?: number;
+  // In milliseconds
+  duration?: number;
+  volume?: number;
+}
+
+const DEFAULT_LEVEL_INTERVAL = 100;
+const ANALYSER_FFT_SIZE = 1024;
+// Speech rarely goes above this RMS, so it is shown as a full meter
+const FULL_SCALE_RMS = 0.3;
+
+/**
+ * Microphone level between 0 and 1 from a block of time-domain samples
+ */
+export function computeLevel(samples: Float32Array): number {
+  if (samples.length === 0) {
+    return 0;
+  }
+
+  let sum = 0;
+  for (const sample of samples) {
+    sum += sample * sample;
+  }
+  const rms = Math.sqrt(sum / samples.length);
+  return Math.min(1, rms / FULL_SCALE_RMS);
+}
+
+/**
+ * Play a short sine tone, resolving once it has finished
+ */
+export async function playTestTone(options: TestToneOptions = {}): Promise<void> {
+  const { sinkId, frequency = 440, duration = 1000, volume = 0.2 } = options;
+  const context = new AudioContext();
+
+  try {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const destination = context.createMediaStreamDestination();
+    oscillator.frequency.value = frequency;
+    gain.gain.value = volume;
+    oscillator.connect(gain);
+    gain.connect(destination);
+
+    // An audio element can be routed to a chosen speaker, the AudioContext output cannot everywhere
+    const audio = new Audio();
+    audio.srcObject = destination.stream;
+    if (sinkId && 'setSinkId' in audio) {
+      await audio.setSinkId(sinkId);
+    }
+    await audio.play();
+
+    await new Promise<void>((resolve) => {
+      oscillator.onended = () => resolve();
+      oscillator.start();
+      oscillator.stop(context.currentTime + duration / 1000);
+    });
+    audio.pause();
+    audio.srcObject = null;
+  } finally {
+    await context.close();
+  }
+}
+
+export class MediaPreview {
+  private stream: MediaStream | null = null;
+  private selectedDevices: Partial<Record<InputDeviceKind, string>> = {};
+  private levelInterval: number;
+  private audioContext: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private analyserSource: MediaStreamAudioSourceNode | null = null;
+  private levelTimer: ReturnType<typeof setInterval> | null = null;
+  private watchingDevices: boolean = false;
+  private eventHandlers: { [E in PreviewEventType]?: PreviewCallback<E>[] } = {};
+
+  constructor(options: MediaPreviewOptions = {}) {
+    this.levelInterval = options.levelInterval ?? DEFAULT_LEVEL_INTERVAL;
+
+    this.handleDeviceChange = this.handleDeviceChange.bind(this);
+    this.measureLevel = this.measureLevel.bind(this);
+  }
+
+  /**
+   * Open the camera and microphone and start metering the microphone
+   */
+  async start(): Promise<MediaStream> {
+    if (this.stream) {
+      return this.stream;
+    }
+
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: this.getDeviceConstraints('videoinput'),
+      audio: this.getDeviceConstraints('audioinput'),
+    });
+    this.setStream(stream);
+    this.watchDevices();
+    return stream;
+  }
+
+  /**
+   * Switch the previewed camera or microphone
+   * Keeps the other device open; on failure the previous device stays in use.
+   */
+  async selectDevice(kind: InputDeviceKind, deviceId: string): Promise<void> {
+    const previousDeviceId = this.selectedDevices[kind];
+    this.selectedDevices[kind] = deviceId;
+
+    if (!this.stream) return;
+
+    const mediaKind = kind === 'audioinput' ? 'audio' : 'video';
+    let newTracks: MediaStreamTrack[];
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ [mediaKind]: this.getDeviceConstraints(kind) });
+      newTracks = stream.getTracks();
+    } catch (error) {
+      this.selectedDevices[kind] = previousDeviceId;
+      console.error(`❌ Failed to preview ${mediaKind} device:`, error);
+      throw new Error(`Failed to access the selected ${mediaKind === 'audio' ? 'microphone' : 'camera'}.`);
+    }
+
+    const keptTracks = mediaKind === 'audio' ? this.stream.getVideoTracks() : this.stream.getAudioTracks();
+    const oldTracks = mediaKind === 'audio' ? this.stream.getAudioTracks() : this.stream.getVideoTracks();
+    oldTracks.forEach((track) => track.stop());
+    // A new stream object makes video elements pick up the change
+    this.setStream(new MediaStream([...keptTracks, ...newTracks]));
+  }
+
+  /**
+   * List available cameras, microphones and speakers
+   */
+  async getDevices(): Promise<MediaDeviceLists> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return {
+      audioInputs: devices.filter((device) => device.kind === 'audioinput'),
+      videoInputs: devices.filter((device) => device.kind === 'videoinput'),
+      audioOutputs: devices.filter((device) => device.kind === 'audiooutput'),
+    };
+  }
+
+  /**
+   * Get the IDs of the previewed camera and microphone
+   * Without an explicit choice, reports the device the browser picked.
+   */
+  getSelectedDevices(): Partial<Record<InputDeviceKind, string>> {
+    const audioTrack = this.stream?.getAudioTracks()[0];
+    const videoTrack = this.stream?.getVideoTracks()[0];
+    return {
+      audioinput: this.selectedDevices.audioinput ?? audioTrack?.getSettings?.().deviceId,
+      videoinput: this.selectedDevices.videoinput ?? videoTrack?.getSettings?.().deviceId,
+    };
+  }
+
+  getStream(): MediaStream | null {
+    return this.stream;
+  }
+
+  /**
+   * Hand the open stream over to the call without stopping its tracks
+   */
+  release(): MediaStream | null {
+    const stream = this.stream;
+    this.stream = null;
+    this.stopMetering();
+    this.unwatchDevices();
+    return stream;
+  }
+
+  /**
+   * Close the camera and microphone, e.g. when leaving the lobby without joining
+   */
+  stop(): void {
+    this.release()?.getTracks().forEach((track) => track.stop());
+  }
+
+  /**
+   * Register event listener
+   */
+  on<E extends PreviewEventType>(event: E, callback: PreviewCallback<E>): void {
+    const handlers: PreviewCallback<E>[] = this.eventHandlers[event] ?? [];
+    handlers.push(callback);
+    this.eventHandlers[event] = handlers as (typeof this.eventHandlers)[E];
+  }
+
+  /**
+   * Remove event listener
+   */
+  off<E extends PreviewEventType>(event: E, callback: PreviewCallback<E>): void {
+    const handlers: PreviewCallback<E>[] | undefined = this.eventHandlers[event];
+    if (handlers) {
+      const index = handlers.indexOf(callback);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  private emit<E extends PreviewEventType>(event: E, data: PreviewEvents[E]): void {
+    const handlers: PreviewCallback<E>[] | undefined = this.eventHandlers[event];
+    if (handlers) {
+      handlers.forEach((handler) => handler(data));
+    }
+  }
+
+  private setStream(stream: MediaStream): void {
+    this.stream = stream;
+    this.startMetering(stream);
+    this.emit('stream', stream);
+  }
+
+  /**
+   * Build getUserMedia constraints for the selected device of a kind
+   */
+  private getDeviceConstraints(kind: InputDeviceKind): MediaTrackConstraints | boolean {
+    const deviceId = this.selectedDevices[kind];
+    return deviceId ? { deviceId: { exact: deviceId } } : true;
+  }
+
+  /**
+   * Feed the stream's microphone into an analyser and report its level
+   */
+  private startMetering(stream: MediaStream): void {
+    this.stopMetering();
+    if (typeof AudioContext === 'undefined' || stream.getAudioTracks().length === 0) return;
+
+    this.audioContext = this.audioContext ?? new AudioContext();
+    this.analyser = this.audioContext.createAnalyser();
+    this.analyser.fftSize = ANALYSER_FFT_SIZE;
+    this.analyserSource = this.audioContext.createMediaStreamSource(stream);
+    this.analyserSource.connect(this.analyser);
+    this.levelTimer = setInterval(this.measureLevel, this.levelInterval);
+  }
+
+  private stopMetering(): void {
+    if (this.levelTimer) {
+      clearInterval(this.levelTimer);
+      this.levelTimer = null;
+    }
+    this.analyserSource?.disconnect();
+    this.analyserSource = null;
+    this.analyser = null;
+    // Switching microphones keeps the context; handing the stream over closes it
+    if (!this.stream && this.audioContext) {
+      this.audioContext.close().catch(() => {});
+      this.audioContext = null;
+    }
+  }
+
+  private measureLevel(): void {
+    if (!this.analyser) return;
+    const samples = new Float32Array(this.analyser.fftSize);
+    this.analyser.getFloatTimeDomainData(samples);
+    this.emit('level', computeLevel(samples));
+  }
+
+  private watchDevices(): void {
+    if (this.watchingDevices || !navigator.mediaDevices?.addEventListener) return;
+    navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    this.watchingDevices = true;
+  }
+
+  private unwatchDevices(): void {
+    if (!this.watchingDevices) return;
+    navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+    this.watchingDevices = false;
+  }
+
+  private async handleDeviceChange(): Promise<void> {
+    try {
+      this.emit('devices-changed', await this.getDevices());
+    } catch (error) {
+      console.error('❌ Failed to list devices:', error);
+    }
+  }
+}
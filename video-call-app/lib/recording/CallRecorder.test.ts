@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { CallRecorder, computeTileLayout, pickRecordingMimeType } from './CallRecorder';
+
+function createMockStream(id: string, kinds: string[]) {
+  const tracks = kinds.map((kind) => ({ kind, stop: vi.fn() }));
+  return {
+    id,
+    getTracks: () => tracks,
+    getVideoTracks: () => tracks.filter((track) => track.kind === 'video'),
+    getAudioTracks: () => tracks.filter((track) => track.kind === 'audio'),
+  } as unknown as MediaStream;
+}
+
+class MockMediaRecorder {
+  static instances: MockMediaRecorder[] = [];
+  static isTypeSupported = vi.fn((type: string) => type !== 'video/webm;codecs=vp9,opus');
+  state = 'inactive';
+  mimeType: string;
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  constructor(public stream: MediaStream, options?: { mimeType?: string }) {
+    this.mimeType = options?.mimeType ?? '';
+    MockMediaRecorder.instances.push(this);
+  }
+  start = vi.fn(() => {
+    this.state = 'recording';
+  });
+  stop = vi.fn(() => {
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob(['chunk']) });
+    this.onstop?.();
+  });
+}
+
+class MockAudioContext {
+  static instances: MockAudioContext[] = [];
+  sources: { stream: MediaStream; connect: ReturnType<typeof vi.fn>; disconnect: ReturnType<typeof vi.fn> }[] = [];
+  destination = { stream: createMockStream('mix', ['audio']) };
+  close = vi.fn(async () => {});
+  constructor() {
+    MockAudioContext.instances.push(this);
+  }
+  createMediaStreamDestination() {
+    return this.destination;
+  }
+  createMediaStreamSource(stream: MediaStream) {
+    const source = { stream, connect: vi.fn(), disconnect: vi.fn() };
+    this.sources.push(source);
+    return source;
+  }
+}
+
+const context = {
+  fillRect: vi.fn(),
+  drawImage: vi.fn(),
+  fillText: vi.fn(),
+  measureText: vi.fn((text: string) => ({ width: text.length * 10 })),
+  fillStyle: '',
+  font: '',
+  textAlign: 'start',
+};
+
+describe('CallRecorder', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    MockMediaRecorder.instances = [];
+    MockAudioContext.instances = [];
+    vi.stubGlobal('MediaRecorder', MockMediaRecorder);
+    vi.stubGlobal('AudioContext', MockAudioContext);
+    vi.stubGlobal('MediaStream', class {
+      constructor(public tracks: MediaStreamTrack[]) {}
+      getTracks() {
+        return this.tracks;
+      }
+    });
+    HTMLCanvasElement.prototype.captureStream = vi.fn(() => createMockStream('canvas', ['video']));
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(context as unknown as RenderingContext);
+    vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue(undefined);
+    vi.spyOn(HTMLMediaElement.prototype, 'pause').mockReturnValue(undefined);
+    [context.fillRect, context.drawImage, context.fillText, context.measureText].forEach((mock) => mock.mockClear());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    Reflect.deleteProperty(HTMLCanvasElement.prototype, 'captureStream');
+  });
+
+  it('should lay out tiles in a grid inside the frame without overlap', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 16 }), (count) => {
+        const layout = computeTileLayout(count, 1280, 720);
+
+        expect(layout).toHaveLength(count);
+        layout.forEach((tile, index) => {
+          expect(tile.x).toBeGreaterThanOrEqual(0);
+          expect(tile.y).toBeGreaterThanOrEqual(0);
+          expect(tile.x + tile.width).toBeLessThanOrEqual(1280);
+          expect(tile.y + tile.height).toBeLessThanOrEqual(720);
+          layout.slice(index + 1).forEach((other) => {
+            const separate =
+              tile.x + tile.width <= other.x ||
+              other.x + other.width <= tile.x ||
+              tile.y + tile.height <= other.y ||
+              other.y + other.height <= tile.y;
+            expect(separate).toBe(true);
+          });
+        });
+      }),
+      { numRuns: 50 }
+    );
+    expect(computeTileLayout(0, 1280, 720)).toEqual([]);
+  });
+
+  it('should pick the best supported WebM format', () => {
+    expect(pickRecordingMimeType()).toBe('video/webm;codecs=vp8,opus');
+  });
+
+  it('should record the canvas and mixed audio of every participant', () => {
+    const recorder = new CallRecorder();
+    const local = createMockStream('local', ['audio', 'video']);
+    const screen = createMockStream('screen', ['video']);
+
+    recorder.start([
+      { id: 'local', label: 'You', stream: local },
+      { id: 'local-screen', label: 'Your screen', stream: screen },
+      { id: 'peer-a', label: 'Participant 1', stream: null },
+    ]);
+
+    const mediaRecorder = MockMediaRecorder.instances[0];
+    const audioContext = MockAudioContext.instances[0];
+    expect(recorder.isRecording()).toBe(true);
+    expect(mediaRecorder.mimeType).toBe('video/webm;codecs=vp8,opus');
+    expect(mediaRecorder.stream.getTracks().map((track) => track.kind)).toEqual(['video', 'audio']);
+    expect(mediaRecorder.start).toHaveBeenCalledWith(1000);
+    // Only streams with audio join the mix, and nothing is played out loud
+    expect(audioContext.sources.map((source) => source.stream)).toEqual([local]);
+    expect(audioContext.sources[0].connect).toHaveBeenCalledWith(audioContext.destination);
+    expect(context.fillText).toHaveBeenCalledWith('Participant 1', expect.any(Number), expect.any(Number));
+  });
+
+  it('should follow participants joining, leaving and switching streams', () => {
+    const recorder = new CallRecorder();
+    const local = createMockStream('local', ['audio', 'video']);
+    recorder.start([{ id: 'local', label: 'You', stream: local }]);
+    const audioContext = MockAudioContext.instances[0];
+
+    const remote = createMockStream('remote', ['audio', 'video']);
+    recorder.setSources([
+      { id: 'local', label: 'You', stream: local },
+      { id: 'peer-a', label: 'Participant 1', stream: remote },
+    ]);
+    expect(audioContext.sources).toHaveLength(2);
+
+    const newMicrophone = createMockStream('local-2', ['audio', 'video']);
+    recorder.setSources([{ id: 'local', label: 'You', stream: newMicrophone }]);
+
+    expect(audioContext.sources[0].disconnect).toHaveBeenCalled();
+    expect(audioContext.sources[1].disconnect).toHaveBeenCalled();
+    expect(audioContext.sources[2].stream).toBe(newMicrophone);
+    expect((recorder as unknown as { videoTiles: Map<string, unknown> }).videoTiles.size).toBe(1);
+  });
+
+  it('should burn captions in until they go stale', () => {
+    const recorder = new CallRecorder();
+    recorder.start([{ id: 'local', label: 'You', stream: null }]);
+
+    recorder.setCaption('Hello there');
+    vi.advanceTimersByTime(100);
+    expect(context.fillText).toHaveBeenCalledWith('Hello there', expect.any(Number), expect.any(Number));
+
+    vi.advanceTimersByTime(6000);
+    context.fillText.mockClear();
+    vi.advanceTimersByTime(100);
+    expect(context.fillText).not.toHaveBeenCalledWith('Hello there', expect.any(Number), expect.any(Number));
+
+    const plain = new CallRecorder({ burnCaptions: false });
+    plain.start([]);
+    plain.setCaption('Not on the video');
+    vi.advanceTimersByTime(100);
+    expect(context.fillText).not.toHaveBeenCalledWith('Not on the video', expect.any(Number), expect.any(Number));
+  });
+
+  it('should hand back the WebM and release everything on stop', async () => {
+    const recorder = new CallRecorder();
+    recorder.start([{ id: 'local', label: 'You', stream: createMockStream('local', ['audio', 'video']) }]);
+    const audioContext = MockAudioContext.instances[0];
+
+    const blob = await recorder.stop();
+
+    expect(blob.size).toBeGreaterThan(0);
+    expect(blob.type).toBe('video/webm;codecs=vp8,opus');
+    expect(recorder.isRecording()).toBe(false);
+    expect(audioContext.close).toHaveBeenCalled();
+    expect(audioContext.sources[0].disconnect).toHaveBeenCalled();
+    await expect(recorder.stop()).rejects.toThrow('Not recording');
+  });
+
+  it('should refuse to start twice', () => {
+    const recorder = new CallRecorder();
+    recorder.start([]);
+
+    expect(() => recorder.start([])).toThrow('Already recording');
+    recorder.destroy();
+    expect(recorder.isRecording()).toBe(false);
+  });
+});
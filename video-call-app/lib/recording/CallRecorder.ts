@@ -0,0 +1,445 @@
+// Call recorder: composites every participant's video onto a canvas, mixes
+// their audio with WebAudio, and records both into a WebM with MediaRecorder
+
+export type RecorderEventType = 'error';
+type RecorderCallback = (error: Error) => void;
+
+export interface RecordingSource {
+  id: string;
+  // Shown on the participant's tile
+  label: string;
+  stream: MediaStream | null;
+}
+
+export interface CallRecorderOptions {
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  // Draw the latest caption onto the video, in addition to the WebVTT sidecar
+  burnCaptions?: boolean;
+  // How often MediaRecorder hands over recorded data, in milliseconds
+  timeslice?: number;
+}
+
+export interface TileLayout {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface VideoTile {
+  element: HTMLVideoElement;
+  label: string;
+}
+
+interface AudioInput {
+  streamId: string;
+  node: MediaStreamAudioSourceNode;
+}
+
+const DEFAULT_WIDTH = 1280;
+const DEFAULT_HEIGHT = 720;
+const DEFAULT_FRAME_RATE = 30;
+const DEFAULT_TIMESLICE = 1000;
+// A burned-in caption stays up this long after its last update
+const CAPTION_HOLD = 5000;
+const TILE_GAP = 8;
+const MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+/**
+ * Arrange tiles in the most square grid that fits them
+ */
+export function computeTileLayout(count: number, width: number, height: number): TileLayout[] {
+  if (count <= 0) {
+    return [];
+  }
+
+  const columns = Math.ceil(Math.sqrt(count));
+  const rows = Math.ceil(count / columns);
+  const tileWidth = (width - TILE_GAP * (columns + 1)) / columns;
+  const tileHeight = (height - TILE_GAP * (rows + 1)) / rows;
+
+  return Array.from({ length: count }, (_, index) => ({
+    x: TILE_GAP + (index % columns) * (tileWidth + TILE_GAP),
+    y: TILE_GAP + Math.floor(index / columns) * (tileHeight + TILE_GAP),
+    width: tileWidth,
+    height: tileHeight,
+  }));
+}
+
+/**
+ * Pick the best WebM format this browser can record
+ */
+export function pickRecordingMimeType(): string | undefined {
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+export class CallRecorder {
+  private width: number;
+  private height: number;
+  private frameRate: number;
+  private burnCaptions: boolean;
+  private timeslice: number;
+  private canvas: HTMLCanvasElement | null = null;
+  private context: CanvasRenderingContext2D | null = null;
+  private canvasStream: MediaStream | null = null;
+  private audioContext: AudioContext | null = null;
+  private audioDestination: MediaStreamAudioDestinationNode | null = null;
+  private audioInputs: Map<string, AudioInput> = new Map();
+  private videoTiles: Map<string, VideoTile> = new Map();
+  private sourceOrder: string[] = [];
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private drawTimer: ReturnType<typeof setInterval> | null = null;
+  private caption: { text: string; shownAt: number } | null = null;
+  private startedAt: number | null = null;
+  private eventHandlers: Map<RecorderEventType, RecorderCallback[]> = new Map();
+
+  constructor(options: CallRecorderOptions = {}) {
+    this.width = options.width ?? DEFAULT_WIDTH;
+    this.height = options.height ?? DEFAULT_HEIGHT;
+    this.frameRate = options.frameRate ?? DEFAULT_FRAME_RATE;
+    this.burnCaptions = options.burnCaptions ?? true;
+    this.timeslice = options.timeslice ?? DEFAULT_TIMESLICE;
+
+    this.drawFrame = this.drawFrame.bind(this);
+  }
+
+  /**
+   * Check if this browser can composite and record a call
+   */
+  static isSupported(): boolean {
+    return (
+      typeof MediaRecorder !== 'undefined' &&
+      typeof AudioContext !== 'undefined' &&
+      typeof HTMLCanvasElement !== 'undefined' &&
+      typeof HTMLCanvasElement.prototype.captureStream === 'function'
+    );
+  }
+
+  /**
+   * Start recording the given participants
+   */
+  start(sources: RecordingSource[]): void {
+    if (this.mediaRecorder) {
+      throw new Error('Already recording');
+    }
+    if (!CallRecorder.isSupported()) {
+      throw new Error('Recording is not supported in this browser');
+    }
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = this.width;
+    this.canvas.height = this.height;
+    this.context = this.canvas.getContext('2d');
+    this.canvasStream = this.canvas.captureStream(this.frameRate);
+
+    this.audioContext = new AudioContext();
+    this.audioDestination = this.audioContext.createMediaStreamDestination();
+
+    this.setSources(sources);
+    this.drawFrame();
+    this.drawTimer = setInterval(this.drawFrame, 1000 / this.frameRate);
+
+    const mimeType = pickRecordingMimeType();
+    const stream = new MediaStream([
+      ...this.canvasStream.getVideoTracks(),
+      ...this.audioDestination.stream.getAudioTracks(),
+    ]);
+    this.mediaRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    this.chunks = [];
+    this.mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+      }
+    };
+    this.mediaRecorder.onerror = (event) => {
+      const error = (event as Event & { error?: Error }).error ?? new Error('Recording failed');
+      console.error('❌ Recording error:', error);
+      this.emit('error', error);
+    };
+    this.mediaRecorder.start(this.timeslice);
+    this.startedAt = Date.now();
+    console.log('🔴 Recording started');
+  }
+
+  /**
+   * Update who is on the recording as participants join, leave or switch devices
+   */
+  setSources(sources: RecordingSource[]): void {
+    if (!this.audioContext || !this.audioDestination) {
+      return;
+    }
+
+    const ids = new Set(sources.map((source) => source.id));
+    this.sourceOrder = sources.map((source) => source.id);
+
+    // Drop participants who left
+    this.videoTiles.forEach((tile, id) => {
+      if (!ids.has(id)) {
+        this.releaseVideo(tile);
+        this.videoTiles.delete(id);
+      }
+    });
+    this.audioInputs.forEach((input, id) => {
+      if (!ids.has(id)) {
+        input.node.disconnect();
+        this.audioInputs.delete(id);
+      }
+    });
+
+    sources.forEach((source) => {
+      this.updateVideo(source);
+      this.updateAudio(source);
+    });
+  }
+
+  /**
+   * Show a caption on the recording, or clear it with null
+   */
+  setCaption(text: string | null): void {
+    this.caption = text ? { text, shownAt: Date.now() } : null;
+  }
+
+  /**
+   * Stop recording and get the WebM
+   */
+  stop(): Promise<Blob> {
+    const mediaRecorder = this.mediaRecorder;
+    if (!mediaRecorder) {
+      return Promise.reject(new Error('Not recording'));
+    }
+
+    return new Promise((resolve) => {
+      mediaRecorder.onstop = () => {
+        const blob = new Blob(this.chunks, { type: mediaRecorder.mimeType || 'video/webm' });
+        this.teardown();
+        console.log('⏹️ Recording stopped');
+        resolve(blob);
+      };
+      mediaRecorder.stop();
+    });
+  }
+
+  /**
+   * Check whether a recording is in progress
+   */
+  isRecording(): boolean {
+    return this.mediaRecorder !== null;
+  }
+
+  /**
+   * When the recording started, for timing the caption sidecar
+   */
+  getStartedAt(): number | null {
+    return this.startedAt;
+  }
+
+  /**
+   * Discard the recording in progress, if any
+   */
+  destroy(): void {
+    if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
+      this.mediaRecorder.onstop = null;
+      this.mediaRecorder.stop();
+    }
+    this.teardown();
+    this.eventHandlers.clear();
+  }
+
+  /**
+   * Register event handler
+   */
+  on(event: RecorderEventType, callback: RecorderCallback): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)!.push(callback);
+  }
+
+  /**
+   * Remove event handler
+   */
+  off(event: RecorderEventType, callback: RecorderCallback): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      const index = handlers.indexOf(callback);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Emit event to all registered handlers
+   */
+  private emit(event: RecorderEventType, error: Error): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      handlers.forEach(handler => {
+        try {
+          handler(error);
+        } catch (handlerError) {
+          console.error(`Error in ${event} handler:`, handlerError);
+        }
+      });
+    }
+  }
+
+  /**
+   * Play a participant's video into an off-screen element the compositor can draw
+   */
+  private updateVideo(source: RecordingSource): void {
+    let tile = this.videoTiles.get(source.id);
+    if (!tile) {
+      const element = document.createElement('video');
+      element.muted = true;
+      element.playsInline = true;
+      tile = { element, label: source.label };
+      this.videoTiles.set(source.id, tile);
+    }
+    tile.label = source.label;
+
+    if (tile.element.srcObject !== source.stream) {
+      tile.element.srcObject = source.stream;
+      if (source.stream) {
+        tile.element.play().catch((error) => {
+          console.warn('Could not play video for recording:', error);
+        });
+      }
+    }
+  }
+
+  /**
+   * Route a participant's audio into the mix, without playing it out loud
+   */
+  private updateAudio(source: RecordingSource): void {
+    const existing = this.audioInputs.get(source.id);
+    const hasAudio = !!source.stream && source.stream.getAudioTracks().length > 0;
+    if (existing && (!hasAudio || existing.streamId !== source.stream!.id)) {
+      existing.node.disconnect();
+      this.audioInputs.delete(source.id);
+    }
+    if (!hasAudio || this.audioInputs.has(source.id)) {
+      return;
+    }
+
+    const node = this.audioContext!.createMediaStreamSource(source.stream!);
+    node.connect(this.audioDestination!);
+    this.audioInputs.set(source.id, { streamId: source.stream!.id, node });
+  }
+
+  /**
+   * Draw every participant and the current caption onto the canvas
+   */
+  private drawFrame(): void {
+    const context = this.context;
+    if (!context) {
+      return;
+    }
+
+    context.fillStyle = '#111827';
+    context.fillRect(0, 0, this.width, this.height);
+
+    const tiles = this.sourceOrder
+      .map((id) => this.videoTiles.get(id))
+      .filter((tile): tile is VideoTile => !!tile);
+    const layout = computeTileLayout(tiles.length, this.width, this.height);
+    tiles.forEach((tile, index) => this.drawTile(context, tile, layout[index]));
+
+    if (this.burnCaptions && this.caption && Date.now() - this.caption.shownAt < CAPTION_HOLD) {
+      this.drawCaption(context, this.caption.text);
+    }
+  }
+
+  /**
+   * Draw one participant's video, letterboxed, with their name
+   */
+  private drawTile(context: CanvasRenderingContext2D, tile: VideoTile, area: TileLayout): void {
+    context.fillStyle = '#1f2937';
+    context.fillRect(area.x, area.y, area.width, area.height);
+
+    const video = tile.element;
+    if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0) {
+      const scale = Math.min(area.width / video.videoWidth, area.height / video.videoHeight);
+      const width = video.videoWidth * scale;
+      const height = video.videoHeight * scale;
+      context.drawImage(video, area.x + (area.width - width) / 2, area.y + (area.height - height) / 2, width, height);
+    }
+
+    context.font = '16px sans-serif';
+    context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    context.fillRect(area.x + 8, area.y + area.height - 32, context.measureText(tile.label).width + 16, 24);
+    context.fillStyle = '#ffffff';
+    context.fillText(tile.label, area.x + 16, area.y + area.height - 15);
+  }
+
+  /**
+   * Draw a caption centered along the bottom, wrapped to fit
+   */
+  private drawCaption(context: CanvasRenderingContext2D, text: string): void {
+    const fontSize = Math.round(this.height / 24);
+    const lineHeight = fontSize * 1.3;
+    const maxWidth = this.width * 0.8;
+    context.font = `${fontSize}px sans-serif`;
+
+    const lines: string[] = [];
+    text.split(/\s+/).forEach((word) => {
+      const current = lines[lines.length - 1];
+      if (current !== undefined && context.measureText(`${current} ${word}`).width <= maxWidth) {
+        lines[lines.length - 1] = `${current} ${word}`;
+      } else {
+        lines.push(word);
+      }
+    });
+    // Long captions keep their most recent lines
+    const visible = lines.slice(-2);
+
+    const boxHeight = visible.length * lineHeight + fontSize * 0.6;
+    const boxTop = this.height - boxHeight - fontSize;
+    context.fillStyle = 'rgba(0, 0, 0, 0.7)';
+    context.fillRect(this.width * 0.08, boxTop, this.width * 0.84, boxHeight);
+
+    context.fillStyle = '#ffffff';
+    context.textAlign = 'center';
+    visible.forEach((line, index) => {
+      context.fillText(line, this.width / 2, boxTop + fontSize * 0.3 + (index + 1) * lineHeight - lineHeight * 0.25);
+    });
+    context.textAlign = 'start';
+  }
+
+  /**
+   * Stop drawing and release the canvas, audio graph and video elements
+   */
+  private teardown(): void {
+    if (this.drawTimer) {
+      clearInterval(this.drawTimer);
+      this.drawTimer = null;
+    }
+    this.videoTiles.forEach((tile) => this.releaseVideo(tile));
+    this.videoTiles.clear();
+    this.audioInputs.forEach((input) => input.node.disconnect());
+    this.audioInputs.clear();
+    this.canvasStream?.getTracks().forEach((track) => track.stop());
+    this.audioContext?.close().catch(() => {});
+
+    this.mediaRecorder = null;
+    this.canvas = null;
+    this.context = null;
+    this.canvasStream = null;
+    this.audioContext = null;
+    this.audioDestination = null;
+    this.sourceOrder = [];
+    this.chunks = [];
+    this.caption = null;
+  }
+
+  /**
+   * Stop playing a participant's video
+   */
+  private releaseVideo(tile: VideoTile): void {
+    tile.element.pause();
+    tile.element.srcObject = null;
+  }
+}
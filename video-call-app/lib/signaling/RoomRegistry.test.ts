@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import { RoomRegistry } from './RoomRegistry';
+
+describe('RoomRegistry', () => {
+  let registry: RoomRegistry;
+  let nextId: number;
+
+  beforeEach(() => {
+    nextId = 0;
+    registry = new RoomRegistry({
+      reservationTimeout: 1000,
+      disconnectGracePeriod: 5000,
+      generatePeerId: () => `peer-${nextId++}`,
+    });
+  });
+
+  it('should make the first peer in a room its host', () => {
+    const assignment = registry.join('room-1', 0);
+
+    expect(assignment).toEqual({
+      roomId: 'room-1',
+      peerId: 'peer-0',
+      hostPeerId: 'peer-0',
+      role: 'host',
+      token: expect.any(String),
+    });
+  });
+
+  it('should assign exactly one host no matter how many peers join at once', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 20 }), (joinCount) => {
+        const rooms = new RoomRegistry();
+        const assignments = Array.from({ length: joinCount }, () => rooms.join('standup'));
+
+        const hosts = assignments.filter((assignment) => assignment.role === 'host');
+        expect(hosts).toHaveLength(1);
+        assignments.forEach((assignment) => {
+          expect(assignment.hostPeerId).toBe(hosts[0].peerId);
+        });
+        expect(new Set(assignments.map((assignment) => assignment.peerId)).size).toBe(joinCount);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should keep rooms independent', () => {
+    const first = registry.join('room-1', 0);
+    const second = registry.join('room-2', 0);
+
+    expect(first.role).toBe('host');
+    expect(second.role).toBe('host');
+    expect(registry.getPeers('room-1')).toEqual([first.peerId]);
+  });
+
+  it('should not tell newcomers who else is in the room', () => {
+    const host = registry.join('room-1', 0);
+    registry.handleConnect(host.peerId);
+    const guest = registry.join('room-1', 0);
+    registry.handleConnect(guest.peerId);
+
+    const next = registry.join('room-1', 0);
+
+    // Only the host shares the other participants, once it has admitted the newcomer
+    expect(Object.keys(next).sort()).toEqual(['hostPeerId', 'peerId', 'role', 'roomId', 'token']);
+    expect(next.hostPeerId).toBe(host.peerId);
+  });
+
+  it('should promote the admitted peer with the lowest id when the host does not come back', () => {
+    const host = registry.join('room-1', 0);
+    registry.handleConnect(host.peerId);
+    const first = registry.join('room-1', 0);
+    const second = registry.join('room-1', 0);
+    registry.handleConnect(second.peerId);
+    registry.handleConnect(first.peerId);
+    registry.admit('room-1', host.peerId, host.token, second.peerId);
+    registry.admit('room-1', host.peerId, host.token, first.peerId);
+
+    registry.handleDisconnect(host.peerId, 0);
+    registry.pruneExpired(5001);
+    expect(registry.getHost('room-1')).toBe(first.peerId);
+
+    const next = registry.join('room-1', 5001);
+    expect(next.role).toBe('guest');
+    expect(next.hostPeerId).toBe(first.peerId);
+  });
+
+  it('should keep a peer that reconnects within the grace period', () => {
+    const host = registry.join('room-1', 0);
+    registry.handleConnect(host.peerId);
+    const guest = registry.join('room-1', 0);
+    registry.handleConnect(guest.peerId);
+    registry.admit('room-1', host.peerId, host.token, guest.peerId);
+
+    registry.handleDisconnect(host.peerId, 1000);
+    registry.handleDisconnect(guest.peerId, 1000);
+    registry.handleConnect(host.peerId);
+    registry.handleConnect(guest.peerId);
+
+    const next = registry.join('room-1', 60000);
+    expect(next.hostPeerId).toBe(host.peerId);
+    expect(registry.getPeers('room-1')).toEqual([host.peerId, guest.peerId, next.peerId]);
+  });
+
+  it('should not hand the host role to a peer still in the waiting room', () => {
+    const host = registry.join('room-1', 0);
+    registry.handleConnect(host.peerId);
+    const waiting = registry.join('room-1', 0);
+    registry.handleConnect(waiting.peerId);
+
+    registry.handleDisconnect(host.peerId, 0);
+    expect(registry.join('room-1', 1000).hostPeerId).toBe(host.peerId);
+    registry.pruneExpired(5001);
+
+    expect(registry.getHost('room-1')).toBeNull();
+    expect(registry.join('room-1', 5001).role).toBe('host');
+  });
+
+  it('should hand the host role on as soon as the host hangs up', () => {
+    const host = registry.join('room-1', 0);
+    registry.handleConnect(host.peerId);
+    const guest = registry.join('room-1', 0);
+    registry.handleConnect(guest.peerId);
+    registry.admit('room-1', host.peerId, host.token, guest.peerId);
+
+    expect(registry.leave('room-1', host.peerId, guest.token)).toBe(false);
+    expect(registry.leave('room-1', host.peerId, host.token)).toBe(true);
+
+    expect(registry.getHost('room-1')).toBe(guest.peerId);
+    expect(registry.getPeers('room-1')).toEqual([guest.peerId]);
+  });
+
+  it('should only take admissions from the host', () => {
+    const host = registry.join('room-1', 0);
+    const guest = registry.join('room-1', 0);
+    const waiting = registry.join('room-1', 0);
+
+    expect(registry.admit('room-1', guest.peerId, guest.token, waiting.peerId)).toBe(false);
+    expect(registry.admit('room-1', host.peerId, guest.token, waiting.peerId)).toBe(false);
+    expect(registry.admit('room-2', host.peerId, host.token, waiting.peerId)).toBe(false);
+    expect(registry.admit('room-1', host.peerId, host.token, waiting.peerId)).toBe(true);
+  });
+
+  it('should release a host reservation that was never registered', () => {
+    const host = registry.join('room-1', 0);
+
+    const early = registry.join('room-1', 500);
+    expect(early.role).toBe('guest');
+    expect(early.hostPeerId).toBe(host.peerId);
+
+    const late = registry.join('room-1', 1501);
+    expect(late.role).toBe('host');
+    expect(registry.getPeers('room-1')).toEqual([late.peerId]);
+  });
+
+  it('should keep registered peers past the reservation timeout', () => {
+    const host = registry.join('room-1', 0);
+    registry.handleConnect(host.peerId);
+
+    const guest = registry.join('room-1', 60000);
+
+    expect(guest.role).toBe('guest');
+    expect(guest.hostPeerId).toBe(host.peerId);
+  });
+
+  it('should delete a room once its last peer leaves', () => {
+    const host = registry.join('room-1', 0);
+    registry.handleConnect(host.peerId);
+    registry.handleDisconnect(host.peerId, 0);
+    registry.pruneExpired(5001);
+
+    expect(registry.getPeers('room-1')).toEqual([]);
+    expect(registry.getHost('room-1')).toBeNull();
+  });
+
+  it('should reject unsafe room ids', () => {
+    expect(RoomRegistry.isValidRoomId('6f1c2d7e-7b1a-4c55-9a3e-1f2d3c4b5a69')).toBe(true);
+    expect(RoomRegistry.isValidRoomId('')).toBe(false);
+    expect(RoomRegistry.isValidRoomId('../etc')).toBe(false);
+    expect(() => registry.join('a b')).toThrow('Invalid room id');
+  });
+});
@@ -0,0 +1,207 @@
+// Room-scoped peer id registry for the self-hosted signaling server
+
+import { randomUUID } from 'node:crypto';
+import { RoomAssignment } from '@/types';
+
+export interface RoomRegistryOptions {
+  // How long an assigned peer id is held before the client must register it
+  reservationTimeout?: number;
+  // How long a peer that dropped off the signaling server keeps its place
+  disconnectGracePeriod?: number;
+  generatePeerId?: () => string;
+}
+
+interface RoomPeer {
+  connected: boolean;
+  reservedAt: number;
+  // Set while the peer is off the signaling server, so a brief drop can be restored
+  disconnectedAt: number | null;
+  // Let into the call by the host; waiting-room peers never take over as host
+  admitted: boolean;
+  token: string;
+}
+
+interface Room {
+  hostPeerId: string | null;
+  peers: Map<string, RoomPeer>;
+}
+
+const DEFAULT_RESERVATION_TIMEOUT = 30000;
+// A little longer than clients wait for a dropped participant to reconnect
+const DEFAULT_DISCONNECT_GRACE_PERIOD = 50000;
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export class RoomRegistry {
+  private rooms: Map<string, Room> = new Map();
+  private peerRooms: Map<string, string> = new Map();
+  private reservationTimeout: number;
+  private disconnectGracePeriod: number;
+  private generatePeerId: () => string;
+
+  constructor(options: RoomRegistryOptions = {}) {
+    this.reservationTimeout = options.reservationTimeout ?? DEFAULT_RESERVATION_TIMEOUT;
+    this.disconnectGracePeriod = options.disconnectGracePeriod ?? DEFAULT_DISCONNECT_GRACE_PERIOD;
+    this.generatePeerId = options.generatePeerId ?? randomUUID;
+  }
+
+  /**
+   * Assign a new peer id in a room
+   * The first peer in an empty room becomes its host; everyone else joins as a guest
+   * and learns about the other participants from the host once admitted.
+   */
+  join(roomId: string, now: number = Date.now()): RoomAssignment {
+    if (!RoomRegistry.isValidRoomId(roomId)) {
+      throw new Error('Invalid room id');
+    }
+
+    this.pruneExpired(now);
+
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      room = { hostPeerId: null, peers: new Map() };
+      this.rooms.set(roomId, room);
+    }
+
+    const peerId = this.generatePeerId();
+    const token = randomUUID();
+    if (!room.hostPeerId) {
+      room.hostPeerId = peerId;
+    }
+    const isHost = room.hostPeerId === peerId;
+    room.peers.set(peerId, { connected: false, reservedAt: now, disconnectedAt: null, admitted: isHost, token });
+    this.peerRooms.set(peerId, roomId);
+
+    return {
+      roomId,
+      peerId,
+      hostPeerId: room.hostPeerId,
+      role: isHost ? 'host' : 'guest',
+      token,
+    };
+  }
+
+  /**
+   * Mark a peer as registered with the signaling server, or back after a drop
+   */
+  handleConnect(peerId: string): void {
+    const peer = this.getPeer(peerId);
+    if (peer) {
+      peer.connected = true;
+      peer.disconnectedAt = null;
+    }
+  }
+
+  /**
+   * Note that a peer dropped off the signaling server
+   * It keeps its place, and the host role, until the grace period runs out.
+   */
+  handleDisconnect(peerId: string, now: number = Date.now()): void {
+    const peer = this.getPeer(peerId);
+    if (peer) {
+      peer.connected = false;
+      peer.disconnectedAt = now;
+    }
+  }
+
+  /**
+   * Record that the host let a peer into the call
+   * Returns false unless the caller proves it is the room's host.
+   */
+  admit(roomId: string, hostPeerId: string, token: string, peerId: string): boolean {
+    const room = this.rooms.get(roomId);
+    const host = room?.peers.get(hostPeerId);
+    const peer = room?.peers.get(peerId);
+    if (!room || room.hostPeerId !== hostPeerId || host?.token !== token || !peer) {
+      return false;
+    }
+
+    peer.admitted = true;
+    return true;
+  }
+
+  /**
+   * Remove a peer that hung up, handing the host role on straight away
+   * Returns false unless the caller proves it is that peer.
+   */
+  leave(roomId: string, peerId: string, token: string): boolean {
+    const peer = this.rooms.get(roomId)?.peers.get(peerId);
+    if (!peer || peer.token !== token) {
+      return false;
+    }
+
+    this.removePeer(peerId);
+    return true;
+  }
+
+  /**
+   * Drop reservations that were never registered and peers that did not come back in time
+   */
+  pruneExpired(now: number = Date.now()): void {
+    this.rooms.forEach((room) => {
+      room.peers.forEach((peer, peerId) => {
+        const expired =
+          peer.disconnectedAt !== null
+            ? now - peer.disconnectedAt > this.disconnectGracePeriod
+            : !peer.connected && now - peer.reservedAt > this.reservationTimeout;
+        if (expired) {
+          this.removePeer(peerId);
+        }
+      });
+    });
+  }
+
+  /**
+   * Get the current host of a room, if any
+   */
+  getHost(roomId: string): string | null {
+    return this.rooms.get(roomId)?.hostPeerId ?? null;
+  }
+
+  /**
+   * Get all peer ids in a room
+   */
+  getPeers(roomId: string): string[] {
+    const room = this.rooms.get(roomId);
+    return room ? Array.from(room.peers.keys()) : [];
+  }
+
+  /**
+   * Check whether a room id is safe to use
+   */
+  static isValidRoomId(roomId: string): boolean {
+    return ROOM_ID_PATTERN.test(roomId);
+  }
+
+  /**
+   * Remove a peer from its room
+   * A departed host is replaced by the admitted peer with the lowest id, the same
+   * rule participants apply among themselves, or by the next peer to join if nobody is left.
+   */
+  private removePeer(peerId: string): void {
+    const roomId = this.peerRooms.get(peerId);
+    if (!roomId) return;
+
+    this.peerRooms.delete(peerId);
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    room.peers.delete(peerId);
+    if (room.hostPeerId === peerId) {
+      room.hostPeerId = this.getAdmittedPeers(room).sort()[0] ?? null;
+    }
+    if (room.peers.size === 0) {
+      this.rooms.delete(roomId);
+    }
+  }
+
+  private getAdmittedPeers(room: Room): string[] {
+    return Array.from(room.peers.entries())
+      .filter(([, peer]) => peer.admitted)
+      .map(([peerId]) => peerId);
+  }
+
+  private getPeer(peerId: string): RoomPeer | undefined {
+    const roomId = this.peerRooms.get(peerId);
+    return roomId ? this.rooms.get(roomId)?.peers.get(peerId) : undefined;
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { LanguageDetector } from './LanguageDetector';
+import { getBaseLanguage, SPOKEN_LANGUAGES } from './spokenLanguages';
+
+describe('LanguageDetector', () => {
+  const detector = new LanguageDetector();
+
+  it('should identify clearly written sentences', async () => {
+    await expect(detector.detect('bonjour tout le monde, comment ça va')).resolves.toBe('fr');
+    await expect(detector.detect('ich glaube wir müssen jetzt anfangen')).resolves.toBe('de');
+    await expect(detector.detect('привет как дела у тебя')).resolves.toBe('ru');
+    await expect(detector.detect('これは日本語の文章です')).resolves.toBe('ja');
+  });
+
+  it('should not guess on text that is too short', async () => {
+    await expect(detector.detect('ok')).resolves.toBeNull();
+    await expect(detector.detect('   hola     ')).resolves.toBeNull();
+  });
+
+  it('should keep the expected language when it scores close to the best guess', async () => {
+    // Short Spanish scores slightly higher as French, but not by enough to override
+    await expect(detector.detect('¿me puedes oír ahora?', 'es-MX')).resolves.toBe('es');
+    await expect(detector.detect('¿me puedes oír ahora?')).resolves.toBeNull();
+  });
+
+  it('should only ever return a language captions can be declared in', async () => {
+    const declarable = new Set(SPOKEN_LANGUAGES.map((locale) => getBaseLanguage(locale.code)));
+
+    await fc.assert(
+      fc.asyncProperty(fc.string({ maxLength: 80 }), async (text) => {
+        const language = await detector.detect(text);
+        expect(language === null || declarable.has(language)).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,87 @@
+// Language identification of recognized text, using franc's trigram model
+// locally (no network); the model is only loaded once detection is enabled
+
+import { getBaseLanguage } from './spokenLanguages';
+
+// ISO 639-3 codes franc returns, for the languages captions can be translated from
+const FRANC_LANGUAGES: Record<string, string> = {
+  eng: 'en',
+  spa: 'es',
+  fra: 'fr',
+  deu: 'de',
+  ita: 'it',
+  por: 'pt',
+  rus: 'ru',
+  jpn: 'ja',
+  kor: 'ko',
+  cmn: 'zh',
+  arb: 'ar',
+  hin: 'hi',
+  nld: 'nl',
+  pol: 'pl',
+  tur: 'tr',
+};
+
+export interface LanguageDetectorOptions {
+  // Shorter text is too ambiguous to identify
+  minLength?: number;
+  // Relative score (0-1) at which a runner-up makes the result ambiguous
+  ambiguityThreshold?: number;
+}
+
+type FrancAll = typeof import('franc-min').francAll;
+
+const DEFAULT_MIN_LENGTH = 10;
+const DEFAULT_AMBIGUITY_THRESHOLD = 0.85;
+
+export class LanguageDetector {
+  private minLength: number;
+  private ambiguityThreshold: number;
+  private francPromise: Promise<FrancAll> | null = null;
+
+  constructor(options: LanguageDetectorOptions = {}) {
+    this.minLength = options.minLength ?? DEFAULT_MIN_LENGTH;
+    this.ambiguityThreshold = options.ambiguityThreshold ?? DEFAULT_AMBIGUITY_THRESHOLD;
+  }
+
+  /**
+   * Identify the language of a piece of text as an ISO 639-1 code
+   * The expected language wins whenever it scores close to the best guess; returns null
+   * when the text is too short or no language clearly stands out.
+   */
+  async detect(text: string, expectedLanguage?: string): Promise<string | null> {
+    if (text.trim().length < this.minLength) {
+      return null;
+    }
+
+    const francAll = await this.loadFranc();
+    const scores = francAll(text, { only: Object.keys(FRANC_LANGUAGES), minLength: this.minLength })
+      .filter(([code]) => code in FRANC_LANGUAGES)
+      .map(([code, score]) => ({ language: FRANC_LANGUAGES[code], score }));
+
+    if (scores.length === 0) {
+      return null;
+    }
+
+    const expected = expectedLanguage && getBaseLanguage(expectedLanguage);
+    if (expected && scores.some(({ language, score }) => language === expected && score >= this.ambiguityThreshold)) {
+      return expected;
+    }
+
+    const [best, runnerUp] = scores;
+    if (runnerUp && runnerUp.score >= this.ambiguityThreshold) {
+      return null;
+    }
+    return best.language;
+  }
+
+  /**
+   * Load franc on first use
+   */
+  private loadFranc(): Promise<FrancAll> {
+    if (!this.francPromise) {
+      this.francPromise = import('franc-min').then((franc) => franc.francAll);
+    }
+    return this.francPromise;
+  }
+}
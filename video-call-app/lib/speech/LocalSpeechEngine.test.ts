@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LocalSpeechEngine } from './LocalSpeechEngine';
+import { RecognitionResult } from './SpeechEngine';
+
+type Listener = (message: unknown) => void;
+
+// Minimal stand-ins for the Vosk model running in its worker
+class MockRecognizer {
+  id = 'recognizer-1';
+  listeners = new Map<string, Listener>();
+  remove = vi.fn();
+
+  constructor(public sampleRate: number) {
+    recognizers.push(this);
+  }
+
+  on(event: string, listener: Listener): void {
+    this.listeners.set(event, listener);
+  }
+
+  send(message: { event: string; [key: string]: unknown }): void {
+    this.listeners.get(message.event)?.(message);
+  }
+}
+
+const recognizers: MockRecognizer[] = [];
+const mockModel = {
+  KaldiRecognizer: MockRecognizer,
+  registerPort: vi.fn(),
+  terminate: vi.fn(),
+};
+const createModel = vi.fn();
+
+vi.mock('vosk-browser', () => ({ createModel: (url: string) => createModel(url) }));
+
+class MockAudioContext {
+  sampleRate = 48000;
+  destination = {};
+  audioWorklet = { addModule: vi.fn().mockResolvedValue(undefined) };
+  close = vi.fn().mockResolvedValue(undefined);
+  createMediaStreamSource = vi.fn(() => ({ connect: vi.fn(), disconnect: vi.fn() }));
+}
+
+class MockAudioWorkletNode {
+  port = { postMessage: vi.fn(), close: vi.fn() };
+  connect = vi.fn();
+  disconnect = vi.fn();
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('LocalSpeechEngine', () => {
+  let stream: MediaStream;
+
+  beforeEach(() => {
+    recognizers.length = 0;
+    createModel.mockReset().mockResolvedValue(mockModel);
+    vi.stubGlobal('AudioContext', MockAudioContext);
+    vi.stubGlobal('AudioWorkletNode', MockAudioWorkletNode);
+    vi.stubGlobal('MediaStream', class { constructor(public tracks: unknown[]) {} });
+    stream = { getAudioTracks: () => [{ kind: 'audio' }] } as unknown as MediaStream;
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const startedEngine = async (language = 'en-US') => {
+    const engine = new LocalSpeechEngine(language);
+    engine.setAudioSource(stream);
+    engine.start();
+    await flush();
+    return engine;
+  };
+
+  it('should wait for an audio source before loading the model', async () => {
+    const engine = new LocalSpeechEngine('en-US');
+
+    engine.start();
+    await flush();
+    expect(createModel).not.toHaveBeenCalled();
+
+    engine.setAudioSource(stream);
+    await flush();
+    expect(createModel).toHaveBeenCalledWith(`${window.location.origin}/models/vosk-model-small-en.tar.gz`);
+    expect(engine.isActive()).toBe(true);
+  });
+
+  it('should create the recognizer at the audio context sample rate', async () => {
+    await startedEngine();
+
+    expect(recognizers).toHaveLength(1);
+    expect(recognizers[0].sampleRate).toBe(48000);
+    expect(mockModel.registerPort).toHaveBeenCalled();
+  });
+
+  it('should emit partial hypotheses as interim results and skip repeats', async () => {
+    const engine = await startedEngine();
+    const results: RecognitionResult[] = [];
+    engine.on('result', (data) => results.push(data as RecognitionResult));
+
+    recognizers[0].send({ event: 'partialresult', result: { partial: 'hello' } });
+    recognizers[0].send({ event: 'partialresult', result: { partial: 'hello' } });
+    recognizers[0].send({ event: 'partialresult', result: { partial: '' } });
+    recognizers[0].send({
+      event: 'result',
+      result: { text: 'hello world', result: [{ conf: 1 }, { conf: 0.5 }] },
+    });
+
+    expect(results).toEqual([
+      { text: 'hello', isFinal: false, confidence: 0 },
+      { text: 'hello world', isFinal: true, confidence: 0.75 },
+    ]);
+  });
+
+  it('should ignore the empty results the model reports for silence', async () => {
+    const engine = await startedEngine();
+    const onResult = vi.fn();
+    engine.on('result', onResult);
+
+    recognizers[0].send({ event: 'result', result: { text: '', result: [] } });
+
+    expect(onResult).not.toHaveBeenCalled();
+  });
+
+  it('should release the audio graph and emit end when stopped', async () => {
+    const engine = await startedEngine();
+    const onEnd = vi.fn();
+    engine.on('end', onEnd);
+
+    engine.stop();
+
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(recognizers[0].remove).toHaveBeenCalled();
+    expect(engine.isActive()).toBe(false);
+  });
+
+  it('should not start if stopped while the model is loading', async () => {
+    let resolveModel: (model: typeof mockModel) => void = () => {};
+    createModel.mockReturnValue(new Promise((resolve) => { resolveModel = resolve; }));
+    const engine = new LocalSpeechEngine('en-US');
+    engine.setAudioSource(stream);
+    engine.start();
+
+    engine.stop();
+    resolveModel(mockModel);
+    await flush();
+
+    expect(engine.isActive()).toBe(false);
+    expect(recognizers).toHaveLength(0);
+  });
+
+  it('should reuse the model across restarts and reload it for a new language', async () => {
+    const engine = await startedEngine();
+    engine.stop();
+    engine.start();
+    await flush();
+    expect(createModel).toHaveBeenCalledTimes(1);
+
+    engine.setLanguage('es-ES');
+    await flush();
+    expect(mockModel.terminate).toHaveBeenCalled();
+    expect(createModel).toHaveBeenLastCalledWith(`${window.location.origin}/models/vosk-model-small-es.tar.gz`);
+  });
+
+  it('should report a model that fails to load', async () => {
+    createModel.mockRejectedValue(undefined);
+    const engine = new LocalSpeechEngine('de-DE', { modelUrl: '/custom/{lang}.zip' });
+    const onError = vi.fn();
+    engine.on('error', onError);
+
+    engine.setAudioSource(stream);
+    engine.start();
+    await flush();
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+      message: expect.stringContaining('/custom/de.zip'),
+    }));
+    expect(engine.isActive()).toBe(false);
+  });
+});
@@ -0,0 +1,316 @@
+// Offline speech recognition: the call's microphone track runs through an
+// AudioWorklet into a Vosk (Kaldi) WASM model that lives in its own Web Worker,
+// so captions work without a cloud service or the Web Speech API.
+
+import type { KaldiRecognizer, Model } from 'vosk-browser';
+import { RecognitionCallback, RecognitionEventType, RecognitionResult, SpeechEngine } from './SpeechEngine';
+
+export interface LocalSpeechEngineOptions {
+  // Model archive URL; {lang} is replaced with the language's primary subtag
+  modelUrl?: string;
+  workletUrl?: string;
+}
+
+export const DEFAULT_MODEL_URL = '/models/vosk-model-small-{lang}.tar.gz';
+export const DEFAULT_WORKLET_URL = '/speech/recognizer-processor.js';
+const PROCESSOR_NAME = 'recognizer-processor';
+
+export class LocalSpeechEngine implements SpeechEngine {
+  private language: string;
+  private modelUrl: string;
+  private workletUrl: string;
+  private audioStream: MediaStream | null = null;
+  private wantsToRun: boolean = false;
+  private isRunning: boolean = false;
+  private model: Model | null = null;
+  private modelLanguage: string | null = null;
+  private recognizer: KaldiRecognizer | null = null;
+  private audioContext: AudioContext | null = null;
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
+  private processorNode: AudioWorkletNode | null = null;
+  private lastPartial: string = '';
+  // Bumped on every start and teardown so a slow model load can't resurrect a stopped pipeline
+  private pipelineToken: number = 0;
+  private eventHandlers: Map<RecognitionEventType, RecognitionCallback[]> = new Map();
+
+  constructor(language: string = 'en-US', options: LocalSpeechEngineOptions = {}) {
+    this.language = language;
+    this.modelUrl = options.modelUrl || process.env.NEXT_PUBLIC_LOCAL_SPEECH_MODEL_URL || DEFAULT_MODEL_URL;
+    this.workletUrl = options.workletUrl || DEFAULT_WORKLET_URL;
+  }
+
+  /**
+   * Start recognizing
+   * Without an audio source yet, recognition begins once one is set.
+   */
+  start(): void {
+    if (this.wantsToRun) {
+      console.warn('Local speech recognition is already running');
+      return;
+    }
+
+    this.wantsToRun = true;
+    if (this.audioStream) {
+      this.startPipeline();
+    }
+  }
+
+  /**
+   * Stop recognizing and release the audio graph; the model stays loaded
+   */
+  stop(): void {
+    this.wantsToRun = false;
+    this.teardownPipeline();
+  }
+
+  /**
+   * Use the given stream's microphone track, restarting if already running
+   */
+  setAudioSource(stream: MediaStream | null): void {
+    this.audioStream = stream;
+
+    if (this.wantsToRun) {
+      this.teardownPipeline();
+      if (stream) {
+        this.startPipeline();
+      }
+    }
+  }
+
+  /**
+   * Change the recognition language (loads that language's model)
+   */
+  setLanguage(language: string): void {
+    this.language = language;
+
+    if (this.wantsToRun && this.audioStream) {
+      this.teardownPipeline();
+      this.startPipeline();
+    }
+  }
+
+  /**
+   * Get the current language
+   */
+  getLanguage(): string {
+    return this.language;
+  }
+
+  /**
+   * Check if recognition is currently running
+   */
+  isActive(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * Resolve the model archive for a language, e.g. en-US -> vosk-model-small-en.tar.gz
+   */
+  getModelUrl(language: string = this.language): string {
+    const url = this.modelUrl.replace('{lang}', language.split('-')[0].toLowerCase());
+    // The model is fetched from inside a blob: worker, which can't resolve relative URLs
+    return typeof window !== 'undefined' ? new URL(url, window.location.href).href : url;
+  }
+
+  /**
+   * Load the model for the current language, reusing it when the language is unchanged
+   */
+  private async loadModel(): Promise<Model> {
+    if (this.model && this.modelLanguage === this.language) {
+      return this.model;
+    }
+
+    this.model?.terminate();
+    this.model = null;
+
+    const language = this.language;
+    const modelUrl = this.getModelUrl(language);
+    console.log('📦 Loading speech model', modelUrl);
+
+    const { createModel } = await import('vosk-browser');
+    let model: Model;
+    try {
+      model = await createModel(modelUrl);
+    } catch {
+      throw new Error(`Failed to load the speech model for ${language} from ${modelUrl}`);
+    }
+
+    this.model = model;
+    this.modelLanguage = language;
+    return model;
+  }
+
+  /**
+   * Connect microphone -> worklet -> model worker and start listening for results
+   */
+  private async startPipeline(): Promise<void> {
+    const token = ++this.pipelineToken;
+    const track = this.audioStream?.getAudioTracks()[0];
+
+    try {
+      if (!track) {
+        throw new Error('No microphone track to recognize');
+      }
+
+      const model = await this.loadModel();
+      if (token !== this.pipelineToken) return;
+
+      const audioContext = new AudioContext();
+      this.audioContext = audioContext;
+      await audioContext.audioWorklet.addModule(this.workletUrl);
+      if (token !== this.pipelineToken) return;
+
+      const recognizer = new model.KaldiRecognizer(audioContext.sampleRate);
+      recognizer.on('partialresult', (message) => {
+        if (message.event === 'partialresult') this.handlePartialResult(message.result.partial);
+      });
+      recognizer.on('result', (message) => {
+        if (message.event === 'result') this.handleFinalResult(message.result.text, message.result.result);
+      });
+      recognizer.on('error', (message) => {
+        if (message.event === 'error') this.emit('error', new Error(`Speech model error: ${message.error}`));
+      });
+      this.recognizer = recognizer;
+
+      // The worklet posts audio straight to the model's worker, bypassing the main thread
+      const channel = new MessageChannel();
+      model.registerPort(channel.port1);
+
+      const processorNode = new AudioWorkletNode(audioContext, PROCESSOR_NAME, {
+        channelCount: 1,
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+      });
+      processorNode.port.postMessage({ action: 'init', recognizerId: recognizer.id }, [channel.port2]);
+      // The processor outputs silence; connecting it keeps the graph pulling audio
+      processorNode.connect(audioContext.destination);
+      this.processorNode = processorNode;
+
+      const sourceNode = audioContext.createMediaStreamSource(new MediaStream([track]));
+      sourceNode.connect(processorNode);
+      this.sourceNode = sourceNode;
+
+      this.isRunning = true;
+      console.log('🎙️ Local speech recognition started');
+      this.emit('start', undefined);
+    } catch (error) {
+      if (token !== this.pipelineToken) return;
+
+      console.error('Failed to start local speech recognition:', error);
+      this.wantsToRun = false;
+      this.teardownPipeline();
+      this.emit('error', error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Disconnect the audio graph and recognizer
+   */
+  private teardownPipeline(): void {
+    this.pipelineToken++;
+
+    this.sourceNode?.disconnect();
+    this.processorNode?.disconnect();
+    this.processorNode?.port.close();
+    this.recognizer?.remove();
+    this.audioContext?.close().catch(() => {});
+
+    this.sourceNode = null;
+    this.processorNode = null;
+    this.recognizer = null;
+    this.audioContext = null;
+    this.lastPartial = '';
+
+    if (this.isRunning) {
+      this.isRunning = false;
+      this.emit('end', undefined);
+    }
+  }
+
+  /**
+   * Report the model's running hypothesis as an interim result
+   */
+  private handlePartialResult(text: string): void {
+    if (!text || text === this.lastPartial) {
+      return;
+    }
+
+    this.lastPartial = text;
+    this.emit('result', { text, isFinal: false, confidence: 0 });
+  }
+
+  /**
+   * Report a finished utterance; the model also emits empty results for silence
+   */
+  private handleFinalResult(text: string, words: Array<{ conf: number }> = []): void {
+    this.lastPartial = '';
+    if (!text) {
+      return;
+    }
+
+    const confidence = words.length > 0
+      ? words.reduce((sum, word) => sum + word.conf, 0) / words.length
+      : 1;
+    this.emit('result', { text, isFinal: true, confidence });
+  }
+
+  /**
+   * Register event handler
+   */
+  on(event: RecognitionEventType, callback: RecognitionCallback): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)!.push(callback);
+  }
+
+  /**
+   * Remove event handler
+   */
+  off(event: RecognitionEventType, callback: RecognitionCallback): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      const index = handlers.indexOf(callback);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Emit event to all registered handlers
+   */
+  private emit(event: RecognitionEventType, data: RecognitionResult | Error | void): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      handlers.forEach(handler => {
+        try {
+          handler(data);
+        } catch (error) {
+          console.error(`Error in ${event} handler:`, error);
+        }
+      });
+    }
+  }
+
+  /**
+   * Check if the browser can run the offline recognizer
+   */
+  static isSupported(): boolean {
+    return typeof window !== 'undefined' &&
+           'AudioWorkletNode' in window &&
+           typeof WebAssembly === 'object' &&
+           typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Clean up resources, including the model worker
+   */
+  destroy(): void {
+    this.stop();
+    this.model?.terminate();
+    this.model = null;
+    this.modelLanguage = null;
+    this.eventHandlers.clear();
+  }
+}
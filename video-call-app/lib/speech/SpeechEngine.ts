@@ -0,0 +1,29 @@
+// Speech engine contract shared by every recognizer captions can run on
+
+export interface RecognitionResult {
+  text: string;
+  isFinal: boolean;
+  confidence: number;
+}
+
+export type RecognitionEventType = 'result' | 'error' | 'end' | 'start';
+
+export type RecognitionCallback = (data: RecognitionResult | Error | void) => void;
+
+/**
+ * A speech recognizer that turns the local user's voice into text
+ * 'result' carries a RecognitionResult, 'error' an Error; 'start' and 'end'
+ * mark recognition sessions, and an 'end' closes any interim hypothesis.
+ */
+export interface SpeechEngine {
+  start(): void;
+  stop(): void;
+  setLanguage(language: string): void;
+  getLanguage(): string;
+  isActive(): boolean;
+  // Engines that process audio themselves listen to the call's microphone stream
+  setAudioSource?(stream: MediaStream | null): void;
+  on(event: RecognitionEventType, callback: RecognitionCallback): void;
+  off(event: RecognitionEventType, callback: RecognitionCallback): void;
+  destroy(): void;
+}
@@ -1,17 +1,11 @@
 // Speech Recognition Service using Web Speech API
 /// <reference path="./speech-recognition.d.ts" />
 
-export interface RecognitionResult {
-  text: string;
-  isFinal: boolean;
-  confidence: number;
-}
-
-export type RecognitionEventType = 'result' | 'error' | 'end' | 'start';
+import { RecognitionCallback, RecognitionEventType, RecognitionResult, SpeechEngine } from './SpeechEngine';
 
-type RecognitionCallback = (data: RecognitionResult | Error | void) => void;
+export type { RecognitionEventType, RecognitionResult } from './SpeechEngine';
 
-export class SpeechRecognitionService {
+export class SpeechRecognitionService implements SpeechEngine {
   private recognition: SpeechRecognition | null = null;
   private language: string;
   private isRunning: boolean = false;
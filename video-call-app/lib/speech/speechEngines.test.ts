@@ -0,0 +1,77 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  createSpeechEngine,
+  getAvailableSpeechEngines,
+  getDefaultSpeechEngineId,
+  registerSpeechEngine,
+  unregisterSpeechEngine,
+} from './speechEngines';
+import { SpeechEngine } from './SpeechEngine';
+import { SpeechRecognitionService } from './SpeechRecognitionService';
+import { LocalSpeechEngine } from './LocalSpeechEngine';
+
+describe('speechEngines', () => {
+  afterEach(() => {
+    unregisterSpeechEngine('fake');
+    vi.restoreAllMocks();
+  });
+
+  it('should only list engines supported in this browser', () => {
+    vi.spyOn(SpeechRecognitionService, 'isSupported').mockReturnValue(false);
+    vi.spyOn(LocalSpeechEngine, 'isSupported').mockReturnValue(false);
+    registerSpeechEngine({
+      id: 'fake',
+      label: 'Fake',
+      isSupported: () => true,
+      create: () => ({}) as SpeechEngine,
+    });
+
+    expect(getAvailableSpeechEngines()).toEqual([{ id: 'fake', label: 'Fake' }]);
+    expect(getDefaultSpeechEngineId()).toBe('fake');
+  });
+
+  it('should prefer browser speech recognition when available', () => {
+    vi.spyOn(SpeechRecognitionService, 'isSupported').mockReturnValue(true);
+
+    expect(getDefaultSpeechEngineId()).toBe('web-speech');
+  });
+
+  it('should fall back to the offline engine without browser speech recognition', () => {
+    vi.spyOn(SpeechRecognitionService, 'isSupported').mockReturnValue(false);
+    vi.spyOn(LocalSpeechEngine, 'isSupported').mockReturnValue(true);
+
+    expect(getDefaultSpeechEngineId()).toBe('local');
+  });
+
+  it('should return null when no engine is supported', () => {
+    vi.spyOn(SpeechRecognitionService, 'isSupported').mockReturnValue(false);
+    vi.spyOn(LocalSpeechEngine, 'isSupported').mockReturnValue(false);
+
+    expect(getDefaultSpeechEngineId()).toBeNull();
+  });
+
+  it('should create engines with the requested language', () => {
+    const create = vi.fn(() => ({}) as SpeechEngine);
+    registerSpeechEngine({ id: 'fake', label: 'Fake', isSupported: () => true, create });
+
+    createSpeechEngine('fake', 'fr-FR');
+
+    expect(create).toHaveBeenCalledWith('fr-FR');
+  });
+
+  it('should replace an engine registered under the same id', () => {
+    registerSpeechEngine({ id: 'fake', label: 'Old', isSupported: () => true, create: () => ({}) as SpeechEngine });
+    registerSpeechEngine({ id: 'fake', label: 'New', isSupported: () => true, create: () => ({}) as SpeechEngine });
+
+    expect(getAvailableSpeechEngines().filter((engine) => engine.id === 'fake')).toEqual([
+      { id: 'fake', label: 'New' },
+    ]);
+  });
+
+  it('should refuse unknown or unsupported engines', () => {
+    registerSpeechEngine({ id: 'fake', label: 'Fake', isSupported: () => false, create: () => ({}) as SpeechEngine });
+
+    expect(() => createSpeechEngine('missing')).toThrow('Unknown speech engine: missing');
+    expect(() => createSpeechEngine('fake')).toThrow('not supported');
+  });
+});
@@ -0,0 +1,81 @@
+// Registry of speech engines captions can be generated with
+
+import { SpeechEngineOption } from '@/types';
+import { SpeechEngine } from './SpeechEngine';
+import { SpeechRecognitionService } from './SpeechRecognitionService';
+import { LocalSpeechEngine } from './LocalSpeechEngine';
+
+export interface SpeechEngineFactory {
+  id: string;
+  label: string;
+  isSupported: () => boolean;
+  create: (language?: string) => SpeechEngine;
+}
+
+// Engines in order of preference; the first supported one is the default
+const speechEngines: SpeechEngineFactory[] = [
+  {
+    id: 'web-speech',
+    label: 'Browser speech recognition',
+    isSupported: () => SpeechRecognitionService.isSupported(),
+    create: (language) => new SpeechRecognitionService(language),
+  },
+  {
+    id: 'local',
+    label: 'Offline (on-device model)',
+    isSupported: () => LocalSpeechEngine.isSupported(),
+    create: (language) => new LocalSpeechEngine(language),
+  },
+];
+
+/**
+ * Add an engine, replacing any registered under the same id
+ */
+export function registerSpeechEngine(factory: SpeechEngineFactory): void {
+  const index = speechEngines.findIndex((engine) => engine.id === factory.id);
+  if (index > -1) {
+    speechEngines[index] = factory;
+  } else {
+    speechEngines.push(factory);
+  }
+}
+
+/**
+ * Remove a registered engine
+ */
+export function unregisterSpeechEngine(id: string): void {
+  const index = speechEngines.findIndex((engine) => engine.id === id);
+  if (index > -1) {
+    speechEngines.splice(index, 1);
+  }
+}
+
+/**
+ * List the engines that work in this browser
+ */
+export function getAvailableSpeechEngines(): SpeechEngineOption[] {
+  return speechEngines
+    .filter((engine) => engine.isSupported())
+    .map(({ id, label }) => ({ id, label }));
+}
+
+/**
+ * Get the preferred engine for this browser, or null if none is supported
+ */
+export function getDefaultSpeechEngineId(): string | null {
+  return getAvailableSpeechEngines()[0]?.id ?? null;
+}
+
+/**
+ * Create an engine by id
+ */
+export function createSpeechEngine(id: string, language?: string): SpeechEngine {
+  const factory = speechEngines.find((engine) => engine.id === id);
+  if (!factory) {
+    throw new Error(`Unknown speech engine: ${id}`);
+  }
+  if (!factory.isSupported()) {
+    throw new Error(`Speech engine ${id} is not supported in this browser`);
+  }
+  return factory.create(language);
+}
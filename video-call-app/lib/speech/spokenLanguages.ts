@@ -0,0 +1,39 @@
+// Locales users can declare they speak, passed to speech engines as BCP-47 tags
+
+import { Language } from '@/types';
+
+export const DEFAULT_SPOKEN_LANGUAGE = 'en-US';
+
+// Regional variants matter to recognition (accent, vocabulary), so each is listed separately
+export const SPOKEN_LANGUAGES: Language[] = [
+  { code: 'en-US', name: 'English (United States)' },
+  { code: 'en-GB', name: 'English (United Kingdom)' },
+  { code: 'en-AU', name: 'English (Australia)' },
+  { code: 'en-IN', name: 'English (India)' },
+  { code: 'es-ES', name: 'Spanish (Spain)' },
+  { code: 'es-MX', name: 'Spanish (Mexico)' },
+  { code: 'es-US', name: 'Spanish (United States)' },
+  { code: 'fr-FR', name: 'French (France)' },
+  { code: 'fr-CA', name: 'French (Canada)' },
+  { code: 'de-DE', name: 'German' },
+  { code: 'it-IT', name: 'Italian' },
+  { code: 'pt-BR', name: 'Portuguese (Brazil)' },
+  { code: 'pt-PT', name: 'Portuguese (Portugal)' },
+  { code: 'ru-RU', name: 'Russian' },
+  { code: 'ja-JP', name: 'Japanese' },
+  { code: 'ko-KR', name: 'Korean' },
+  { code: 'zh-CN', name: 'Chinese (Mandarin, Simplified)' },
+  { code: 'zh-TW', name: 'Chinese (Mandarin, Traditional)' },
+  { code: 'ar-SA', name: 'Arabic' },
+  { code: 'hi-IN', name: 'Hindi' },
+  { code: 'nl-NL', name: 'Dutch' },
+  { code: 'pl-PL', name: 'Polish' },
+  { code: 'tr-TR', name: 'Turkish' },
+];
+
+/**
+ * Get the primary language subtag of a locale (e.g. 'pt-BR' -> 'pt')
+ */
+export function getBaseLanguage(locale: string): string {
+  return locale.split('-')[0].toLowerCase();
+}
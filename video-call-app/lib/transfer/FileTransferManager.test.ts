@@ -0,0 +1,285 @@
+// @vitest-environment node
+// Tests for FileTransferManager (node environment for Blob.arrayBuffer and WebCrypto)
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { DataConnection } from 'peerjs';
+import { FileChannelMessage, FileTransferManager, sha256Hex } from './FileTransferManager';
+import { FileTransfer } from '@/types';
+
+type Handler = (...args: unknown[]) => void;
+
+// In-memory stand-in for one end of a PeerJS data connection
+class FakeConnection {
+  open = false;
+  closed = false;
+  other!: FakeConnection;
+  sent: FileChannelMessage[] = [];
+  // Lets a test tamper with messages in flight
+  transform: (data: FileChannelMessage) => FileChannelMessage = (data) => data;
+  dataChannel = {
+    bufferedAmount: 0,
+    bufferedAmountLowThreshold: 0,
+    listeners: [] as Handler[],
+    addEventListener: (_event: string, listener: Handler) => this.dataChannel.listeners.push(listener),
+    removeEventListener: (_event: string, listener: Handler) => {
+      this.dataChannel.listeners = this.dataChannel.listeners.filter((entry) => entry !== listener);
+    },
+  };
+  private handlers = new Map<string, Handler[]>();
+
+  constructor(public peer: string) {}
+
+  on(event: string, handler: Handler) {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), handler]);
+  }
+
+  off(event: string, handler: Handler) {
+    this.handlers.set(event, (this.handlers.get(event) ?? []).filter((entry) => entry !== handler));
+  }
+
+  emit(event: string, ...args: unknown[]) {
+    (this.handlers.get(event) ?? []).forEach((handler) => handler(...args));
+  }
+
+  send(data: FileChannelMessage) {
+    this.sent.push(data);
+    const delivered = this.transform(data);
+    setTimeout(() => this.other.emit('data', delivered), 0);
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.open = false;
+    this.emit('close');
+    this.other.close();
+  }
+}
+
+// Two managers whose file channels are wired to each other
+function createPair(options = {}) {
+  const alice = new FileTransferManager(options);
+  const bob = new FileTransferManager(options);
+  const connections: FakeConnection[] = [];
+
+  alice.setChannelProvider({
+    openFileChannel: (peerId: string) => {
+      const atAlice = new FakeConnection(peerId);
+      const atBob = new FakeConnection('alice');
+      atAlice.other = atBob;
+      atBob.other = atAlice;
+      connections.push(atAlice);
+      bob.addChannel(atBob as unknown as DataConnection);
+      setTimeout(() => {
+        atAlice.open = atBob.open = true;
+        atAlice.emit('open');
+        atBob.emit('open');
+      }, 0);
+      return atAlice as unknown as DataConnection;
+    },
+  });
+
+  return { alice, bob, connections };
+}
+
+// Hand a manager an offer directly, as a participant crafting their own would
+function deliverOffer(manager: FileTransferManager, offer: Partial<Extract<FileChannelMessage, { type: 'offer' }>>) {
+  const atManager = new FakeConnection('mallory');
+  atManager.other = new FakeConnection('bob');
+  atManager.other.other = atManager;
+  manager.addChannel(atManager as unknown as DataConnection);
+  atManager.open = true;
+  atManager.emit('open');
+  atManager.emit('data', {
+    type: 'offer',
+    transferId: 'file-1',
+    name: 'log.txt',
+    size: 10,
+    mimeType: 'text/plain',
+    hash: 'a'.repeat(64),
+    ...offer,
+  });
+}
+
+function createFile(size: number, name = 'log.txt'): File {
+  const bytes = new Uint8Array(size).map((_, index) => (index * 31) % 251);
+  return new File([bytes], name, { type: 'text/plain' });
+}
+
+// Latest state of each transfer a manager announced
+function track(manager: FileTransferManager): Map<string, FileTransfer> {
+  const transfers = new Map<string, FileTransfer>();
+  manager.on('transfer', (data) => {
+    const transfer = data as FileTransfer;
+    transfers.set(transfer.id, transfer);
+  });
+  return transfers;
+}
+
+async function bytesOf(blob: Blob): Promise<number[]> {
+  return Array.from(new Uint8Array(await blob.arrayBuffer()));
+}
+
+describe('FileTransferManager', () => {
+  let file: File;
+
+  beforeEach(() => {
+    file = createFile(40000);
+  });
+
+  it('should send a file in chunks after the receiver accepts it', async () => {
+    const { alice, bob, connections } = createPair();
+    const bobTransfers = track(bob);
+
+    const [sent] = await alice.sendFile(file, ['bob']);
+    await vi.waitFor(() => expect(bobTransfers.get(sent.id)?.status).toBe('waiting'));
+    expect(bobTransfers.get(sent.id)).toMatchObject({ direction: 'incoming', name: 'log.txt', size: 40000, peerId: 'alice' });
+
+    await bob.accept(sent.id);
+
+    await vi.waitFor(() => expect(alice.getTransfers()[0].status).toBe('completed'));
+    const received = bob.getTransfers()[0];
+    expect(received.status).toBe('completed');
+    expect(received.bytesTransferred).toBe(40000);
+    expect(await bytesOf(received.file!)).toEqual(await bytesOf(file));
+    const chunks = connections[0].sent.filter((message) => message.type === 'chunk');
+    expect(chunks.map((chunk) => chunk.data.byteLength)).toEqual([16000, 16000, 8000]);
+  });
+
+  it('should tell the sender when a file is declined', async () => {
+    const { alice, bob } = createPair();
+
+    const [sent] = await alice.sendFile(file, ['bob']);
+    await vi.waitFor(() => expect(bob.getTransfers()).toHaveLength(1));
+    await bob.decline(sent.id);
+
+    await vi.waitFor(() => expect(alice.getTransfers()[0].status).toBe('declined'));
+    expect(bob.getTransfers()[0].status).toBe('declined');
+  });
+
+  it('should fail both ends when the received file does not match its hash', async () => {
+    const { alice, bob, connections } = createPair();
+
+    const [sent] = await alice.sendFile(file, ['bob']);
+    connections[0].transform = (data) => {
+      if (data.type !== 'chunk' || data.offset !== 0) return data;
+      const corrupted = new Uint8Array(data.data.slice(0));
+      corrupted[0] ^= 0xff;
+      return { ...data, data: corrupted.buffer };
+    };
+    await vi.waitFor(() => expect(bob.getTransfers()).toHaveLength(1));
+    await bob.accept(sent.id);
+
+    await vi.waitFor(() => expect(alice.getTransfers()[0].status).toBe('failed'));
+    expect(bob.getTransfers()[0]).toMatchObject({ status: 'failed', error: 'Integrity check failed' });
+    expect(bob.getTransfers()[0].file).toBeUndefined();
+  });
+
+  it('should pick up where it left off after the receiver pauses and resumes', async () => {
+    const { alice, bob, connections } = createPair({ chunkSize: 1000 });
+
+    const [sent] = await alice.sendFile(createFile(20000), ['bob']);
+    // Pause while the fourth chunk is in flight
+    let paused = false;
+    connections[0].transform = (data) => {
+      if (!paused && data.type === 'chunk' && data.offset === 3000) {
+        paused = true;
+        bob.pause(sent.id);
+      }
+      return data;
+    };
+    await vi.waitFor(() => expect(bob.getTransfers()).toHaveLength(1));
+    await bob.accept(sent.id);
+
+    await vi.waitFor(() => expect(alice.getTransfers()[0].status).toBe('paused'));
+    const pausedAt = bob.getTransfers()[0].bytesTransferred;
+    expect(pausedAt).toBeLessThan(20000);
+
+    await bob.resume(sent.id);
+
+    await vi.waitFor(() => expect(bob.getTransfers()[0].status).toBe('completed'));
+    expect(await bytesOf(bob.getTransfers()[0].file!)).toEqual(await bytesOf(createFile(20000)));
+  });
+
+  it('should hold chunks back while the channel is congested', async () => {
+    const { alice, bob, connections } = createPair({ highWaterMark: 1000, lowWaterMark: 100 });
+
+    const [sent] = await alice.sendFile(file, ['bob']);
+    const channel = connections[0].dataChannel;
+    channel.bufferedAmount = 5000;
+    await vi.waitFor(() => expect(bob.getTransfers()).toHaveLength(1));
+    await bob.accept(sent.id);
+    await vi.waitFor(() => expect(alice.getTransfers()[0].status).toBe('transferring'));
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(connections[0].sent.filter((message) => message.type === 'chunk')).toHaveLength(0);
+    expect(channel.bufferedAmountLowThreshold).toBe(100);
+
+    channel.bufferedAmount = 0;
+    channel.listeners.forEach((listener) => listener());
+
+    await vi.waitFor(() => expect(alice.getTransfers()[0].status).toBe('completed'));
+  });
+
+  it('should pause on a dropped connection and resume over a new one', async () => {
+    const { alice, bob, connections } = createPair({ chunkSize: 1000 });
+
+    const [sent] = await alice.sendFile(createFile(20000), ['bob']);
+    // Drop the connection right after the sixth chunk arrives
+    connections[0].transform = (data) => {
+      if (data.type === 'chunk' && data.offset === 5000) {
+        setTimeout(() => connections[0].close(), 0);
+      }
+      return data;
+    };
+    await vi.waitFor(() => expect(bob.getTransfers()).toHaveLength(1));
+    await bob.accept(sent.id);
+
+    await vi.waitFor(() => expect(alice.getTransfers()[0]).toMatchObject({ status: 'paused', error: 'Connection lost' }));
+    expect(bob.getTransfers()[0].status).toBe('paused');
+
+    await alice.resume(sent.id);
+
+    await vi.waitFor(() => expect(alice.getTransfers()[0].status).toBe('completed'));
+    expect(connections).toHaveLength(2);
+    expect(connections[1].sent.find((message) => message.type === 'chunk')?.offset).toBeGreaterThan(0);
+  });
+
+  it('should cancel on both ends', async () => {
+    const { alice, bob } = createPair();
+
+    const [sent] = await alice.sendFile(file, ['bob']);
+    await vi.waitFor(() => expect(bob.getTransfers()).toHaveLength(1));
+    await alice.cancel(sent.id);
+
+    await vi.waitFor(() => expect(bob.getTransfers()[0].status).toBe('cancelled'));
+    expect(alice.getTransfers()[0].status).toBe('cancelled');
+  });
+
+  it('should clamp the name and type a sender offers', () => {
+    const bob = new FileTransferManager();
+
+    deliverOffer(bob, { name: 'x'.repeat(1000), mimeType: 'text/'.repeat(100) });
+
+    expect(bob.getTransfers()[0]).toMatchObject({ name: 'x'.repeat(255), mimeType: 'application/octet-stream' });
+  });
+
+  it('should ignore offers without a SHA-256 hash', () => {
+    const bob = new FileTransferManager();
+
+    deliverOffer(bob, { hash: 'not a hash' });
+
+    expect(bob.getTransfers()).toEqual([]);
+  });
+
+  it('should refuse files over the size limit', async () => {
+    const { alice } = createPair({ maxFileSize: 1000 });
+
+    await expect(alice.sendFile(file, ['bob'])).rejects.toThrow('limited to');
+    expect(alice.getTransfers()).toEqual([]);
+  });
+
+  it('should hash files as hex SHA-256', async () => {
+    expect(await sha256Hex(new Blob(['abc']))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
@@ -0,0 +1,723 @@
+// File Transfer Manager: sends files to participants over a dedicated data
+// connection per peer, in chunks, with backpressure and a SHA-256 check
+
+import type { DataConnection } from 'peerjs';
+import type { WebRTCManager } from '../webrtc/WebRTCManager';
+import { FileTransfer, FileTransferStatus } from '@/types';
+
+export type FileTransferEventType = 'transfer' | 'error';
+type FileTransferCallback = (data: FileTransfer | Error) => void;
+
+// The part of WebRTCManager that opens file channels
+export type FileChannelProvider = Pick<WebRTCManager, 'openFileChannel'>;
+
+export interface FileTransferManagerOptions {
+  chunkSize?: number;
+  maxFileSize?: number;
+  // Pause sending while more than this many bytes are queued on the channel
+  highWaterMark?: number;
+  lowWaterMark?: number;
+  channelTimeout?: number;
+}
+
+// Messages exchanged on a file channel; chunks carry binary data
+export type FileChannelMessage =
+  | { type: 'offer'; transferId: string; name: string; size: number; mimeType: string; hash: string }
+  | { type: 'accept'; transferId: string; offset: number }
+  | { type: 'decline'; transferId: string }
+  | { type: 'chunk'; transferId: string; offset: number; data: ArrayBuffer }
+  | { type: 'pause'; transferId: string }
+  | { type: 'resume'; transferId: string }
+  | { type: 'cancel'; transferId: string }
+  | { type: 'complete'; transferId: string; ok: boolean };
+
+interface TransferRecord {
+  transfer: FileTransfer;
+  hash: string;
+  // Outgoing: the file being sent
+  source: Blob | null;
+  // Incoming: data received so far
+  chunks: ArrayBuffer[];
+  // Bumped to stop a running send loop
+  sendLoop: number;
+  lastProgressAt: number;
+}
+
+// Stays under PeerJS's 16300 byte message size once wrapped, so chunks are not split again
+const DEFAULT_CHUNK_SIZE = 16000;
+export const MAX_FILE_SIZE = 100 * 1024 * 1024;
+const DEFAULT_HIGH_WATER_MARK = 1024 * 1024;
+const DEFAULT_LOW_WATER_MARK = 256 * 1024;
+const DEFAULT_CHANNEL_TIMEOUT = 10000;
+const PROGRESS_INTERVAL = 100;
+const DRAIN_POLL_INTERVAL = 50;
+const FINISHED_STATUSES: FileTransferStatus[] = ['completed', 'declined', 'cancelled', 'failed'];
+// Limits on what another participant can make us store and show for an incoming file
+const MAX_FILE_NAME_LENGTH = 255;
+const MAX_MIME_TYPE_LENGTH = 255;
+const MAX_TRANSFER_ID_LENGTH = 64;
+const SHA256_HEX_PATTERN = /^[0-9a-f]{64}$/;
+const MESSAGE_TYPES = ['offer', 'accept', 'decline', 'chunk', 'pause', 'resume', 'cancel', 'complete'];
+
+/**
+ * Hex-encoded SHA-256 of a file
+ */
+export async function sha256Hex(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Check whether data from a file channel looks like one of our messages
+ */
+function isFileChannelMessage(data: unknown): data is FileChannelMessage {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    MESSAGE_TYPES.includes((data as { type?: unknown }).type as string) &&
+    typeof (data as { transferId?: unknown }).transferId === 'string'
+  );
+}
+
+/**
+ * Copy received binary data into a standalone ArrayBuffer
+ */
+function toArrayBuffer(data: unknown): ArrayBuffer | null {
+  if (data instanceof ArrayBuffer) {
+    return data;
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice().buffer;
+  }
+  return null;
+}
+
+/**
+ * Bytes waiting to go out on a channel, including PeerJS's own send queue
+ */
+function getBufferedAmount(conn: DataConnection): number {
+  const queued = (conn as DataConnection & { bufferSize?: number }).bufferSize ?? 0;
+  return (conn.dataChannel?.bufferedAmount ?? 0) + queued;
+}
+
+export class FileTransferManager {
+  private provider: FileChannelProvider | null = null;
+  private chunkSize: number;
+  private maxFileSize: number;
+  private highWaterMark: number;
+  private lowWaterMark: number;
+  private channelTimeout: number;
+  private channels: Map<string, DataConnection> = new Map();
+  private records: Map<string, TransferRecord> = new Map();
+  private eventHandlers: Map<FileTransferEventType, FileTransferCallback[]> = new Map();
+
+  constructor(options: FileTransferManagerOptions = {}) {
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.maxFileSize = options.maxFileSize ?? MAX_FILE_SIZE;
+    this.highWaterMark = options.highWaterMark ?? DEFAULT_HIGH_WATER_MARK;
+    this.lowWaterMark = options.lowWaterMark ?? DEFAULT_LOW_WATER_MARK;
+    this.channelTimeout = options.channelTimeout ?? DEFAULT_CHANNEL_TIMEOUT;
+  }
+
+  /**
+   * Use a call's connections, or null between calls
+   */
+  setChannelProvider(provider: FileChannelProvider | null): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Take over a file channel opened by a participant
+   */
+  addChannel(conn: DataConnection): void {
+    this.channels.set(conn.peer, conn);
+    conn.on('data', (data) => this.handleMessage(data, conn.peer));
+    conn.on('close', () => this.handleChannelClosed(conn));
+    conn.on('error', (error) => {
+      console.warn('⚠️ File channel error with', conn.peer, error);
+    });
+  }
+
+  /**
+   * Offer a file to each of the given participants
+   * The file is hashed once; each participant gets their own transfer.
+   */
+  async sendFile(file: File, peerIds: string[]): Promise<FileTransfer[]> {
+    if (file.size > this.maxFileSize) {
+      throw new Error(`Files are limited to ${Math.round(this.maxFileSize / (1024 * 1024))} MB`);
+    }
+
+    const records = peerIds.map((peerId) => {
+      const record: TransferRecord = {
+        transfer: {
+          id: this.generateTransferId(),
+          peerId,
+          direction: 'outgoing',
+          name: file.name,
+          size: file.size,
+          mimeType: file.type || 'application/octet-stream',
+          bytesTransferred: 0,
+          status: 'hashing',
+        },
+        hash: '',
+        source: file,
+        chunks: [],
+        sendLoop: 0,
+        lastProgressAt: 0,
+      };
+      this.records.set(record.transfer.id, record);
+      this.emitTransfer(record);
+      return record;
+    });
+
+    const hash = await sha256Hex(file);
+    await Promise.all(
+      records.map((record) => {
+        record.hash = hash;
+        // Cancelled while hashing
+        if (record.transfer.status !== 'hashing') {
+          return Promise.resolve();
+        }
+        return this.sendOffer(record);
+      })
+    );
+    return records.map((record) => ({ ...record.transfer }));
+  }
+
+  /**
+   * Accept an incoming file
+   */
+  async accept(transferId: string): Promise<void> {
+    const record = this.records.get(transferId);
+    if (!record || record.transfer.direction !== 'incoming' || record.transfer.status !== 'waiting') {
+      return;
+    }
+
+    this.setStatus(record, 'transferring');
+    await this.sendControl(record, { type: 'accept', transferId, offset: record.transfer.bytesTransferred });
+    // Empty files have no chunks to wait for
+    if (record.transfer.size === 0) {
+      await this.finishIncoming(record);
+    }
+  }
+
+  /**
+   * Turn down an incoming file
+   */
+  async decline(transferId: string): Promise<void> {
+    const record = this.records.get(transferId);
+    if (!record || record.transfer.direction !== 'incoming' || record.transfer.status !== 'waiting') {
+      return;
+    }
+
+    this.setStatus(record, 'declined');
+    record.chunks = [];
+    await this.sendControl(record, { type: 'decline', transferId });
+  }
+
+  /**
+   * Pause a transfer from either end
+   */
+  async pause(transferId: string): Promise<void> {
+    const record = this.records.get(transferId);
+    if (!record || record.transfer.status !== 'transferring') {
+      return;
+    }
+
+    this.setStatus(record, 'paused');
+    await this.sendControl(record, { type: 'pause', transferId });
+  }
+
+  /**
+   * Continue a paused or interrupted transfer from where the receiver left off
+   */
+  async resume(transferId: string): Promise<void> {
+    const record = this.records.get(transferId);
+    if (!record || record.transfer.status !== 'paused') {
+      return;
+    }
+
+    record.transfer.error = undefined;
+    if (record.transfer.direction === 'outgoing') {
+      await this.sendOffer(record);
+    } else {
+      // The sender re-offers and we accept from our offset
+      await this.sendControl(record, { type: 'resume', transferId });
+    }
+  }
+
+  /**
+   * Stop a transfer for good
+   */
+  async cancel(transferId: string): Promise<void> {
+    const record = this.records.get(transferId);
+    if (!record || FINISHED_STATUSES.includes(record.transfer.status)) {
+      return;
+    }
+
+    const wasHashing = record.transfer.status === 'hashing';
+    this.setStatus(record, 'cancelled');
+    record.chunks = [];
+    if (!wasHashing) {
+      await this.sendControl(record, { type: 'cancel', transferId });
+    }
+  }
+
+  /**
+   * Fail every unfinished transfer with a participant who left
+   */
+  handlePeerLeft(peerId: string): void {
+    this.records.forEach((record) => {
+      if (record.transfer.peerId === peerId && !FINISHED_STATUSES.includes(record.transfer.status)) {
+        record.chunks = [];
+        this.setStatus(record, 'failed', 'Participant left the call');
+      }
+    });
+    this.channels.get(peerId)?.close();
+    this.channels.delete(peerId);
+  }
+
+  /**
+   * Get all transfers of this call, oldest first
+   */
+  getTransfers(): FileTransfer[] {
+    return Array.from(this.records.values(), (record) => ({ ...record.transfer }));
+  }
+
+  /**
+   * Forget the previous call's transfers and close its channels
+   */
+  reset(): void {
+    this.records.forEach((record) => {
+      record.sendLoop++;
+    });
+    this.records.clear();
+    this.channels.forEach((conn) => conn.close());
+    this.channels.clear();
+  }
+
+  /**
+   * Register event handler
+   */
+  on(event: FileTransferEventType, callback: FileTransferCallback): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)!.push(callback);
+  }
+
+  /**
+   * Remove event handler
+   */
+  off(event: FileTransferEventType, callback: FileTransferCallback): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      const index = handlers.indexOf(callback);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Emit event to all registered handlers
+   */
+  private emit(event: FileTransferEventType, data: FileTransfer | Error): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      handlers.forEach(handler => {
+        try {
+          handler(data);
+        } catch (error) {
+          console.error(`Error in ${event} handler:`, error);
+        }
+      });
+    }
+  }
+
+  /**
+   * Route a message from a peer's file channel
+   */
+  private handleMessage(data: unknown, peerId: string): void {
+    if (!isFileChannelMessage(data)) {
+      console.warn('Ignoring unknown file channel message from', peerId);
+      return;
+    }
+
+    if (data.type === 'offer') {
+      this.handleOffer(data, peerId);
+      return;
+    }
+
+    const record = this.records.get(data.transferId);
+    // Only the other end of a transfer may steer it
+    if (!record || record.transfer.peerId !== peerId) {
+      return;
+    }
+
+    switch (data.type) {
+      case 'accept':
+        if (record.transfer.direction === 'outgoing' && record.transfer.status === 'waiting') {
+          record.transfer.bytesTransferred = Math.max(0, Math.min(data.offset, record.transfer.size));
+          this.setStatus(record, 'transferring');
+          this.runSendLoop(record);
+        }
+        break;
+      case 'decline':
+        if (record.transfer.direction === 'outgoing' && record.transfer.status === 'waiting') {
+          this.setStatus(record, 'declined');
+        }
+        break;
+      case 'chunk':
+        this.handleChunk(record, data);
+        break;
+      case 'pause':
+        // The receiver may pause after we sent the last chunk but before it arrived
+        if (
+          record.transfer.status === 'transferring' ||
+          (record.transfer.status === 'verifying' && record.transfer.direction === 'outgoing')
+        ) {
+          this.setStatus(record, 'paused');
+        }
+        break;
+      case 'resume':
+        if (record.transfer.direction === 'outgoing' && record.transfer.status === 'paused') {
+          record.transfer.error = undefined;
+          this.sendOffer(record);
+        }
+        break;
+      case 'cancel':
+        if (!FINISHED_STATUSES.includes(record.transfer.status)) {
+          record.chunks = [];
+          this.setStatus(record, 'cancelled');
+        }
+        break;
+      case 'complete':
+        if (record.transfer.direction === 'outgoing' && !FINISHED_STATUSES.includes(record.transfer.status)) {
+          if (data.ok) {
+            this.setStatus(record, 'completed');
+          } else {
+            this.setStatus(record, 'failed', 'The received file did not match');
+          }
+        }
+        break;
+    }
+  }
+
+  /**
+   * Handle a new offer, or a repeated one resuming a paused transfer
+   */
+  private handleOffer(offer: Extract<FileChannelMessage, { type: 'offer' }>, peerId: string): void {
+    const existing = this.records.get(offer.transferId);
+    if (existing) {
+      if (existing.transfer.peerId !== peerId || existing.transfer.direction !== 'incoming') {
+        return;
+      }
+      if (existing.transfer.status === 'paused') {
+        existing.transfer.error = undefined;
+        this.setStatus(existing, 'transferring');
+        this.sendControl(existing, { type: 'accept', transferId: offer.transferId, offset: existing.transfer.bytesTransferred });
+      } else if (existing.transfer.status === 'completed' || existing.transfer.status === 'failed') {
+        // The sender missed our verdict before the connection dropped
+        this.sendControl(existing, { type: 'complete', transferId: offer.transferId, ok: existing.transfer.status === 'completed' });
+      }
+      return;
+    }
+
+    const valid =
+      offer.transferId.length <= MAX_TRANSFER_ID_LENGTH &&
+      typeof offer.name === 'string' &&
+      typeof offer.mimeType === 'string' &&
+      typeof offer.hash === 'string' &&
+      SHA256_HEX_PATTERN.test(offer.hash) &&
+      Number.isSafeInteger(offer.size) &&
+      offer.size >= 0;
+    if (!valid) {
+      return;
+    }
+
+    const record: TransferRecord = {
+      transfer: {
+        id: offer.transferId,
+        peerId,
+        direction: 'incoming',
+        name: offer.name.trim().slice(0, MAX_FILE_NAME_LENGTH) || 'Untitled',
+        size: offer.size,
+        mimeType: offer.mimeType.length <= MAX_MIME_TYPE_LENGTH ? offer.mimeType : 'application/octet-stream',
+        bytesTransferred: 0,
+        status: 'waiting',
+      },
+      hash: offer.hash,
+      source: null,
+      chunks: [],
+      sendLoop: 0,
+      lastProgressAt: 0,
+    };
+    this.records.set(record.transfer.id, record);
+
+    if (offer.size > this.maxFileSize) {
+      this.setStatus(record, 'declined', 'File is too large');
+      this.sendControl(record, { type: 'decline', transferId: offer.transferId });
+      return;
+    }
+    console.log('📁 Incoming file from', peerId, offer.name);
+    this.emitTransfer(record);
+  }
+
+  /**
+   * Store the next chunk of an incoming file
+   * Chunks that do not continue where we are, e.g. sent while paused, are dropped and re-sent on resume.
+   */
+  private handleChunk(record: TransferRecord, chunk: Extract<FileChannelMessage, { type: 'chunk' }>): void {
+    const transfer = record.transfer;
+    const data = toArrayBuffer(chunk.data);
+    if (transfer.direction !== 'incoming' || transfer.status !== 'transferring' || !data || chunk.offset !== transfer.bytesTransferred) {
+      return;
+    }
+
+    if (transfer.bytesTransferred + data.byteLength > transfer.size) {
+      record.chunks = [];
+      this.setStatus(record, 'failed', 'Received more data than offered');
+      this.sendControl(record, { type: 'cancel', transferId: transfer.id });
+      return;
+    }
+
+    record.chunks.push(data);
+    transfer.bytesTransferred += data.byteLength;
+    if (transfer.bytesTransferred === transfer.size) {
+      this.finishIncoming(record);
+    } else {
+      this.emitProgress(record);
+    }
+  }
+
+  /**
+   * Assemble and verify a fully received file, then tell the sender
+   */
+  private async finishIncoming(record: TransferRecord): Promise<void> {
+    this.setStatus(record, 'verifying');
+    const file = new Blob(record.chunks, { type: record.transfer.mimeType });
+    record.chunks = [];
+
+    let ok = false;
+    try {
+      ok = (await sha256Hex(file)) === record.hash;
+    } catch (error) {
+      console.error('❌ Failed to verify received file:', error);
+    }
+    // Cancelled while verifying
+    if (record.transfer.status !== 'verifying') {
+      return;
+    }
+
+    if (ok) {
+      record.transfer.file = file;
+      console.log('✅ Received file', record.transfer.name);
+      this.setStatus(record, 'completed');
+    } else {
+      this.setStatus(record, 'failed', 'Integrity check failed');
+    }
+    await this.sendControl(record, { type: 'complete', transferId: record.transfer.id, ok });
+  }
+
+  /**
+   * Offer (or re-offer) an outgoing file and wait for the receiver to accept
+   */
+  private async sendOffer(record: TransferRecord): Promise<void> {
+    const transfer = record.transfer;
+    this.setStatus(record, 'waiting');
+    await this.sendControl(record, {
+      type: 'offer',
+      transferId: transfer.id,
+      name: transfer.name,
+      size: transfer.size,
+      mimeType: transfer.mimeType,
+      hash: record.hash,
+    });
+  }
+
+  /**
+   * Send chunks from the accepted offset until done, paused or cancelled
+   */
+  private async runSendLoop(record: TransferRecord): Promise<void> {
+    const loop = ++record.sendLoop;
+    const transfer = record.transfer;
+    const isCurrent = () => record.sendLoop === loop && transfer.status === 'transferring';
+
+    try {
+      while (isCurrent() && transfer.bytesTransferred < transfer.size) {
+        const conn = await this.getChannel(transfer.peerId);
+        await this.waitForDrain(conn);
+        if (!isCurrent()) return;
+
+        const offset = transfer.bytesTransferred;
+        const data = await record.source!.slice(offset, offset + this.chunkSize).arrayBuffer();
+        if (!isCurrent()) return;
+
+        conn.send({ type: 'chunk', transferId: transfer.id, offset, data });
+        transfer.bytesTransferred = offset + data.byteLength;
+        this.emitProgress(record);
+      }
+
+      // Everything is sent; the receiver reports whether it checks out
+      if (isCurrent()) {
+        this.setStatus(record, 'verifying');
+      }
+    } catch (error) {
+      if (record.sendLoop === loop && transfer.status === 'transferring') {
+        this.setStatus(record, 'paused', 'Connection lost');
+      }
+      console.warn('⚠️ File transfer interrupted:', error);
+    }
+  }
+
+  /**
+   * Wait until the channel's send queue has room
+   */
+  private waitForDrain(conn: DataConnection): Promise<void> {
+    if (getBufferedAmount(conn) <= this.highWaterMark) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const channel = conn.dataChannel;
+      const done = () => {
+        channel?.removeEventListener('bufferedamountlow', done);
+        clearInterval(timer);
+        resolve();
+      };
+      if (channel) {
+        channel.bufferedAmountLowThreshold = this.lowWaterMark;
+        channel.addEventListener('bufferedamountlow', done);
+      }
+      // PeerJS queues in its own buffer too, which never fires the event
+      const timer = setInterval(() => {
+        if (!conn.open || getBufferedAmount(conn) <= this.lowWaterMark) {
+          done();
+        }
+      }, DRAIN_POLL_INTERVAL);
+    });
+  }
+
+  /**
+   * Send a control message, pausing the transfer if the channel cannot be reached
+   */
+  private async sendControl(record: TransferRecord, message: FileChannelMessage): Promise<void> {
+    try {
+      const conn = await this.getChannel(record.transfer.peerId);
+      conn.send(message);
+    } catch (error) {
+      console.warn('⚠️ Could not reach file channel:', error);
+      if (!FINISHED_STATUSES.includes(record.transfer.status)) {
+        this.setStatus(record, 'paused', 'Connection lost');
+      }
+      this.emit('error', error as Error);
+    }
+  }
+
+  /**
+   * Get an open file channel to a peer, opening one if needed
+   */
+  private async getChannel(peerId: string): Promise<DataConnection> {
+    let conn = this.channels.get(peerId);
+    if (!conn) {
+      if (!this.provider) {
+        throw new Error('Not in a call');
+      }
+      conn = this.provider.openFileChannel(peerId);
+      this.addChannel(conn);
+    }
+    if (!conn.open) {
+      await this.waitForOpen(conn);
+    }
+    return conn;
+  }
+
+  /**
+   * Wait for a channel to open
+   */
+  private waitForOpen(conn: DataConnection): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        settle(new Error('Timed out opening file channel'));
+      }, this.channelTimeout);
+      const settle = (error?: Error) => {
+        clearTimeout(timer);
+        conn.off('open', onOpen);
+        conn.off('close', onClose);
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      const onOpen = () => settle();
+      const onClose = () => settle(new Error('File channel closed'));
+      conn.on('open', onOpen);
+      conn.on('close', onClose);
+    });
+  }
+
+  /**
+   * Pause transfers that were using a channel that closed; they can be resumed
+   * A receiver already verifying has all the data and carries on.
+   */
+  private handleChannelClosed(conn: DataConnection): void {
+    if (this.channels.get(conn.peer) !== conn) {
+      return;
+    }
+    this.channels.delete(conn.peer);
+
+    this.records.forEach((record) => {
+      const { direction, peerId, status } = record.transfer;
+      const interrupted =
+        status === 'waiting' || status === 'transferring' || (status === 'verifying' && direction === 'outgoing');
+      if (peerId === conn.peer && interrupted) {
+        this.setStatus(record, 'paused', 'Connection lost');
+      }
+    });
+  }
+
+  /**
+   * Change a transfer's status and announce it
+   */
+  private setStatus(record: TransferRecord, status: FileTransferStatus, error?: string): void {
+    record.transfer.status = status;
+    record.transfer.error = error;
+    this.emitTransfer(record);
+  }
+
+  /**
+   * Announce progress, at most every PROGRESS_INTERVAL
+   */
+  private emitProgress(record: TransferRecord): void {
+    const now = Date.now();
+    if (now - record.lastProgressAt >= PROGRESS_INTERVAL) {
+      this.emitTransfer(record);
+    }
+  }
+
+  /**
+   * Announce the current state of a transfer
+   */
+  private emitTransfer(record: TransferRecord): void {
+    record.lastProgressAt = Date.now();
+    this.emit('transfer', { ...record.transfer });
+  }
+
+  /**
+   * Generate unique transfer ID
+   */
+  private generateTransferId(): string {
+    return `file-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * Clean up resources
+   */
+  destroy(): void {
+    this.reset();
+    this.provider = null;
+    this.eventHandlers.clear();
+  }
+}
@@ -0,0 +1,127 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import * as fc from 'fast-check';
+import { createCacheKey, IndexedDBTranslationStore, TranslationCache } from './TranslationCache';
+import { TranslationService } from './TranslationService';
+import { TranslationProvider } from './providers';
+
+let dbCount = 0;
+const freshStore = () => new IndexedDBTranslationStore(`translations-test-${dbCount++}`);
+
+describe('TranslationCache', () => {
+  it('should share entries between phrasings that only differ in case and spacing', () => {
+    fc.assert(
+      fc.property(fc.string({ minLength: 1, maxLength: 40 }), (text) => {
+        expect(createCacheKey(`  ${text.toUpperCase()} `, 'en', 'es', 'mymemory'))
+          .toBe(createCacheKey(text.toLowerCase(), 'en', 'es', 'mymemory'));
+      }),
+      { numRuns: 100 }
+    );
+    expect(createCacheKey('can you  hear me', 'en', 'es', 'a')).not.toBe(createCacheKey('can you hear me', 'en', 'es', 'b'));
+  });
+
+  it('should return the entry from the first provider in the chain that has one', async () => {
+    const cache = new TranslationCache();
+    cache.set('Hello', 'en', 'es', 'backup', 'Hola (backup)');
+    cache.set('Hello', 'en', 'es', 'primary', 'Hola');
+
+    await expect(cache.lookup('hello', 'en', 'es', ['primary', 'backup']))
+      .resolves.toEqual({ translation: 'Hola', provider: 'primary' });
+    await expect(cache.lookup('hello', 'en', 'fr', ['primary', 'backup'])).resolves.toBeNull();
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, memoryHits: 1 });
+  });
+
+  it('should evict the least recently used entry past capacity', async () => {
+    const cache = new TranslationCache({ maxEntries: 2 });
+    cache.set('one', 'en', 'es', 'p', 'uno');
+    cache.set('two', 'en', 'es', 'p', 'dos');
+    await cache.lookup('one', 'en', 'es', ['p']);
+    cache.set('three', 'en', 'es', 'p', 'tres');
+
+    expect(await cache.lookup('two', 'en', 'es', ['p'])).toBeNull();
+    expect(await cache.lookup('one', 'en', 'es', ['p'])).not.toBeNull();
+    expect(cache.getStats().size).toBe(2);
+  });
+
+  it('should never hold more entries than its capacity', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 10 }), fc.array(fc.string(), { maxLength: 50 }), (maxEntries, texts) => {
+        const cache = new TranslationCache({ maxEntries });
+        texts.forEach((text) => cache.set(text, 'en', 'es', 'p', text));
+        expect(cache.getStats().size).toBeLessThanOrEqual(maxEntries);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should serve translations persisted by an earlier session', async () => {
+    const store = freshStore();
+    new TranslationCache({ store }).set('Can you hear me', 'en', 'es', 'p', '¿Me oyes?');
+    await vi.waitFor(async () => expect(await store.count()).toBe(1));
+
+    const nextSession = new TranslationCache({ store });
+    await expect(nextSession.lookup('can you hear me', 'en', 'es', ['p']))
+      .resolves.toEqual({ translation: '¿Me oyes?', provider: 'p' });
+    expect(nextSession.getStats()).toMatchObject({ hits: 1, persistentHits: 1, size: 1 });
+  });
+
+  it('should invalidate one provider in both tiers', async () => {
+    const store = freshStore();
+    const cache = new TranslationCache({ store });
+    cache.set('Hello', 'en', 'es', 'old', 'Hola');
+    cache.set('Bye', 'en', 'es', 'kept', 'Adiós');
+    await vi.waitFor(async () => expect(await store.count()).toBe(2));
+
+    await cache.invalidate('old');
+
+    expect(await cache.lookup('Hello', 'en', 'es', ['old'])).toBeNull();
+    expect(await cache.lookup('Bye', 'en', 'es', ['kept'])).not.toBeNull();
+    expect(await store.count()).toBe(1);
+
+    await cache.invalidate();
+    expect(await store.count()).toBe(0);
+  });
+});
+
+describe('TranslationService caching', () => {
+  let translate: Mock<TranslationProvider['translate']>;
+  let provider: TranslationProvider;
+
+  beforeEach(() => {
+    translate = vi.fn(async (text: string) => `translated ${text}`);
+    provider = { name: 'p', translate };
+  });
+
+  it('should only call the provider once for a repeated phrase', async () => {
+    const service = new TranslationService({ providers: [provider], cache: new TranslationCache() });
+
+    const first = await service.translate('Can you hear me?', 'en', 'es');
+    const second = await service.translate('can you hear me?', 'en-US', 'es');
+
+    expect(translate).toHaveBeenCalledTimes(1);
+    expect(second.translatedText).toBe(first.translatedText);
+    expect(second.service).toBe('p');
+    expect(second.sourceLanguage).toBe('en-US');
+  });
+
+  it('should not cache untranslated fallbacks', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    translate.mockRejectedValueOnce(new Error('down'));
+    const service = new TranslationService({ providers: [provider], cache: new TranslationCache() });
+
+    expect((await service.translate('Hello', 'en', 'es')).service).toBe('fallback');
+    expect((await service.translate('Hello', 'en', 'es')).service).toBe('p');
+    expect(translate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop cached translations when the providers change', async () => {
+    const cache = new TranslationCache();
+    const service = new TranslationService({ providers: [provider], cache });
+    await service.translate('Hello', 'en', 'es');
+
+    const reconfigured = { name: 'p', translate: vi.fn(async () => 'nuevo') };
+    await service.setProviders([reconfigured]);
+
+    expect((await service.translate('Hello', 'en', 'es')).translatedText).toBe('nuevo');
+  });
+});
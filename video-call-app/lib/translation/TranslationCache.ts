@@ -0,0 +1,295 @@
+// Translation cache: an in-memory LRU backed by an optional persistent store
+// (IndexedDB in the browser), so repeated phrases skip the network
+
+export interface CachedTranslation {
+  key: string;
+  provider: string;
+  translation: string;
+  storedAt: number;
+}
+
+// Persistent tier of the cache
+export interface TranslationCacheStore {
+  get(key: string): Promise<CachedTranslation | undefined>;
+  set(entry: CachedTranslation): Promise<void>;
+  deleteProvider(provider: string): Promise<void>;
+  clear(): Promise<void>;
+  count(): Promise<number>;
+}
+
+export interface TranslationCacheOptions {
+  maxEntries?: number;
+  store?: TranslationCacheStore | null;
+}
+
+export interface TranslationCacheStats {
+  hits: number;
+  misses: number;
+  memoryHits: number;
+  persistentHits: number;
+  size: number;
+}
+
+export interface CacheHit {
+  translation: string;
+  provider: string;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DB_NAME = 'video-call-translations';
+const STORE_NAME = 'translations';
+// Persisted translations older than this are dropped when the database opens
+const MAX_PERSISTED_AGE = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Normalize caption text so trivially different phrasings share an entry
+ */
+export function normalizeCacheText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Build the cache key for a translation by one provider
+ */
+export function createCacheKey(text: string, sourceLang: string, targetLang: string, provider: string): string {
+  return JSON.stringify([normalizeCacheText(text), sourceLang, targetLang, provider]);
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Persistent tier backed by IndexedDB
+ */
+export class IndexedDBTranslationStore implements TranslationCacheStore {
+  private dbName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(dbName: string = DB_NAME) {
+    this.dbName = dbName;
+  }
+
+  /**
+   * Check if IndexedDB is available
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Open the database once, dropping expired translations
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(this.dbName, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('provider', 'provider');
+        store.createIndex('storedAt', 'storedAt');
+      };
+      this.dbPromise = requestToPromise(request).then(async (db) => {
+        await this.prune(db, Date.now() - MAX_PERSISTED_AGE);
+        return db;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Delete entries stored before the given time
+   */
+  private async prune(db: IDBDatabase, before: number): Promise<void> {
+    const index = db.transaction(STORE_NAME).objectStore(STORE_NAME).index('storedAt');
+    const keys = await requestToPromise(index.getAllKeys(IDBKeyRange.upperBound(before, true)));
+    if (keys.length > 0) {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await Promise.all(keys.map((key) => requestToPromise(store.delete(key))));
+    }
+  }
+
+  async get(key: string): Promise<CachedTranslation | undefined> {
+    const db = await this.open();
+    return requestToPromise(db.transaction(STORE_NAME).objectStore(STORE_NAME).get(key));
+  }
+
+  async set(entry: CachedTranslation): Promise<void> {
+    const db = await this.open();
+    await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+  }
+
+  async deleteProvider(provider: string): Promise<void> {
+    const db = await this.open();
+    const index = db.transaction(STORE_NAME).objectStore(STORE_NAME).index('provider');
+    const keys = await requestToPromise(index.getAllKeys(provider));
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    await Promise.all(keys.map((key) => requestToPromise(store.delete(key))));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    await requestToPromise(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+  }
+
+  async count(): Promise<number> {
+    const db = await this.open();
+    return requestToPromise(db.transaction(STORE_NAME).objectStore(STORE_NAME).count());
+  }
+}
+
+export class TranslationCache {
+  private maxEntries: number;
+  private store: TranslationCacheStore | null;
+  // Map iteration order doubles as recency order: oldest first
+  private entries: Map<string, CachedTranslation> = new Map();
+  private stats = { hits: 0, misses: 0, memoryHits: 0, persistentHits: 0 };
+
+  constructor(options: TranslationCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.store = options.store ?? null;
+  }
+
+  /**
+   * Find a cached translation from the first provider in the chain that has one
+   */
+  async lookup(text: string, sourceLang: string, targetLang: string, providers: string[]): Promise<CacheHit | null> {
+    const keys = providers.map((provider) => createCacheKey(text, sourceLang, targetLang, provider));
+
+    for (const key of keys) {
+      const entry = this.entries.get(key);
+      if (entry) {
+        this.touch(entry);
+        this.stats.hits++;
+        this.stats.memoryHits++;
+        return { translation: entry.translation, provider: entry.provider };
+      }
+    }
+
+    if (this.store) {
+      for (const key of keys) {
+        try {
+          const entry = await this.store.get(key);
+          if (entry) {
+            this.touch(entry);
+            this.stats.hits++;
+            this.stats.persistentHits++;
+            return { translation: entry.translation, provider: entry.provider };
+          }
+        } catch (error) {
+          console.warn('Translation cache read failed:', error);
+          break;
+        }
+      }
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  /**
+   * Remember a translation in memory and, if available, the persistent store
+   */
+  set(text: string, sourceLang: string, targetLang: string, provider: string, translation: string): void {
+    const entry: CachedTranslation = {
+      key: createCacheKey(text, sourceLang, targetLang, provider),
+      provider,
+      translation,
+      storedAt: Date.now(),
+    };
+    this.touch(entry);
+
+    this.store?.set(entry).catch((error) => {
+      console.warn('Translation cache write failed:', error);
+    });
+  }
+
+  /**
+   * Drop cached translations, from one provider or all of them
+   * Call this whenever something that shapes translations changes (provider config, glossary).
+   */
+  async invalidate(provider?: string): Promise<void> {
+    if (provider === undefined) {
+      this.entries.clear();
+    } else {
+      for (const [key, entry] of this.entries) {
+        if (entry.provider === provider) {
+          this.entries.delete(key);
+        }
+      }
+    }
+
+    try {
+      await (provider === undefined ? this.store?.clear() : this.store?.deleteProvider(provider));
+    } catch (error) {
+      console.warn('Translation cache invalidation failed:', error);
+    }
+  }
+
+  /**
+   * Get hit/miss counters and the number of entries held in memory
+   */
+  getStats(): TranslationCacheStats {
+    return { ...this.stats, size: this.entries.size };
+  }
+
+  /**
+   * Count the translations in the persistent store
+   */
+  async getPersistedCount(): Promise<number> {
+    if (!this.store) {
+      return 0;
+    }
+    try {
+      return await this.store.count();
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Check whether translations survive a reload
+   */
+  isPersistent(): boolean {
+    return this.store !== null;
+  }
+
+  /**
+   * Reset hit/miss counters
+   */
+  resetStats(): void {
+    this.stats = { hits: 0, misses: 0, memoryHits: 0, persistentHits: 0 };
+  }
+
+  /**
+   * Mark an entry most recently used, evicting the least recently used past capacity
+   */
+  private touch(entry: CachedTranslation): void {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+}
+
+let sharedCache: TranslationCache | null = null;
+
+/**
+ * Get the tab-wide cache used by the app
+ * NEXT_PUBLIC_TRANSLATION_CACHE=memory keeps translations out of IndexedDB.
+ */
+export function getSharedTranslationCache(): TranslationCache {
+  if (!sharedCache) {
+    const persist = process.env.NEXT_PUBLIC_TRANSLATION_CACHE !== 'memory' && IndexedDBTranslationStore.isSupported();
+    sharedCache = new TranslationCache({ store: persist ? new IndexedDBTranslationStore() : null });
+  }
+  return sharedCache;
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import * as fc from 'fast-check';
+import { TranslationProxy } from './TranslationProxy';
+import { TranslationService } from './TranslationService';
+import { TranslationProvider } from './providers';
+
+describe('TranslationProxy', () => {
+  let translate: Mock<TranslationProvider['translate']>;
+  let service: TranslationService;
+
+  beforeEach(() => {
+    translate = vi.fn(async (text: string) => `translated ${text}`);
+    service = new TranslationService({ providers: [{ name: 'p', translate }] });
+  });
+
+  it('should translate valid requests', async () => {
+    const proxy = new TranslationProxy({ service });
+
+    const response = await proxy.handle({ text: 'Hello', sourceLang: 'en-US', targetLang: 'es' }, '10.0.0.1');
+
+    expect(response).toEqual({
+      status: 200,
+      body: { translatedText: 'translated Hello', sourceLanguage: 'en-US', targetLanguage: 'es', service: 'p' },
+    });
+  });
+
+  it('should reject malformed requests without calling providers', async () => {
+    const proxy = new TranslationProxy({ service, maxTextLength: 10 });
+
+    const bodies = [
+      null,
+      'Hello',
+      { text: '', sourceLang: 'en', targetLang: 'es' },
+      { text: 'far too long for this', sourceLang: 'en', targetLang: 'es' },
+      { text: 'Hello', sourceLang: 'english', targetLang: 'es' },
+      { text: 'Hello', sourceLang: 'en', targetLang: 42 },
+      { text: 'Hello', sourceLang: 'en', targetLang: 'es', sessionId: '../../etc' },
+    ];
+
+    for (const body of bodies) {
+      expect((await proxy.handle(body)).status).toBe(400);
+    }
+    expect(translate).not.toHaveBeenCalled();
+  });
+
+  it('should share one provider call between identical requests in flight', async () => {
+    let resolve!: (value: string) => void;
+    translate.mockImplementationOnce(() => new Promise((r) => { resolve = r; }));
+    const proxy = new TranslationProxy({ service });
+
+    const first = proxy.handle({ text: 'Can you hear me?', sourceLang: 'en', targetLang: 'es', sessionId: 'a' });
+    const second = proxy.handle({ text: 'can you hear me?', sourceLang: 'en', targetLang: 'es', sessionId: 'b' });
+    await vi.waitFor(() => expect(translate).toHaveBeenCalledTimes(1));
+    resolve('¿Me oyes?');
+
+    expect((await first).body).toEqual((await second).body);
+    expect(translate).toHaveBeenCalledTimes(1);
+    expect((proxy as unknown as { inFlight: Map<string, unknown> }).inFlight.size).toBe(0);
+  });
+
+  it('should rate limit each session within a window', async () => {
+    const proxy = new TranslationProxy({ service, sessionLimit: 2, window: 60000 });
+    const request = (sessionId: string) => ({ text: 'Hello', sourceLang: 'en', targetLang: 'es', sessionId });
+
+    expect((await proxy.handle(request('a'), null, 0)).status).toBe(200);
+    expect((await proxy.handle(request('a'), null, 1000)).status).toBe(200);
+    expect(await proxy.handle(request('a'), null, 2000)).toMatchObject({ status: 429, retryAfter: 58 });
+    expect((await proxy.handle(request('b'), null, 2000)).status).toBe(200);
+    expect((await proxy.handle(request('a'), null, 60000)).status).toBe(200);
+  });
+
+  it('should cap a client address across all of its sessions', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 10 }), fc.integer({ min: 0, max: 30 }), async (addressLimit, requests) => {
+        const proxy = new TranslationProxy({ service, addressLimit });
+        let allowed = 0;
+        for (let i = 0; i < requests; i++) {
+          const response = await proxy.handle({ text: 'Hi', sourceLang: 'en', targetLang: 'de', sessionId: `s${i}` }, '10.0.0.1', 0);
+          if (response.status === 200) allowed++;
+        }
+        expect(allowed).toBe(Math.min(requests, addressLimit));
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
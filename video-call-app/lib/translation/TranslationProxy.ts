@@ -0,0 +1,149 @@
+// Server side of the translation proxy: validates requests, rate limits them
+// per session and per client address, and shares one provider call between
+// identical requests in flight
+
+import { createCacheKey } from './TranslationCache';
+import { TranslationResult, TranslationService } from './TranslationService';
+
+export interface TranslationProxyOptions {
+  service: TranslationService;
+  // Requests allowed per window for one session
+  sessionLimit?: number;
+  // Requests allowed per window for one client address, across its sessions
+  addressLimit?: number;
+  window?: number;
+  maxTextLength?: number;
+}
+
+export interface TranslationProxyRequest {
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  // Rate limiting key chosen by the client, e.g. one per tab
+  sessionId?: string;
+}
+
+export type TranslationProxyResponse =
+  | { status: 200; body: TranslationResult }
+  | { status: 400 | 429; body: { error: string }; retryAfter?: number };
+
+interface RateWindow {
+  count: number;
+  resetAt: number;
+}
+
+const DEFAULT_SESSION_LIMIT = 60;
+const DEFAULT_ADDRESS_LIMIT = 240;
+const DEFAULT_WINDOW = 60000;
+const DEFAULT_MAX_TEXT_LENGTH = 1000;
+// Expired windows are swept once this many are being tracked
+const RATE_WINDOW_SWEEP_SIZE = 1000;
+const LANGUAGE_PATTERN = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/;
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export class TranslationProxy {
+  private service: TranslationService;
+  private sessionLimit: number;
+  private addressLimit: number;
+  private window: number;
+  private maxTextLength: number;
+  private rateWindows: Map<string, RateWindow> = new Map();
+  private inFlight: Map<string, Promise<TranslationResult>> = new Map();
+
+  constructor(options: TranslationProxyOptions) {
+    this.service = options.service;
+    this.sessionLimit = options.sessionLimit ?? DEFAULT_SESSION_LIMIT;
+    this.addressLimit = options.addressLimit ?? DEFAULT_ADDRESS_LIMIT;
+    this.window = options.window ?? DEFAULT_WINDOW;
+    this.maxTextLength = options.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH;
+  }
+
+  /**
+   * Handle one translation request body from a client address
+   */
+  async handle(body: unknown, address: string | null = null, now: number = Date.now()): Promise<TranslationProxyResponse> {
+    const error = this.validate(body);
+    if (error) {
+      return { status: 400, body: { error } };
+    }
+    const { text, sourceLang, targetLang, sessionId } = body as TranslationProxyRequest;
+
+    const retryAfter = this.consume(`address:${address || 'unknown'}`, this.addressLimit, now)
+      ?? (sessionId ? this.consume(`session:${sessionId}`, this.sessionLimit, now) : null);
+    if (retryAfter !== null) {
+      return { status: 429, body: { error: 'Too many translation requests' }, retryAfter };
+    }
+
+    return { status: 200, body: await this.translate(text, sourceLang, targetLang) };
+  }
+
+  /**
+   * Translate, joining an identical request that is already in flight
+   */
+  translate(text: string, sourceLang: string, targetLang: string): Promise<TranslationResult> {
+    const key = createCacheKey(text, sourceLang, targetLang, '');
+    let pending = this.inFlight.get(key);
+
+    if (!pending) {
+      pending = this.service.translate(text, sourceLang, targetLang).finally(() => {
+        this.inFlight.delete(key);
+      });
+      this.inFlight.set(key, pending);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Check a request body, returning what is wrong with it
+   */
+  private validate(body: unknown): string | null {
+    if (typeof body !== 'object' || body === null) {
+      return 'Expected a JSON object';
+    }
+    const { text, sourceLang, targetLang, sessionId } = body as Record<string, unknown>;
+
+    if (typeof text !== 'string' || text.trim() === '') {
+      return 'text must be a non-empty string';
+    }
+    if (text.length > this.maxTextLength) {
+      return `text must be at most ${this.maxTextLength} characters`;
+    }
+    if (typeof sourceLang !== 'string' || !LANGUAGE_PATTERN.test(sourceLang)) {
+      return 'sourceLang must be a language code';
+    }
+    if (typeof targetLang !== 'string' || !LANGUAGE_PATTERN.test(targetLang)) {
+      return 'targetLang must be a language code';
+    }
+    if (sessionId !== undefined && (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId))) {
+      return 'Invalid session id';
+    }
+    return null;
+  }
+
+  /**
+   * Count a request against a fixed window
+   * Returns null when allowed, or the seconds until the window resets.
+   */
+  private consume(key: string, limit: number, now: number): number | null {
+    if (this.rateWindows.size >= RATE_WINDOW_SWEEP_SIZE) {
+      this.rateWindows.forEach((window, windowKey) => {
+        if (window.resetAt <= now) {
+          this.rateWindows.delete(windowKey);
+        }
+      });
+    }
+
+    let window = this.rateWindows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.window };
+      this.rateWindows.set(key, window);
+    }
+
+    if (window.count >= limit) {
+      return Math.ceil((window.resetAt - now) / 1000);
+    }
+    window.count++;
+    return null;
+  }
+}
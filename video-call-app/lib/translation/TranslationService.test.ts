@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import * as fc from 'fast-check';
 import { TranslationService } from './TranslationService';
+import { TranslationProvider } from './providers';
 
 // Mock fetch globally
 globalThis.fetch = vi.fn() as any;
@@ -267,4 +268,92 @@ describe('TranslationService', () => {
       expect(globalThis.fetch).toHaveBeenCalledTimes(1);
     });
   });
+
+  describe('Provider chain', () => {
+    const provider = (name: string, translate: TranslationProvider['translate'], timeout?: number): TranslationProvider =>
+      ({ name, translate: vi.fn(translate), timeout });
+    const failing = (name: string) => provider(name, async () => { throw new Error(`${name} down`); });
+
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('should try providers in the configured order and report which one translated', async () => {
+      const first = failing('self-hosted');
+      const second = provider('deepl', async (text, source, target) => `${text}:${source}->${target}`);
+      const chained = new TranslationService({ providers: [first, second] });
+
+      const result = await chained.translate('Hello', 'en-US', 'es-ES');
+
+      expect(first.translate).toHaveBeenCalled();
+      expect(result).toEqual({
+        translatedText: 'Hello:en->es',
+        sourceLanguage: 'en-US',
+        targetLanguage: 'es-ES',
+        service: 'deepl',
+      });
+    });
+
+    it('should give up on a provider that exceeds its timeout', async () => {
+      const slow = provider('slow', (_text, _source, _target, signal) => new Promise((_, reject) => {
+        signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      }), 20);
+      const fast = provider('fast', async () => 'Hola');
+      const chained = new TranslationService({ providers: [slow, fast], timeout: 5000 });
+
+      const result = await chained.translate('Hello', 'en', 'es');
+
+      expect(result.service).toBe('fast');
+      expect(chained.getProviderHealth()[0].lastError).toBe('slow timed out after 20ms');
+    });
+
+    it('should skip a provider that keeps failing until its cooldown ends', async () => {
+      vi.useFakeTimers();
+      try {
+        const flaky = failing('flaky');
+        const backup = provider('backup', async () => 'Hola');
+        const chained = new TranslationService({ providers: [flaky, backup], failureThreshold: 2, cooldown: 1000 });
+
+        await chained.translate('Hello', 'en', 'es');
+        await chained.translate('Hello', 'en', 'es');
+        await chained.translate('Hello', 'en', 'es');
+        expect(flaky.translate).toHaveBeenCalledTimes(2);
+        expect(chained.getProviderHealth()[0]).toMatchObject({ name: 'flaky', consecutiveFailures: 2 });
+
+        vi.advanceTimersByTime(1001);
+        await chained.translate('Hello', 'en', 'es');
+        expect(flaky.translate).toHaveBeenCalledTimes(3);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should still try skipped providers when every provider is failing', async () => {
+      const only = failing('only');
+      const chained = new TranslationService({ providers: [only], failureThreshold: 1 });
+
+      await chained.translate('Hello', 'en', 'es');
+      const result = await chained.translate('Hello', 'en', 'es');
+
+      expect(only.translate).toHaveBeenCalledTimes(2);
+      expect(result.service).toBe('fallback');
+    });
+
+    it('should reset a provider\'s health once it succeeds', async () => {
+      let fail = true;
+      const recovering = provider('recovering', async () => {
+        if (fail) throw new Error('down');
+        return 'Hola';
+      });
+      const chained = new TranslationService({ providers: [recovering] });
+
+      await chained.translate('Hello', 'en', 'es');
+      fail = false;
+      await chained.translate('Hello', 'en', 'es');
+
+      expect(chained.getProviderHealth()).toEqual([
+        { name: 'recovering', consecutiveFailures: 0, skippedUntil: 0, lastError: null },
+      ]);
+    });
+  });
 });
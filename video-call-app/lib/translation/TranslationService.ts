@@ -1,6 +1,9 @@
-// Translation Service using free translation APIs
+// Translation Service: tries an ordered chain of translation providers,
+// skipping ones that keep failing
 
 import { Language } from '@/types';
+import { getTranslationProviders, TranslationProvider } from './providers';
+import { TranslationCache } from './TranslationCache';
 
 export interface TranslationRequest {
   text: string;
@@ -12,19 +15,64 @@ export interface TranslationResult {
   translatedText: string;
   sourceLanguage: string;
   targetLanguage: string;
-  service: 'libretranslate' | 'mymemory' | 'fallback';
+  // Name of the provider that translated, or 'fallback' for untranslated text
+  service: string;
 }
 
+export interface TranslationServiceOptions {
+  providers?: TranslationProvider[];
+  // Without a cache every call goes to the providers
+  cache?: TranslationCache | null;
+  timeout?: number;
+  failureThreshold?: number;
+  cooldown?: number;
+}
+
+export interface ProviderHealth {
+  name: string;
+  consecutiveFailures: number;
+  skippedUntil: number;
+  lastError: string | null;
+}
+
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN = 60000;
+
+// Languages captions and chat can be translated into, available before any service exists
+export const SUPPORTED_LANGUAGES: Language[] = [
+  { code: 'en', name: 'English' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'ru', name: 'Russian' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'zh', name: 'Chinese' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'tr', name: 'Turkish' },
+];
+
 export class TranslationService {
-  private libreTranslateEndpoint: string;
-  private myMemoryEndpoint: string;
-
-  constructor(
-    libreTranslateEndpoint: string = 'https://libretranslate.com/translate',
-    myMemoryEndpoint: string = 'https://api.mymemory.translated.net/get'
-  ) {
-    this.libreTranslateEndpoint = libreTranslateEndpoint;
-    this.myMemoryEndpoint = myMemoryEndpoint;
+  private providers: TranslationProvider[];
+  private cache: TranslationCache | null;
+  private timeout: number;
+  private failureThreshold: number;
+  private cooldown: number;
+  private health: Map<string, ProviderHealth> = new Map();
+
+  constructor(options: TranslationServiceOptions = {}) {
+    this.providers = options.providers ?? getTranslationProviders();
+    this.cache = options.cache ?? null;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldown = options.cooldown ?? DEFAULT_COOLDOWN;
+    this.providers.forEach((provider) => this.resetHealth(provider.name));
   }
 
   /**
@@ -45,30 +93,34 @@ export class TranslationService {
       };
     }
 
-    // Try LibreTranslate first
-    try {
-      const result = await this.translateWithLibreTranslate(text, sourceLang, targetLang);
+    const source = this.normalizeLanguageCode(sourceLang);
+    const target = this.normalizeLanguageCode(targetLang);
+
+    const cached = await this.cache?.lookup(text, source, target, this.getProviderNames());
+    if (cached) {
       return {
-        translatedText: result,
+        translatedText: cached.translation,
         sourceLanguage: sourceLang,
         targetLanguage: targetLang,
-        service: 'libretranslate',
+        service: cached.provider,
       };
-    } catch (error) {
-      console.warn('LibreTranslate failed, trying MyMemory:', error);
     }
 
-    // Fallback to MyMemory
-    try {
-      const result = await this.translateWithMyMemory(text, sourceLang, targetLang);
-      return {
-        translatedText: result,
-        sourceLanguage: sourceLang,
-        targetLanguage: targetLang,
-        service: 'mymemory',
-      };
-    } catch (error) {
-      console.error('MyMemory translation failed:', error);
+    for (const provider of this.getProviderOrder()) {
+      try {
+        const result = await this.translateWithProvider(provider, text, source, target);
+        this.recordSuccess(provider);
+        this.cache?.set(text, source, target, provider.name, result);
+        return {
+          translatedText: result,
+          sourceLanguage: sourceLang,
+          targetLanguage: targetLang,
+          service: provider.name,
+        };
+      } catch (error) {
+        this.recordFailure(provider, error);
+        console.warn(`${provider.name} translation failed:`, error);
+      }
     }
 
     // Final fallback: return original text
@@ -82,59 +134,114 @@ export class TranslationService {
   }
 
   /**
-   * Translate using LibreTranslate API
+   * Providers to try, in order
+   * Providers cooling down after repeated failures are skipped, unless all of them are.
+   */
+  private getProviderOrder(): TranslationProvider[] {
+    const now = Date.now();
+    const healthy = this.providers.filter(
+      (provider) => (this.health.get(provider.name)?.skippedUntil ?? 0) <= now
+    );
+    return healthy.length > 0 ? healthy : this.providers;
+  }
+
+  /**
+   * Run one provider, giving up once its timeout elapses
    */
-  private async translateWithLibreTranslate(
+  private async translateWithProvider(
+    provider: TranslationProvider,
     text: string,
     sourceLang: string,
     targetLang: string
   ): Promise<string> {
-    const response = await fetch(this.libreTranslateEndpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        q: text,
-        source: this.normalizeLanguageCode(sourceLang),
-        target: this.normalizeLanguageCode(targetLang),
-        format: 'text',
-      }),
+    const timeout = provider.timeout ?? this.timeout;
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new Error(`${provider.name} timed out after ${timeout}ms`));
+        controller.abort();
+      }, timeout);
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`LibreTranslate API error: ${response.status} - ${errorText}`);
+    try {
+      return await Promise.race([
+        provider.translate(text, sourceLang, targetLang, controller.signal),
+        timedOut,
+      ]);
+    } finally {
+      clearTimeout(timer);
     }
-
-    const data = await response.json();
-    return data.translatedText;
   }
 
   /**
-   * Translate using MyMemory API
+   * Mark a provider healthy again
    */
-  private async translateWithMyMemory(
-    text: string,
-    sourceLang: string,
-    targetLang: string
-  ): Promise<string> {
-    const langPair = `${this.normalizeLanguageCode(sourceLang)}|${this.normalizeLanguageCode(targetLang)}`;
-    const url = `${this.myMemoryEndpoint}?q=${encodeURIComponent(text)}&langpair=${langPair}`;
+  private recordSuccess(provider: TranslationProvider): void {
+    this.resetHealth(provider.name);
+  }
 
-    const response = await fetch(url);
+  /**
+   * Count a failure, skipping the provider for a while once it keeps failing
+   */
+  private recordFailure(provider: TranslationProvider, error: unknown): void {
+    const health = this.health.get(provider.name) ?? this.resetHealth(provider.name);
+    health.consecutiveFailures++;
+    health.lastError = error instanceof Error ? error.message : String(error);
 
-    if (!response.ok) {
-      throw new Error(`MyMemory API error: ${response.status}`);
+    if (health.consecutiveFailures >= this.failureThreshold) {
+      health.skippedUntil = Date.now() + this.cooldown;
+      if (health.consecutiveFailures === this.failureThreshold) {
+        console.warn(`⏸️ Skipping ${provider.name} for ${this.cooldown / 1000}s after ${health.consecutiveFailures} failures`);
+      }
     }
+  }
 
-    const data = await response.json();
+  /**
+   * Reset a provider's health record
+   */
+  private resetHealth(name: string): ProviderHealth {
+    const health: ProviderHealth = { name, consecutiveFailures: 0, skippedUntil: 0, lastError: null };
+    this.health.set(name, health);
+    return health;
+  }
 
-    if (data.responseStatus !== 200) {
-      throw new Error(`MyMemory API error: ${data.responseStatus} - ${data.responseDetails}`);
+  /**
+   * Get the health of every provider in the chain, in order
+   */
+  getProviderHealth(): ProviderHealth[] {
+    return this.providers.map((provider) => ({ ...this.health.get(provider.name)! }));
+  }
+
+  /**
+   * Replace the provider chain
+   * Cached translations from the previous providers are dropped, since a provider
+   * with the same name may now be configured differently.
+   */
+  async setProviders(providers: TranslationProvider[]): Promise<void> {
+    const previous = this.getProviderNames();
+    this.providers = providers;
+    this.health.clear();
+    this.providers.forEach((provider) => this.resetHealth(provider.name));
+
+    if (this.cache) {
+      await Promise.all(previous.map((name) => this.cache!.invalidate(name)));
     }
+  }
 
-    return data.responseData.translatedText;
+  /**
+   * Get the cache, if translations are cached
+   */
+  getCache(): TranslationCache | null {
+    return this.cache;
+  }
+
+  /**
+   * Get the names of the providers in the chain, in order
+   */
+  getProviderNames(): string[] {
+    return this.providers.map((provider) => provider.name);
   }
 
   /**
@@ -157,23 +264,7 @@ export class TranslationService {
    * Get list of supported languages
    */
   getSupportedLanguages(): Language[] {
-    return [
-      { code: 'en', name: 'English' },
-      { code: 'es', name: 'Spanish' },
-      { code: 'fr', name: 'French' },
-      { code: 'de', name: 'German' },
-      { code: 'it', name: 'Italian' },
-      { code: 'pt', name: 'Portuguese' },
-      { code: 'ru', name: 'Russian' },
-      { code: 'ja', name: 'Japanese' },
-      { code: 'ko', name: 'Korean' },
-      { code: 'zh', name: 'Chinese' },
-      { code: 'ar', name: 'Arabic' },
-      { code: 'hi', name: 'Hindi' },
-      { code: 'nl', name: 'Dutch' },
-      { code: 'pl', name: 'Polish' },
-      { code: 'tr', name: 'Turkish' },
-    ];
+    return SUPPORTED_LANGUAGES;
   }
 
   /**
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createTranslationProvider,
+  DeepLProvider,
+  getTranslationProviders,
+  LibreTranslateProvider,
+  MyMemoryProvider,
+  parseTranslationProviders,
+  ProxyTranslationProvider,
+} from './providers';
+
+describe('translation providers', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should create providers from their config', () => {
+    expect(createTranslationProvider({ type: 'libretranslate', endpoint: 'http://localhost:5000/translate' }))
+      .toBeInstanceOf(LibreTranslateProvider);
+    expect(createTranslationProvider({ type: 'mymemory' })).toBeInstanceOf(MyMemoryProvider);
+    expect(createTranslationProvider({ type: 'deepl', endpoint: 'https://api-free.deepl.com/v2/translate', name: 'deepl-free' }).name)
+      .toBe('deepl-free');
+    expect(() => createTranslationProvider({ type: 'babelfish' } as never)).toThrow('Unknown translation provider type');
+  });
+
+  it('should parse the provider chain in order', () => {
+    const providers = parseTranslationProviders(JSON.stringify([
+      { type: 'libretranslate', name: 'argos-local', endpoint: 'http://localhost:5000/translate', timeout: 1000 },
+      { type: 'mymemory' },
+    ]));
+
+    expect(providers.map((provider) => provider.name)).toEqual(['argos-local', 'mymemory']);
+    expect(providers[0].timeout).toBe(1000);
+  });
+
+  it('should fall back to the default chain when the config is missing or invalid', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(parseTranslationProviders(undefined).map((provider) => provider.name)).toEqual(['libretranslate', 'mymemory']);
+    expect(parseTranslationProviders('not json').map((provider) => provider.name)).toEqual(['libretranslate', 'mymemory']);
+    expect(parseTranslationProviders('[]').map((provider) => provider.name)).toEqual(['libretranslate', 'mymemory']);
+  });
+
+  it('should send the LibreTranslate API key when configured', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: true, json: async () => ({ translatedText: 'Hola' }) });
+    const provider = new LibreTranslateProvider({ endpoint: 'http://localhost:5000/translate', apiKey: 'secret' });
+
+    await expect(provider.translate('Hello', 'en', 'es')).resolves.toBe('Hola');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      q: 'Hello',
+      source: 'en',
+      target: 'es',
+      format: 'text',
+      api_key: 'secret',
+    });
+  });
+
+  it('should speak the DeepL v2 API', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: true, json: async () => ({ translations: [{ text: 'Hallo' }] }) });
+    const provider = new DeepLProvider({ endpoint: 'https://api-free.deepl.com/v2/translate', authKey: 'key' });
+
+    await expect(provider.translate('Hello', 'en', 'de')).resolves.toBe('Hallo');
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers.Authorization).toBe('DeepL-Auth-Key key');
+    expect(JSON.parse(init.body)).toEqual({ text: ['Hello'], source_lang: 'EN', target_lang: 'DE' });
+  });
+
+  it('should reject DeepL responses without a translation', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: true, json: async () => ({ translations: [] }) });
+    const provider = new DeepLProvider({ endpoint: 'https://api-free.deepl.com/v2/translate' });
+
+    await expect(provider.translate('Hello', 'en', 'de')).rejects.toThrow('no translation');
+  });
+
+  it('should only talk to the proxy route in proxy mode', () => {
+    const providers = getTranslationProviders('proxy');
+
+    expect(providers).toHaveLength(1);
+    expect(providers[0]).toBeInstanceOf(ProxyTranslationProvider);
+    expect(getTranslationProviders(undefined).map((provider) => provider.name)).toEqual(['libretranslate', 'mymemory']);
+  });
+
+  it('should send its session id to the proxy route', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ translatedText: 'Hola', service: 'deepl' }) });
+    const provider = new ProxyTranslationProvider({ sessionId: 'tab-1' });
+
+    await expect(provider.translate('Hello', 'en', 'es')).resolves.toBe('Hola');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/translate');
+    expect(JSON.parse(init.body)).toEqual({ text: 'Hello', sourceLang: 'en', targetLang: 'es', sessionId: 'tab-1' });
+  });
+
+  it('should reject when the proxy is rate limited or could not translate', async () => {
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers({ 'Retry-After': '12' }) });
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ translatedText: 'Hello', service: 'fallback' }) });
+    const provider = new ProxyTranslationProvider();
+
+    await expect(provider.translate('Hello', 'en', 'es')).rejects.toThrow('retry after 12s');
+    await expect(provider.translate('Hello', 'en', 'es')).rejects.toThrow('no provider could translate');
+  });
+});
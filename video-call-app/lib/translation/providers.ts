@@ -0,0 +1,299 @@
+// Translation providers: each wraps one translation API behind a common interface
+// so TranslationService can try them in a configurable order
+
+export interface TranslationProvider {
+  name: string;
+  // Overrides the service-wide timeout for this provider
+  timeout?: number;
+  /**
+   * Translate text between two normalized language codes (e.g. 'en', 'es')
+   * Rejects on any failure; the signal aborts the request when the provider times out.
+   */
+  translate(text: string, sourceLang: string, targetLang: string, signal?: AbortSignal): Promise<string>;
+}
+
+interface ProviderConfigBase {
+  name?: string;
+  timeout?: number;
+}
+
+export interface LibreTranslateConfig extends ProviderConfigBase {
+  type: 'libretranslate';
+  endpoint: string;
+  apiKey?: string;
+}
+
+export interface MyMemoryConfig extends ProviderConfigBase {
+  type: 'mymemory';
+  endpoint?: string;
+  email?: string;
+}
+
+export interface DeepLConfig extends ProviderConfigBase {
+  type: 'deepl';
+  endpoint: string;
+  authKey?: string;
+}
+
+export type TranslationProviderConfig = LibreTranslateConfig | MyMemoryConfig | DeepLConfig;
+
+export const DEFAULT_LIBRETRANSLATE_ENDPOINT = 'https://libretranslate.com/translate';
+export const DEFAULT_MYMEMORY_ENDPOINT = 'https://api.mymemory.translated.net/get';
+export const DEFAULT_PROXY_ENDPOINT = '/api/translate';
+
+export interface ProxyProviderConfig {
+  name?: string;
+  timeout?: number;
+  endpoint?: string;
+  // Rate limiting key sent to the proxy; one is generated per provider if omitted
+  sessionId?: string;
+}
+
+/**
+ * LibreTranslate, hosted or self-hosted (including Argos Translate offline models)
+ */
+export class LibreTranslateProvider implements TranslationProvider {
+  name: string;
+  timeout?: number;
+  private endpoint: string;
+  private apiKey?: string;
+
+  constructor(config: Omit<LibreTranslateConfig, 'type'>) {
+    this.name = config.name || 'libretranslate';
+    this.timeout = config.timeout;
+    this.endpoint = config.endpoint;
+    this.apiKey = config.apiKey;
+  }
+
+  async translate(text: string, sourceLang: string, targetLang: string, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        q: text,
+        source: sourceLang,
+        target: targetLang,
+        format: 'text',
+        ...(this.apiKey ? { api_key: this.apiKey } : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`LibreTranslate API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json();
+    return data.translatedText;
+  }
+}
+
+/**
+ * MyMemory free translation memory API
+ */
+export class MyMemoryProvider implements TranslationProvider {
+  name: string;
+  timeout?: number;
+  private endpoint: string;
+  private email?: string;
+
+  constructor(config: Omit<MyMemoryConfig, 'type'> = {}) {
+    this.name = config.name || 'mymemory';
+    this.timeout = config.timeout;
+    this.endpoint = config.endpoint || DEFAULT_MYMEMORY_ENDPOINT;
+    this.email = config.email;
+  }
+
+  async translate(text: string, sourceLang: string, targetLang: string, signal?: AbortSignal): Promise<string> {
+    const langPair = `${sourceLang}|${targetLang}`;
+    // A contact email raises MyMemory's daily quota
+    const email = this.email ? `&de=${encodeURIComponent(this.email)}` : '';
+    const url = `${this.endpoint}?q=${encodeURIComponent(text)}&langpair=${langPair}${email}`;
+
+    const response = await fetch(url, { signal });
+
+    if (!response.ok) {
+      throw new Error(`MyMemory API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    if (data.responseStatus !== 200) {
+      throw new Error(`MyMemory API error: ${data.responseStatus} - ${data.responseDetails}`);
+    }
+
+    return data.responseData.translatedText;
+  }
+}
+
+/**
+ * DeepL or any server implementing the DeepL v2 translate API
+ */
+export class DeepLProvider implements TranslationProvider {
+  name: string;
+  timeout?: number;
+  private endpoint: string;
+  private authKey?: string;
+
+  constructor(config: Omit<DeepLConfig, 'type'>) {
+    this.name = config.name || 'deepl';
+    this.timeout = config.timeout;
+    this.endpoint = config.endpoint;
+    this.authKey = config.authKey;
+  }
+
+  async translate(text: string, sourceLang: string, targetLang: string, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.authKey ? { Authorization: `DeepL-Auth-Key ${this.authKey}` } : {}),
+      },
+      body: JSON.stringify({
+        text: [text],
+        source_lang: sourceLang.toUpperCase(),
+        target_lang: targetLang.toUpperCase(),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`DeepL API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const translation = data.translations?.[0]?.text;
+    if (typeof translation !== 'string') {
+      throw new Error('DeepL API error: response has no translation');
+    }
+    return translation;
+  }
+}
+
+/**
+ * The app's own /api/translate route, which runs the provider chain on the server
+ */
+export class ProxyTranslationProvider implements TranslationProvider {
+  name: string;
+  timeout?: number;
+  private endpoint: string;
+  private sessionId: string;
+
+  constructor(config: ProxyProviderConfig = {}) {
+    this.name = config.name || 'proxy';
+    this.timeout = config.timeout;
+    this.endpoint = config.endpoint || DEFAULT_PROXY_ENDPOINT;
+    this.sessionId = config.sessionId || generateSessionId();
+  }
+
+  async translate(text: string, sourceLang: string, targetLang: string, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ text, sourceLang, targetLang, sessionId: this.sessionId }),
+      signal,
+    });
+
+    if (response.status === 429) {
+      throw new Error(`Translation proxy rate limited, retry after ${response.headers.get('Retry-After') ?? '?'}s`);
+    }
+    if (!response.ok) {
+      throw new Error(`Translation proxy error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    // The server falls back to the original text when its whole chain failed
+    if (data.service === 'fallback' || typeof data.translatedText !== 'string') {
+      throw new Error('Translation proxy error: no provider could translate');
+    }
+    return data.translatedText;
+  }
+}
+
+/**
+ * Generate a random rate limiting key for the translation proxy
+ */
+function generateSessionId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Create a provider from its configuration
+ */
+export function createTranslationProvider(config: TranslationProviderConfig): TranslationProvider {
+  switch (config.type) {
+    case 'libretranslate':
+      return new LibreTranslateProvider(config);
+    case 'mymemory':
+      return new MyMemoryProvider(config);
+    case 'deepl':
+      return new DeepLProvider(config);
+    default:
+      throw new Error(`Unknown translation provider type: ${(config as { type?: string }).type}`);
+  }
+}
+
+/**
+ * The public LibreTranslate instance, then MyMemory
+ */
+export function getDefaultTranslationProviders(): TranslationProvider[] {
+  return [
+    new LibreTranslateProvider({ endpoint: DEFAULT_LIBRETRANSLATE_ENDPOINT }),
+    new MyMemoryProvider(),
+  ];
+}
+
+/**
+ * Read the provider chain from NEXT_PUBLIC_TRANSLATION_PROVIDERS
+ * Referenced directly so Next.js can inline it into the client bundle.
+ */
+export function readTranslationProvidersEnv(): string | undefined {
+  return process.env.NEXT_PUBLIC_TRANSLATION_PROVIDERS;
+}
+
+/**
+ * Build the provider chain from a JSON array of provider configs
+ * Falls back to the default chain when unset or invalid.
+ */
+export function parseTranslationProviders(json: string | undefined = readTranslationProvidersEnv()): TranslationProvider[] {
+  if (!json) {
+    return getDefaultTranslationProviders();
+  }
+
+  try {
+    const configs = JSON.parse(json);
+    if (!Array.isArray(configs) || configs.length === 0) {
+      throw new Error('expected a non-empty array of provider configs');
+    }
+    return configs.map((config: TranslationProviderConfig) => createTranslationProvider(config));
+  } catch (error) {
+    console.error('Invalid translation provider config, using defaults:', error);
+    return getDefaultTranslationProviders();
+  }
+}
+
+/**
+ * Read how the browser reaches translation providers from NEXT_PUBLIC_TRANSLATION_MODE
+ * 'proxy' goes through /api/translate; anything else calls the providers directly.
+ */
+export function readTranslationModeEnv(): string | undefined {
+  return process.env.NEXT_PUBLIC_TRANSLATION_MODE;
+}
+
+/**
+ * Build the browser's provider chain for the configured translation mode
+ */
+export function getTranslationProviders(mode: string | undefined = readTranslationModeEnv()): TranslationProvider[] {
+  if (mode === 'proxy') {
+    return [new ProxyTranslationProvider()];
+  }
+  return parseTranslationProviders();
+}
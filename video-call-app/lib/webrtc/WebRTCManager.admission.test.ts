@@ -0,0 +1,316 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebRTCManager, WebRTCManagerConfig } from './WebRTCManager';
+import { createMockConnection, internals, MockConnection, MockPeer, sentOfType } from './testUtils';
+import { createDataMessage } from './dataProtocol';
+import { computePassphraseProof } from './admission';
+
+vi.mock('peerjs', async () => ({ default: (await import('./testUtils')).MockPeer }));
+
+global.navigator = {
+  mediaDevices: {
+    getUserMedia: vi.fn().mockResolvedValue({
+      getTracks: () => [
+        { kind: 'video', enabled: true, stop: vi.fn() },
+        { kind: 'audio', enabled: true, stop: vi.fn() },
+      ],
+      getVideoTracks: () => [{ kind: 'video', enabled: true, stop: vi.fn() }],
+      getAudioTracks: () => [{ kind: 'audio', enabled: true, stop: vi.fn() }],
+    }),
+  },
+} as unknown as Navigator;
+
+describe('WebRTCManager - Admission', () => {
+  let manager: WebRTCManager;
+
+  async function startHost(config: WebRTCManagerConfig) {
+    manager = new WebRTCManager(config);
+    await manager.createSession('host-id');
+    return internals(manager).peer!;
+  }
+
+  // A newcomer dialing the host: data connection opened and media call placed
+  function dialHost(peer: MockPeer, peerId: string) {
+    const conn = createMockConnection(peerId);
+    const call = createMockConnection(peerId);
+    peer.fire('connection', conn);
+    peer.fire('call', call);
+    conn.open = true;
+    conn.handlers['open']();
+    const challenge = sentOfType(conn, 'auth-challenge')[0]?.payload;
+    return { conn, call, challenge };
+  }
+
+  // A guest placed in a room by the signaling server and let in by the host
+  async function joinRoomAsGuest() {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ roomId: 'room-1', peerId: 'guest-1', hostPeerId: 'host-id', role: 'guest', token: 'secret' }),
+      })
+    );
+    manager = new WebRTCManager({ roomEndpoint: '/signaling/rooms' });
+    await manager.joinRoom('room-1');
+    const peer = internals(manager).peer!;
+    const hostConnection = peer.connections[0];
+    hostConnection.open = true;
+    hostConnection.handlers['open']();
+    hostConnection.handlers['data'](createDataMessage('join-admitted', {}, 'host-id'));
+    return { peer, hostConnection };
+  }
+
+  // A guest manager dialing the host: both ends of the data connection wired together and opened
+  async function connectGuest(hostPeer: MockPeer, guest: WebRTCManager) {
+    await vi.waitFor(() => expect(internals(guest).peer?.connections).toHaveLength(1));
+    const guestSide = internals(guest).peer!.connections[0];
+    const hostSide = createMockConnection(internals(guest).peer!.id);
+    guestSide.send.mockImplementation((message) => hostSide.handlers['data'](message));
+    hostSide.send.mockImplementation((message) => guestSide.handlers['data'](message));
+
+    hostPeer.fire('connection', hostSide);
+    guestSide.open = true;
+    hostSide.open = true;
+    guestSide.handlers['open']();
+    hostSide.handlers['open']();
+    return { guestSide, hostSide };
+  }
+
+  function sendJoinRequest(conn: MockConnection, payload: { displayName: string; proof?: string }) {
+    conn.handlers['data'](createDataMessage('join-request', payload, conn.peer));
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    manager.disconnect();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should hold a newcomer until they prove the passphrase', async () => {
+    const peer = await startHost({ passphrase: 'open sesame' });
+    const connected = vi.fn();
+    manager.on('connected', connected);
+
+    const { conn, call, challenge } = dialHost(peer, 'guest-1');
+
+    expect(challenge).toMatchObject({ passphraseRequired: true, approvalRequired: false });
+    expect(call.answer).not.toHaveBeenCalled();
+    expect(manager.getParticipants()).toEqual([]);
+
+    sendJoinRequest(conn, {
+      displayName: 'Ada',
+      proof: await computePassphraseProof('open sesame', challenge.nonce, 'guest-1'),
+    });
+    await vi.waitFor(() => expect(call.answer).toHaveBeenCalled());
+
+    expect(sentOfType(conn, 'join-admitted')).toHaveLength(1);
+    expect(sentOfType(conn, 'participant-list')).toHaveLength(1);
+    expect(manager.getParticipants().map((participant) => participant.peerId)).toEqual(['guest-1']);
+    expect(connected).toHaveBeenCalledWith('guest-1');
+  });
+
+  it('should only finish joining once the host has checked the passphrase', async () => {
+    const hostPeer = await startHost({ passphrase: 'open sesame' });
+    const guest = new WebRTCManager({ passphrase: 'open sesame', displayName: 'Ada' });
+    const connected = vi.fn();
+    const joined = vi.fn();
+    guest.on('connected', connected);
+    guest.startSession('host-id').then(joined);
+    const { guestSide, hostSide } = await connectGuest(hostPeer, guest);
+
+    expect(connected).not.toHaveBeenCalled();
+    expect(guest.sendMessage('chat', { id: 'm1', text: 'hi', timestamp: 0 })).toEqual([]);
+    await vi.waitFor(() => expect(joined).toHaveBeenCalledWith('guest'));
+
+    const admittedAt = hostSide.send.mock.calls.findIndex(([message]) => message.type === 'join-admitted');
+    expect(hostSide.send.mock.invocationCallOrder[admittedAt]).toBeLessThan(joined.mock.invocationCallOrder[0]);
+    expect(connected).toHaveBeenCalledWith('host-id');
+    expect(sentOfType(guestSide, 'chat')).toEqual([]);
+    guest.disconnect();
+  });
+
+  it('should turn a guest away before it finishes joining', async () => {
+    const hostPeer = await startHost({ passphrase: 'open sesame' });
+    const guest = new WebRTCManager({ passphrase: 'guess' });
+    const session = guest.startSession('host-id');
+    await connectGuest(hostPeer, guest);
+
+    await expect(session).rejects.toThrow('Incorrect passphrase.');
+    guest.disconnect();
+  });
+
+  it('should tell a newcomer with the wrong passphrase why they were turned away', async () => {
+    vi.useFakeTimers();
+    const promise = startHost({ passphrase: 'open sesame' });
+    await vi.advanceTimersByTimeAsync(10);
+    const peer = await promise;
+
+    const { conn, call, challenge } = dialHost(peer, 'guest-1');
+    sendJoinRequest(conn, {
+      displayName: 'Mallory',
+      proof: await computePassphraseProof('guess', challenge.nonce, 'guest-1'),
+    });
+    await vi.waitFor(() => expect(sentOfType(conn, 'join-denied')).toHaveLength(1));
+
+    expect(sentOfType(conn, 'join-denied')[0].payload).toEqual({ reason: 'Incorrect passphrase.' });
+    expect(call.close).toHaveBeenCalled();
+    expect(call.answer).not.toHaveBeenCalled();
+    expect(conn.close).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(conn.close).toHaveBeenCalled();
+    expect(manager.getParticipants()).toEqual([]);
+  });
+
+  it('should require a proof when the call has a passphrase', async () => {
+    const peer = await startHost({ passphrase: 'open sesame' });
+
+    const { conn } = dialHost(peer, 'guest-1');
+    sendJoinRequest(conn, { displayName: 'Ada' });
+
+    await vi.waitFor(() =>
+      expect(sentOfType(conn, 'join-denied')[0]?.payload).toEqual({ reason: 'This call needs a passphrase.' })
+    );
+  });
+
+  it('should ask the host before admitting and let them deny', async () => {
+    const peer = await startHost({ requireApproval: true });
+    const admissionsChanged = vi.fn();
+    manager.on('admissions-changed', admissionsChanged);
+
+    const first = dialHost(peer, 'guest-1');
+    const second = dialHost(peer, 'guest-2');
+    expect(first.challenge).toMatchObject({ passphraseRequired: false, approvalRequired: true });
+    sendJoinRequest(first.conn, { displayName: '  Ada  ' });
+    sendJoinRequest(second.conn, { displayName: 'Mallory' });
+    await vi.waitFor(() => expect(manager.getAdmissionRequests()).toHaveLength(2));
+
+    expect(admissionsChanged).toHaveBeenLastCalledWith([
+      { peerId: 'guest-1', displayName: 'Ada' },
+      { peerId: 'guest-2', displayName: 'Mallory' },
+    ]);
+    expect(first.call.answer).not.toHaveBeenCalled();
+
+    manager.denyPeer('guest-2');
+    manager.admitPeer('guest-1');
+    await vi.waitFor(() => expect(first.call.answer).toHaveBeenCalled());
+
+    expect(sentOfType(second.conn, 'join-denied')[0].payload).toEqual({ reason: 'The host declined your request to join.' });
+    expect(second.call.answer).not.toHaveBeenCalled();
+    expect(manager.getAdmissionRequests()).toEqual([]);
+    expect(manager.getParticipants().map((participant) => participant.peerId)).toEqual(['guest-1']);
+  });
+
+  it('should withdraw a request when the newcomer leaves the waiting room', async () => {
+    const peer = await startHost({ requireApproval: true });
+    const { conn, call } = dialHost(peer, 'guest-1');
+    sendJoinRequest(conn, { displayName: 'Ada' });
+    await vi.waitFor(() => expect(manager.getAdmissionRequests()).toHaveLength(1));
+
+    conn.handlers['close']();
+
+    expect(manager.getAdmissionRequests()).toEqual([]);
+    expect(call.close).toHaveBeenCalled();
+  });
+
+  it('should answer the host challenge and leave when turned away', async () => {
+    manager = new WebRTCManager({ passphrase: 'open sesame', displayName: 'Ada' });
+    await manager.joinSession('host-id');
+    const peer = internals(manager).peer!;
+    const hostConnection = peer.connections[0];
+    hostConnection.open = true;
+    hostConnection.handlers['open']();
+    const pending = vi.fn();
+    const denied = vi.fn();
+    manager.on('admission-pending', pending);
+    manager.on('join-denied', denied);
+
+    hostConnection.handlers['data'](
+      createDataMessage('auth-challenge', { nonce: 'nonce-1', passphraseRequired: true, approvalRequired: true }, 'host-id')
+    );
+    await vi.waitFor(() => expect(sentOfType(hostConnection, 'join-request')).toHaveLength(1));
+
+    expect(sentOfType(hostConnection, 'join-request')[0].payload).toEqual({
+      displayName: 'Ada',
+      proof: await computePassphraseProof('open sesame', 'nonce-1', peer.id),
+    });
+    expect(pending).toHaveBeenCalled();
+
+    hostConnection.handlers['data'](createDataMessage('join-denied', { reason: 'The call is full.' }, 'host-id'));
+
+    expect(denied).toHaveBeenCalledWith('The call is full.');
+    expect(hostConnection.close).toHaveBeenCalled();
+    expect(manager.getParticipants()).toEqual([]);
+  });
+
+  it('should let everyone in straight away without a passphrase or approval', async () => {
+    const peer = await startHost({});
+    const conn = createMockConnection('guest-1');
+    const call = createMockConnection('guest-1');
+
+    peer.fire('connection', conn);
+    peer.fire('call', call);
+    await vi.waitFor(() => expect(call.answer).toHaveBeenCalled());
+
+    expect(conn.send).not.toHaveBeenCalled();
+    expect(manager.getParticipants().map((participant) => participant.peerId)).toEqual(['guest-1']);
+  });
+
+  it('should tell the participants already in the call about each newcomer', async () => {
+    const peer = await startHost({});
+    const first = createMockConnection('guest-1');
+    const second = createMockConnection('guest-2');
+
+    [first, second].forEach((conn) => {
+      peer.fire('connection', conn);
+      conn.open = true;
+      conn.handlers['open']();
+    });
+
+    expect(sentOfType(first, 'peer-admitted').map((message) => message.payload)).toEqual([{ peerId: 'guest-2' }]);
+    expect(sentOfType(second, 'participant-list')[0].payload).toEqual({ peerIds: ['guest-1'] });
+    expect(sentOfType(second, 'peer-admitted')).toEqual([]);
+  });
+
+  it('should not answer a peer the host never let in', async () => {
+    const { peer } = await joinRoomAsGuest();
+    vi.useFakeTimers();
+    const conn = createMockConnection('intruder');
+    const call = createMockConnection('intruder');
+
+    peer.fire('connection', conn);
+    peer.fire('call', call);
+    conn.open = true;
+    conn.handlers['data'](createDataMessage('chat', { id: 'm1', text: 'hi', timestamp: 0 }, 'intruder'));
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(call.answer).not.toHaveBeenCalled();
+    expect(call.close).toHaveBeenCalled();
+    expect(conn.close).toHaveBeenCalled();
+    expect(manager.getParticipants().map((participant) => participant.peerId)).toEqual(['host-id']);
+  });
+
+  it('should let a peer in once the host announces them', async () => {
+    const { peer, hostConnection } = await joinRoomAsGuest();
+    const chat = vi.fn();
+    manager.onMessage('chat', chat);
+    const conn = createMockConnection('guest-2');
+    const call = createMockConnection('guest-2');
+
+    // The newcomer's dial can beat the host's announcement
+    peer.fire('connection', conn);
+    peer.fire('call', call);
+    conn.open = true;
+    conn.handlers['data'](createDataMessage('chat', { id: 'm1', text: 'hi', timestamp: 0 }, 'guest-2'));
+    expect(call.answer).not.toHaveBeenCalled();
+
+    hostConnection.handlers['data'](createDataMessage('peer-admitted', { peerId: 'guest-2' }, 'host-id'));
+    await vi.waitFor(() => expect(call.answer).toHaveBeenCalled());
+
+    expect(conn.close).not.toHaveBeenCalled();
+    expect(chat).toHaveBeenCalledTimes(1);
+    expect(manager.getParticipants().map((participant) => participant.peerId)).toEqual(['host-id', 'guest-2']);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebRTCManager } from './WebRTCManager';
+import { internals } from './testUtils';
+
+function createMockTrack(kind: string, deviceId: string) {
+  return {
+    kind,
+    label: deviceId,
+    enabled: true,
+    stop: vi.fn(),
+    addEventListener: vi.fn(),
+    getSettings: () => ({ deviceId }),
+  };
+}
+
+type MockTrack = ReturnType<typeof createMockTrack>;
+
+function createMockStream(tracks: MockTrack[]) {
+  return {
+    getTracks: () => tracks,
+    getVideoTracks: () => tracks.filter((track) => track.kind === 'video'),
+    getAudioTracks: () => tracks.filter((track) => track.kind === 'audio'),
+    addTrack: vi.fn((track: MockTrack) => tracks.push(track)),
+    removeTrack: vi.fn((track: MockTrack) => tracks.splice(tracks.indexOf(track), 1)),
+  };
+}
+
+vi.mock('peerjs', async () => ({ default: (await import('./testUtils')).MockPeer }));
+
+const deviceListeners: Record<string, () => unknown> = {};
+let availableDevices: { kind: string; deviceId: string; label: string }[];
+
+// Opens the device asked for with { deviceId: { exact } }, or the default one
+const deviceIdFor = (constraint: boolean | MediaTrackConstraints | undefined, fallback: string) => {
+  const deviceId = typeof constraint === 'object' ? constraint.deviceId : undefined;
+  return typeof deviceId === 'object' && !Array.isArray(deviceId) ? String(deviceId.exact) : fallback;
+};
+
+const getUserMedia = vi.fn(async (constraints: MediaStreamConstraints) => {
+  const tracks: MockTrack[] = [];
+  if (constraints.video) tracks.push(createMockTrack('video', deviceIdFor(constraints.video, 'default-camera')));
+  if (constraints.audio) tracks.push(createMockTrack('audio', deviceIdFor(constraints.audio, 'default-mic')));
+  return createMockStream(tracks) as unknown as MediaStream;
+});
+
+global.navigator = {
+  mediaDevices: {
+    getUserMedia,
+    enumerateDevices: vi.fn(async () => availableDevices),
+    addEventListener: vi.fn((event: string, callback: () => unknown) => {
+      deviceListeners[event] = callback;
+    }),
+    removeEventListener: vi.fn((event: string) => {
+      delete deviceListeners[event];
+    }),
+  },
+} as unknown as Navigator;
+
+describe('WebRTCManager - Device Selection', () => {
+  let manager: WebRTCManager;
+
+  beforeEach(() => {
+    getUserMedia.mockClear();
+    availableDevices = [
+      { kind: 'videoinput', deviceId: 'default-camera', label: 'Built-in Camera' },
+      { kind: 'videoinput', deviceId: 'usb-camera', label: 'USB Camera' },
+      { kind: 'audioinput', deviceId: 'default-mic', label: 'Built-in Microphone' },
+      { kind: 'audioinput', deviceId: 'headset-mic', label: 'Headset' },
+      { kind: 'audiooutput', deviceId: 'speakers', label: 'Speakers' },
+    ];
+    manager = new WebRTCManager();
+  });
+
+  afterEach(() => {
+    manager.disconnect();
+  });
+
+  async function joinWithHost() {
+    await manager.joinSession('host-id');
+    return internals(manager).peer!.calls[0];
+  }
+
+  it('should group devices by kind', async () => {
+    const devices = await manager.getDevices();
+
+    expect(devices.videoInputs.map((device) => device.deviceId)).toEqual(['default-camera', 'usb-camera']);
+    expect(devices.audioInputs.map((device) => device.deviceId)).toEqual(['default-mic', 'headset-mic']);
+    expect(devices.audioOutputs.map((device) => device.deviceId)).toEqual(['speakers']);
+  });
+
+  it('should request the chosen devices when the call starts', async () => {
+    await manager.switchDevice('videoinput', 'usb-camera');
+
+    await manager.getLocalStream();
+
+    expect(getUserMedia).toHaveBeenCalledWith({
+      video: { deviceId: { exact: 'usb-camera' } },
+      audio: true,
+    });
+    expect(manager.getSelectedDevices()).toEqual({ videoinput: 'usb-camera', audioinput: 'default-mic' });
+  });
+
+  it('should call with a stream set up before joining', async () => {
+    const stream = createMockStream([createMockTrack('video', 'usb-camera'), createMockTrack('audio', 'headset-mic')]);
+    stream.getAudioTracks()[0].enabled = false;
+    const localStream = vi.fn();
+    manager.on('local-stream', localStream);
+
+    manager.setLocalStream(stream as unknown as MediaStream);
+    const call = await joinWithHost();
+
+    expect(getUserMedia).not.toHaveBeenCalled();
+    expect(localStream).toHaveBeenCalledWith(stream);
+    expect(call).toBeDefined();
+    expect(manager.getMediaState()).toMatchObject({ audioEnabled: false, videoEnabled: true });
+    expect(manager.getSelectedDevices()).toEqual({ videoinput: 'usb-camera', audioinput: 'headset-mic' });
+  });
+
+  it('should replace the microphone mid-call and keep it muted', async () => {
+    const call = await joinWithHost();
+    const stream = await manager.getLocalStream();
+    const oldTrack = stream.getAudioTracks()[0];
+    manager.toggleAudio(false);
+
+    await manager.switchDevice('audioinput', 'headset-mic');
+
+    const newTrack = stream.getAudioTracks()[0];
+    expect(newTrack.getSettings().deviceId).toBe('headset-mic');
+    expect(newTrack.enabled).toBe(false);
+    expect(oldTrack.stop).toHaveBeenCalled();
+    expect(call.senders[0].replaceTrack).toHaveBeenCalledWith(newTrack);
+    expect(call.senders[1].replaceTrack).not.toHaveBeenCalled();
+  });
+
+  it('should not send a new camera while the screen is being shared', async () => {
+    const call = await joinWithHost();
+    internals(manager).screenStream = createMockStream([createMockTrack('video', 'screen')]) as unknown as MediaStream;
+
+    await manager.switchDevice('videoinput', 'usb-camera');
+
+    expect(call.senders[1].replaceTrack).not.toHaveBeenCalled();
+    expect(internals(manager).localStream!.getVideoTracks()[0].getSettings().deviceId).toBe('usb-camera');
+  });
+
+  it('should keep the previous device when the new one cannot be opened', async () => {
+    await manager.getLocalStream();
+    getUserMedia.mockRejectedValueOnce(new Error('NotReadableError'));
+
+    await expect(manager.switchDevice('videoinput', 'usb-camera')).rejects.toThrow(
+      'Failed to access the selected camera.'
+    );
+    expect(manager.getSelectedDevices().videoinput).toBe('default-camera');
+  });
+
+  it('should report device changes and fall back when the selected device is unplugged', async () => {
+    await manager.getLocalStream();
+    await manager.switchDevice('videoinput', 'usb-camera');
+    const devicesChanged = vi.fn();
+    manager.on('devices-changed', devicesChanged);
+
+    availableDevices = availableDevices.filter((device) => device.deviceId !== 'usb-camera');
+    await deviceListeners['devicechange']();
+
+    expect(devicesChanged).toHaveBeenCalledWith(expect.objectContaining({
+      videoInputs: [expect.objectContaining({ deviceId: 'default-camera' })],
+    }));
+    expect(manager.getSelectedDevices().videoinput).toBe('default-camera');
+  });
+
+  it('should stop watching devices after disconnecting', async () => {
+    await manager.getLocalStream();
+    expect(deviceListeners['devicechange']).toBeDefined();
+
+    manager.disconnect();
+
+    expect(deviceListeners['devicechange']).toBeUndefined();
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { WebRTCManager } from './WebRTCManager';
+import { createMockConnection, internals, sentOfType } from './testUtils';
+import { createDataMessage } from './dataProtocol';
+
+vi.mock('peerjs', async () => ({ default: (await import('./testUtils')).MockPeer }));
+
+// Mock navigator.mediaDevices
+global.navigator = {
+  mediaDevices: {
+    getUserMedia: vi.fn().mockResolvedValue({
+      getTracks: () => [
+        { kind: 'video', enabled: true, stop: vi.fn() },
+        { kind: 'audio', enabled: true, stop: vi.fn() },
+      ],
+      getVideoTracks: () => [{ kind: 'video', enabled: true, stop: vi.fn() }],
+      getAudioTracks: () => [{ kind: 'audio', enabled: true, stop: vi.fn() }],
+    }),
+  },
+} as unknown as Navigator;
+
+describe('WebRTCManager - Automatic Reconnection', () => {
+  let manager: WebRTCManager;
+
+  beforeEach(() => {
+    manager = new WebRTCManager({
+      maxReconnectAttempts: 3,
+      reconnectBaseDelay: 100,
+      reconnectMaxDelay: 1000,
+    });
+  });
+
+  afterEach(() => {
+    manager.disconnect();
+    vi.useRealTimers();
+  });
+
+  it('should back off exponentially up to the configured maximum delay', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 5000 }),
+        fc.integer({ min: 1, max: 60000 }),
+        fc.integer({ min: 0, max: 20 }),
+        (baseDelay, maxDelay, attempt) => {
+          const mgr = new WebRTCManager({
+            reconnectBaseDelay: baseDelay,
+            reconnectMaxDelay: maxDelay,
+          });
+          const delay = internals(mgr).getReconnectDelay(attempt);
+          const nextDelay = internals(mgr).getReconnectDelay(attempt + 1);
+
+          expect(delay).toBeLessThanOrEqual(maxDelay);
+          expect(nextDelay).toBeGreaterThanOrEqual(delay);
+          expect(delay).toBe(Math.min(baseDelay * Math.pow(2, attempt), maxDelay));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should re-dial the host with backoff after the connection drops', async () => {
+    await manager.joinSession('host-id');
+    const peer = internals(manager).peer!;
+    const hostConnection = peer.connections[0];
+    hostConnection.open = true;
+    hostConnection.handlers['open']();
+
+    vi.useFakeTimers();
+    const reconnecting = vi.fn();
+    manager.on('reconnecting', reconnecting);
+
+    hostConnection.open = false;
+    hostConnection.handlers['close']();
+
+    expect(reconnecting).toHaveBeenCalledWith('host-id');
+    expect(manager.isReconnecting()).toBe(true);
+
+    vi.advanceTimersByTime(99);
+    expect(peer.connections).toHaveLength(1);
+
+    vi.advanceTimersByTime(1);
+    expect(peer.connections).toHaveLength(2);
+    expect(peer.connections[1].peer).toBe('host-id');
+    expect(peer.calls).toHaveLength(2);
+
+    // Second attempt waits twice as long
+    vi.advanceTimersByTime(199);
+    expect(peer.connections).toHaveLength(2);
+    vi.advanceTimersByTime(1);
+    expect(peer.connections).toHaveLength(3);
+  });
+
+  it('should emit reconnected and keep the participant when the re-dial opens', async () => {
+    await manager.joinSession('host-id');
+    const peer = internals(manager).peer!;
+    peer.connections[0].handlers['open']();
+
+    vi.useFakeTimers();
+    const reconnected = vi.fn();
+    manager.on('reconnected', reconnected);
+
+    peer.connections[0].handlers['close']();
+    vi.advanceTimersByTime(100);
+
+    const retry = peer.connections[1];
+    retry.open = true;
+    retry.handlers['open']();
+
+    expect(reconnected).toHaveBeenCalledWith('host-id');
+    expect(manager.isReconnecting()).toBe(false);
+    expect(manager.getParticipants().map((p) => p.peerId)).toEqual(['host-id']);
+
+    // No further attempts once restored
+    vi.advanceTimersByTime(5000);
+    expect(peer.connections).toHaveLength(2);
+  });
+
+  it('should give up and emit peer-left after the maximum attempts', async () => {
+    await manager.joinSession('host-id');
+    const peer = internals(manager).peer!;
+    peer.connections[0].handlers['open']();
+
+    vi.useFakeTimers();
+    const failed = vi.fn();
+    const peerLeft = vi.fn();
+    manager.on('reconnect-failed', failed);
+    manager.on('peer-left', peerLeft);
+
+    peer.connections[0].handlers['close']();
+    vi.advanceTimersByTime(100 + 200 + 400 + 800);
+
+    expect(peer.connections).toHaveLength(4);
+    expect(failed).toHaveBeenCalledWith('host-id');
+    expect(peerLeft).toHaveBeenCalledWith('host-id');
+    expect(manager.getParticipants()).toHaveLength(0);
+  });
+
+  it('should wait for the initiator to call back instead of re-dialing', async () => {
+    await manager.createSession('host-id');
+    const peer = internals(manager).peer!;
+    const guest = createMockConnection('guest-1');
+    peer.fire('connection', guest);
+    guest.open = true;
+    guest.handlers['open']();
+
+    vi.useFakeTimers();
+    const reconnected = vi.fn();
+    manager.on('reconnected', reconnected);
+
+    guest.handlers['close']();
+    vi.advanceTimersByTime(500);
+    expect(peer.connections).toHaveLength(0);
+
+    // The guest dials back in and replaces the dropped connection
+    const returning = createMockConnection('guest-1');
+    peer.fire('connection', returning);
+    returning.open = true;
+    returning.handlers['open']();
+
+    expect(reconnected).toHaveBeenCalledWith('guest-1');
+    expect(manager.getParticipants()).toHaveLength(1);
+  });
+
+  it('should reconnect to the signaling server after a drop', async () => {
+    await manager.createSession('host-id');
+    const peer = internals(manager).peer!;
+
+    vi.useFakeTimers();
+    const reconnecting = vi.fn();
+    const reconnected = vi.fn();
+    manager.on('reconnecting', reconnecting);
+    manager.on('reconnected', reconnected);
+
+    peer.disconnected = true;
+    peer.fire('disconnected');
+    expect(reconnecting).toHaveBeenCalledWith();
+
+    vi.advanceTimersByTime(100);
+    expect(peer.reconnect).toHaveBeenCalledTimes(1);
+
+    peer.disconnected = false;
+    peer.fire('open', 'host-id');
+    expect(reconnected).toHaveBeenCalledWith();
+    expect(manager.isReconnecting()).toBe(false);
+  });
+
+  it('should not reconnect when the local user hangs up', async () => {
+    await manager.joinSession('host-id');
+    const peer = internals(manager).peer!;
+    peer.connections[0].handlers['open']();
+
+    vi.useFakeTimers();
+    const reconnecting = vi.fn();
+    manager.on('reconnecting', reconnecting);
+
+    manager.disconnect();
+    peer.connections[0].handlers['close']();
+    peer.fire('disconnected');
+    vi.advanceTimersByTime(5000);
+
+    expect(reconnecting).not.toHaveBeenCalled();
+    expect(peer.connections).toHaveLength(1);
+  });
+
+  it('should tell participants it is hanging up', async () => {
+    await manager.joinSession('host-id');
+    const hostConnection = internals(manager).peer!.connections[0];
+    hostConnection.open = true;
+    hostConnection.handlers['open']();
+
+    manager.disconnect();
+
+    expect(sentOfType(hostConnection, 'leave')).toHaveLength(1);
+    expect(hostConnection.close).toHaveBeenCalledWith({ flush: true });
+  });
+
+  it('should drop a participant who hangs up without waiting for them to reconnect', async () => {
+    await manager.createSession('host-id');
+    vi.useFakeTimers();
+    const conn = createMockConnection('guest-1');
+    conn.open = true;
+    internals(manager).peer!.fire('connection', conn);
+    const reconnecting = vi.fn();
+    const peerLeft = vi.fn();
+    manager.on('reconnecting', reconnecting);
+    manager.on('peer-left', peerLeft);
+
+    conn.handlers['data'](createDataMessage('leave', {}, 'guest-1'));
+    conn.handlers['close']();
+
+    expect(peerLeft).toHaveBeenCalledWith('guest-1');
+    expect(reconnecting).not.toHaveBeenCalled();
+    expect(manager.getParticipants()).toEqual([]);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebRTCManager } from './WebRTCManager';
+import { createMockConnection, internals, mockSignaling, resetMockSignaling } from './testUtils';
+import { createDataMessage } from './dataProtocol';
+
+vi.mock('peerjs', async () => ({ default: (await import('./testUtils')).MockPeer }));
+
+// Mock navigator.mediaDevices
+global.navigator = {
+  mediaDevices: {
+    getUserMedia: vi.fn().mockResolvedValue({
+      getTracks: () => [
+        { kind: 'video', enabled: true, stop: vi.fn() },
+        { kind: 'audio', enabled: true, stop: vi.fn() },
+      ],
+      getVideoTracks: () => [{ kind: 'video', enabled: true, stop: vi.fn() }],
+      getAudioTracks: () => [{ kind: 'audio', enabled: true, stop: vi.fn() }],
+    }),
+  },
+} as unknown as Navigator;
+
+const flush = () => vi.advanceTimersByTimeAsync(10);
+
+// Open the data connection from the current peer to the given peer ID, which lets us in
+function openConnectionTo(manager: WebRTCManager, peerId: string) {
+  const conn = internals(manager).peer!.connections.find((c) => c.peer === peerId)!;
+  conn.open = true;
+  conn.handlers['open']();
+  conn.handlers['data'](createDataMessage('join-admitted', {}, peerId));
+  return conn;
+}
+
+describe('WebRTCManager - Role Negotiation', () => {
+  let manager: WebRTCManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    resetMockSignaling();
+    manager = new WebRTCManager({
+      maxReconnectAttempts: 3,
+      reconnectBaseDelay: 100,
+      reconnectMaxDelay: 1000,
+      hostWaitTimeout: 500,
+    });
+  });
+
+  afterEach(() => {
+    manager.disconnect();
+    vi.useRealTimers();
+  });
+
+  it('should take the host role when the session ID is free', async () => {
+    const roleChanged = vi.fn();
+    manager.on('role-changed', roleChanged);
+
+    const promise = manager.startSession('session-1');
+    await flush();
+
+    await expect(promise).resolves.toBe('host');
+    expect(manager.getRole()).toBe('host');
+    expect(manager.getHostPeerId()).toBe('session-1');
+    expect(roleChanged).toHaveBeenCalledWith('host');
+  });
+
+  it('should join as a guest once the host answers', async () => {
+    mockSignaling.registered.add('session-1');
+
+    const promise = manager.startSession('session-1');
+    await flush();
+    expect(manager.getRole()).toBe('guest');
+
+    openConnectionTo(manager, 'session-1');
+
+    await expect(promise).resolves.toBe('guest');
+    expect(manager.getHostPeerId()).toBe('session-1');
+  });
+
+  it('should retry with backoff and claim the host role once the old host is gone', async () => {
+    mockSignaling.registered.add('session-1');
+
+    const promise = manager.startSession('session-1');
+    await flush();
+    internals(manager).peer!.fire('error', { type: 'peer-unavailable' });
+
+    // Still registered, so the retry joins as a guest again
+    await vi.advanceTimersByTimeAsync(100);
+    await flush();
+    expect(manager.getRole()).toBe('guest');
+
+    // The stale registration expires and the next retry takes over the lease
+    mockSignaling.registered.delete('session-1');
+    internals(manager).peer!.fire('error', { type: 'peer-unavailable' });
+    await vi.advanceTimersByTimeAsync(200);
+    await flush();
+
+    await expect(promise).resolves.toBe('host');
+    expect(internals(manager).peer!.id).toBe('session-1');
+  });
+
+  it('should give up when the host never answers', async () => {
+    mockSignaling.registered.add('session-1');
+
+    const assertion = expect(manager.startSession('session-1')).rejects.toThrow(
+      'Could not reach the host of this call'
+    );
+    await vi.advanceTimersByTimeAsync(5000);
+
+    await assertion;
+    expect(manager.getRole()).toBeNull();
+  });
+
+  it('should take over as host and claim the session ID when it has the lowest peer ID', async () => {
+    mockSignaling.registered.add('session-1');
+    const promise = manager.startSession('session-1');
+    await flush();
+    openConnectionTo(manager, 'session-1');
+    await promise;
+
+    internals(manager).handleParticipantList(['zzzz-guest']);
+    const hostChanged = vi.fn();
+    manager.on('host-changed', hostChanged);
+
+    internals(manager).removeParticipant('session-1');
+    const ownId = internals(manager).peer!.id;
+
+    expect(hostChanged).toHaveBeenCalledWith(ownId);
+    expect(manager.getRole()).toBe('host');
+    expect(manager.getHostPeerId()).toBe(ownId);
+
+    // The old host's registration lingers, so the lease is retried with backoff
+    await flush();
+    expect(internals(manager).leasePeer).toBeNull();
+    mockSignaling.registered.delete('session-1');
+    await vi.advanceTimersByTimeAsync(100);
+    await flush();
+
+    const leasePeer = internals(manager).leasePeer!;
+    expect(leasePeer.id).toBe('session-1');
+    expect(mockSignaling.registered.has('session-1')).toBe(true);
+
+    // Newcomers reaching the session ID are sent to our own peer ID
+    const newcomer = createMockConnection('newcomer');
+    leasePeer.fire('connection', newcomer);
+    newcomer.handlers['open']();
+    expect(newcomer.send).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'host-redirect', sender: 'session-1', payload: { hostPeerId: ownId } })
+    );
+  });
+
+  it('should follow the participant with the lowest peer ID when the host leaves', async () => {
+    mockSignaling.registered.add('session-1');
+    const promise = manager.startSession('session-1');
+    await flush();
+    openConnectionTo(manager, 'session-1');
+    await promise;
+
+    internals(manager).handleParticipantList(['0000-guest']);
+    internals(manager).removeParticipant('session-1');
+    await flush();
+
+    expect(manager.getRole()).toBe('guest');
+    expect(manager.getHostPeerId()).toBe('0000-guest');
+    expect(internals(manager).leasePeer).toBeNull();
+  });
+
+  it('should take over as soon as the host hangs up', async () => {
+    mockSignaling.registered.add('session-1');
+    const promise = manager.startSession('session-1');
+    await flush();
+    const hostConnection = openConnectionTo(manager, 'session-1');
+    await promise;
+    internals(manager).handleParticipantList(['zzzz-guest']);
+    const hostChanged = vi.fn();
+    manager.on('host-changed', hostChanged);
+
+    hostConnection.handlers['data'](createDataMessage('leave', {}, 'session-1'));
+
+    expect(hostChanged).toHaveBeenCalledWith(internals(manager).peer!.id);
+    expect(manager.getRole()).toBe('host');
+  });
+
+  it('should connect to the new host when the session ID redirects', async () => {
+    mockSignaling.registered.add('session-1');
+    const promise = manager.startSession('session-1');
+    await flush();
+    const sessionConnection = openConnectionTo(manager, 'session-1');
+    await promise;
+
+    sessionConnection.handlers['data'](createDataMessage('host-redirect', { hostPeerId: 'new-host' }, 'session-1'));
+
+    expect(manager.getHostPeerId()).toBe('new-host');
+    expect(sessionConnection.close).toHaveBeenCalled();
+    expect(manager.getParticipants().map((p) => p.peerId)).toEqual(['new-host']);
+  });
+});
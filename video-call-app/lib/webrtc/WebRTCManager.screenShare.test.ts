@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WebRTCManager } from './WebRTCManager';
+import { createDataMessage } from './dataProtocol';
+import { internals } from './testUtils';
+
+function createMockTrack(kind: string, label: string) {
+  const listeners: Record<string, () => void> = {};
+  return {
+    kind,
+    label,
+    enabled: true,
+    stop: vi.fn(),
+    addEventListener: vi.fn((event: string, callback: () => void) => {
+      listeners[event] = callback;
+    }),
+    listeners,
+  };
+}
+
+type MockTrack = ReturnType<typeof createMockTrack>;
+
+function createMockStream(tracks: MockTrack[]) {
+  return {
+    tracks,
+    getTracks: () => tracks,
+    getVideoTracks: () => tracks.filter((track) => track.kind === 'video'),
+    getAudioTracks: () => tracks.filter((track) => track.kind === 'audio'),
+  };
+}
+
+vi.mock('peerjs', async () => ({ default: (await import('./testUtils')).MockPeer }));
+
+const cameraTrack = createMockTrack('video', 'camera');
+const micTrack = createMockTrack('audio', 'microphone');
+let screenTrack: MockTrack;
+
+global.navigator = {
+  mediaDevices: {
+    getUserMedia: vi.fn().mockResolvedValue(createMockStream([cameraTrack, micTrack])),
+    getDisplayMedia: vi.fn(async () => {
+      screenTrack = createMockTrack('video', 'screen');
+      return createMockStream([screenTrack]);
+    }),
+  },
+} as unknown as Navigator;
+
+// jsdom has no MediaStream; the outgoing stream only needs to carry its tracks
+vi.stubGlobal(
+  'MediaStream',
+  class {
+    constructor(public tracks: MediaStreamTrack[]) {}
+    getTracks() {
+      return this.tracks;
+    }
+  }
+);
+
+describe('WebRTCManager - Screen Sharing', () => {
+  let manager: WebRTCManager;
+
+  beforeEach(async () => {
+    manager = new WebRTCManager();
+    await manager.joinSession('host-id');
+  });
+
+  afterEach(() => {
+    manager.disconnect();
+  });
+
+  function getHostCall() {
+    return internals(manager).peer!.calls[0];
+  }
+
+  // Open the data connection to the host, which lets us in
+  function openHostConnection() {
+    const conn = internals(manager).peer!.connections[0];
+    conn.open = true;
+    conn.handlers['open']();
+    conn.handlers['data'](createDataMessage('join-admitted', {}, 'host-id'));
+    return conn;
+  }
+
+  it('should report screen share support from the browser', () => {
+    expect(WebRTCManager.isScreenShareSupported()).toBe(true);
+  });
+
+  it('should swap the outgoing video track for the screen and notify participants', async () => {
+    const conn = openHostConnection();
+    const started = vi.fn();
+    manager.on('screen-share-started', started);
+
+    const stream = await manager.startScreenShare();
+
+    expect(getHostCall().senders[1].replaceTrack).toHaveBeenCalledWith(screenTrack);
+    expect(conn.send).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'screen-share', payload: { active: true } })
+    );
+    expect(manager.getMediaState().screenSharing).toBe(true);
+    expect(manager.getScreenStream()).toBe(stream);
+    expect(started).toHaveBeenCalledWith(stream);
+  });
+
+  it('should restore the camera track when sharing stops', async () => {
+    const conn = openHostConnection();
+    await manager.startScreenShare();
+
+    await manager.stopScreenShare();
+
+    expect(getHostCall().senders[1].replaceTrack).toHaveBeenLastCalledWith(cameraTrack);
+    expect(screenTrack.stop).toHaveBeenCalled();
+    expect(conn.send).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'screen-share', payload: { active: false } })
+    );
+    expect(manager.getMediaState().screenSharing).toBe(false);
+    expect(manager.getScreenStream()).toBeNull();
+  });
+
+  it('should stop sharing when the browser ends the screen track', async () => {
+    await manager.startScreenShare();
+    const stopped = vi.fn();
+    manager.on('screen-share-stopped', stopped);
+
+    screenTrack.listeners['ended']();
+
+    expect(manager.getScreenStream()).toBeNull();
+    await vi.waitFor(() => expect(stopped).toHaveBeenCalled());
+  });
+
+  it('should send the screen to participants that connect while sharing', async () => {
+    openHostConnection();
+    await manager.startScreenShare();
+
+    internals(manager).handleParticipantList(['late-peer']);
+
+    const stream = internals(manager).peer!.calls[1].stream as MediaStream;
+    expect(stream.getTracks()).toEqual([micTrack, screenTrack]);
+
+    const lateConnection = internals(manager).peer!.connections[1];
+    lateConnection.handlers['open']();
+    expect(lateConnection.send).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'screen-share', payload: { active: true } })
+    );
+  });
+
+  it('should mark remote participants that share their screen', () => {
+    const conn = openHostConnection();
+    const changed = vi.fn();
+    manager.on('screen-share-changed', changed);
+
+    conn.handlers['data'](createDataMessage('screen-share', { active: true }, 'host-id'));
+
+    expect(changed).toHaveBeenCalledWith('host-id', true);
+    expect(manager.getParticipants()[0].screenSharing).toBe(true);
+
+    conn.handlers['data'](createDataMessage('screen-share', { active: false }, 'host-id'));
+    expect(manager.getParticipants()[0].screenSharing).toBe(false);
+  });
+});
@@ -1,34 +1,186 @@
-import Peer, { DataConnection, MediaConnection } from 'peerjs';
-import { MediaState, ConnectionState } from '@/types';
+import Peer, { DataConnection, MediaConnection, PeerOptions, util } from 'peerjs';
+import {
+  AdmissionRequest,
+  CallStats,
+  DataMessagePayloads,
+  DataMessageType,
+  InputDeviceKind,
+  MediaDeviceLists,
+  MediaState,
+  RemoteParticipant,
+  RoomAssignment,
+  RoomRole,
+} from '@/types';
+import { normalizeStats, StatsSample } from './callStats';
+import { createDataMessage, DataChannelProtocol, DataMessageHandler } from './dataProtocol';
+import { ADMISSION_DENIED, computePassphraseProof, createAdmissionNonce, verifyPassphraseProof } from './admission';
 
 type EventCallback = (...args: any[]) => void;
 
-interface WebRTCManagerConfig {
+// Label of the extra data connection used for file transfers, kept apart from captions
+export const FILE_CHANNEL_LABEL = 'file-transfer';
+
+export interface WebRTCManagerConfig {
   host?: string;
   port?: number;
   path?: string;
   secure?: boolean;
+  // Room join endpoint of the self-hosted signaling server (see server.ts)
+  roomEndpoint?: string;
+  iceServers?: RTCIceServer[];
+  // 'relay' forces traffic through TURN, useful for testing TURN paths
+  iceTransportPolicy?: RTCIceTransportPolicy;
+  maxParticipants?: number;
+  maxReconnectAttempts?: number;
+  reconnectBaseDelay?: number;
+  reconnectMaxDelay?: number;
+  // How long a guest waits for the host to answer before retrying
+  hostWaitTimeout?: number;
+  // Session passphrase: as host, newcomers must prove they know it; as guest, used to answer the host
+  passphrase?: string;
+  // As host, hold each newcomer until admitPeer or denyPeer is called
+  requireApproval?: boolean;
+  // Name the host sees when we ask to join
+  displayName?: string;
+  // Rewrites the SDP of our media offers and answers, e.g. to pin the codec
+  sdpTransform?: (sdp: string) => string;
+}
+
+interface ParticipantEntry {
+  peerId: string;
+  connection: DataConnection | null;
+  mediaConnection: MediaConnection | null;
+  remoteStream: MediaStream | null;
+  screenSharing: boolean;
+  // Previous getStats() counters, for computing rates
+  statsSample: StatsSample | null;
+  // The side that opened the connections is the one that re-dials after a drop
+  initiator: boolean;
+  reconnecting: boolean;
+  reconnectAttempts: number;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// A newcomer the host has not let into the call yet; their media call is held unanswered
+interface PendingPeer {
+  peerId: string;
+  connection: DataConnection | null;
+  mediaConnection: MediaConnection | null;
+  nonce: string;
+  // Set once their join request checks out
+  displayName: string | null;
+}
+
+// A peer that dialed a guest before the host announced them
+interface UnannouncedPeer {
+  connection: DataConnection | null;
+  mediaConnection: MediaConnection | null;
+  // Messages that arrived while the peer was held
+  messages: unknown[];
+  timer: ReturnType<typeof setTimeout>;
 }
 
+const DEFAULT_MAX_PARTICIPANTS = 6;
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 5;
+const DEFAULT_RECONNECT_BASE_DELAY = 1000;
+const DEFAULT_RECONNECT_MAX_DELAY = 16000;
+const DEFAULT_HOST_WAIT_TIMEOUT = 10000;
+const DEFAULT_STATS_INTERVAL = 2000;
+const MAX_DISPLAY_NAME_LENGTH = 40;
+// Time for a denial reason to reach the newcomer before the connection is closed
+const DENIAL_CLOSE_DELAY = 1000;
+// Time a guest waits for the host to announce a peer that dialed it
+const ANNOUNCE_WAIT_TIMEOUT = 5000;
+
 export class WebRTCManager {
   private peer: Peer | null = null;
-  private connection: DataConnection | null = null;
-  private mediaConnection: MediaConnection | null = null;
+  private participants: Map<string, ParticipantEntry> = new Map();
+  private pendingPeers: Map<string, PendingPeer> = new Map();
+  // Guests only accept connections from peers the host let in
+  private announcedPeers: Set<string> = new Set();
+  private unannouncedPeers: Map<string, UnannouncedPeer> = new Map();
   private localStream: MediaStream | null = null;
-  private remoteStream: MediaStream | null = null;
   private mediaState: MediaState = {
     audioEnabled: true,
     videoEnabled: true,
     stream: null,
+    screenSharing: false,
   };
+  private screenStream: MediaStream | null = null;
+  private selectedDevices: Partial<Record<InputDeviceKind, string>> = {};
+  private watchingDevices: boolean = false;
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
   private eventListeners: Map<string, EventCallback[]> = new Map();
+  private protocol: DataChannelProtocol = new DataChannelProtocol();
+  // Only join requests are read from newcomers that have not been admitted
+  private admissionProtocol: DataChannelProtocol = new DataChannelProtocol();
   private config: WebRTCManagerConfig;
-  private participantCount: number = 0;
+  private maxParticipants: number;
+  private isHost: boolean = false;
+  private role: RoomRole | null = null;
+  private sessionId: string | null = null;
+  private hostPeerId: string | null = null;
+  // Set while a guest waits for the host to let it in; nothing but the handshake goes out meanwhile
+  private awaitingAdmission: boolean = false;
+  // Our room registration, used to report admissions and hang-ups to the room endpoint
+  private roomAssignment: RoomAssignment | null = null;
+  // Holds the session ID for a host that took over from the original one
+  private leasePeer: Peer | null = null;
+  private leaseAttempts: number = 0;
+  private leaseTimer: ReturnType<typeof setTimeout> | null = null;
+  private signalingReconnecting: boolean = false;
+  private signalingReconnectAttempts: number = 0;
+  private signalingReconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(config?: WebRTCManagerConfig) {
     // Use PeerJS cloud server by default (no host/port needed)
     // This uses the free PeerJS cloud signaling server
     this.config = config || {};
+    this.maxParticipants = Math.max(2, this.config.maxParticipants ?? DEFAULT_MAX_PARTICIPANTS);
+    this.handleDeviceChange = this.handleDeviceChange.bind(this);
+
+    // Mesh control messages handled by the manager itself; only the host may reshape the mesh
+    this.protocol.on('participant-list', (message, peerId) => {
+      if (peerId === this.hostPeerId) {
+        this.handleParticipantList(message.payload.peerIds);
+      }
+    });
+    this.protocol.on('host-redirect', (message, peerId) => {
+      if (peerId === this.hostPeerId) {
+        this.handleHostRedirect(peerId, message.payload.hostPeerId);
+      }
+    });
+    this.protocol.on('screen-share', (message, peerId) => this.handleRemoteScreenShare(peerId, message.payload.active));
+    this.protocol.on('leave', (_message, peerId) => {
+      console.log('👋 Participant hung up:', peerId);
+      this.removeParticipant(peerId);
+    });
+
+    // Admission handshake: the host checks newcomers, newcomers answer the host
+    this.admissionProtocol.on('join-request', (message, peerId) => this.handleJoinRequest(peerId, message.payload));
+    this.protocol.on('auth-challenge', (message, peerId) => {
+      if (peerId === this.hostPeerId) {
+        this.answerAuthChallenge(message.payload);
+      }
+    });
+    this.protocol.on('join-admitted', (_message, peerId) => {
+      if (peerId === this.hostPeerId && this.awaitingAdmission) {
+        console.log('✅ The host let us in');
+        this.awaitingAdmission = false;
+        this.emit('admitted');
+        this.emit('connected', peerId);
+      }
+    });
+    this.protocol.on('join-denied', (message, peerId) => {
+      if (peerId === this.hostPeerId && this.awaitingAdmission) {
+        this.handleJoinDenied(message.payload.reason);
+      }
+    });
+    this.protocol.on('peer-admitted', (message, peerId) => {
+      if (peerId === this.hostPeerId) {
+        this.handlePeerAnnounced(message.payload.peerId);
+      }
+    });
   }
 
   /**
@@ -44,17 +196,17 @@ export class WebRTCManager {
 
         // Create peer with default PeerJS cloud server
         // If config is provided, use it; otherwise use PeerJS defaults
-        this.peer = new Peer(sessionId, this.config.host ? {
-          host: this.config.host,
-          port: this.config.port,
-          path: this.config.path,
-          secure: this.config.secure,
-        } : undefined);
+        this.peer = new Peer(sessionId, this.getPeerOptions());
 
         this.peer.on('open', async (id) => {
-          this.participantCount = 1;
+          // Signaling reconnects re-emit 'open'; those are handled in setupPeerListeners
+          if (this.signalingReconnecting) return;
+
+          this.isHost = true;
+          this.hostPeerId = id;
+          this.setRole('host');
           this.setupPeerListeners();
-          
+
           // Get local stream immediately so we're ready to answer calls
           try {
             if (!this.localStream) {
@@ -64,12 +216,12 @@ export class WebRTCManager {
           } catch (error) {
             console.error('Failed to get local stream:', error);
           }
-          
+
           this.emit('session-created', id);
           resolve(id);
         });
 
-        this.peer.on('error', (error: any) => {
+        this.peer.on('error', (error) => {
           console.error('Peer error during session creation:', error);
           // Check if error is due to ID being taken
           if (error.type === 'unavailable-id') {
@@ -86,55 +238,46 @@ export class WebRTCManager {
 
   /**
    * Join an existing call session using session ID
+   * Connects to the host first; the host then shares the other participants
+   * so the joiner can complete the mesh.
+   * @param peerId - Optional peer ID for the joiner, e.g. one assigned by the room endpoint
    */
-  async joinSession(sessionId: string): Promise<void> {
+  async joinSession(sessionId: string, peerId?: string): Promise<void> {
     return new Promise((resolve, reject) => {
       try {
         // Create a new peer with a random ID for the joiner
-        const joinerId = this.generateSecureSessionId();
+        const joinerId = peerId || this.generateSecureSessionId();
 
         // Create peer with default PeerJS cloud server
-        this.peer = new Peer(joinerId, this.config.host ? {
-          host: this.config.host,
-          port: this.config.port,
-          path: this.config.path,
-          secure: this.config.secure,
-        } : undefined);
+        this.peer = new Peer(joinerId, this.getPeerOptions());
 
         this.peer.on('open', async () => {
+          // Signaling reconnects re-emit 'open'; those are handled in setupPeerListeners
+          if (this.signalingReconnecting) return;
+
+          this.isHost = false;
+          this.hostPeerId = sessionId;
+          this.awaitingAdmission = true;
+          this.setRole('guest');
           this.setupPeerListeners();
 
           // Get local media stream before connecting
           try {
             await this.getLocalStream();
 
-            // Establish data connection for captions
-            this.connection = this.peer!.connect(sessionId);
-
-            this.connection.on('open', () => {
-              this.participantCount = 2;
-              this.emit('connected', sessionId);
-            });
+            if (!this.localStream) {
+              console.error('❌ No local stream available to call with');
+              reject(new Error('Failed to get local media stream'));
+              return;
+            }
 
-            this.connection.on('error', (error) => {
+            const hostConnection = this.connectToPeer(sessionId);
+            hostConnection.on('error', (error) => {
               console.error('Connection error:', error);
               reject(error);
             });
 
-            // Call the peer with our media stream
-            if (this.localStream) {
-              console.log('📞 Calling peer with local stream...');
-              console.log('Local stream tracks:', this.localStream.getTracks().map(t => `${t.kind}: ${t.enabled}`));
-              
-              this.mediaConnection = this.peer!.call(sessionId, this.localStream);
-              console.log('✅ Call initiated, setting up media connection...');
-              
-              this.setupMediaConnection();
-              resolve();
-            } else {
-              console.error('❌ No local stream available to call with');
-              reject(new Error('Failed to get local media stream'));
-            }
+            resolve();
           } catch (error) {
             reject(error);
           }
@@ -150,6 +293,62 @@ export class WebRTCManager {
     });
   }
 
+  /**
+   * Start or join the call for a session ID
+   * With room support the signaling server assigns the role. Otherwise whoever
+   * registers the session ID first holds the host lease and everyone else joins
+   * as a guest. Guests that cannot reach the host retry with backoff, claiming
+   * the lease again in case the host has gone.
+   */
+  async startSession(sessionId: string): Promise<RoomRole> {
+    this.sessionId = sessionId;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.negotiateRole(sessionId);
+      } catch (error) {
+        if (!(error instanceof Error) || error.message !== 'HOST_UNAVAILABLE') {
+          throw error;
+        }
+      }
+
+      this.resetPeer();
+      if (attempt >= this.getMaxReconnectAttempts()) {
+        throw new Error('Could not reach the host of this call. Please try again or create a new call.');
+      }
+      const delay = this.getReconnectDelay(attempt);
+      console.log(`⏳ Host not reachable, retrying in ${delay}ms (attempt ${attempt + 1})`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Join a room on the self-hosted signaling server
+   * The server assigns our peer ID and tells us whether we host the room,
+   * so there is no need to race for the session ID.
+   */
+  async joinRoom(roomId: string): Promise<RoomRole> {
+    const assignment = await this.requestRoomAssignment(roomId);
+    this.roomAssignment = assignment;
+
+    if (assignment.role === 'host') {
+      await this.createSession(assignment.peerId);
+    } else {
+      // The other participants are dialed once the host admits us and sends their IDs
+      await this.joinSession(assignment.hostPeerId, assignment.peerId);
+    }
+
+    this.emit('room-joined', assignment);
+    return assignment.role;
+  }
+
+  /**
+   * Check whether the signaling server supports room-scoped registration
+   */
+  supportsRooms(): boolean {
+    return !!this.config.roomEndpoint;
+  }
+
   /**
    * Get local media stream (camera + microphone)
    */
@@ -160,13 +359,14 @@ export class WebRTCManager {
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
-        video: true,
-        audio: true,
+        video: this.getDeviceConstraints('videoinput'),
+        audio: this.getDeviceConstraints('audioinput'),
       });
 
       this.localStream = stream;
       this.mediaState.stream = stream;
       this.emit('local-stream', stream);
+      this.watchDevices();
 
       return stream;
     } catch (error) {
@@ -176,10 +376,93 @@ export class WebRTCManager {
   }
 
   /**
-   * Get remote media stream
+   * Use a stream the user already set up (e.g. in the lobby) instead of opening the devices again
+   * Tracks that are disabled start the call muted or with the camera off.
+   */
+  setLocalStream(stream: MediaStream): void {
+    if (this.localStream && this.localStream !== stream) {
+      throw new Error('A local stream is already in use');
+    }
+
+    this.localStream = stream;
+    this.mediaState.stream = stream;
+    this.mediaState.audioEnabled = stream.getAudioTracks().some((track) => track.enabled);
+    this.mediaState.videoEnabled = stream.getVideoTracks().some((track) => track.enabled);
+    // Remember the chosen devices for any later getUserMedia calls
+    for (const [kind, track] of [['audioinput', stream.getAudioTracks()[0]], ['videoinput', stream.getVideoTracks()[0]]] as const) {
+      const deviceId = track?.getSettings?.().deviceId;
+      if (deviceId) {
+        this.selectedDevices[kind] = deviceId;
+      }
+    }
+    this.emit('local-stream', stream);
+    this.watchDevices();
+  }
+
+  /**
+   * Get the remote media stream of a participant
+   * Without a peer id, returns the first available remote stream.
+   */
+  getRemoteStream(peerId?: string): MediaStream | null {
+    if (peerId) {
+      return this.participants.get(peerId)?.remoteStream ?? null;
+    }
+
+    for (const participant of this.participants.values()) {
+      if (participant.remoteStream) {
+        return participant.remoteStream;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get all remote participants currently in the call
+   */
+  getParticipants(): RemoteParticipant[] {
+    return Array.from(this.participants.values()).map((participant) => ({
+      peerId: participant.peerId,
+      stream: participant.remoteStream,
+      screenSharing: participant.screenSharing,
+    }));
+  }
+
+  /**
+   * Get our role in the call, or null before a session is started
+   */
+  getRole(): RoomRole | null {
+    return this.role;
+  }
+
+  /**
+   * Get the peer ID of the current host
+   */
+  getHostPeerId(): string | null {
+    return this.hostPeerId;
+  }
+
+  /**
+   * Get the number of participants in the call, including the local user
+   */
+  getParticipantCount(): number {
+    return this.peer ? this.participants.size + 1 : 0;
+  }
+
+  /**
+   * Check whether signaling or any participant connection is being re-established
+   */
+  isReconnecting(): boolean {
+    if (this.signalingReconnecting) {
+      return true;
+    }
+    return Array.from(this.participants.values()).some((participant) => participant.reconnecting);
+  }
+
+  /**
+   * Get the configured maximum number of participants
    */
-  getRemoteStream(): MediaStream | null {
-    return this.remoteStream;
+  getMaxParticipants(): number {
+    return this.maxParticipants;
   }
 
   /**
@@ -218,47 +501,329 @@ export class WebRTCManager {
   }
 
   /**
-   * Send data through data channel (for captions)
+   * List available cameras, microphones and speakers
+   * Labels are only filled in once the user has granted media permissions.
+   */
+  async getDevices(): Promise<MediaDeviceLists> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return {
+      audioInputs: devices.filter((device) => device.kind === 'audioinput'),
+      videoInputs: devices.filter((device) => device.kind === 'videoinput'),
+      audioOutputs: devices.filter((device) => device.kind === 'audiooutput'),
+    };
+  }
+
+  /**
+   * Get the IDs of the camera and microphone in use
+   * Without an explicit choice, reports the device the browser picked.
+   */
+  getSelectedDevices(): Partial<Record<InputDeviceKind, string>> {
+    const audioTrack = this.localStream?.getAudioTracks()[0];
+    const videoTrack = this.localStream?.getVideoTracks()[0];
+    return {
+      audioinput: this.selectedDevices.audioinput ?? audioTrack?.getSettings?.().deviceId,
+      videoinput: this.selectedDevices.videoinput ?? videoTrack?.getSettings?.().deviceId,
+    };
+  }
+
+  /**
+   * Switch the camera or microphone mid-call
+   * The new track keeps the current mute state and replaces the old one on every
+   * media connection. While screen sharing, a new camera is only sent once sharing stops.
    */
-  sendData(data: any): void {
-    if (this.connection && this.connection.open) {
-      this.connection.send(data);
+  async switchDevice(kind: InputDeviceKind, deviceId: string): Promise<void> {
+    const mediaKind = kind === 'audioinput' ? 'audio' : 'video';
+    const previousDeviceId = this.selectedDevices[kind];
+    this.selectedDevices[kind] = deviceId;
+
+    // Before the call starts, the choice is applied by getLocalStream
+    if (!this.localStream) {
+      this.emit('device-switched', kind, deviceId);
+      return;
+    }
+
+    let newTrack: MediaStreamTrack;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        [mediaKind]: this.getDeviceConstraints(kind),
+      });
+      newTrack = stream.getTracks()[0];
+    } catch (error) {
+      this.selectedDevices[kind] = previousDeviceId;
+      console.error(`❌ Failed to switch ${mediaKind} device:`, error);
+      throw new Error(`Failed to access the selected ${mediaKind === 'audio' ? 'microphone' : 'camera'}.`);
+    }
+
+    const oldTracks = mediaKind === 'audio' ? this.localStream.getAudioTracks() : this.localStream.getVideoTracks();
+    newTrack.enabled = mediaKind === 'audio' ? this.mediaState.audioEnabled : this.mediaState.videoEnabled;
+    oldTracks.forEach((track) => {
+      this.localStream!.removeTrack(track);
+      track.stop();
+    });
+    this.localStream.addTrack(newTrack);
+
+    if (mediaKind === 'audio' || !this.screenStream) {
+      await this.replaceOutgoingTrack(mediaKind, newTrack);
     }
+
+    console.log(`🎛️ Switched ${mediaKind} device to`, newTrack.label || deviceId);
+    this.emit('device-switched', kind, deviceId);
   }
 
   /**
-   * Disconnect and cleanup resources
+   * Collect connection quality metrics for every participant with media
    */
-  disconnect(): void {
-    // Stop all media tracks
-    if (this.localStream) {
-      this.localStream.getTracks().forEach((track) => track.stop());
-      this.localStream = null;
+  async getCallStats(): Promise<CallStats[]> {
+    const participants = Array.from(this.participants.values());
+    const results = await Promise.all(
+      participants.map(async (participant) => {
+        const peerConnection = participant.mediaConnection?.peerConnection;
+        if (!peerConnection) return null;
+
+        try {
+          const report = await peerConnection.getStats();
+          const { stats, sample } = normalizeStats(report, participant.peerId, participant.statsSample);
+          participant.statsSample = sample;
+          return stats;
+        } catch (error) {
+          console.warn('⚠️ Failed to read stats for', participant.peerId, error);
+          return null;
+        }
+      })
+    );
+    return results.filter((stats): stats is CallStats => stats !== null);
+  }
+
+  /**
+   * Emit 'stats' with fresh metrics at a fixed interval
+   */
+  startStatsPolling(interval: number = DEFAULT_STATS_INTERVAL): void {
+    this.stopStatsPolling();
+    this.statsTimer = setInterval(async () => {
+      const stats = await this.getCallStats();
+      if (this.statsTimer) {
+        this.emit('stats', stats);
+      }
+    }, interval);
+  }
+
+  /**
+   * Stop polling connection stats
+   */
+  stopStatsPolling(): void {
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
     }
+  }
+
+  /**
+   * Check whether the browser can capture the screen
+   */
+  static isScreenShareSupported(): boolean {
+    return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+  }
 
-    // Close connections
-    if (this.connection) {
-      this.connection.close();
-      this.connection = null;
+  /**
+   * Share the screen in place of the camera
+   * The outgoing video track is swapped on every media connection, so no renegotiation is needed.
+   */
+  async startScreenShare(): Promise<MediaStream> {
+    if (this.screenStream) {
+      return this.screenStream;
     }
 
-    if (this.mediaConnection) {
-      this.mediaConnection.close();
-      this.mediaConnection = null;
+    const screenStream = await navigator.mediaDevices.getDisplayMedia({ video: true });
+    const screenTrack = screenStream.getVideoTracks()[0];
+    this.screenStream = screenStream;
+    this.mediaState.screenSharing = true;
+
+    // The browser's own "Stop sharing" button ends the track
+    screenTrack.addEventListener('ended', () => {
+      if (this.screenStream === screenStream) {
+        this.stopScreenShare();
+      }
+    });
+
+    await this.replaceOutgoingTrack('video', screenTrack);
+    this.broadcastScreenShareState();
+
+    console.log('🖥️ Screen sharing started');
+    this.emit('screen-share-started', screenStream);
+    return screenStream;
+  }
+
+  /**
+   * Stop sharing the screen and send the camera again
+   */
+  async stopScreenShare(): Promise<void> {
+    if (!this.screenStream) return;
+
+    const screenStream = this.screenStream;
+    this.screenStream = null;
+    this.mediaState.screenSharing = false;
+    screenStream.getTracks().forEach((track) => track.stop());
+
+    const cameraTrack = this.localStream?.getVideoTracks()[0] ?? null;
+    await this.replaceOutgoingTrack('video', cameraTrack);
+    this.broadcastScreenShareState();
+
+    console.log('🖥️ Screen sharing stopped');
+    this.emit('screen-share-stopped');
+  }
+
+  /**
+   * Get the screen capture stream while sharing
+   */
+  getScreenStream(): MediaStream | null {
+    return this.screenStream;
+  }
+
+  /**
+   * Send a message to every connected participant
+   * Returns the peer IDs it was sent to.
+   */
+  sendMessage<T extends DataMessageType>(type: T, payload: DataMessagePayloads[T]): string[] {
+    if (!this.peer || this.awaitingAdmission) return [];
+
+    const message = createDataMessage(type, payload, this.peer.id);
+    const recipients: string[] = [];
+    this.participants.forEach((participant) => {
+      if (participant.connection && participant.connection.open) {
+        participant.connection.send(message);
+        recipients.push(participant.peerId);
+      }
+    });
+    return recipients;
+  }
+
+  /**
+   * Send a message to one participant
+   * Returns false when their data connection is not open.
+   */
+  sendMessageToPeer<T extends DataMessageType>(peerId: string, type: T, payload: DataMessagePayloads[T]): boolean {
+    const connection = this.participants.get(peerId)?.connection;
+    if (!connection?.open || this.awaitingAdmission) return false;
+
+    this.sendMessageTo(connection, type, payload);
+    return true;
+  }
+
+  /**
+   * Open a dedicated data connection to a participant for file transfers
+   * The other side receives it through the 'file-channel' event.
+   */
+  openFileChannel(peerId: string): DataConnection {
+    if (!this.peer || !this.participants.has(peerId)) {
+      throw new Error(`Not connected to ${peerId}`);
     }
+    return this.peer.connect(peerId, { label: FILE_CHANNEL_LABEL, reliable: true });
+  }
 
-    // Destroy peer
-    if (this.peer) {
-      this.peer.destroy();
-      this.peer = null;
+  /**
+   * Register a handler for one kind of data channel message
+   * Messages are validated before handlers run; unknown kinds are ignored.
+   */
+  onMessage<T extends DataMessageType>(type: T, handler: DataMessageHandler<T>): void {
+    this.protocol.on(type, handler);
+  }
+
+  /**
+   * Remove a data channel message handler
+   */
+  offMessage<T extends DataMessageType>(type: T, handler: DataMessageHandler<T>): void {
+    this.protocol.off(type, handler);
+  }
+
+  /**
+   * Get the newcomers waiting for the host to let them in
+   */
+  getAdmissionRequests(): AdmissionRequest[] {
+    return Array.from(this.pendingPeers.values())
+      .filter((pending) => pending.displayName !== null)
+      .map((pending) => ({ peerId: pending.peerId, displayName: pending.displayName! }));
+  }
+
+  /**
+   * Let a waiting newcomer into the call and answer their media call
+   */
+  admitPeer(peerId: string): void {
+    const pending = this.pendingPeers.get(peerId);
+    const conn = pending?.connection;
+    if (!pending || !conn?.open || pending.displayName === null) return;
+
+    if (!this.canAcceptParticipant(peerId)) {
+      this.denyPeer(peerId, ADMISSION_DENIED.full);
+      return;
+    }
+
+    console.log('✅ Admitting', pending.displayName, peerId);
+    this.pendingPeers.delete(peerId);
+
+    this.getOrCreateParticipant(peerId).connection = conn;
+    this.setupDataConnection(conn);
+    this.handleDataConnectionOpen(conn);
+    if (pending.mediaConnection) {
+      this.answerCall(pending.mediaConnection);
+    }
+    this.emit('admissions-changed', this.getAdmissionRequests());
+  }
+
+  /**
+   * Turn a newcomer away, telling them why
+   */
+  denyPeer(peerId: string, reason: string = ADMISSION_DENIED.declined): void {
+    const pending = this.pendingPeers.get(peerId);
+    if (!pending) return;
+
+    console.warn(`⛔ Turning away ${peerId}: ${reason}`);
+    this.pendingPeers.delete(peerId);
+    pending.mediaConnection?.close();
+
+    const conn = pending.connection;
+    if (conn?.open) {
+      this.sendMessageTo(conn, 'join-denied', { reason });
+      setTimeout(() => conn.close(), DENIAL_CLOSE_DELAY);
+    } else {
+      conn?.close();
+    }
+
+    if (pending.displayName !== null) {
+      this.emit('admissions-changed', this.getAdmissionRequests());
+    }
+  }
+
+  /**
+   * Disconnect and cleanup resources
+   */
+  disconnect(): void {
+    // Stop all media tracks
+    if (this.screenStream) {
+      this.screenStream.getTracks().forEach((track) => track.stop());
+      this.screenStream = null;
+    }
+    if (this.localStream) {
+      this.localStream.getTracks().forEach((track) => track.stop());
+      this.localStream = null;
     }
+    this.unwatchDevices();
+    this.stopStatsPolling();
 
-    this.remoteStream = null;
-    this.participantCount = 0;
+    // Tell everyone this is a hang-up, not a dropped connection
+    this.participants.forEach((participant) => {
+      if (participant.connection?.open) {
+        this.sendMessageTo(participant.connection, 'leave', {});
+      }
+    });
+    this.reportLeave();
+    this.resetPeer();
+    this.sessionId = null;
+    this.roomAssignment = null;
     this.mediaState = {
       audioEnabled: true,
       videoEnabled: true,
       stream: null,
+      screenSharing: false,
     };
 
     this.emit('disconnected');
@@ -290,7 +855,7 @@ export class WebRTCManager {
   /**
    * Emit event to all registered listeners
    */
-  private emit(event: string, ...args: any[]): void {
+  private emit(event: string, ...args: unknown[]): void {
     const listeners = this.eventListeners.get(event);
     if (listeners) {
       listeners.forEach((callback) => callback(...args));
@@ -298,133 +863,1141 @@ export class WebRTCManager {
   }
 
   /**
-   * Generate a cryptographically secure session ID
+   * Close every connection and destroy our peers, keeping the local stream
    */
-  private generateSecureSessionId(): string {
-    // Use crypto.randomUUID if available (modern browsers)
-    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-      return crypto.randomUUID();
+  private resetPeer(): void {
+    Array.from(this.participants.keys()).forEach((peerId) => this.releaseParticipant(peerId));
+    this.pendingPeers.forEach((pending) => {
+      pending.connection?.close();
+      pending.mediaConnection?.close();
+    });
+    this.pendingPeers.clear();
+    this.unannouncedPeers.forEach((held) => {
+      clearTimeout(held.timer);
+      held.connection?.close();
+      held.mediaConnection?.close();
+    });
+    this.unannouncedPeers.clear();
+    this.announcedPeers.clear();
+
+    if (this.signalingReconnectTimer) {
+      clearTimeout(this.signalingReconnectTimer);
+      this.signalingReconnectTimer = null;
     }
+    this.signalingReconnecting = false;
+    this.signalingReconnectAttempts = 0;
 
-    // Fallback: generate random string
-    const array = new Uint8Array(16);
-    crypto.getRandomValues(array);
-    return Array.from(array, (byte) => byte.toString(16).padStart(2, '0')).join('');
+    this.releaseHostLease();
+
+    // Destroy peer (cleared first so its 'disconnected' event is not treated as a drop)
+    if (this.peer) {
+      const peer = this.peer;
+      this.peer = null;
+      peer.destroy();
+    }
+
+    this.isHost = false;
+    this.hostPeerId = null;
+    this.awaitingAdmission = false;
+    this.role = null;
   }
 
   /**
-   * Setup peer event listeners
+   * Take one turn of the role protocol
+   * Throws HOST_UNAVAILABLE when the caller should back off and try again.
    */
-  private setupPeerListeners(): void {
-    if (!this.peer) return;
-
-    // Handle incoming calls
-    this.peer.on('call', async (call) => {
-      console.log('📞 Incoming call from:', call.peer);
-      
-      // Enforce two-participant limit
-      if (this.participantCount >= 2) {
-        console.warn('⛔ Third participant attempted to join. Rejecting connection.');
-        call.close();
-        return;
+  private async negotiateRole(sessionId: string): Promise<RoomRole> {
+    if (this.supportsRooms()) {
+      const role = await this.joinRoom(sessionId);
+      if (role === 'guest') {
+        await this.waitForHost();
       }
+      return role;
+    }
 
-      try {
-        // Get local stream if not already available
-        if (!this.localStream) {
-          console.log('🎥 Getting local stream to answer call...');
-          await this.getLocalStream();
-        }
-
-        console.log('📤 Answering call with local stream...');
-        console.log('Local stream tracks:', this.localStream!.getTracks().map(t => `${t.kind}: ${t.enabled}`));
-        
-        // Answer the call with our stream
-        call.answer(this.localStream!);
-        this.mediaConnection = call;
-        this.participantCount = 2;
-        
-        console.log('✅ Call answered, setting up media connection...');
-        this.setupMediaConnection();
-      } catch (error) {
-        console.error('❌ Error answering call:', error);
-        call.close();
+    try {
+      await this.createSession(sessionId);
+      return 'host';
+    } catch (error) {
+      if (!(error instanceof Error) || error.message !== 'SESSION_ID_TAKEN') {
+        throw error;
       }
-    });
+    }
+
+    // Someone holds the host lease, join them as a guest
+    this.resetPeer();
+    await this.joinSession(sessionId);
+    await this.waitForHost();
+    return 'guest';
+  }
+
+  /**
+   * Wait until the host lets us into the call
+   * Rejects with HOST_UNAVAILABLE if the host is not registered, does not answer in time or leaves,
+   * and with the host's reason if it turns us away. Waiting for approval is not timed out.
+   */
+  private waitForHost(): Promise<void> {
+    if (!this.awaitingAdmission) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.off('admitted', handleAdmitted);
+        this.off('admission-pending', handlePending);
+        this.off('join-denied', handleDenied);
+        this.off('peer-left', handleLeft);
+        this.off('peer-error', handleError);
+      };
+      const handleAdmitted = () => {
+        cleanup();
+        resolve();
+      };
+      const handlePending = () => clearTimeout(timer);
+      const handleDenied = (reason: string) => {
+        cleanup();
+        reject(new Error(reason));
+      };
+      const handleLeft = (peerId: string) => {
+        if (peerId !== this.hostPeerId) return;
+        cleanup();
+        reject(new Error('HOST_UNAVAILABLE'));
+      };
+      const handleError = (error: { type?: string }) => {
+        if (error?.type !== 'peer-unavailable') return;
+        cleanup();
+        reject(new Error('HOST_UNAVAILABLE'));
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new Error('HOST_UNAVAILABLE'));
+      }, this.config.hostWaitTimeout ?? DEFAULT_HOST_WAIT_TIMEOUT);
+
+      this.on('admitted', handleAdmitted);
+      this.on('admission-pending', handlePending);
+      this.on('join-denied', handleDenied);
+      this.on('peer-left', handleLeft);
+      this.on('peer-error', handleError);
+    });
+  }
+
+  /**
+   * Update our role and notify listeners when it changes
+   */
+  private setRole(role: RoomRole): void {
+    if (this.role === role) return;
+    this.role = role;
+    this.emit('role-changed', role);
+  }
+
+  /**
+   * Elect a new host after the current one left the call
+   * Everyone picks the remaining peer with the lowest ID, so all participants agree
+   * without exchanging messages; the signaling server's registry applies the same rule.
+   */
+  private handleHostLeft(): void {
+    // A guest still waiting to be let in has no say; it joins again instead
+    if (!this.peer || this.awaitingAdmission) return;
+
+    const successor = [this.peer.id, ...this.participants.keys()].sort()[0];
+    this.hostPeerId = successor;
+    console.log('👑 Host left the call, new host:', successor);
+    this.emit('host-changed', successor);
+
+    if (successor !== this.peer.id) return;
+
+    this.isHost = true;
+    this.setRole('host');
+    // Without room support newcomers only know the session ID, so take it over
+    if (!this.supportsRooms() && this.sessionId && this.sessionId !== this.peer.id) {
+      this.leaseAttempts = 0;
+      this.claimHostLease();
+    }
+  }
+
+  /**
+   * Register the session ID for a host that took over from the original one
+   * The lease peer only redirects newcomers to our own peer ID; calls to it are
+   * left unanswered and dropped by the newcomer. The previous host's registration
+   * can linger on the signaling server for a while, so claiming retries with backoff.
+   */
+  private claimHostLease(): void {
+    if (!this.sessionId || !this.peer) return;
+
+    const leasePeer = new Peer(this.sessionId, this.getPeerOptions());
+    this.leasePeer = leasePeer;
+
+    leasePeer.on('open', () => {
+      console.log('👑 Holding host lease for session', this.sessionId);
+      this.leaseAttempts = 0;
+    });
+
+    leasePeer.on('connection', (conn) => {
+      conn.on('open', () => {
+        if (!this.peer) return;
+        conn.send(createDataMessage('host-redirect', { hostPeerId: this.peer.id }, leasePeer.id));
+      });
+    });
+
+    leasePeer.on('error', (error) => {
+      if (this.leasePeer !== leasePeer) return;
+
+      console.warn('⚠️ Could not claim host lease:', error.type);
+      this.releaseHostLease();
+      if (this.leaseAttempts >= this.getMaxReconnectAttempts()) {
+        console.error('❌ Giving up claiming host lease; newcomers cannot join with the session ID');
+        return;
+      }
+
+      const delay = this.getReconnectDelay(this.leaseAttempts++);
+      this.leaseTimer = setTimeout(() => {
+        this.leaseTimer = null;
+        if (this.isHost) {
+          this.claimHostLease();
+        }
+      }, delay);
+    });
+  }
+
+  /**
+   * Give up the session ID lease, if we hold one
+   */
+  private releaseHostLease(): void {
+    if (this.leaseTimer) {
+      clearTimeout(this.leaseTimer);
+      this.leaseTimer = null;
+    }
+    if (this.leasePeer) {
+      const leasePeer = this.leasePeer;
+      this.leasePeer = null;
+      leasePeer.destroy();
+    }
+  }
+
+  /**
+   * Follow a redirect from the session ID to the host that took it over
+   */
+  private handleHostRedirect(sessionPeerId: string, hostPeerId: string): void {
+    console.log('↪️ Session host moved to', hostPeerId);
+    this.hostPeerId = hostPeerId;
+    this.releaseParticipant(sessionPeerId);
+    this.handleParticipantList([hostPeerId]);
+  }
+
+  /**
+   * Build getUserMedia constraints for the selected device of a kind
+   */
+  private getDeviceConstraints(kind: InputDeviceKind): MediaTrackConstraints | boolean {
+    const deviceId = this.selectedDevices[kind];
+    return deviceId ? { deviceId: { exact: deviceId } } : true;
+  }
+
+  /**
+   * Start reporting device changes (plugging in a headset, unplugging a camera)
+   */
+  private watchDevices(): void {
+    if (this.watchingDevices || !navigator.mediaDevices?.addEventListener) return;
+    navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    this.watchingDevices = true;
+  }
+
+  private unwatchDevices(): void {
+    if (!this.watchingDevices) return;
+    navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+    this.watchingDevices = false;
+  }
+
+  /**
+   * Emit the new device lists, falling back to the default device if a selected one was unplugged
+   */
+  private async handleDeviceChange(): Promise<void> {
+    try {
+      const devices = await this.getDevices();
+      this.emit('devices-changed', devices);
+
+      const available: Record<InputDeviceKind, MediaDeviceInfo[]> = {
+        audioinput: devices.audioInputs,
+        videoinput: devices.videoInputs,
+      };
+      for (const kind of ['audioinput', 'videoinput'] as InputDeviceKind[]) {
+        const selected = this.selectedDevices[kind];
+        const fallback = available[kind][0];
+        if (selected && fallback && !available[kind].some((device) => device.deviceId === selected)) {
+          console.warn(`⚠️ Selected ${kind} was removed, switching to`, fallback.label || fallback.deviceId);
+          await this.switchDevice(kind, fallback.deviceId);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Failed to handle device change:', error);
+    }
+  }
+
+  /**
+   * Send a message over a single data connection
+   */
+  private sendMessageTo<T extends DataMessageType>(
+    conn: DataConnection,
+    type: T,
+    payload: DataMessagePayloads[T]
+  ): void {
+    if (!this.peer) return;
+    conn.send(createDataMessage(type, payload, this.peer.id));
+  }
+
+  /**
+   * Get the stream to send to participants: our camera, or the screen while sharing
+   */
+  private getOutgoingStream(): MediaStream | null {
+    if (!this.localStream || !this.screenStream) {
+      return this.localStream;
+    }
+    return new MediaStream([...this.localStream.getAudioTracks(), ...this.screenStream.getVideoTracks()]);
+  }
+
+  /**
+   * Swap the audio or video track we send on every media connection
+   */
+  private async replaceOutgoingTrack(kind: 'audio' | 'video', track: MediaStreamTrack | null): Promise<void> {
+    const replacements = Array.from(this.participants.values()).map(async (participant) => {
+      const sender = participant.mediaConnection?.peerConnection
+        ?.getSenders()
+        .find((candidate) => candidate.track?.kind === kind);
+      if (!sender) return;
+
+      try {
+        await sender.replaceTrack(track);
+      } catch (error) {
+        console.error(`❌ Failed to replace ${kind} track for`, participant.peerId, error);
+      }
+    });
+    await Promise.all(replacements);
+  }
+
+  /**
+   * Tell every participant whether we are sharing our screen
+   */
+  private broadcastScreenShareState(): void {
+    this.sendMessage('screen-share', { active: !!this.screenStream });
+  }
+
+  /**
+   * Record that a participant started or stopped sharing their screen
+   */
+  private handleRemoteScreenShare(peerId: string, active: boolean): void {
+    const participant = this.participants.get(peerId);
+    if (!participant || participant.screenSharing === active) return;
+
+    participant.screenSharing = active;
+    console.log(`🖥️ ${peerId} ${active ? 'started' : 'stopped'} sharing their screen`);
+    this.emit('screen-share-changed', peerId, active);
+  }
+
+  /**
+   * Ask the room endpoint for a peer ID and role
+   */
+  private async requestRoomAssignment(roomId: string): Promise<RoomAssignment> {
+    if (!this.config.roomEndpoint) {
+      throw new Error('Signaling server does not support rooms');
+    }
+
+    const response = await fetch(`${this.config.roomEndpoint}/${encodeURIComponent(roomId)}/join`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Room join failed: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Tell the room endpoint a peer is in the mesh, so it can take over as host later
+   */
+  private reportAdmission(peerId: string): void {
+    if (!this.roomAssignment) return;
+
+    const { roomId, peerId: hostPeerId, token } = this.roomAssignment;
+    fetch(`${this.config.roomEndpoint}/${encodeURIComponent(roomId)}/admit`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ hostPeerId, token, peerId }),
+    }).catch((error) => console.warn('⚠️ Could not report admission:', error));
+  }
+
+  /**
+   * Give up our place in the room, so the host role passes on without waiting for the signaling timeout
+   * Kept alive so the request still goes out while the page unloads.
+   */
+  private reportLeave(): void {
+    if (!this.roomAssignment) return;
+
+    const { roomId, peerId, token } = this.roomAssignment;
+    fetch(`${this.config.roomEndpoint}/${encodeURIComponent(roomId)}/leave`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ peerId, token }),
+      keepalive: true,
+    }).catch((error) => console.warn('⚠️ Could not report leaving the room:', error));
+  }
+
+  /**
+   * Build PeerJS options from the signaling and ICE configuration
+   * Returns undefined when nothing is configured so PeerJS uses its cloud defaults.
+   */
+  private getPeerOptions(): PeerOptions | undefined {
+    const { iceServers, iceTransportPolicy } = this.config;
+    if (!this.config.host && !iceServers && !iceTransportPolicy) {
+      return undefined;
+    }
+
+    const options: PeerOptions = {};
+
+    if (this.config.host) {
+      options.host = this.config.host;
+      options.port = this.config.port;
+      options.path = this.config.path;
+      options.secure = this.config.secure;
+    }
+
+    if (iceServers || iceTransportPolicy) {
+      // PeerJS replaces its whole RTC config, so keep its defaults for anything not overridden
+      const rtcConfig: RTCConfiguration = {
+        ...util.defaultConfig,
+        iceServers: iceServers ?? util.defaultConfig.iceServers,
+      };
+      if (iceTransportPolicy) {
+        rtcConfig.iceTransportPolicy = iceTransportPolicy;
+      }
+      options.config = rtcConfig;
+    }
+
+    return options;
+  }
+
+  /**
+   * Generate a cryptographically secure session ID
+   */
+  private generateSecureSessionId(): string {
+    // Use crypto.randomUUID if available (modern browsers)
+    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+      return crypto.randomUUID();
+    }
+
+    // Fallback: generate random string
+    const array = new Uint8Array(16);
+    crypto.getRandomValues(array);
+    return Array.from(array, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Check whether a peer may join without exceeding the participant limit
+   * Peers that are already registered are always accepted.
+   */
+  private canAcceptParticipant(peerId: string): boolean {
+    if (this.participants.has(peerId)) {
+      return true;
+    }
+    return this.participants.size + 1 < this.maxParticipants;
+  }
+
+  /**
+   * Get the registry entry for a peer, creating it if needed
+   */
+  private getOrCreateParticipant(peerId: string): ParticipantEntry {
+    let participant = this.participants.get(peerId);
+    if (!participant) {
+      participant = {
+        peerId,
+        connection: null,
+        mediaConnection: null,
+        remoteStream: null,
+        screenSharing: false,
+        statsSample: null,
+        initiator: false,
+        reconnecting: false,
+        reconnectAttempts: 0,
+        reconnectTimer: null,
+      };
+      this.participants.set(peerId, participant);
+    }
+    return participant;
+  }
+
+  /**
+   * Remove a participant that left the call
+   */
+  private removeParticipant(peerId: string): void {
+    if (!this.releaseParticipant(peerId)) return;
+
+    console.log('👋 Participant left:', peerId);
+    this.emit('peer-left', peerId);
+
+    if (peerId === this.hostPeerId) {
+      this.handleHostLeft();
+    }
+  }
+
+  /**
+   * Drop a participant from the registry and close its connections
+   * Returns false if the peer was not registered.
+   */
+  private releaseParticipant(peerId: string): boolean {
+    const participant = this.participants.get(peerId);
+    if (!participant) return false;
+
+    this.participants.delete(peerId);
+    if (participant.reconnectTimer) {
+      clearTimeout(participant.reconnectTimer);
+    }
+    // Flushed so a queued leave message still goes out
+    participant.connection?.close({ flush: true });
+    participant.mediaConnection?.close();
+    return true;
+  }
+
+  /**
+   * Open data and media connections to a remote peer
+   */
+  private connectToPeer(peerId: string): DataConnection {
+    const participant = this.getOrCreateParticipant(peerId);
+    participant.initiator = true;
+
+    // Establish data connection for captions
+    const connection = this.peer!.connect(peerId);
+    participant.connection = connection;
+    this.setupDataConnection(connection);
+
+    // Call the peer with our media stream
+    if (this.localStream) {
+      console.log('📞 Calling peer with local stream:', peerId);
+      console.log('Local stream tracks:', this.localStream.getTracks().map(t => `${t.kind}: ${t.enabled}`));
+
+      const call = this.peer!.call(peerId, this.getOutgoingStream()!, { sdpTransform: this.config.sdpTransform });
+      participant.mediaConnection = call;
+      console.log('✅ Call initiated, setting up media connection...');
+
+      this.setupMediaConnection(call);
+    }
+
+    return connection;
+  }
+
+  /**
+   * Setup peer event listeners
+   */
+  private setupPeerListeners(): void {
+    if (!this.peer) return;
+
+    // Handle incoming calls
+    this.peer.on('call', (call) => {
+      console.log('📞 Incoming call from:', call.peer);
+
+      // Newcomers are only answered once admitted
+      if (this.needsAdmission(call.peer)) {
+        const pending = this.getOrCreatePendingPeer(call.peer);
+        pending.mediaConnection?.close();
+        pending.mediaConnection = call;
+        console.log('⏸️ Holding call until admitted:', call.peer);
+        return;
+      }
+      if (this.needsAnnouncement(call.peer)) {
+        const held = this.holdUntilAnnounced(call.peer);
+        held.mediaConnection?.close();
+        held.mediaConnection = call;
+        return;
+      }
+
+      // Enforce participant limit
+      if (!this.canAcceptParticipant(call.peer)) {
+        console.warn(`⛔ Participant limit of ${this.maxParticipants} reached. Rejecting call.`);
+        call.close();
+        return;
+      }
+
+      this.answerCall(call);
+    });
 
     // Handle incoming data connections
     this.peer.on('connection', (conn) => {
-      // Enforce two-participant limit
-      if (this.participantCount >= 2) {
-        console.warn('Third participant attempted to connect. Rejecting connection.');
+      // File transfer connections are only accepted from participants already in the call
+      if (conn.label === FILE_CHANNEL_LABEL) {
+        if (this.participants.has(conn.peer)) {
+          this.emit('file-channel', conn, conn.peer);
+        } else {
+          conn.close();
+        }
+        return;
+      }
+
+      if (this.needsAdmission(conn.peer)) {
+        this.setupPendingConnection(conn);
+        return;
+      }
+      if (this.needsAnnouncement(conn.peer)) {
+        const held = this.holdUntilAnnounced(conn.peer);
+        held.connection?.close();
+        held.connection = conn;
+        conn.on('data', (data) => {
+          if (this.unannouncedPeers.get(conn.peer)?.connection === conn) {
+            held.messages.push(data);
+          }
+        });
+        conn.on('close', () => {
+          if (held.connection === conn) {
+            held.connection = null;
+          }
+        });
+        return;
+      }
+
+      // Enforce participant limit
+      if (!this.canAcceptParticipant(conn.peer)) {
+        console.warn(`Participant limit of ${this.maxParticipants} reached. Rejecting connection.`);
         conn.close();
         return;
       }
 
-      this.connection = conn;
-      this.participantCount = 2;
+      this.getOrCreateParticipant(conn.peer).connection = conn;
+      this.setupDataConnection(conn);
+    });
 
-      conn.on('data', (data) => {
-        this.emit('data', data);
-      });
+    const peer = this.peer;
 
-      conn.on('open', () => {
-        this.emit('connected', conn.peer);
-      });
+    // Signaling server connection restored after a drop
+    peer.on('open', () => {
+      if (!this.signalingReconnecting || this.peer !== peer) return;
 
-      conn.on('close', () => {
-        this.emit('peer-disconnected');
-      });
+      console.log('✅ Reconnected to signaling server');
+      this.signalingReconnecting = false;
+      this.signalingReconnectAttempts = 0;
+      if (this.signalingReconnectTimer) {
+        clearTimeout(this.signalingReconnectTimer);
+        this.signalingReconnectTimer = null;
+      }
+      this.emit('reconnected');
     });
 
-    // Handle peer disconnection
-    this.peer.on('disconnected', () => {
+    // Handle peer disconnection from the signaling server
+    peer.on('disconnected', () => {
+      // Ignore the event fired while we tear the peer down ourselves
+      if (this.peer !== peer) return;
+
       this.emit('peer-disconnected');
+      if (!this.signalingReconnecting) {
+        console.warn('⚠️ Lost signaling connection, reconnecting...');
+        this.signalingReconnecting = true;
+        this.emit('reconnecting');
+        this.scheduleSignalingReconnect();
+      }
     });
 
     // Handle peer close
     this.peer.on('close', () => {
       this.emit('peer-closed');
     });
+
+    // Surface non-fatal errors such as 'peer-unavailable' while dialing
+    peer.on('error', (error) => {
+      if (this.peer !== peer) return;
+      this.emit('peer-error', error);
+    });
+  }
+
+  /**
+   * Setup data connection event listeners for a participant
+   */
+  private setupDataConnection(conn: DataConnection): void {
+    conn.on('data', (data) => {
+      this.protocol.receive(data, conn.peer);
+    });
+
+    conn.on('open', () => this.handleDataConnectionOpen(conn));
+
+    conn.on('close', () => {
+      // Ignore connections that have already been replaced or removed
+      if (this.participants.get(conn.peer)?.connection === conn) {
+        this.handleConnectionLost(conn.peer);
+      }
+    });
+  }
+
+  /**
+   * Greet a participant whose data connection just opened, or who was just admitted
+   */
+  private handleDataConnectionOpen(conn: DataConnection): void {
+    const participant = this.participants.get(conn.peer);
+    if (participant?.connection === conn) {
+      this.handleConnectionRestored(participant);
+    }
+
+    // Guests only count as connected once the host lets them in
+    if (this.awaitingAdmission) return;
+
+    // The host lets each new participant in, tells them who else is already in the call,
+    // and tells everyone else to expect them
+    if (this.isHost) {
+      this.sendMessageTo(conn, 'join-admitted', {});
+      const otherPeerIds = this.getOpenPeerIds().filter((peerId) => peerId !== conn.peer);
+      this.sendMessageTo(conn, 'participant-list', { peerIds: otherPeerIds });
+      otherPeerIds.forEach((peerId) => this.sendMessageToPeer(peerId, 'peer-admitted', { peerId: conn.peer }));
+      this.reportAdmission(conn.peer);
+    }
+
+    // Late joiners need to know we are presenting
+    if (this.screenStream) {
+      this.sendMessageTo(conn, 'screen-share', { active: true });
+    }
+    this.emit('connected', conn.peer);
   }
 
   /**
-   * Setup media connection event listeners
+   * Answer a participant's media call with our stream
    */
-  private setupMediaConnection(): void {
-    if (!this.mediaConnection) {
-      console.error('❌ No media connection to setup');
+  private async answerCall(call: MediaConnection): Promise<void> {
+    try {
+      // Get local stream if not already available
+      if (!this.localStream) {
+        console.log('🎥 Getting local stream to answer call...');
+        await this.getLocalStream();
+      }
+
+      console.log('📤 Answering call with local stream...');
+      console.log('Local stream tracks:', this.localStream!.getTracks().map(t => `${t.kind}: ${t.enabled}`));
+
+      // Answer the call with our stream
+      call.answer(this.getOutgoingStream()!, { sdpTransform: this.config.sdpTransform });
+      this.getOrCreateParticipant(call.peer).mediaConnection = call;
+
+      console.log('✅ Call answered, setting up media connection...');
+      this.setupMediaConnection(call);
+    } catch (error) {
+      console.error('❌ Error answering call:', error);
+      call.close();
+    }
+  }
+
+  /**
+   * Whether a peer must be admitted before joining
+   * Only the host checks newcomers; guests wait for the host to announce them.
+   */
+  private needsAdmission(peerId: string): boolean {
+    const accessControlled = !!this.config.passphrase || !!this.config.requireApproval;
+    return this.isHost && accessControlled && !this.participants.has(peerId);
+  }
+
+  /**
+   * Whether a guest has yet to hear from the host about a peer dialing it
+   */
+  private needsAnnouncement(peerId: string): boolean {
+    return (
+      !this.isHost &&
+      peerId !== this.hostPeerId &&
+      !this.announcedPeers.has(peerId) &&
+      !this.participants.has(peerId)
+    );
+  }
+
+  /**
+   * Hold a peer's connections until the host announces them, turning them away if it never does
+   * The host's announcement and the peer's dial race each other, so a short wait covers the gap.
+   */
+  private holdUntilAnnounced(peerId: string): UnannouncedPeer {
+    let held = this.unannouncedPeers.get(peerId);
+    if (!held) {
+      console.log('⏸️ Holding peer until the host announces them:', peerId);
+      const entry: UnannouncedPeer = {
+        connection: null,
+        mediaConnection: null,
+        messages: [],
+        timer: setTimeout(() => {
+          if (this.unannouncedPeers.get(peerId) !== entry) return;
+
+          console.warn('⛔ Rejecting peer the host never announced:', peerId);
+          this.unannouncedPeers.delete(peerId);
+          entry.connection?.close();
+          entry.mediaConnection?.close();
+        }, ANNOUNCE_WAIT_TIMEOUT),
+      };
+      held = entry;
+      this.unannouncedPeers.set(peerId, held);
+    }
+    return held;
+  }
+
+  /**
+   * Accept a peer the host let in, including any connections held while waiting
+   */
+  private handlePeerAnnounced(peerId: string): void {
+    this.announcedPeers.add(peerId);
+
+    const held = this.unannouncedPeers.get(peerId);
+    if (!held) return;
+    clearTimeout(held.timer);
+    this.unannouncedPeers.delete(peerId);
+
+    if (!this.canAcceptParticipant(peerId)) {
+      console.warn('Participant limit reached. Rejecting', peerId);
+      held.connection?.close();
+      held.mediaConnection?.close();
       return;
     }
 
-    console.log('🔧 Setting up media connection listeners');
-    console.log('📡 Media connection object:', this.mediaConnection);
+    const conn = held.connection;
+    if (conn) {
+      this.getOrCreateParticipant(peerId).connection = conn;
+      this.setupDataConnection(conn);
+      if (conn.open) {
+        this.handleDataConnectionOpen(conn);
+      }
+      held.messages.forEach((data) => this.protocol.receive(data, peerId));
+    }
+    if (held.mediaConnection) {
+      this.answerCall(held.mediaConnection);
+    }
+  }
+
+  private getOrCreatePendingPeer(peerId: string): PendingPeer {
+    let pending = this.pendingPeers.get(peerId);
+    if (!pending) {
+      pending = {
+        peerId,
+        connection: null,
+        mediaConnection: null,
+        nonce: createAdmissionNonce(),
+        displayName: null,
+      };
+      this.pendingPeers.set(peerId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Challenge a newcomer over their data connection, reading nothing but their join request
+   */
+  private setupPendingConnection(conn: DataConnection): void {
+    const pending = this.getOrCreatePendingPeer(conn.peer);
+    pending.connection?.close();
+    pending.connection = conn;
+    const isCurrent = () => this.pendingPeers.get(conn.peer)?.connection === conn;
+
+    conn.on('open', () => {
+      if (!isCurrent()) return;
+      this.sendMessageTo(conn, 'auth-challenge', {
+        nonce: pending.nonce,
+        passphraseRequired: !!this.config.passphrase,
+        approvalRequired: !!this.config.requireApproval,
+      });
+    });
+
+    conn.on('data', (data) => {
+      if (isCurrent()) {
+        this.admissionProtocol.receive(data, conn.peer);
+      }
+    });
+
+    // Leaving the waiting room withdraws the request
+    conn.on('close', () => {
+      if (!isCurrent()) return;
+      this.pendingPeers.delete(conn.peer);
+      pending.mediaConnection?.close();
+      if (pending.displayName !== null) {
+        console.log('👋 Newcomer left before being admitted:', conn.peer);
+        this.emit('admissions-changed', this.getAdmissionRequests());
+      }
+    });
+  }
+
+  /**
+   * Check a newcomer's passphrase proof, then admit them or ask the host
+   */
+  private async handleJoinRequest(peerId: string, request: DataMessagePayloads['join-request']): Promise<void> {
+    const pending = this.pendingPeers.get(peerId);
+    if (!pending || pending.displayName !== null) return;
+
+    const passphrase = this.config.passphrase;
+    if (passphrase) {
+      if (!request.proof) {
+        this.denyPeer(peerId, ADMISSION_DENIED.passphraseRequired);
+        return;
+      }
+      const valid = await verifyPassphraseProof(passphrase, pending.nonce, peerId, request.proof);
+      if (this.pendingPeers.get(peerId) !== pending) return;
+      if (!valid) {
+        this.denyPeer(peerId, ADMISSION_DENIED.wrongPassphrase);
+        return;
+      }
+    }
+
+    pending.displayName = request.displayName.trim().slice(0, MAX_DISPLAY_NAME_LENGTH) || 'Guest';
+    if (this.config.requireApproval) {
+      console.log(`🚪 ${pending.displayName} is asking to join`);
+      this.emit('admissions-changed', this.getAdmissionRequests());
+    } else {
+      this.admitPeer(peerId);
+    }
+  }
+
+  /**
+   * Answer the host's challenge with our name and passphrase proof
+   */
+  private async answerAuthChallenge(challenge: DataMessagePayloads['auth-challenge']): Promise<void> {
+    const hostConnection = this.hostPeerId ? this.participants.get(this.hostPeerId)?.connection : null;
+    if (!this.peer || !hostConnection) return;
 
-    this.mediaConnection.on('stream', (stream) => {
+    const proof =
+      challenge.passphraseRequired && this.config.passphrase
+        ? await computePassphraseProof(this.config.passphrase, challenge.nonce, this.peer.id)
+        : undefined;
+    if (!hostConnection.open) return;
+    const displayName = this.config.displayName?.trim() || 'Guest';
+    this.sendMessageTo(hostConnection, 'join-request', proof ? { displayName, proof } : { displayName });
+
+    if (challenge.approvalRequired) {
+      console.log('⏳ Waiting for the host to let us in');
+      this.emit('admission-pending');
+    }
+  }
+
+  /**
+   * Leave the call after the host turned us away
+   */
+  private handleJoinDenied(reason: string): void {
+    console.warn('⛔ The host turned us away:', reason);
+    this.resetPeer();
+    this.emit('join-denied', reason);
+  }
+
+  /**
+   * Setup media connection event listeners for a participant
+   */
+  private setupMediaConnection(call: MediaConnection): void {
+    console.log('🔧 Setting up media connection listeners for', call.peer);
+
+    // Senders exist by now, so end-to-end encryption can attach its transforms
+    if (call.peerConnection) {
+      this.emit('media-connection', call.peerConnection, call.peer);
+    }
+
+    call.on('stream', (stream) => {
       console.log('✅ Remote stream received!', stream);
       console.log('📹 Stream ID:', stream.id);
       console.log('🎬 Stream tracks:', stream.getTracks().map(t => `${t.kind}: ${t.label}`));
-      this.remoteStream = stream;
-      this.emit('remote-stream', stream);
+      const participant = this.participants.get(call.peer);
+      if (!participant) return;
+
+      participant.remoteStream = stream;
+      this.emit('remote-stream', stream, call.peer);
+    });
+
+    call.on('close', () => {
+      console.log('❌ Media connection closed:', call.peer);
+      const participant = this.participants.get(call.peer);
+      if (participant?.mediaConnection === call) {
+        participant.mediaConnection = null;
+        participant.remoteStream = null;
+        this.emit('media-connection-closed', call.peer);
+        this.handleConnectionLost(call.peer);
+      }
     });
 
-    this.mediaConnection.on('close', () => {
-      console.log('❌ Media connection closed');
-      this.remoteStream = null;
-      this.emit('media-connection-closed');
+    // ICE dropping to 'disconnected' may recover on its own; 'failed' closes the call
+    call.on('iceStateChanged', (state) => {
+      const participant = this.participants.get(call.peer);
+      if (!participant || participant.mediaConnection !== call) return;
+
+      if (state === 'disconnected' && !participant.reconnecting) {
+        console.warn('⚠️ ICE disconnected for', call.peer);
+        participant.reconnecting = true;
+        this.emit('reconnecting', call.peer);
+      } else if ((state === 'connected' || state === 'completed') && participant.reconnecting) {
+        this.handleConnectionRestored(participant);
+      }
     });
 
-    this.mediaConnection.on('error', (error) => {
+    call.on('error', (error) => {
       console.error('❌ Media connection error:', error);
-      this.emit('media-connection-error', error);
+      this.emit('media-connection-error', error, call.peer);
     });
 
     // Check if stream is already available (race condition fix)
     setTimeout(() => {
-      if (this.mediaConnection && !this.remoteStream) {
+      const participant = this.participants.get(call.peer);
+      if (participant?.mediaConnection === call && !participant.remoteStream) {
         console.log('⚠️ No stream received after 3 seconds, checking connection state...');
-        console.log('Connection state:', this.mediaConnection);
+        console.log('ICE connection state:', call.peerConnection?.iceConnectionState);
       }
     }, 3000);
   }
+
+  /**
+   * React to a participant's data or media connection dropping unexpectedly
+   * The initiator re-dials with backoff; the other side waits to be called back.
+   */
+  private handleConnectionLost(peerId: string): void {
+    const participant = this.participants.get(peerId);
+    if (!participant || participant.reconnectTimer) return;
+
+    if (!participant.reconnecting) {
+      console.warn('⚠️ Connection to participant lost:', peerId);
+      participant.reconnecting = true;
+      this.emit('reconnecting', peerId);
+    }
+
+    if (participant.initiator) {
+      this.scheduleParticipantReconnect(participant);
+    } else {
+      participant.reconnectTimer = setTimeout(() => {
+        participant.reconnectTimer = null;
+        if (this.participants.get(peerId) !== participant || !participant.reconnecting) return;
+
+        console.warn('⛔ Participant did not reconnect:', peerId);
+        this.removeParticipant(peerId);
+        this.emit('reconnect-failed', peerId);
+      }, this.getReconnectWindow());
+    }
+  }
+
+  /**
+   * Mark a participant as connected again after a successful re-dial
+   */
+  private handleConnectionRestored(participant: ParticipantEntry): void {
+    if (participant.reconnectTimer) {
+      clearTimeout(participant.reconnectTimer);
+      participant.reconnectTimer = null;
+    }
+    participant.reconnectAttempts = 0;
+
+    if (participant.reconnecting) {
+      console.log('✅ Reconnected to participant:', participant.peerId);
+      participant.reconnecting = false;
+      this.emit('reconnected', participant.peerId);
+    }
+  }
+
+  /**
+   * Re-establish data and media connections to a participant with exponential backoff
+   * Each re-dial negotiates a fresh RTCPeerConnection, which restarts ICE.
+   */
+  private scheduleParticipantReconnect(participant: ParticipantEntry): void {
+    const delay = this.getReconnectDelay(participant.reconnectAttempts);
+
+    participant.reconnectTimer = setTimeout(() => {
+      participant.reconnectTimer = null;
+      if (!this.peer || this.participants.get(participant.peerId) !== participant) return;
+      if (participant.connection?.open && participant.mediaConnection) return;
+
+      if (participant.reconnectAttempts >= this.getMaxReconnectAttempts()) {
+        console.error('❌ Giving up reconnecting to participant:', participant.peerId);
+        this.removeParticipant(participant.peerId);
+        this.emit('reconnect-failed', participant.peerId);
+        return;
+      }
+
+      // Wait for signaling to come back before dialing again
+      if (!this.peer.disconnected) {
+        participant.reconnectAttempts++;
+        console.log(`🔄 Reconnecting to ${participant.peerId} (attempt ${participant.reconnectAttempts})`);
+
+        const staleConnection = participant.connection;
+        const staleMediaConnection = participant.mediaConnection;
+        participant.connection = null;
+        participant.mediaConnection = null;
+        participant.remoteStream = null;
+        participant.screenSharing = false;
+        participant.statsSample = null;
+        staleConnection?.close();
+        staleMediaConnection?.close();
+
+        this.connectToPeer(participant.peerId);
+      }
+
+      // Schedule the next attempt in case this one does not open
+      this.scheduleParticipantReconnect(participant);
+    }, delay);
+  }
+
+  /**
+   * Reconnect to the signaling server with exponential backoff
+   */
+  private scheduleSignalingReconnect(): void {
+    const delay = this.getReconnectDelay(this.signalingReconnectAttempts);
+
+    this.signalingReconnectTimer = setTimeout(() => {
+      this.signalingReconnectTimer = null;
+      if (!this.peer || !this.signalingReconnecting) return;
+
+      if (!this.peer.disconnected) {
+        // 'open' may not fire when the socket recovered on its own
+        this.signalingReconnecting = false;
+        this.signalingReconnectAttempts = 0;
+        this.emit('reconnected');
+        return;
+      }
+
+      if (this.signalingReconnectAttempts >= this.getMaxReconnectAttempts()) {
+        console.error('❌ Giving up reconnecting to signaling server');
+        this.signalingReconnecting = false;
+        this.emit('reconnect-failed');
+        return;
+      }
+
+      this.signalingReconnectAttempts++;
+      console.log(`🔄 Reconnecting to signaling server (attempt ${this.signalingReconnectAttempts})`);
+      this.peer.reconnect();
+      this.scheduleSignalingReconnect();
+    }, delay);
+  }
+
+  /**
+   * Backoff delay before the given reconnect attempt
+   */
+  private getReconnectDelay(attempt: number): number {
+    const baseDelay = this.config.reconnectBaseDelay ?? DEFAULT_RECONNECT_BASE_DELAY;
+    const maxDelay = this.config.reconnectMaxDelay ?? DEFAULT_RECONNECT_MAX_DELAY;
+    return Math.min(baseDelay * Math.pow(2, attempt), maxDelay);
+  }
+
+  /**
+   * How long the non-initiating side waits for a dropped participant to call back
+   */
+  private getReconnectWindow(): number {
+    let window = 0;
+    for (let attempt = 0; attempt <= this.getMaxReconnectAttempts(); attempt++) {
+      window += this.getReconnectDelay(attempt);
+    }
+    return window;
+  }
+
+  private getMaxReconnectAttempts(): number {
+    return this.config.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+  }
+
+  /**
+   * Connect to participants announced by the host
+   */
+  private handleParticipantList(peerIds: string[]): void {
+    peerIds.forEach((peerId) => {
+      this.announcedPeers.add(peerId);
+      if (!this.peer || peerId === this.peer.id || this.participants.has(peerId)) {
+        return;
+      }
+      if (!this.canAcceptParticipant(peerId)) {
+        console.warn('Participant limit reached. Not connecting to', peerId);
+        return;
+      }
+      console.log('🔗 Connecting to existing participant:', peerId);
+      this.connectToPeer(peerId);
+    });
+  }
+
+  /**
+   * Get ids of participants whose data connection is open
+   */
+  private getOpenPeerIds(): string[] {
+    return Array.from(this.participants.values())
+      .filter((participant) => participant.connection?.open)
+      .map((participant) => participant.peerId);
+  }
 }
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { computePassphraseProof, createAdmissionNonce, verifyPassphraseProof } from './admission';
+
+describe('admission', () => {
+  it('should create a fresh hex nonce for every challenge', () => {
+    const first = createAdmissionNonce();
+    expect(first).toMatch(/^[0-9a-f]{32}$/);
+    expect(createAdmissionNonce()).not.toBe(first);
+  });
+
+  it('should accept a proof made with the same passphrase', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.string({ minLength: 1 }), fc.string(), async (passphrase, peerId) => {
+        const nonce = createAdmissionNonce();
+        const proof = await computePassphraseProof(passphrase, nonce, peerId);
+        expect(await verifyPassphraseProof(passphrase, nonce, peerId, proof)).toBe(true);
+      }),
+      { numRuns: 25 }
+    );
+  });
+
+  it('should reject proofs made with another passphrase, nonce or peer', async () => {
+    const proof = await computePassphraseProof('open sesame', 'nonce-1', 'peer-a');
+
+    expect(await verifyPassphraseProof('open sesame!', 'nonce-1', 'peer-a', proof)).toBe(false);
+    expect(await verifyPassphraseProof('open sesame', 'nonce-2', 'peer-a', proof)).toBe(false);
+    expect(await verifyPassphraseProof('open sesame', 'nonce-1', 'peer-b', proof)).toBe(false);
+    expect(await verifyPassphraseProof('open sesame', 'nonce-1', 'peer-a', proof.slice(0, -1))).toBe(false);
+  });
+});
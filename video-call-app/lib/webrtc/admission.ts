@@ -0,0 +1,57 @@
+// Session passphrase challenge-response: the host sends a random nonce and a
+// newcomer proves it knows the passphrase without sending it over the wire
+
+// Reasons given to newcomers who are turned away
+export const ADMISSION_DENIED = {
+  passphraseRequired: 'This call needs a passphrase.',
+  wrongPassphrase: 'Incorrect passphrase.',
+  declined: 'The host declined your request to join.',
+  full: 'The call is full.',
+} as const;
+
+const NONCE_BYTES = 16;
+
+const toHex = (bytes: ArrayBuffer | Uint8Array): string =>
+  Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Generate a random challenge for one join attempt
+ */
+export function createAdmissionNonce(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(NONCE_BYTES)));
+}
+
+/**
+ * HMAC-SHA-256 of the nonce and the newcomer's peer ID, keyed with the passphrase
+ * Binding the peer ID stops a proof from being replayed by someone else.
+ */
+export async function computePassphraseProof(passphrase: string, nonce: string, peerId: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${nonce}:${peerId}`));
+  return toHex(signature);
+}
+
+/**
+ * Check a newcomer's proof against the passphrase
+ */
+export async function verifyPassphraseProof(
+  passphrase: string,
+  nonce: string,
+  peerId: string,
+  proof: string
+): Promise<boolean> {
+  const expected = await computePassphraseProof(passphrase, nonce, peerId);
+  // Compare every character so the time taken does not reveal how much matched
+  let difference = expected.length ^ proof.length;
+  for (let index = 0; index < expected.length; index++) {
+    difference |= expected.charCodeAt(index) ^ (proof.charCodeAt(index) || 0);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { CallQuality } from '@/types';
+import { getCallQuality, getOverallQuality, normalizeStats, StatsSample } from './callStats';
+
+// RTCStatsReport is a read-only map of stats objects keyed by id
+function createReport(stats: Record<string, unknown>[]): RTCStatsReport {
+  return new Map(stats.map((stat) => [stat.id as string, stat])) as unknown as RTCStatsReport;
+}
+
+const mediaStats = (bytesReceived: number, packetsReceived: number, packetsLost: number, bytesSent: number) => [
+  {
+    id: 'in-video',
+    type: 'inbound-rtp',
+    kind: 'video',
+    bytesReceived,
+    packetsReceived,
+    packetsLost,
+    jitter: 0.012,
+    framesPerSecond: 30,
+    frameWidth: 1280,
+    frameHeight: 720,
+  },
+  { id: 'in-audio', type: 'inbound-rtp', kind: 'audio', bytesReceived: 0, packetsReceived: 0, packetsLost: 0, jitter: 0.004 },
+  { id: 'out-video', type: 'outbound-rtp', kind: 'video', bytesSent },
+];
+
+const qualityRank: Record<CallQuality, number> = { excellent: 4, good: 3, fair: 2, poor: 1, unknown: 0 };
+
+describe('callStats', () => {
+  it('should read round trip time and route from the selected candidate pair', () => {
+    const report = createReport([
+      { id: 'transport', type: 'transport', selectedCandidatePairId: 'pair-1' },
+      { id: 'pair-1', type: 'candidate-pair', currentRoundTripTime: 0.085, localCandidateId: 'local-1' },
+      { id: 'local-1', type: 'local-candidate', candidateType: 'relay' },
+      ...mediaStats(1000, 100, 0, 1000),
+    ]);
+
+    const { stats } = normalizeStats(report, 'peer-a', null, 1000);
+
+    expect(stats.peerId).toBe('peer-a');
+    expect(stats.roundTripTime).toBeCloseTo(85);
+    expect(stats.candidateType).toBe('relay');
+    expect(stats.jitter).toBeCloseTo(12);
+    expect(stats.frameRate).toBe(30);
+    expect(stats.resolution).toEqual({ width: 1280, height: 720 });
+    expect(stats.quality).toBe('excellent');
+  });
+
+  it('should fall back to the remote round trip time without a selected pair', () => {
+    const report = createReport([
+      { id: 'pair-1', type: 'candidate-pair', state: 'succeeded', nominated: true, localCandidateId: 'local-1' },
+      { id: 'local-1', type: 'local-candidate', candidateType: 'srflx' },
+      { id: 'remote-in', type: 'remote-inbound-rtp', roundTripTime: 0.4 },
+    ]);
+
+    const { stats } = normalizeStats(report, 'peer-a', null);
+
+    expect(stats.roundTripTime).toBeCloseTo(400);
+    expect(stats.candidateType).toBe('srflx');
+    expect(stats.packetLoss).toBeNull();
+    expect(stats.quality).toBe('fair');
+  });
+
+  it('should compute bitrate and packet loss since the previous sample', () => {
+    const previous: StatsSample = {
+      timestamp: 1000,
+      bytesReceived: 100000,
+      bytesSent: 50000,
+      packetsReceived: 1000,
+      packetsLost: 10,
+    };
+    const report = createReport(mediaStats(350000, 1190, 20, 175000));
+
+    const { stats, sample } = normalizeStats(report, 'peer-a', previous, 3000);
+
+    expect(stats.inboundBitrate).toBeCloseTo(1000);
+    expect(stats.outboundBitrate).toBeCloseTo(500);
+    expect(stats.packetLoss).toBeCloseTo(5);
+    expect(sample).toEqual({ timestamp: 3000, bytesReceived: 350000, bytesSent: 175000, packetsReceived: 1190, packetsLost: 20 });
+  });
+
+  it('should not report rates when counters reset after a reconnect', () => {
+    const previous: StatsSample = {
+      timestamp: 1000,
+      bytesReceived: 900000,
+      bytesSent: 900000,
+      packetsReceived: 9000,
+      packetsLost: 0,
+    };
+
+    const { stats } = normalizeStats(createReport(mediaStats(1000, 10, 0, 1000)), 'peer-a', previous, 3000);
+
+    expect(stats.inboundBitrate).toBeNull();
+    expect(stats.outboundBitrate).toBeNull();
+  });
+
+  it('should never rate a worse connection higher', () => {
+    fc.assert(
+      fc.property(
+        fc.float({ min: 0, max: 2000, noNaN: true }),
+        fc.float({ min: 0, max: 100, noNaN: true }),
+        fc.float({ min: 0, max: 500, noNaN: true }),
+        fc.float({ min: 0, max: 20, noNaN: true }),
+        (roundTripTime, packetLoss, extraRoundTrip, extraLoss) => {
+          const better = getCallQuality(roundTripTime, packetLoss);
+          const worse = getCallQuality(roundTripTime + extraRoundTrip, packetLoss + extraLoss);
+
+          expect(qualityRank[worse]).toBeLessThanOrEqual(qualityRank[better]);
+          expect(worse).not.toBe('unknown');
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+
+  it('should report unknown quality before anything is measured', () => {
+    expect(getCallQuality(null, null)).toBe('unknown');
+  });
+
+  it('should rate the whole call by its worst connection', () => {
+    const withQuality = (quality: CallQuality) => ({ quality }) as Parameters<typeof getOverallQuality>[0][number];
+
+    expect(getOverallQuality([withQuality('excellent'), withQuality('fair'), withQuality('unknown')])).toBe('fair');
+    expect(getOverallQuality([withQuality('unknown')])).toBe('unknown');
+    expect(getOverallQuality([])).toBe('unknown');
+  });
+});
@@ -0,0 +1,165 @@
+// Normalize RTCPeerConnection.getStats() reports into call quality metrics
+
+import { CallQuality, CallStats } from '@/types';
+
+// Cumulative counters kept between polls to turn totals into rates
+export interface StatsSample {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+type RawStat = Record<string, unknown>;
+
+const CANDIDATE_TYPES: RTCIceCandidateType[] = ['host', 'srflx', 'prflx', 'relay'];
+
+// Thresholds for each quality level: [max round trip ms, max packet loss %]
+const QUALITY_THRESHOLDS: [CallQuality, number, number][] = [
+  ['excellent', 150, 1],
+  ['good', 300, 3],
+  ['fair', 500, 8],
+];
+
+const readNumber = (stat: RawStat | undefined, key: string): number | null => {
+  const value = stat?.[key];
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Find the candidate pair carrying media
+ * Prefers the transport's selected pair and falls back to a nominated, succeeded pair.
+ */
+function findActiveCandidatePair(stats: Map<string, RawStat>): RawStat | undefined {
+  for (const stat of stats.values()) {
+    if (stat.type === 'transport' && typeof stat.selectedCandidatePairId === 'string') {
+      const pair = stats.get(stat.selectedCandidatePairId);
+      if (pair) return pair;
+    }
+  }
+  for (const stat of stats.values()) {
+    if (stat.type === 'candidate-pair' && stat.state === 'succeeded' && stat.nominated) {
+      return stat;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Rate the call from round trip time and packet loss
+ */
+export function getCallQuality(roundTripTime: number | null, packetLoss: number | null): CallQuality {
+  if (roundTripTime === null && packetLoss === null) {
+    return 'unknown';
+  }
+  for (const [quality, maxRoundTrip, maxLoss] of QUALITY_THRESHOLDS) {
+    if ((roundTripTime ?? 0) <= maxRoundTrip && (packetLoss ?? 0) <= maxLoss) {
+      return quality;
+    }
+  }
+  return 'poor';
+}
+
+/**
+ * Pick the lowest quality across several connections
+ */
+export function getOverallQuality(stats: CallStats[]): CallQuality {
+  const order: CallQuality[] = ['poor', 'fair', 'good', 'excellent'];
+  for (const quality of order) {
+    if (stats.some((entry) => entry.quality === quality)) {
+      return quality;
+    }
+  }
+  return 'unknown';
+}
+
+/**
+ * Convert a stats report into normalized metrics
+ * Rates (bitrate, packet loss) are measured against the previous sample when given.
+ */
+export function normalizeStats(
+  report: RTCStatsReport,
+  peerId: string,
+  previous: StatsSample | null,
+  now: number = Date.now()
+): { stats: CallStats; sample: StatsSample } {
+  const stats = new Map<string, RawStat>();
+  report.forEach((stat: RawStat) => stats.set(stat.id as string, stat));
+
+  const sample: StatsSample = { timestamp: now, bytesReceived: 0, bytesSent: 0, packetsReceived: 0, packetsLost: 0 };
+  let jitter: number | null = null;
+  let remoteRoundTripTime: number | null = null;
+  let frameRate: number | null = null;
+  let resolution: CallStats['resolution'] = null;
+
+  stats.forEach((stat) => {
+    if (stat.type === 'inbound-rtp') {
+      sample.bytesReceived += readNumber(stat, 'bytesReceived') ?? 0;
+      sample.packetsReceived += readNumber(stat, 'packetsReceived') ?? 0;
+      sample.packetsLost += Math.max(0, readNumber(stat, 'packetsLost') ?? 0);
+
+      const statJitter = readNumber(stat, 'jitter');
+      if (statJitter !== null) {
+        jitter = Math.max(jitter ?? 0, statJitter * 1000);
+      }
+
+      if (stat.kind === 'video') {
+        frameRate = readNumber(stat, 'framesPerSecond') ?? frameRate;
+        const width = readNumber(stat, 'frameWidth');
+        const height = readNumber(stat, 'frameHeight');
+        if (width !== null && height !== null) {
+          resolution = { width, height };
+        }
+      }
+    } else if (stat.type === 'outbound-rtp') {
+      sample.bytesSent += readNumber(stat, 'bytesSent') ?? 0;
+    } else if (stat.type === 'remote-inbound-rtp') {
+      const roundTrip = readNumber(stat, 'roundTripTime');
+      if (roundTrip !== null) {
+        remoteRoundTripTime = Math.max(remoteRoundTripTime ?? 0, roundTrip * 1000);
+      }
+    }
+  });
+
+  const pair = findActiveCandidatePair(stats);
+  const pairRoundTrip = readNumber(pair, 'currentRoundTripTime');
+  const roundTripTime = pairRoundTrip !== null ? pairRoundTrip * 1000 : remoteRoundTripTime;
+
+  const localCandidate = typeof pair?.localCandidateId === 'string' ? stats.get(pair.localCandidateId) : undefined;
+  const candidateType = CANDIDATE_TYPES.find((type) => type === localCandidate?.candidateType) ?? null;
+
+  // Rates need two samples; counters that went backwards mean the connection was replaced
+  let inboundBitrate: number | null = null;
+  let outboundBitrate: number | null = null;
+  let packetLoss: number | null = null;
+  const elapsed = previous ? (now - previous.timestamp) / 1000 : 0;
+
+  if (previous && elapsed > 0 && sample.bytesReceived >= previous.bytesReceived && sample.bytesSent >= previous.bytesSent) {
+    inboundBitrate = ((sample.bytesReceived - previous.bytesReceived) * 8) / 1000 / elapsed;
+    outboundBitrate = ((sample.bytesSent - previous.bytesSent) * 8) / 1000 / elapsed;
+
+    const received = sample.packetsReceived - previous.packetsReceived;
+    const lost = Math.max(0, sample.packetsLost - previous.packetsLost);
+    packetLoss = received + lost > 0 ? (lost / (received + lost)) * 100 : 0;
+  } else if (sample.packetsReceived + sample.packetsLost > 0) {
+    packetLoss = (sample.packetsLost / (sample.packetsReceived + sample.packetsLost)) * 100;
+  }
+
+  return {
+    stats: {
+      peerId,
+      timestamp: now,
+      roundTripTime,
+      jitter,
+      packetLoss,
+      inboundBitrate,
+      outboundBitrate,
+      frameRate,
+      resolution,
+      candidateType,
+      quality: getCallQuality(roundTripTime, packetLoss),
+    },
+    sample,
+  };
+}
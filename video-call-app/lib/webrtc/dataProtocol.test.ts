@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { Caption } from '@/types';
+import { createDataMessage, DataChannelProtocol, DATA_PROTOCOL_VERSION, isDataMessageEnvelope } from './dataProtocol';
+
+const captionArbitrary: fc.Arbitrary<Caption> = fc.record({
+  id: fc.string(),
+  text: fc.string(),
+  originalText: fc.string(),
+  speaker: fc.constantFrom('local' as const, 'remote' as const),
+  timestamp: fc.integer({ min: 0 }),
+  language: fc.string({ minLength: 2, maxLength: 5 }),
+  isTranslated: fc.boolean(),
+  isFinal: fc.boolean(),
+  translationProvider: fc.string(),
+  sourceLanguage: fc.string({ minLength: 2, maxLength: 5 }),
+}, { requiredKeys: ['id', 'text', 'originalText', 'speaker', 'timestamp', 'language', 'isTranslated'] });
+
+describe('dataProtocol', () => {
+  it('should wrap payloads in a versioned envelope', () => {
+    const message = createDataMessage('screen-share', { active: true }, 'peer-a');
+
+    expect(message).toEqual({
+      version: DATA_PROTOCOL_VERSION,
+      id: expect.any(String),
+      type: 'screen-share',
+      sender: 'peer-a',
+      timestamp: expect.any(Number),
+      payload: { active: true },
+    });
+    expect(createDataMessage('screen-share', { active: true }, 'peer-a').id).not.toBe(message.id);
+  });
+
+  it('should deliver every valid caption message to its handlers', () => {
+    fc.assert(
+      fc.property(captionArbitrary, fc.string({ minLength: 1 }), (caption, peerId) => {
+        const protocol = new DataChannelProtocol();
+        const handler = vi.fn();
+        protocol.on('caption', handler);
+
+        // Messages survive a serialization round trip, as they do over the data channel
+        const message = JSON.parse(JSON.stringify(createDataMessage('caption', { caption }, peerId)));
+
+        expect(protocol.receive(message, peerId)).toBe(true);
+        expect(handler).toHaveBeenCalledWith(message, peerId);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should drop arbitrary data without throwing', () => {
+    fc.assert(
+      fc.property(fc.anything(), (data) => {
+        const protocol = new DataChannelProtocol();
+        const handler = vi.fn();
+        protocol.on('caption', handler);
+        protocol.on('participant-list', handler);
+
+        expect(() => protocol.receive(data, 'peer-a')).not.toThrow();
+        if (!isDataMessageEnvelope(data)) {
+          expect(handler).not.toHaveBeenCalled();
+        }
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('should drop messages with an invalid payload', () => {
+    const protocol = new DataChannelProtocol();
+    const handler = vi.fn();
+    protocol.on('participant-list', handler);
+
+    const message = { ...createDataMessage('participant-list', { peerIds: [] }, 'peer-a'), payload: { peerIds: [42] } };
+
+    expect(protocol.receive(message, 'peer-a')).toBe(false);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should ignore message types it does not know', () => {
+    const protocol = new DataChannelProtocol();
+    const handler = vi.fn();
+    protocol.on('caption', handler);
+
+    const message = { ...createDataMessage('screen-share', { active: true }, 'peer-a'), type: 'reaction', version: 2 };
+
+    expect(protocol.receive(message, 'peer-a')).toBe(false);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should drop messages whose sender does not match the channel', () => {
+    const protocol = new DataChannelProtocol();
+    const handler = vi.fn();
+    protocol.on('host-redirect', handler);
+
+    const message = createDataMessage('host-redirect', { hostPeerId: 'peer-c' }, 'peer-b');
+
+    expect(protocol.receive(message, 'peer-a')).toBe(false);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should stop calling removed handlers', () => {
+    const protocol = new DataChannelProtocol();
+    const handler = vi.fn();
+    protocol.on('screen-share', handler);
+    protocol.off('screen-share', handler);
+
+    protocol.receive(createDataMessage('screen-share', { active: false }, 'peer-a'), 'peer-a');
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
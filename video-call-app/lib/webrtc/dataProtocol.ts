@@ -0,0 +1,191 @@
+// Versioned message envelope for the data channel, with runtime validation
+// and a per-type handler registry
+
+import { Caption, DataMessageEnvelope, DataMessagePayloads, DataMessageType } from '@/types';
+
+export const DATA_PROTOCOL_VERSION = 1;
+
+export type PayloadValidator<T extends DataMessageType> = (payload: unknown) => payload is DataMessagePayloads[T];
+
+export type DataMessageHandler<T extends DataMessageType> = (message: DataMessageEnvelope<T>, peerId: string) => void;
+
+// Envelope whose payload has not been validated yet
+interface RawEnvelope {
+  version: number;
+  id: string;
+  type: string;
+  sender: string;
+  timestamp: number;
+  payload: unknown;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCaption = (value: unknown): value is Caption =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.text === 'string' &&
+  typeof value.originalText === 'string' &&
+  (value.speaker === 'local' || value.speaker === 'remote') &&
+  typeof value.timestamp === 'number' &&
+  typeof value.language === 'string' &&
+  typeof value.isTranslated === 'boolean' &&
+  (value.isFinal === undefined || typeof value.isFinal === 'boolean') &&
+  (value.translationProvider === undefined || typeof value.translationProvider === 'string') &&
+  (value.sourceLanguage === undefined || typeof value.sourceLanguage === 'string');
+
+// Validators for every message kind this client understands
+const PAYLOAD_VALIDATORS: { [T in DataMessageType]: PayloadValidator<T> } = {
+  caption: (payload): payload is DataMessagePayloads['caption'] =>
+    isObject(payload) && isCaption(payload.caption),
+  'participant-list': (payload): payload is DataMessagePayloads['participant-list'] =>
+    isObject(payload) &&
+    Array.isArray(payload.peerIds) &&
+    payload.peerIds.every((peerId) => typeof peerId === 'string'),
+  'host-redirect': (payload): payload is DataMessagePayloads['host-redirect'] =>
+    isObject(payload) && typeof payload.hostPeerId === 'string',
+  'screen-share': (payload): payload is DataMessagePayloads['screen-share'] =>
+    isObject(payload) && typeof payload.active === 'boolean',
+  leave: (payload): payload is DataMessagePayloads['leave'] => isObject(payload),
+  recording: (payload): payload is DataMessagePayloads['recording'] =>
+    isObject(payload) && typeof payload.active === 'boolean',
+  chat: (payload): payload is DataMessagePayloads['chat'] =>
+    isObject(payload) &&
+    typeof payload.id === 'string' &&
+    typeof payload.text === 'string' &&
+    (payload.language === undefined || typeof payload.language === 'string') &&
+    typeof payload.timestamp === 'number',
+  'chat-ack': (payload): payload is DataMessagePayloads['chat-ack'] =>
+    isObject(payload) && typeof payload.id === 'string',
+  'auth-challenge': (payload): payload is DataMessagePayloads['auth-challenge'] =>
+    isObject(payload) &&
+    typeof payload.nonce === 'string' &&
+    typeof payload.passphraseRequired === 'boolean' &&
+    typeof payload.approvalRequired === 'boolean',
+  'join-request': (payload): payload is DataMessagePayloads['join-request'] =>
+    isObject(payload) &&
+    typeof payload.displayName === 'string' &&
+    (payload.proof === undefined || typeof payload.proof === 'string'),
+  'join-admitted': (payload): payload is DataMessagePayloads['join-admitted'] => isObject(payload),
+  'join-denied': (payload): payload is DataMessagePayloads['join-denied'] =>
+    isObject(payload) && typeof payload.reason === 'string',
+  'peer-admitted': (payload): payload is DataMessagePayloads['peer-admitted'] =>
+    isObject(payload) && typeof payload.peerId === 'string',
+  'e2ee-key': (payload): payload is DataMessagePayloads['e2ee-key'] =>
+    isObject(payload) && typeof payload.publicKey === 'string' && payload.publicKey.length > 0,
+};
+
+/**
+ * Check whether incoming data has the shape of a message envelope
+ */
+export function isDataMessageEnvelope(data: unknown): data is RawEnvelope {
+  return (
+    isObject(data) &&
+    typeof data.version === 'number' &&
+    Number.isInteger(data.version) &&
+    data.version >= 1 &&
+    typeof data.id === 'string' &&
+    typeof data.type === 'string' &&
+    typeof data.sender === 'string' &&
+    typeof data.timestamp === 'number' &&
+    'payload' in data
+  );
+}
+
+/**
+ * Check whether a client knows how to handle a message type
+ */
+export function isKnownMessageType(type: string): type is DataMessageType {
+  return Object.prototype.hasOwnProperty.call(PAYLOAD_VALIDATORS, type);
+}
+
+/**
+ * Generate a unique message ID
+ */
+function generateMessageId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Wrap a payload in a message envelope
+ */
+export function createDataMessage<T extends DataMessageType>(
+  type: T,
+  payload: DataMessagePayloads[T],
+  sender: string
+): DataMessageEnvelope<T> {
+  return {
+    version: DATA_PROTOCOL_VERSION,
+    id: generateMessageId(),
+    type,
+    sender,
+    timestamp: Date.now(),
+    payload,
+  };
+}
+
+export class DataChannelProtocol {
+  private handlers: Map<DataMessageType, DataMessageHandler<DataMessageType>[]> = new Map();
+
+  /**
+   * Register a handler for one message type
+   */
+  on<T extends DataMessageType>(type: T, handler: DataMessageHandler<T>): void {
+    if (!this.handlers.has(type)) {
+      this.handlers.set(type, []);
+    }
+    this.handlers.get(type)!.push(handler as DataMessageHandler<DataMessageType>);
+  }
+
+  /**
+   * Remove a handler for one message type
+   */
+  off<T extends DataMessageType>(type: T, handler: DataMessageHandler<T>): void {
+    const handlers = this.handlers.get(type);
+    if (handlers) {
+      const index = handlers.indexOf(handler as DataMessageHandler<DataMessageType>);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  /**
+   * Validate incoming data and pass it to the handlers for its type
+   * Returns false if the message was dropped. Unknown types are skipped quietly
+   * so newer clients can add message kinds without breaking older ones.
+   */
+  receive(data: unknown, peerId: string): boolean {
+    if (!isDataMessageEnvelope(data)) {
+      console.warn('⚠️ Dropping malformed data channel message from', peerId);
+      return false;
+    }
+
+    if (data.sender !== peerId) {
+      console.warn(`⚠️ Dropping message claiming to be from ${data.sender} on ${peerId}'s channel`);
+      return false;
+    }
+
+    if (!isKnownMessageType(data.type)) {
+      console.debug(`Ignoring unknown message type '${data.type}' (protocol v${data.version})`);
+      return false;
+    }
+
+    const validate = PAYLOAD_VALIDATORS[data.type] as (payload: unknown) => boolean;
+    if (!validate(data.payload)) {
+      console.warn(`⚠️ Dropping '${data.type}' message with an invalid payload from`, peerId);
+      return false;
+    }
+
+    const message = data as DataMessageEnvelope;
+    const handlers = this.handlers.get(message.type);
+    if (handlers) {
+      handlers.forEach((handler) => handler(message, peerId));
+    }
+    return true;
+  }
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { parseRTCConfigEnv, fetchRTCConfig, loadRTCConfig } from './rtcConfig';
+
+// Mock fetch globally
+const fetchMock = vi.fn<typeof fetch>();
+globalThis.fetch = fetchMock;
+
+describe('rtcConfig', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseRTCConfigEnv', () => {
+    it('should return empty settings when nothing is configured', () => {
+      expect(parseRTCConfigEnv({})).toEqual({});
+    });
+
+    it('should parse a full ICE server list from JSON', () => {
+      const iceServers = [
+        { urls: 'stun:stun.example.com:3478' },
+        { urls: ['turn:turn.example.com:3478'], username: 'user', credential: 'secret' },
+      ];
+
+      const settings = parseRTCConfigEnv({ iceServers: JSON.stringify(iceServers) });
+
+      expect(settings.iceServers).toEqual(iceServers);
+    });
+
+    it('should build STUN and TURN entries from comma separated URLs', () => {
+      const settings = parseRTCConfigEnv({
+        stunUrls: 'stun:a.example.com, stun:b.example.com',
+        turnUrls: 'turn:turn.example.com:3478?transport=udp,turns:turn.example.com:5349',
+        turnUsername: 'office',
+        turnCredential: 'hunter2',
+      });
+
+      expect(settings.iceServers).toEqual([
+        { urls: ['stun:a.example.com', 'stun:b.example.com'] },
+        {
+          urls: ['turn:turn.example.com:3478?transport=udp', 'turns:turn.example.com:5349'],
+          username: 'office',
+          credential: 'hunter2',
+        },
+      ]);
+    });
+
+    it('should ignore malformed ICE server JSON and fall back to the shorthands', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const settings = parseRTCConfigEnv({
+        iceServers: '{not json',
+        stunUrls: 'stun:fallback.example.com',
+      });
+
+      expect(settings.iceServers).toEqual([{ urls: ['stun:fallback.example.com'] }]);
+      consoleSpy.mockRestore();
+    });
+
+    it('should only accept known transport policies', () => {
+      fc.assert(
+        fc.property(fc.string(), (policy) => {
+          const settings = parseRTCConfigEnv({ iceTransportPolicy: policy });
+
+          if (policy === 'all' || policy === 'relay') {
+            expect(settings.iceTransportPolicy).toBe(policy);
+          } else {
+            expect(settings.iceTransportPolicy).toBeUndefined();
+          }
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('fetchRTCConfig', () => {
+    it('should return ICE servers and policy from the endpoint', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          iceServers: [{ urls: 'turn:turn.example.com', username: 'u', credential: 'c' }, { bogus: true }],
+          iceTransportPolicy: 'relay',
+        }),
+      } as Response);
+
+      const settings = await fetchRTCConfig('/rtc-config');
+
+      expect(globalThis.fetch).toHaveBeenCalledWith('/rtc-config', { cache: 'no-store' });
+      expect(settings).toEqual({
+        iceServers: [{ urls: 'turn:turn.example.com', username: 'u', credential: 'c' }],
+        iceTransportPolicy: 'relay',
+      });
+    });
+
+    it('should throw when the endpoint responds with an error', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 500 } as Response);
+
+      await expect(fetchRTCConfig('/rtc-config')).rejects.toThrow('RTC config endpoint error: 500');
+    });
+  });
+
+  describe('loadRTCConfig', () => {
+    it('should not call the network without a config URL', async () => {
+      const settings = await loadRTCConfig({ iceTransportPolicy: 'relay' });
+
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+      expect(settings).toEqual({ iceTransportPolicy: 'relay' });
+    });
+
+    it('should let the runtime endpoint override environment ICE servers', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ iceServers: [{ urls: 'turn:runtime.example.com' }] }),
+      } as Response);
+
+      const settings = await loadRTCConfig({
+        stunUrls: 'stun:env.example.com',
+        iceTransportPolicy: 'relay',
+        configUrl: '/rtc-config',
+      });
+
+      expect(settings).toEqual({
+        iceServers: [{ urls: 'turn:runtime.example.com' }],
+        iceTransportPolicy: 'relay',
+      });
+    });
+
+    it('should fall back to environment settings when the endpoint fails', async () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      fetchMock.mockRejectedValueOnce(new Error('offline'));
+
+      const settings = await loadRTCConfig({
+        stunUrls: 'stun:env.example.com',
+        configUrl: '/rtc-config',
+      });
+
+      expect(settings).toEqual({ iceServers: [{ urls: ['stun:env.example.com'] }] });
+      consoleSpy.mockRestore();
+    });
+  });
+});
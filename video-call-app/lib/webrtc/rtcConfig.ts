@@ -0,0 +1,155 @@
+// RTC configuration (ICE servers, TURN credentials) from environment variables
+// or a runtime config endpoint
+
+export interface RTCSettings {
+  iceServers?: RTCIceServer[];
+  iceTransportPolicy?: RTCIceTransportPolicy;
+}
+
+export interface RTCConfigEnv {
+  iceServers?: string;
+  stunUrls?: string;
+  turnUrls?: string;
+  turnUsername?: string;
+  turnCredential?: string;
+  iceTransportPolicy?: string;
+  configUrl?: string;
+}
+
+/**
+ * Read RTC settings from NEXT_PUBLIC_* variables
+ * Each variable is referenced directly so Next.js can inline it into the client bundle.
+ */
+export function readRTCConfigEnv(): RTCConfigEnv {
+  return {
+    iceServers: process.env.NEXT_PUBLIC_ICE_SERVERS,
+    stunUrls: process.env.NEXT_PUBLIC_STUN_URLS,
+    turnUrls: process.env.NEXT_PUBLIC_TURN_URLS,
+    turnUsername: process.env.NEXT_PUBLIC_TURN_USERNAME,
+    turnCredential: process.env.NEXT_PUBLIC_TURN_CREDENTIAL,
+    iceTransportPolicy: process.env.NEXT_PUBLIC_ICE_TRANSPORT_POLICY,
+    configUrl: process.env.NEXT_PUBLIC_RTC_CONFIG_URL,
+  };
+}
+
+/**
+ * Build RTC settings from environment values
+ * A full NEXT_PUBLIC_ICE_SERVERS JSON array takes precedence over the STUN/TURN shorthands.
+ */
+export function parseRTCConfigEnv(env: RTCConfigEnv): RTCSettings {
+  const settings: RTCSettings = {};
+
+  if (env.iceServers) {
+    try {
+      settings.iceServers = parseIceServers(JSON.parse(env.iceServers));
+    } catch (error) {
+      console.error('Invalid NEXT_PUBLIC_ICE_SERVERS, ignoring:', error);
+    }
+  }
+
+  if (!settings.iceServers) {
+    const iceServers: RTCIceServer[] = [];
+    const stunUrls = splitUrls(env.stunUrls);
+    const turnUrls = splitUrls(env.turnUrls);
+
+    if (stunUrls.length > 0) {
+      iceServers.push({ urls: stunUrls });
+    }
+    if (turnUrls.length > 0) {
+      iceServers.push({
+        urls: turnUrls,
+        username: env.turnUsername,
+        credential: env.turnCredential,
+      });
+    }
+    if (iceServers.length > 0) {
+      settings.iceServers = iceServers;
+    }
+  }
+
+  const policy = parseTransportPolicy(env.iceTransportPolicy);
+  if (policy) {
+    settings.iceTransportPolicy = policy;
+  }
+
+  return settings;
+}
+
+/**
+ * Fetch RTC settings from a runtime config endpoint
+ * Expects JSON shaped like { iceServers: [...], iceTransportPolicy?: 'all' | 'relay' },
+ * which lets a server hand out short-lived TURN credentials.
+ */
+export async function fetchRTCConfig(url: string): Promise<RTCSettings> {
+  const response = await fetch(url, { cache: 'no-store' });
+
+  if (!response.ok) {
+    throw new Error(`RTC config endpoint error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const settings: RTCSettings = {};
+
+  const iceServers = parseIceServers(data?.iceServers);
+  if (iceServers) {
+    settings.iceServers = iceServers;
+  }
+
+  const policy = parseTransportPolicy(data?.iceTransportPolicy);
+  if (policy) {
+    settings.iceTransportPolicy = policy;
+  }
+
+  return settings;
+}
+
+/**
+ * Resolve RTC settings: environment first, then the runtime endpoint on top
+ * Falls back to the environment values if the endpoint cannot be reached.
+ */
+export async function loadRTCConfig(env: RTCConfigEnv = readRTCConfigEnv()): Promise<RTCSettings> {
+  const settings = parseRTCConfigEnv(env);
+
+  if (!env.configUrl) {
+    return settings;
+  }
+
+  try {
+    const runtimeSettings = await fetchRTCConfig(env.configUrl);
+    return { ...settings, ...runtimeSettings };
+  } catch (error) {
+    console.warn('Failed to load runtime RTC config, using environment settings:', error);
+    return settings;
+  }
+}
+
+/**
+ * Validate a list of ICE server entries
+ */
+function parseIceServers(value: unknown): RTCIceServer[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const iceServers = value.filter((server): server is RTCIceServer => {
+    if (typeof server !== 'object' || server === null) return false;
+    const urls = (server as RTCIceServer).urls;
+    return typeof urls === 'string' || (Array.isArray(urls) && urls.every((url) => typeof url === 'string'));
+  });
+
+  return iceServers.length > 0 ? iceServers : undefined;
+}
+
+function parseTransportPolicy(value: unknown): RTCIceTransportPolicy | undefined {
+  return value === 'all' || value === 'relay' ? value : undefined;
+}
+
+function splitUrls(value?: string): string[] {
+  if (!value) {
+    return [];
+  }
+  return value
+    .split(',')
+    .map((url) => url.trim())
+    .filter((url) => url.length > 0);
+}
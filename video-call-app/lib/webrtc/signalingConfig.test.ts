@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { getSignalingConfig } from './signalingConfig';
+
+describe('signalingConfig', () => {
+  const httpsLocation = { hostname: 'calls.example.com', port: '', protocol: 'https:' };
+
+  it('should default to the bundled server on the page origin', () => {
+    expect(getSignalingConfig({}, httpsLocation)).toEqual({
+      host: 'calls.example.com',
+      port: 443,
+      path: '/peerjs',
+      secure: true,
+      roomEndpoint: '/signaling/rooms',
+    });
+  });
+
+  it('should use the page port for local development', () => {
+    const config = getSignalingConfig({}, { hostname: 'localhost', port: '3000', protocol: 'http:' });
+
+    expect(config.port).toBe(3000);
+    expect(config.secure).toBe(false);
+  });
+
+  it('should use the PeerJS cloud when requested', () => {
+    expect(getSignalingConfig({ mode: 'cloud' }, httpsLocation)).toEqual({});
+  });
+
+  it('should point at an external PeerServer without room support by default', () => {
+    const config = getSignalingConfig(
+      { host: 'signal.example.com', port: '9000', path: '/myapp', secure: 'false' },
+      httpsLocation
+    );
+
+    expect(config).toEqual({
+      host: 'signal.example.com',
+      port: 9000,
+      path: '/myapp',
+      secure: false,
+      roomEndpoint: undefined,
+    });
+  });
+
+  it('should return an empty config outside the browser', () => {
+    expect(getSignalingConfig({}, null)).toEqual({});
+  });
+});
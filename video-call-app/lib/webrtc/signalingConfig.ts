@@ -0,0 +1,77 @@
+// Signaling server selection: the bundled self-hosted server by default,
+// an external PeerServer, or the public PeerJS cloud
+
+export interface SignalingSettings {
+  host?: string;
+  port?: number;
+  path?: string;
+  secure?: boolean;
+  roomEndpoint?: string;
+}
+
+export interface SignalingEnv {
+  mode?: string;
+  host?: string;
+  port?: string;
+  path?: string;
+  secure?: string;
+  roomEndpoint?: string;
+}
+
+export const DEFAULT_SIGNALING_PATH = '/peerjs';
+export const DEFAULT_ROOM_ENDPOINT = '/signaling/rooms';
+
+/**
+ * Read signaling settings from NEXT_PUBLIC_* variables
+ * Each variable is referenced directly so Next.js can inline it into the client bundle.
+ */
+export function readSignalingEnv(): SignalingEnv {
+  return {
+    mode: process.env.NEXT_PUBLIC_SIGNALING,
+    host: process.env.NEXT_PUBLIC_SIGNALING_HOST,
+    port: process.env.NEXT_PUBLIC_SIGNALING_PORT,
+    path: process.env.NEXT_PUBLIC_SIGNALING_PATH,
+    secure: process.env.NEXT_PUBLIC_SIGNALING_SECURE,
+    roomEndpoint: process.env.NEXT_PUBLIC_SIGNALING_ROOM_ENDPOINT,
+  };
+}
+
+/**
+ * Resolve which signaling server to use
+ * - NEXT_PUBLIC_SIGNALING=cloud: public PeerJS cloud (no room support)
+ * - NEXT_PUBLIC_SIGNALING_HOST set: external PeerServer
+ * - otherwise: the server bundled in server.ts, on the page's own origin
+ */
+export function getSignalingConfig(
+  env: SignalingEnv = readSignalingEnv(),
+  location: Pick<Location, 'hostname' | 'port' | 'protocol'> | null =
+    typeof window !== 'undefined' ? window.location : null
+): SignalingSettings {
+  if (env.mode === 'cloud') {
+    return {};
+  }
+
+  if (env.host) {
+    const secure = env.secure !== undefined ? env.secure === 'true' : true;
+    return {
+      host: env.host,
+      port: env.port ? parseInt(env.port, 10) : secure ? 443 : 80,
+      path: env.path || DEFAULT_SIGNALING_PATH,
+      secure,
+      roomEndpoint: env.roomEndpoint,
+    };
+  }
+
+  if (!location) {
+    return {};
+  }
+
+  const secure = location.protocol === 'https:';
+  return {
+    host: location.hostname,
+    port: location.port ? parseInt(location.port, 10) : secure ? 443 : 80,
+    path: env.path || DEFAULT_SIGNALING_PATH,
+    secure,
+    roomEndpoint: env.roomEndpoint || DEFAULT_ROOM_ENDPOINT,
+  };
+}
@@ -0,0 +1,129 @@
+// Shared PeerJS mock for the WebRTCManager tests. Install it with
+//   vi.mock('peerjs', async () => ({ default: (await import('./testUtils')).MockPeer }));
+import { vi } from 'vitest';
+import type { PeerOptions } from 'peerjs';
+import type { WebRTCManager } from './WebRTCManager';
+
+type Handler = (...args: unknown[]) => void;
+
+// Peer IDs currently registered with the mock signaling server
+export const mockSignaling = {
+  registered: new Set<string>(),
+  peers: [] as MockPeer[],
+};
+
+// Connection mocks that record their handlers so tests can drive them.
+// Media connections carry one audio and one video sender whose track can be replaced.
+export function createMockConnection(peer: string) {
+  const handlers: Record<string, Handler> = {};
+  const senders = ['audio', 'video'].map((kind) => {
+    const sender = {
+      track: { kind } as unknown,
+      replaceTrack: vi.fn(async (track: unknown) => {
+        sender.track = track;
+      }),
+    };
+    return sender;
+  });
+  return {
+    peer,
+    open: false,
+    handlers,
+    senders,
+    // Stream passed to peer.call
+    stream: null as unknown,
+    peerConnection: { getSenders: () => senders },
+    on: vi.fn((event: string, callback: Handler) => {
+      handlers[event] = callback;
+    }),
+    send: vi.fn(),
+    close: vi.fn(),
+    answer: vi.fn(),
+  };
+}
+
+export type MockConnection = ReturnType<typeof createMockConnection>;
+
+// Registering an ID that is already taken fails with 'unavailable-id'
+export class MockPeer {
+  handlers: Record<string, Handler[]> = {};
+  disconnected = false;
+  connections: MockConnection[] = [];
+  calls: MockConnection[] = [];
+  registered = false;
+  reconnect = vi.fn();
+
+  constructor(public id: string, public config?: PeerOptions) {
+    mockSignaling.peers.push(this);
+    setTimeout(() => {
+      if (mockSignaling.registered.has(id)) {
+        this.fire('error', { type: 'unavailable-id' });
+      } else {
+        mockSignaling.registered.add(id);
+        this.registered = true;
+        this.fire('open', id);
+      }
+    }, 0);
+  }
+
+  on(event: string, callback: Handler) {
+    (this.handlers[event] ||= []).push(callback);
+  }
+
+  fire(event: string, ...args: unknown[]) {
+    (this.handlers[event] || []).forEach((callback) => callback(...args));
+  }
+
+  destroy() {
+    if (this.registered) {
+      mockSignaling.registered.delete(this.id);
+      this.registered = false;
+    }
+  }
+
+  connect(peerId: string) {
+    const conn = createMockConnection(peerId);
+    this.connections.push(conn);
+    return conn;
+  }
+
+  call(peerId: string, stream: unknown) {
+    const call = createMockConnection(peerId);
+    call.stream = stream;
+    this.calls.push(call);
+    return call;
+  }
+}
+
+/**
+ * Clear the mock signaling server between tests
+ */
+export function resetMockSignaling(): void {
+  mockSignaling.registered.clear();
+  mockSignaling.peers.length = 0;
+}
+
+// Messages of one type sent over a connection
+export const sentOfType = (conn: MockConnection, type: string) =>
+  conn.send.mock.calls.map(([message]) => message).filter((message) => message.type === type);
+
+// Private members of WebRTCManager the tests reach into
+export interface ManagerInternals {
+  peer: MockPeer | null;
+  leasePeer: MockPeer | null;
+  isHost: boolean;
+  localStream: MediaStream | null;
+  screenStream: MediaStream | null;
+  participants: Map<string, { connection: { label?: string } | null; mediaConnection: unknown }>;
+  generateSecureSessionId(): string;
+  getOrCreateParticipant(peerId: string): { mediaConnection: unknown };
+  getReconnectDelay(attempt: number): number;
+  handleParticipantList(peerIds: string[]): void;
+  removeParticipant(peerId: string): void;
+  emit(event: string, ...args: unknown[]): void;
+}
+
+/**
+ * View a manager's private members, and its peer as the mock it is
+ */
+export const internals = (manager: WebRTCManager) => manager as unknown as ManagerInternals;
@@ -0,0 +1,49 @@
+// AudioWorklet that forwards microphone samples to the offline speech model.
+// Loaded by LocalSpeechEngine; the model's worker port arrives with the 'init' message.
+
+// Roughly a quarter second at 16 kHz, a tenth at 48 kHz
+const CHUNK_SIZE = 4096;
+
+class RecognizerProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super(options);
+    this.recognizerId = null;
+    this.recognizerPort = null;
+    this.buffer = new Float32Array(CHUNK_SIZE);
+    this.length = 0;
+    this.port.onmessage = this.handleMessage.bind(this);
+  }
+
+  handleMessage(event) {
+    if (event.data.action === 'init') {
+      this.recognizerId = event.data.recognizerId;
+      this.recognizerPort = event.ports[0];
+    }
+  }
+
+  process(inputs) {
+    const samples = inputs[0] && inputs[0][0];
+    if (!this.recognizerPort || !samples) {
+      return true;
+    }
+
+    for (let i = 0; i < samples.length; i++) {
+      // Kaldi expects 16-bit sample values, not [-1, 1] floats
+      this.buffer[this.length++] = samples[i] * 0x8000;
+
+      if (this.length === CHUNK_SIZE) {
+        const data = this.buffer;
+        this.recognizerPort.postMessage(
+          { action: 'audioChunk', data, recognizerId: this.recognizerId, sampleRate },
+          { transfer: [data.buffer] }
+        );
+        this.buffer = new Float32Array(CHUNK_SIZE);
+        this.length = 0;
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('recognizer-processor', RecognizerProcessor);
@@ -0,0 +1,137 @@
+// Custom Node server: serves the Next.js app and a self-hosted PeerJS signaling
+// server on the same port, with room-scoped peer id registration.
+//
+// Usage: tsx server.ts [--dev] [--https]
+
+import { createServer, IncomingMessage, RequestListener, Server } from 'node:http';
+import { createServer as createHttpsServer, Server as HttpsServer } from 'node:https';
+import { existsSync, readFileSync } from 'node:fs';
+import path from 'node:path';
+import express from 'express';
+import next from 'next';
+import { ExpressPeerServer } from 'peer';
+import { WebSocketServer } from 'ws';
+import { RoomRegistry } from './lib/signaling/RoomRegistry';
+
+const SIGNALING_PATH = '/peerjs';
+const ROOMS_PATH = '/signaling/rooms';
+
+const dev = process.argv.includes('--dev');
+const useHttps = process.argv.includes('--https');
+const port = parseInt(process.env.PORT || '3000', 10);
+const hostname = process.env.HOST || 'localhost';
+
+/**
+ * Create the HTTP(S) server
+ * HTTPS uses the certificates generated by `next dev --experimental-https`.
+ */
+function createAppServer(listener: RequestListener): Server | HttpsServer {
+  if (useHttps) {
+    const keyPath = path.join(process.cwd(), 'certificates', 'localhost-key.pem');
+    const certPath = path.join(process.cwd(), 'certificates', 'localhost.pem');
+
+    if (existsSync(keyPath) && existsSync(certPath)) {
+      return createHttpsServer({ key: readFileSync(keyPath), cert: readFileSync(certPath) }, listener);
+    }
+    console.warn('⚠️ No certificates found in ./certificates, falling back to HTTP');
+  }
+  return createServer(listener);
+}
+
+async function main(): Promise<void> {
+  // `next start` and `next dev` set NODE_ENV themselves; a custom server has to
+  if (!process.env.NODE_ENV) {
+    Object.assign(process.env, { NODE_ENV: dev ? 'development' : 'production' });
+  }
+
+  const nextApp = next({ dev, hostname, port });
+  const handleNextRequest = nextApp.getRequestHandler();
+  await nextApp.prepare();
+  const handleNextUpgrade = nextApp.getUpgradeHandler();
+
+  const app = express();
+  const server = createAppServer(app);
+  const rooms = new RoomRegistry();
+
+  // PeerServer's socket server must not grab every upgrade (Next HMR needs them too),
+  // so it runs detached and upgrades are routed below.
+  let signalingSocketServer: WebSocketServer | null = null;
+  const peerServer = ExpressPeerServer(server, {
+    path: '/',
+    proxied: process.env.SIGNALING_PROXIED === 'true',
+    createWebSocketServer: (options) => {
+      signalingSocketServer = new WebSocketServer({ path: options.path, noServer: true });
+      return signalingSocketServer;
+    },
+  });
+
+  peerServer.on('connection', (client) => rooms.handleConnect(client.getId()));
+  peerServer.on('disconnect', (client) => rooms.handleDisconnect(client.getId()));
+
+  app.use(SIGNALING_PATH, peerServer);
+
+  // Assign a peer id and role for a room
+  app.post(`${ROOMS_PATH}/:roomId/join`, (req, res) => {
+    const { roomId } = req.params;
+
+    if (!RoomRegistry.isValidRoomId(roomId)) {
+      res.status(400).json({ error: 'Invalid room id' });
+      return;
+    }
+
+    const assignment = rooms.join(roomId);
+    console.log(`🚪 ${assignment.role} ${assignment.peerId} joined room ${roomId}`);
+    res.json(assignment);
+  });
+
+  // The host reports everyone it lets in, so only participants can take over from it
+  app.post(`${ROOMS_PATH}/:roomId/admit`, express.json(), (req, res) => {
+    const { hostPeerId, token, peerId } = req.body ?? {};
+    if (typeof hostPeerId !== 'string' || typeof token !== 'string' || typeof peerId !== 'string') {
+      res.status(400).json({ error: 'Expected hostPeerId, token and peerId' });
+      return;
+    }
+
+    if (!rooms.admit(req.params.roomId, hostPeerId, token, peerId)) {
+      res.status(403).json({ error: 'Only the host can admit peers' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  app.post(`${ROOMS_PATH}/:roomId/leave`, express.json(), (req, res) => {
+    const { peerId, token } = req.body ?? {};
+    if (typeof peerId !== 'string' || typeof token !== 'string') {
+      res.status(400).json({ error: 'Expected peerId and token' });
+      return;
+    }
+
+    if (!rooms.leave(req.params.roomId, peerId, token)) {
+      res.status(403).json({ error: 'Unknown peer' });
+      return;
+    }
+    res.status(204).end();
+  });
+
+  app.all('*', (req, res) => handleNextRequest(req, res));
+
+  server.on('upgrade', (req: IncomingMessage, socket, head) => {
+    const wss = signalingSocketServer;
+    if (wss && req.url?.startsWith(SIGNALING_PATH)) {
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req));
+    } else {
+      handleNextUpgrade(req, socket, head);
+    }
+  });
+
+  server.listen(port, () => {
+    const protocol = server instanceof HttpsServer ? 'https' : 'http';
+    console.log(`> Ready on ${protocol}://${hostname}:${port}`);
+    console.log(`> Signaling server on ${SIGNALING_PATH}`);
+  });
+}
+
+main().catch((error) => {
+  console.error('Failed to start server:', error);
+  process.exit(1);
+});
@@ -6,21 +6,117 @@ export interface Caption {
   originalText: string;
   speaker: 'local' | 'remote';
   timestamp: number;
+  // Language of text
   language: string;
   isTranslated: boolean;
+  // Language the speaker declared they speak, i.e. the language of originalText
+  sourceLanguage?: string;
+  // false while the utterance is still being recognized; absent means final
+  isFinal?: boolean;
+  // Translation provider that produced the text, or 'fallback' if none succeeded
+  translationProvider?: string;
 }
 
+export interface SpeechEngineOption {
+  id: string;
+  label: string;
+}
+
+// A call as recorded in local history
 export interface CallSession {
+  // Unique per call; the same session can be joined more than once
+  id: string;
   sessionId: string;
-  participants: number;
-  createdAt: number;
-  status: 'waiting' | 'active' | 'ended';
+  role: RoomRole | null;
+  startedAt: number;
+  // Last time the call was recorded; final once the call has ended
+  endedAt: number;
+  // Peer ids of everyone else who joined
+  participants: string[];
+  // Spoken and caption languages used during the call
+  languages: string[];
+  // Calls still 'active' were interrupted, e.g. by closing the tab
+  status: 'active' | 'ended';
+}
+
+export interface CallHistoryEntry extends CallSession {
+  captions: Caption[];
 }
 
 export interface MediaState {
   audioEnabled: boolean;
   videoEnabled: boolean;
   stream: MediaStream | null;
+  screenSharing: boolean;
+}
+
+// Camera and microphone, which can be switched mid-call
+export type InputDeviceKind = 'audioinput' | 'videoinput';
+
+export interface MediaDeviceLists {
+  audioInputs: MediaDeviceInfo[];
+  videoInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+}
+
+// Chosen device IDs; undefined means the browser default
+export interface SelectedDevices {
+  audioinput?: string;
+  videoinput?: string;
+  audiooutput?: string;
+}
+
+// What the user set up in the lobby before joining
+export interface JoinSettings {
+  // Camera and microphone already opened for the preview
+  stream: MediaStream | null;
+  audioEnabled: boolean;
+  videoEnabled: boolean;
+  audioOutputId?: string;
+  // Shown to the host when asking to join
+  displayName: string;
+  // Shared secret for the session; empty for an open call
+  passphrase: string;
+  // As host, ask before letting each newcomer in
+  requireApproval: boolean;
+  // Encrypt audio and video end to end with everyone who does the same
+  encryptMedia: boolean;
+}
+
+// A newcomer waiting for the host to let them in
+export interface AdmissionRequest {
+  peerId: string;
+  displayName: string;
+}
+
+// End-to-end media encryption with one participant: 'pending' until their frames arrive
+// encrypted with the key we agreed, 'unencrypted' when they never send a key because they
+// turned it off, 'error' when they fail to decrypt, e.g. because their passphrase differs
+export type EncryptionStatus = 'pending' | 'encrypted' | 'unencrypted' | 'error';
+
+export interface EncryptionState {
+  peerId: string;
+  status: EncryptionStatus;
+  // Safety code both sides can compare to rule out an intercepted key exchange
+  fingerprint: string | null;
+}
+
+export interface RemoteParticipant {
+  peerId: string;
+  stream: MediaStream | null;
+  // The participant is sending their screen instead of their camera
+  screenSharing: boolean;
+}
+
+export type RoomRole = 'host' | 'guest';
+
+export interface RoomAssignment {
+  roomId: string;
+  peerId: string;
+  hostPeerId: string;
+  role: RoomRole;
+  // Secret proving our peer id to the room endpoints
+  token: string;
 }
 
 export interface Language {
@@ -28,10 +124,123 @@ export interface Language {
   name: string;
 }
 
-export type ConnectionState = 'connecting' | 'connected' | 'disconnected';
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
 
 export interface TranslationResponse {
   translatedText: string;
   sourceLanguage: string;
   targetLanguage: string;
 }
+
+export type CallQuality = 'excellent' | 'good' | 'fair' | 'poor' | 'unknown';
+
+// Normalized media statistics for one participant's connection
+export interface CallStats {
+  peerId: string;
+  timestamp: number;
+  // Milliseconds; null until the browser has measured them
+  roundTripTime: number | null;
+  jitter: number | null;
+  // Percentage of incoming packets lost since the previous sample
+  packetLoss: number | null;
+  // Kilobits per second since the previous sample
+  inboundBitrate: number | null;
+  outboundBitrate: number | null;
+  frameRate: number | null;
+  resolution: { width: number; height: number } | null;
+  // Local ICE candidate of the active pair; 'relay' means traffic goes through TURN
+  candidateType: RTCIceCandidateType | null;
+  quality: CallQuality;
+}
+
+// Chat messages: 'sent' awaits acknowledgements, 'delivered' once every recipient acknowledged,
+// 'failed' when nobody was connected to receive it
+export type ChatMessageStatus = 'sent' | 'delivered' | 'failed';
+
+export interface ChatMessage {
+  id: string;
+  sender: 'local' | 'remote';
+  // Peer ID of a remote sender
+  peerId?: string;
+  // Text to show, translated for remote messages when enabled
+  text: string;
+  originalText: string;
+  // Language of originalText, when the sender declared it
+  language?: string;
+  isTranslated: boolean;
+  timestamp: number;
+  // Delivery tracking, for local messages only
+  status?: ChatMessageStatus;
+  recipients?: string[];
+  deliveredTo?: string[];
+}
+
+// File transfers between participants
+// 'waiting' is an offer not yet accepted; 'paused' also covers a dropped connection
+export type FileTransferStatus =
+  | 'hashing'
+  | 'waiting'
+  | 'transferring'
+  | 'paused'
+  | 'verifying'
+  | 'completed'
+  | 'declined'
+  | 'cancelled'
+  | 'failed';
+
+export interface FileTransfer {
+  id: string;
+  peerId: string;
+  direction: 'outgoing' | 'incoming';
+  name: string;
+  size: number;
+  mimeType: string;
+  bytesTransferred: number;
+  status: FileTransferStatus;
+  // Why the transfer failed or paused on its own
+  error?: string;
+  // The received file, once verified
+  file?: Blob;
+}
+
+// Data channel protocol: every message is wrapped in a versioned envelope.
+// Add a message kind by adding its payload here and a validator in lib/webrtc/dataProtocol.ts.
+export interface DataMessagePayloads {
+  caption: { caption: Caption };
+  'participant-list': { peerIds: string[] };
+  'host-redirect': { hostPeerId: string };
+  'screen-share': { active: boolean };
+  // Sent before hanging up, so others drop us at once instead of waiting for us to reconnect
+  leave: Record<string, never>;
+  // Sent when the sender starts or stops recording the call
+  recording: { active: boolean };
+  // Chat message as typed, in the sender's language
+  chat: { id: string; text: string; language?: string; timestamp: number };
+  // Acknowledges a chat message back to its sender
+  'chat-ack': { id: string };
+  // Host asks a newcomer to identify itself before letting it into the call
+  'auth-challenge': { nonce: string; passphraseRequired: boolean; approvalRequired: boolean };
+  // Newcomer's answer; the proof is an HMAC of the nonce keyed with the passphrase
+  'join-request': { displayName: string; proof?: string };
+  'join-admitted': Record<string, never>;
+  'join-denied': { reason: string };
+  // Host tells the participants already in the call about someone it let in
+  'peer-admitted': { peerId: string };
+  // ECDH public key for end-to-end media encryption, base64 encoded
+  'e2ee-key': { publicKey: string };
+}
+
+export type DataMessageType = keyof DataMessagePayloads;
+
+export interface DataMessageEnvelope<T extends DataMessageType = DataMessageType> {
+  version: number;
+  id: string;
+  type: T;
+  // Peer ID of the participant that sent the message
+  sender: string;
+  timestamp: number;
+  payload: DataMessagePayloads[T];
+}
+
+// Discriminated union of all known messages, narrowed by `type`
+export type DataMessage = { [T in DataMessageType]: DataMessageEnvelope<T> }[DataMessageType];